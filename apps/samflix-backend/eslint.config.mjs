@@ -14,4 +14,13 @@ export default [
     },
     files: ['**/*.{js,mjs,cjs,ts,mts,cts}'],
   },
+  {
+    // Scripts are run with tsx and aren't part of the build, so they're linted without types
+    files: ['scripts/**/*.ts'],
+    languageOptions: {
+      parserOptions: {
+        project: null,
+      },
+    },
+  },
 ];
@@ -0,0 +1,61 @@
+// Script standing in for Clerk when testing the API without a Clerk instance
+// Serves a JWKS the backend verifies session tokens against and signs tokens for any user:
+//   npx tsx scripts/local-jwks.ts user_2abc   (prints a token for that Clerk ID)
+//   GET http://localhost:3999/v1/tokens/user_2abc   (signs another one)
+// Point the backend at it with CLERK_API_URL="http://localhost:3999" and any CLERK_SECRET_KEY;
+// the user must exist in the database, e.g. created by the Clerk webhook
+import http from 'http';
+import crypto from 'crypto';
+
+const PORT = Number(process.env.LOCAL_JWKS_PORT) || 3999;
+const TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+// A new key pair on every start, so tokens from earlier runs stop verifying
+const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const kid = `local_${crypto.randomBytes(8).toString('hex')}`;
+const jwks = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' }] };
+
+const base64url = (value: string | Buffer): string => Buffer.from(value).toString('base64url');
+
+function signToken(clerkId: string): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid }));
+  const payload = base64url(
+    JSON.stringify({
+      sub: clerkId,
+      sid: `sess_local_${clerkId}`,
+      iss: `http://localhost:${PORT}`,
+      azp: process.env.LOCAL_JWKS_AUTHORIZED_PARTY || undefined,
+      iat: now,
+      nbf: now - 5,
+      exp: now + TOKEN_TTL_SECONDS,
+    })
+  );
+  const signature = crypto.sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), privateKey);
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+  const tokenMatch = url.pathname.match(/^\/v1\/tokens\/([^/]+)$/);
+
+  if (req.method === 'GET' && url.pathname === '/v1/jwks') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(jwks));
+  } else if (req.method === 'GET' && tokenMatch) {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ token: signToken(decodeURIComponent(tokenMatch[1]!)) }));
+  } else {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Not found' }));
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`✅ Local JWKS served at http://localhost:${PORT}/v1/jwks`);
+  const clerkId = process.argv[2];
+  if (clerkId) {
+    console.log(`Session token for ${clerkId} (valid for 24 hours):`);
+    console.log(signToken(clerkId));
+  }
+});
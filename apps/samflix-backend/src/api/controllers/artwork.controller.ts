@@ -0,0 +1,45 @@
+import { Request, Response } from 'express';
+import { prisma } from '../../app';
+import { nfoService, ArtworkKind } from '../../services/scanner/nfo.service';
+
+// Local art changes rarely; browsers may keep it for a day
+const ARTWORK_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export const artworkController = {
+  /**
+   * GET /api/artwork/:mediaType/:tmdbId/:kind
+   * Serve the local poster or fanart kept next to a movie or series
+   */
+  getArtwork: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const mediaType = req.params.mediaType as 'movie' | 'series';
+      const tmdbId = parseInt(req.params.tmdbId!);
+      const kind = req.params.kind as ArtworkKind;
+
+      // Art is looked up next to the media files, so only files in the library can be served
+      const filePath =
+        mediaType === 'movie'
+          ? (await prisma.movie.findUnique({ where: { tmdbId }, select: { filePath: true } }))
+              ?.filePath
+          : (
+              await prisma.episode.findFirst({
+                where: { series: { tmdbId } },
+                select: { filePath: true },
+              })
+            )?.filePath;
+
+      const artwork = filePath ? await nfoService.findArtwork(filePath, mediaType) : {};
+      const imagePath = artwork[kind];
+
+      if (!imagePath) {
+        res.status(404).json({ error: 'Artwork not found' });
+        return;
+      }
+
+      res.sendFile(imagePath, { maxAge: ARTWORK_MAX_AGE_MS });
+    } catch (error) {
+      console.error('❌ Failed to serve artwork:', error);
+      res.status(500).json({ error: 'Failed to serve artwork' });
+    }
+  },
+};
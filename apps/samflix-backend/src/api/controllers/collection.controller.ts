@@ -0,0 +1,76 @@
+import { Request, Response } from 'express';
+import { collectionService } from '../../services/metadata/collection.service';
+import { localizationService } from '../../services/metadata/localization.service';
+import { maturityLimit } from '../middleware/auth.middleware';
+
+/**
+ * Maps service errors onto HTTP responses
+ */
+const handleError = (res: Response, error: unknown, fallback: string): void => {
+  const message = error instanceof Error ? error.message : '';
+
+  if (message === 'Collection not found') {
+    res.status(404).json({ error: message });
+  } else {
+    console.error(`❌ ${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  }
+};
+
+export const collectionController = {
+  /**
+   * GET /api/collections
+   * List the collections with movies in the library
+   */
+  getAllCollections: async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.status(200).json(await collectionService.listCollections(maturityLimit(req)));
+    } catch (error) {
+      handleError(res, error, 'Failed to fetch collections');
+    }
+  },
+
+  /**
+   * GET /api/collections/:id
+   * Get a collection with its parts in release order, owned or not
+   */
+  getCollectionById: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const collection = await collectionService.getCollection(req.params.id!, maturityLimit(req));
+      const languages: string[] = res.locals.languages;
+
+      res.status(200).json({
+        ...collection,
+        parts: collection.parts.map((part) => ({
+          ...part,
+          movie: part.movie && localizationService.localize(part.movie, languages),
+        })),
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to fetch collection');
+    }
+  },
+
+  /**
+   * GET /api/collections/continue/:clerkId
+   * Get the next movie of each collection a user has watched part of
+   */
+  getContinuations: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const continuations = await collectionService.getContinuations(
+        req.params.clerkId!,
+        maturityLimit(req)
+      );
+      const languages: string[] = res.locals.languages;
+
+      res.status(200).json(
+        continuations.map((continuation) => ({
+          ...continuation,
+          movie: localizationService.localize(continuation.movie, languages),
+        }))
+      );
+    } catch (error) {
+      handleError(res, error, 'Failed to fetch collections to continue');
+    }
+  },
+};
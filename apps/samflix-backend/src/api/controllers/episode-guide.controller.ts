@@ -0,0 +1,84 @@
+import { Request, Response } from 'express';
+import { episodeGuideService, GuideSeries } from '../../services/metadata/episode-guide.service';
+import { localizationService } from '../../services/metadata/localization.service';
+import { UpcomingEpisodesQuery } from '../validators/episode-guide.validator';
+import { maturityLimit } from '../middleware/auth.middleware';
+
+// How many days ahead upcoming episodes are listed by default
+const DEFAULT_UPCOMING_DAYS = 30;
+
+/**
+ * Maps service errors onto HTTP responses
+ */
+const handleError = (res: Response, error: unknown, fallback: string): void => {
+  const message = error instanceof Error ? error.message : '';
+
+  if (message === 'Series not found') {
+    res.status(404).json({ error: message });
+  } else if (message === 'Blocked by parental controls') {
+    res.status(403).json({ error: message });
+  } else {
+    console.error(`❌ ${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  }
+};
+
+const localizeSeries = (
+  series: GuideSeries,
+  languages: string[]
+): Omit<GuideSeries, 'localizations'> => localizationService.localize(series, languages);
+
+export const episodeGuideController = {
+  /**
+   * GET /api/series/:id/episode-guide
+   * Get the episodes of a series that aren't in the library, aired and upcoming
+   */
+  getSeriesStatus: async (req: Request, res: Response): Promise<void> => {
+    try {
+      res
+        .status(200)
+        .json(await episodeGuideService.getSeriesStatus(req.params.id!, maturityLimit(req)));
+    } catch (error) {
+      handleError(res, error, 'Failed to fetch the episode guide');
+    }
+  },
+
+  /**
+   * GET /api/series/missing-episodes
+   * List the series with aired episodes that aren't in the library
+   */
+  getMissing: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const missing = await episodeGuideService.listMissing(maturityLimit(req));
+      const languages: string[] = res.locals.languages;
+
+      res
+        .status(200)
+        .json(
+          missing.map((entry) => ({ ...entry, series: localizeSeries(entry.series, languages) }))
+        );
+    } catch (error) {
+      handleError(res, error, 'Failed to fetch missing episodes');
+    }
+  },
+
+  /**
+   * GET /api/series/upcoming-episodes
+   * List the episodes airing in the coming days across the library
+   */
+  getUpcoming: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { days = DEFAULT_UPCOMING_DAYS } = req.query as UpcomingEpisodesQuery;
+      const upcoming = await episodeGuideService.listUpcoming(days, maturityLimit(req));
+      const languages: string[] = res.locals.languages;
+
+      res
+        .status(200)
+        .json(
+          upcoming.map((entry) => ({ ...entry, series: localizeSeries(entry.series, languages) }))
+        );
+    } catch (error) {
+      handleError(res, error, 'Failed to fetch upcoming episodes');
+    }
+  },
+};
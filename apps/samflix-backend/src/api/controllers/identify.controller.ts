@@ -0,0 +1,74 @@
+import { Request, Response } from 'express';
+import { scannerService } from '../../services/scanner/scanner.service';
+import { IdentifySearchQuery } from '../validators/identify.validator';
+
+/**
+ * Maps service errors onto HTTP responses
+ */
+const handleError = (res: Response, error: unknown, fallback: string): void => {
+  const message = error instanceof Error ? error.message : '';
+
+  if (message === 'Movie not found' || message === 'Series not found') {
+    res.status(404).json({ error: message });
+  } else if (message.startsWith('Invalid match')) {
+    res.status(400).json({ error: message });
+  } else {
+    console.error(`❌ ${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  }
+};
+
+/**
+ * Lets an admin fix the TMDB match of movies and series already in the library
+ */
+export const identifyController = {
+  /**
+   * GET /api/movies/:id/identify
+   * Search TMDB for the movie a library entry should be matched to
+   */
+  searchMovie: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const search = req.query as IdentifySearchQuery;
+      res.status(200).json(await scannerService.searchMovieMatches(req.params.id!, search));
+    } catch (error) {
+      handleError(res, error, 'Failed to search TMDB for movie');
+    }
+  },
+
+  /**
+   * POST /api/movies/:id/identify
+   * Re-bind a movie to another TMDB entry
+   */
+  identifyMovie: async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.status(200).json(await scannerService.rematchMovie(req.params.id!, req.body.tmdbId));
+    } catch (error) {
+      handleError(res, error, 'Failed to identify movie');
+    }
+  },
+
+  /**
+   * GET /api/series/:id/identify
+   * Search TMDB for the series a library entry should be matched to
+   */
+  searchSeries: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const search = req.query as IdentifySearchQuery;
+      res.status(200).json(await scannerService.searchSeriesMatches(req.params.id!, search));
+    } catch (error) {
+      handleError(res, error, 'Failed to search TMDB for series');
+    }
+  },
+
+  /**
+   * POST /api/series/:id/identify
+   * Re-bind a series to another TMDB entry and rebuild its episodes
+   */
+  identifySeries: async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.status(200).json(await scannerService.rematchSeries(req.params.id!, req.body.tmdbId));
+    } catch (error) {
+      handleError(res, error, 'Failed to identify series');
+    }
+  },
+};
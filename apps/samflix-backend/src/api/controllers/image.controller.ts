@@ -0,0 +1,35 @@
+import { Request, Response } from 'express';
+import { imageCacheService, ImageFormat } from '../../services/images/image-cache.service';
+import { ImageQuery } from '../validators/image.validator';
+
+// Images are stored under the TMDB file name, which changes whenever the image does
+const IMAGE_MAX_AGE_MS = 365 * 24 * 60 * 60 * 1000;
+
+// Formats served to clients that accept them, most preferred first
+const NEGOTIATED_FORMATS: ImageFormat[] = ['avif', 'webp'];
+
+export const imageController = {
+  /**
+   * GET /api/images/:id
+   * Serve an image from the local store, resized to ?w= and in the best format the client accepts
+   */
+  getImage: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const accept = req.headers.accept ?? '';
+      const { w: width } = req.query as ImageQuery;
+      const formats = NEGOTIATED_FORMATS.filter((format) => accept.includes(`image/${format}`));
+
+      const imagePath = await imageCacheService.getImage(req.params.id!, width, formats);
+
+      res.vary('Accept');
+      res.sendFile(imagePath, { maxAge: IMAGE_MAX_AGE_MS, immutable: true });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Image not found') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      console.error('❌ Failed to serve image:', error);
+      res.status(500).json({ error: 'Failed to serve image' });
+    }
+  },
+};
@@ -1,5 +1,10 @@
 import { Request, Response } from "express";
+import type { Prisma, TranscodeStatus } from "@samflix/prisma-client";
 import { prisma } from "../../app";
+import { localizationService } from "../../services/metadata/localization.service";
+import { creditService } from "../../services/metadata/credit.service";
+import { certificationService } from "../../services/metadata/certification.service";
+import { maturityLimit } from "../middleware/auth.middleware";
 
 type AsyncRequestHandler = (req: Request, res: Response) => Promise<void>;
 
@@ -20,14 +25,16 @@ class MovieController {
       const limit = parseInt(req.query.limit as string) || 10;
       const genre = req.query.genre as string;
       const search = req.query.search as string;
-      const status = req.query.status as string;
+      const status = req.query.status as TranscodeStatus | undefined;
       const sortBy = (req.query.sortBy as string) || "title";
       const sortOrder = (req.query.sortOrder as "asc" | "desc") || "asc";
 
       const skip = (page - 1) * limit;
 
-      // Build where clause based on filters
-      const where: any = {};
+      // Build where clause based on filters, leaving out what the viewer may not watch
+      const where: Prisma.MovieWhereInput = certificationService.maturityFilter(
+        maturityLimit(req)
+      );
       if (genre) {
         where.genres = { hasSome: [genre] };
       }
@@ -35,6 +42,11 @@ class MovieController {
         where.OR = [
           { title: { contains: search, mode: "insensitive" } },
           { overview: { contains: search, mode: "insensitive" } },
+          {
+            localizations: {
+              some: { title: { contains: search, mode: "insensitive" } },
+            },
+          },
         ];
       }
       if (status) {
@@ -60,7 +72,9 @@ class MovieController {
       const totalPages = Math.ceil(total / limit);
 
       const response: PaginatedResponse<any> = {
-        data: movies,
+        data: movies.map((movie) =>
+          localizationService.localize(movie, res.locals.languages)
+        ),
         meta: {
           total,
           page,
@@ -81,14 +95,23 @@ class MovieController {
     try {
       const movie = await prisma.movie.findUnique({
         where: { id },
+        include: { credits: { include: { person: true } } },
       });
 
       if (!movie) {
         res.status(404).json({ error: "Movie not found" });
         return;
       }
+      if (!certificationService.isAllowed(movie, maturityLimit(req))) {
+        res.status(403).json({ error: "Blocked by parental controls" });
+        return;
+      }
 
-      res.json(movie);
+      const { credits, ...details } = movie;
+      res.json({
+        ...localizationService.localize(details, res.locals.languages),
+        ...creditService.summarize(credits),
+      });
     } catch (error) {
       console.error("Error fetching movie:", error);
       res.status(500).json({ error: "Failed to fetch movie" });
@@ -105,14 +128,24 @@ class MovieController {
 
       const movies = await prisma.movie.findMany({
         where: {
+          ...certificationService.maturityFilter(maturityLimit(req)),
           OR: [
             { title: { contains: query, mode: "insensitive" } },
+            {
+              localizations: {
+                some: { title: { contains: query, mode: "insensitive" } },
+              },
+            },
             { genres: { hasSome: [query] } },
           ],
         },
         orderBy: { title: "asc" },
       });
-      res.json(movies);
+      res.json(
+        movies.map((movie) =>
+          localizationService.localize(movie, res.locals.languages)
+        )
+      );
     } catch (error) {
       console.error("Error searching movies:", error);
       res.status(500).json({ error: "Failed to search movies" });
@@ -129,20 +162,26 @@ class MovieController {
 
       const movies = await prisma.movie.findMany({
         where: {
+          ...certificationService.maturityFilter(maturityLimit(req)),
           genres: { hasSome: [genre] },
         },
         orderBy: { title: "asc" },
       });
-      res.json(movies);
+      res.json(
+        movies.map((movie) =>
+          localizationService.localize(movie, res.locals.languages)
+        )
+      );
     } catch (error) {
       console.error("Error fetching movies by genre:", error);
       res.status(500).json({ error: "Failed to fetch movies by genre" });
     }
   };
 
-  getAllGenres: AsyncRequestHandler = async (_req, res) => {
+  getAllGenres: AsyncRequestHandler = async (req, res) => {
     try {
       const movies = await prisma.movie.findMany({
+        where: certificationService.maturityFilter(maturityLimit(req)),
         select: { genres: true },
       });
 
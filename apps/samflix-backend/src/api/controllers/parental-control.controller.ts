@@ -0,0 +1,47 @@
+import { Request, Response } from 'express';
+import { parentalControlService } from '../../services/parental-control.service';
+import { parentalPin } from '../middleware/auth.middleware';
+
+/**
+ * Maps service errors onto HTTP responses
+ */
+const handleError = (res: Response, error: unknown, fallback: string): void => {
+  const message = error instanceof Error ? error.message : '';
+
+  if (message.startsWith('Too many PIN attempts')) {
+    res.status(429).json({ error: message });
+  } else if (message.includes('PIN')) {
+    res.status(403).json({ error: message });
+  } else {
+    console.error(`❌ ${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  }
+};
+
+export const parentalControlController = {
+  /**
+   * GET /api/me/parental-controls
+   * Get the parental controls of the signed-in user's account
+   */
+  getControls: async (req: Request, res: Response): Promise<void> => {
+    res.status(200).json(parentalControlService.getControls(req.user!));
+  },
+
+  /**
+   * PUT /api/me/parental-controls
+   * Change the maturity limit or parental PIN of the signed-in user's account
+   */
+  updateControls: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { maturityLimit, pin } = req.body;
+      const controls = await parentalControlService.updateControls(
+        req.user!,
+        { maturityLimit, pin },
+        parentalPin(req)
+      );
+      res.status(200).json(controls);
+    } catch (error) {
+      handleError(res, error, 'Failed to update parental controls');
+    }
+  },
+};
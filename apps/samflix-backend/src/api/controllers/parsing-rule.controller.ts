@@ -0,0 +1,97 @@
+import { Request, Response } from 'express';
+import { parsingRuleService } from '../../services/parser/parsing-rule.service';
+
+/**
+ * Maps service errors onto HTTP responses
+ */
+const handleError = (res: Response, error: unknown, fallback: string): void => {
+  const message = error instanceof Error ? error.message : '';
+
+  if (message === 'Parsing rule not found') {
+    res.status(404).json({ error: message });
+  } else if (message.startsWith('Invalid parsing rule')) {
+    res.status(400).json({ error: message });
+  } else {
+    console.error(`❌ ${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  }
+};
+
+export const parsingRuleController = {
+  /**
+   * GET /api/parsing-rules
+   * List all parsing rules, highest priority first
+   */
+  listRules: async (_req: Request, res: Response): Promise<void> => {
+    try {
+      res.status(200).json(await parsingRuleService.listRules());
+    } catch (error) {
+      handleError(res, error, 'Failed to fetch parsing rules');
+    }
+  },
+
+  /**
+   * GET /api/parsing-rules/:id
+   * Get a single parsing rule
+   */
+  getRule: async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.status(200).json(await parsingRuleService.getRule(req.params.id!));
+    } catch (error) {
+      handleError(res, error, 'Failed to fetch parsing rule');
+    }
+  },
+
+  /**
+   * POST /api/parsing-rules
+   * Create a parsing rule
+   */
+  createRule: async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.status(201).json(await parsingRuleService.createRule(req.body));
+    } catch (error) {
+      handleError(res, error, 'Failed to create parsing rule');
+    }
+  },
+
+  /**
+   * PATCH /api/parsing-rules/:id
+   * Update a parsing rule
+   */
+  updateRule: async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.status(200).json(await parsingRuleService.updateRule(req.params.id!, req.body));
+    } catch (error) {
+      handleError(res, error, 'Failed to update parsing rule');
+    }
+  },
+
+  /**
+   * DELETE /api/parsing-rules/:id
+   * Delete a parsing rule
+   */
+  deleteRule: async (req: Request, res: Response): Promise<void> => {
+    try {
+      await parsingRuleService.deleteRule(req.params.id!);
+      res.status(200).json({ message: 'Parsing rule deleted successfully' });
+    } catch (error) {
+      handleError(res, error, 'Failed to delete parsing rule');
+    }
+  },
+
+  /**
+   * GET /api/parsing-rules/test?fileName=...&mediaType=movie|series
+   * Show which rule or built-in pattern matches a file name and what it extracts
+   */
+  testFileName: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const fileName = req.query.fileName as string;
+      const mediaType = req.query.mediaType as 'movie' | 'series';
+
+      const match = await parsingRuleService.testFileName(fileName, mediaType);
+      res.status(200).json({ fileName, mediaType, matched: !!match, match });
+    } catch (error) {
+      handleError(res, error, 'Failed to test file name');
+    }
+  },
+};
@@ -0,0 +1,69 @@
+import { Request, Response } from 'express';
+import type { Movie, TvSeries } from '@samflix/prisma-client';
+import { creditService, PersonCredit } from '../../services/metadata/credit.service';
+import { localizationService } from '../../services/metadata/localization.service';
+import { maturityLimit } from '../middleware/auth.middleware';
+
+/**
+ * Maps service errors onto HTTP responses
+ */
+const handleError = (res: Response, error: unknown, fallback: string): void => {
+  const message = error instanceof Error ? error.message : '';
+
+  if (message === 'Person not found') {
+    res.status(404).json({ error: message });
+  } else {
+    console.error(`❌ ${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  }
+};
+
+/**
+ * A credit with its movie or series in the request's languages
+ */
+const localizeCredit = (
+  credit: PersonCredit,
+  languages: string[]
+): Omit<PersonCredit, 'movie' | 'series'> & {
+  movie: Omit<Movie, 'localizations'> | null;
+  series: Omit<TvSeries, 'localizations'> | null;
+} => ({
+  ...credit,
+  movie: credit.movie && localizationService.localize(credit.movie, languages),
+  series: credit.series && localizationService.localize(credit.series, languages),
+});
+
+export const peopleController = {
+  /**
+   * GET /api/people/:id
+   * Get a person with their biography
+   */
+  getPerson: async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.status(200).json(await creditService.getPerson(req.params.id!));
+    } catch (error) {
+      handleError(res, error, 'Failed to fetch person');
+    }
+  },
+
+  /**
+   * GET /api/people/:id/credits
+   * Get a person's cast and crew credits on movies and series in the library
+   */
+  getPersonCredits: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { cast, crew } = await creditService.getPersonCredits(
+        req.params.id!,
+        maturityLimit(req)
+      );
+      const languages: string[] = res.locals.languages;
+
+      res.status(200).json({
+        cast: cast.map((credit) => localizeCredit(credit, languages)),
+        crew: crew.map((credit) => localizeCredit(credit, languages)),
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to fetch person credits');
+    }
+  },
+};
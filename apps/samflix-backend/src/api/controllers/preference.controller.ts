@@ -0,0 +1,115 @@
+import { Request, Response } from 'express';
+import { prisma } from '../../app';
+import { BASE_LANGUAGE, localizationService } from '../../services/metadata/localization.service';
+
+/**
+ * Maps errors onto HTTP responses
+ */
+const handleError = (res: Response, error: unknown, fallback: string): void => {
+  const message = error instanceof Error ? error.message : '';
+
+  if (message === 'User not found') {
+    res.status(404).json({ error: message });
+  } else if (message.startsWith('Invalid language')) {
+    res.status(400).json({ error: message });
+  } else {
+    console.error(`❌ ${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  }
+};
+
+export const preferenceController = {
+  /**
+   * GET /api/preferences/languages
+   * List the languages metadata is available in, English first
+   */
+  listLanguages: async (_req: Request, res: Response): Promise<void> => {
+    res.status(200).json({
+      languages: [BASE_LANGUAGE, ...localizationService.listLanguages()],
+    });
+  },
+
+  /**
+   * GET /api/preferences/:clerkId
+   * Get a user's preferences
+   */
+  getPreferences: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { clerkId: req.params.clerkId! },
+        select: { preferredLanguage: true },
+      });
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      res.status(200).json({ preferredLanguage: user.preferredLanguage ?? null });
+    } catch (error) {
+      handleError(res, error, 'Failed to fetch preferences');
+    }
+  },
+
+  /**
+   * PUT /api/preferences/:clerkId
+   * Update a user's preferences
+   */
+  updatePreferences: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { preferredLanguage } = req.body as { preferredLanguage: string | null };
+      if (preferredLanguage !== null) {
+        localizationService.validateLanguage(preferredLanguage);
+      }
+
+      const user = await prisma.user.findUnique({ where: { clerkId: req.params.clerkId! } });
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      const updated = await prisma.user.update({
+        where: { id: user.id },
+        data: { preferredLanguage },
+        select: { preferredLanguage: true },
+      });
+      res.status(200).json({ preferredLanguage: updated.preferredLanguage ?? null });
+    } catch (error) {
+      handleError(res, error, 'Failed to update preferences');
+    }
+  },
+
+  /**
+   * GET /api/me/preferences
+   * Get the preferences of the signed-in user, or of their profile when they picked one
+   */
+  getOwnPreferences: async (req: Request, res: Response): Promise<void> => {
+    const viewer = req.profile ?? req.user!;
+    res.status(200).json({ preferredLanguage: viewer.preferredLanguage ?? null });
+  },
+
+  /**
+   * PUT /api/me/preferences
+   * Update the preferences of the signed-in user, or of their profile when they picked one
+   */
+  updateOwnPreferences: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { preferredLanguage } = req.body as { preferredLanguage: string | null };
+      if (preferredLanguage !== null) {
+        localizationService.validateLanguage(preferredLanguage);
+      }
+
+      const updated = req.profile
+        ? await prisma.profile.update({
+            where: { id: req.profile.id },
+            data: { preferredLanguage },
+            select: { preferredLanguage: true },
+          })
+        : await prisma.user.update({
+            where: { id: req.user!.id },
+            data: { preferredLanguage },
+            select: { preferredLanguage: true },
+          });
+      res.status(200).json({ preferredLanguage: updated.preferredLanguage ?? null });
+    } catch (error) {
+      handleError(res, error, 'Failed to update preferences');
+    }
+  },
+};
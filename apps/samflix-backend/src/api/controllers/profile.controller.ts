@@ -0,0 +1,108 @@
+import { Request, Response } from 'express';
+import { profileService, ProfileInput } from '../../services/profile.service';
+import { parentalPin } from '../middleware/auth.middleware';
+
+/**
+ * Maps service errors onto HTTP responses
+ */
+const handleError = (res: Response, error: unknown, fallback: string): void => {
+  const message = error instanceof Error ? error.message : '';
+
+  if (message === 'Profile not found') {
+    res.status(404).json({ error: message });
+  } else if (message.startsWith('Profile limit reached')) {
+    res.status(409).json({ error: message });
+  } else if (message.startsWith('Invalid language')) {
+    res.status(400).json({ error: message });
+  } else if (message.startsWith('Too many PIN attempts')) {
+    res.status(429).json({ error: message });
+  } else if (message.includes('PIN')) {
+    res.status(403).json({ error: message });
+  } else {
+    console.error(`❌ ${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  }
+};
+
+/**
+ * The profile fields of a request body, leaving out anything else it has
+ */
+const profileInput = (body: Partial<ProfileInput>): Partial<ProfileInput> => ({
+  name: body.name?.trim(),
+  avatar: body.avatar,
+  maturityLimit: body.maturityLimit,
+  preferredLanguage: body.preferredLanguage,
+  pin: body.pin,
+});
+
+export const profileController = {
+  /**
+   * GET /api/me/profiles
+   * List the signed-in user's profiles
+   */
+  listProfiles: async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.status(200).json(await profileService.listProfiles(req.user!.id));
+    } catch (error) {
+      handleError(res, error, 'Failed to fetch profiles');
+    }
+  },
+
+  /**
+   * POST /api/me/profiles
+   * Add a profile to the signed-in user
+   */
+  createProfile: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const input = profileInput(req.body) as ProfileInput;
+      res.status(201).json(await profileService.createProfile(req.user!, input, parentalPin(req)));
+    } catch (error) {
+      handleError(res, error, 'Failed to create profile');
+    }
+  },
+
+  /**
+   * PATCH /api/me/profiles/:id
+   * Update a profile of the signed-in user
+   */
+  updateProfile: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const profile = await profileService.updateProfile(
+        req.user!,
+        req.params.id!,
+        profileInput(req.body),
+        parentalPin(req)
+      );
+      res.status(200).json(profile);
+    } catch (error) {
+      handleError(res, error, 'Failed to update profile');
+    }
+  },
+
+  /**
+   * POST /api/me/profiles/:id/unlock
+   * Exchange the PIN of a locked profile of the signed-in user for an unlock token
+   */
+  unlockProfile: async (req: Request, res: Response): Promise<void> => {
+    try {
+      res
+        .status(200)
+        .json(await profileService.unlockProfile(req.user!.id, req.params.id!, req.body.pin));
+    } catch (error) {
+      handleError(res, error, 'Failed to unlock profile');
+    }
+  },
+
+  /**
+   * DELETE /api/me/profiles/:id
+   * Delete a profile of the signed-in user along with its progress
+   */
+  deleteProfile: async (req: Request, res: Response): Promise<void> => {
+    try {
+      await profileService.deleteProfile(req.user!, req.params.id!, parentalPin(req));
+      res.status(204).send();
+    } catch (error) {
+      handleError(res, error, 'Failed to delete profile');
+    }
+  },
+};
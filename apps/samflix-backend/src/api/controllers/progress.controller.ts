@@ -1,9 +1,9 @@
 import { Request, Response } from "express";
-import redisClient, { RESUME_PROGRESS_TTL } from "../../services/redis.service";
+import { progressService } from "../../services/progress.service";
 import { cacheInvalidation, CacheInvalidationService } from "../middleware/cache-invalidation";
 
 /**
- * Progress controller for managing video resume playback
+ * Progress controller for managing video resume playback, kept in the watch history
  */
 export const progressController = {
   /**
@@ -12,7 +12,7 @@ export const progressController = {
    */
   saveProgress: async (req: Request, res: Response): Promise<void> => {
     try {
-      const { clerkId, tmdbId, currentTime } = req.body;
+      const { clerkId, tmdbId, currentTime, duration, completed } = req.body;
 
       // Validate required fields
       if (!clerkId || !tmdbId || currentTime === undefined) {
@@ -20,17 +20,7 @@ export const progressController = {
         return;
       }
 
-      // Create Redis key
-      const key = `resume:${clerkId}:${tmdbId}`;
-
-      // Create value object with current timestamp
-      const value = JSON.stringify({
-        currentTime,
-        updatedAt: new Date().toISOString(),
-      });
-
-      // Save to Redis with TTL
-      await redisClient.set(key, value, "EX", RESUME_PROGRESS_TTL);
+      await progressService.saveProgress(clerkId, tmdbId, { currentTime, duration, completed });
 
       res.status(204).send();
     } catch (error) {
@@ -47,20 +37,13 @@ export const progressController = {
     try {
       const { clerkId, tmdbId } = req.params;
 
-      // Create Redis key
-      const key = `resume:${clerkId}:${tmdbId}`;
-
-      // Get from Redis
-      const result = await redisClient.get(key);
+      const progress = await progressService.getProgress(clerkId!, tmdbId!);
 
-      if (!result) {
+      if (!progress) {
         res.status(404).json({ error: "Progress not found" });
         return;
       }
 
-      // Parse the JSON string
-      const progress = JSON.parse(result);
-
       res.status(200).json(progress);
     } catch (error) {
       console.error("Error getting progress:", error);
@@ -69,62 +52,14 @@ export const progressController = {
   },
 
   /**
-   * Get all progress entries for a specific user
+   * Get all progress entries for a specific user, most recently played first
    * @route GET /api/progress/:clerkId
    */
   getAllProgress: async (req: Request, res: Response): Promise<void> => {
     try {
       const { clerkId } = req.params;
 
-      // Create Redis key pattern for scanning
-      const pattern = `resume:${clerkId}:*`;
-
-      // Use Redis SCAN to get all matching keys
-      const keys: string[] = [];
-      let cursor = "0";
-
-      do {
-        // Use scan to get keys in batches
-        const result: [string, string[]] = await redisClient.scan(
-          cursor,
-          "MATCH",
-          pattern,
-          "COUNT",
-          "100"
-        );
-
-        cursor = result[0];
-        keys.push(...result[1]);
-      } while (cursor !== "0");
-
-      if (keys.length === 0) {
-        res.status(200).json([]);
-        return;
-      }
-
-      // Get all values for the found keys
-      const values = await Promise.all(
-        keys.map(async (key) => {
-          const value = await redisClient.get(key);
-          if (!value) return null;
-
-          // Extract tmdbId from the key
-          const tmdbId = key.split(":")[2];
-
-          // Parse the stored JSON
-          const progress = JSON.parse(value);
-
-          return {
-            tmdbId,
-            ...progress,
-          };
-        })
-      );
-
-      // Filter out any null values (in case a key was deleted between scan and get)
-      const validValues = values.filter(Boolean);
-
-      res.status(200).json(validValues);
+      res.status(200).json(await progressService.listMovieProgress(clerkId!));
     } catch (error) {
       console.error("Error getting all progress:", error);
       res.status(500).json({ error: "Failed to get all progress" });
@@ -139,13 +74,9 @@ export const progressController = {
     try {
       const { clerkId, tmdbId } = req.params;
 
-      // Create Redis key
-      const key = `resume:${clerkId}:${tmdbId}`;
-
-      // Delete from Redis
-      const result = await redisClient.del(key);
+      const deleted = await progressService.deleteProgress(clerkId!, tmdbId!);
 
-      if (result === 0) {
+      if (!deleted) {
         res.status(404).json({ error: "Progress not found" });
         return;
       }
@@ -161,59 +92,27 @@ export const progressController = {
 
   /**
    * Save or update series progress for a specific user and episode
-   * Invalidates any previous progress for the same series
+   * The series' current progress is that of the episode saved last
    * @route POST /api/progress/series
    */
   saveSeriesProgress: async (req: Request, res: Response): Promise<void> => {
     try {
-      const { clerkId, seriesId, tmdbId, currentTime } = req.body;
+      const { clerkId, seriesId, tmdbId, currentTime, duration, completed } = req.body;
 
       // Validate required fields
       if (!clerkId || !seriesId || !tmdbId || currentTime === undefined) {
-        res.status(400).json({ 
-          error: "Missing required fields: clerkId, seriesId, tmdbId, and currentTime are required" 
+        res.status(400).json({
+          error: "Missing required fields: clerkId, seriesId, tmdbId, and currentTime are required",
         });
         return;
       }
 
-      // First, find and delete any existing progress for this series
-      const seriesPattern = `series_resume:${clerkId}:${seriesId}:*`;
-      const keys: string[] = [];
-      let cursor = "0";
-
-      do {
-        // Use scan to get keys in batches
-        const result: [string, string[]] = await redisClient.scan(
-          cursor,
-          "MATCH",
-          seriesPattern,
-          "COUNT",
-          "100"
-        );
-
-        cursor = result[0];
-        keys.push(...result[1]);
-      } while (cursor !== "0");
-
-      // Delete all existing progress for this series
-      if (keys.length > 0) {
-        await redisClient.del(...keys);
-        console.log(`Invalidated ${keys.length} previous progress entries for series ${seriesId}`);
-      }
-
-      // Create new Redis key for series progress
-      const key = `series_resume:${clerkId}:${seriesId}:${tmdbId}`;
-
-      // Create value object with current timestamp
-      const value = JSON.stringify({
-        currentTime,
-        seriesId,
+      await progressService.saveProgress(
+        clerkId,
         tmdbId,
-        updatedAt: new Date().toISOString(),
-      });
-
-      // Save to Redis with TTL
-      await redisClient.set(key, value, "EX", RESUME_PROGRESS_TTL);
+        { currentTime, duration, completed },
+        seriesId
+      );
 
       res.status(204).send();
     } catch (error) {
@@ -230,20 +129,13 @@ export const progressController = {
     try {
       const { clerkId, seriesId, tmdbId } = req.params;
 
-      // Create Redis key
-      const key = `series_resume:${clerkId}:${seriesId}:${tmdbId}`;
-
-      // Get from Redis
-      const result = await redisClient.get(key);
+      const progress = await progressService.getProgress(clerkId!, tmdbId!, seriesId);
 
-      if (!result) {
+      if (!progress) {
         res.status(404).json({ error: "Series progress not found" });
         return;
       }
 
-      // Parse the JSON string
-      const progress = JSON.parse(result);
-
       res.status(200).json(progress);
     } catch (error) {
       console.error("Error getting series progress:", error);
@@ -259,58 +151,14 @@ export const progressController = {
     try {
       const { clerkId, seriesId } = req.params;
 
-      // Create Redis key pattern for scanning
-      const pattern = `series_resume:${clerkId}:${seriesId}:*`;
-
-      // Use Redis SCAN to get all matching keys
-      const keys: string[] = [];
-      let cursor = "0";
-
-      do {
-        // Use scan to get keys in batches
-        const result: [string, string[]] = await redisClient.scan(
-          cursor,
-          "MATCH",
-          pattern,
-          "COUNT",
-          "100"
-        );
+      const progress = await progressService.getCurrentSeriesProgress(clerkId!, seriesId!);
 
-        cursor = result[0];
-        keys.push(...result[1]);
-      } while (cursor !== "0");
-
-      if (keys.length === 0) {
+      if (!progress) {
         res.status(404).json({ error: "No series progress found" });
         return;
       }
 
-      // Get all values for the found keys and find the most recent one
-      const progressEntries = await Promise.all(
-        keys.map(async (key) => {
-          const value = await redisClient.get(key);
-          if (!value) return null;
-
-          // Parse the stored JSON
-          const progress = JSON.parse(value);
-          return progress;
-        })
-      );
-
-      // Filter out any null values and find the most recent entry
-      const validEntries = progressEntries.filter(Boolean);
-      
-      if (validEntries.length === 0) {
-        res.status(404).json({ error: "No valid series progress found" });
-        return;
-      }
-
-      // Sort by updatedAt and get the most recent
-      const latestProgress = validEntries.sort((a, b) => 
-        new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-      )[0];
-
-      res.status(200).json(latestProgress);
+      res.status(200).json(progress);
     } catch (error) {
       console.error("Error getting current series progress:", error);
       res.status(500).json({ error: "Failed to get current series progress" });
@@ -318,70 +166,15 @@ export const progressController = {
   },
 
   /**
-   * Get all series progress entries for a specific user
+   * Get all series progress entries for a specific user (latest episode of each series, most
+   * recently played first)
    * @route GET /api/progress/series/:clerkId
    */
   getAllSeriesProgress: async (req: Request, res: Response): Promise<void> => {
     try {
       const { clerkId } = req.params;
 
-      // Create Redis key pattern for scanning
-      const pattern = `series_resume:${clerkId}:*`;
-
-      // Use Redis SCAN to get all matching keys
-      const keys: string[] = [];
-      let cursor = "0";
-
-      do {
-        // Use scan to get keys in batches
-        const result: [string, string[]] = await redisClient.scan(
-          cursor,
-          "MATCH",
-          pattern,
-          "COUNT",
-          "100"
-        );
-
-        cursor = result[0];
-        keys.push(...result[1]);
-      } while (cursor !== "0");
-
-      if (keys.length === 0) {
-        res.status(200).json([]);
-        return;
-      }
-
-      // Get all values for the found keys
-      const values = await Promise.all(
-        keys.map(async (key) => {
-          const value = await redisClient.get(key);
-          if (!value) return null;
-
-          // Parse the stored JSON
-          const progress = JSON.parse(value);
-          return progress;
-        })
-      );
-
-      // Filter out any null values and group by series
-      const validValues = values.filter(Boolean);
-      
-      // Group by seriesId and keep only the most recent progress for each series
-      const seriesProgressMap = new Map();
-      
-      validValues.forEach((progress) => {
-        const existing = seriesProgressMap.get(progress.seriesId);
-        if (!existing || new Date(progress.updatedAt) > new Date(existing.updatedAt)) {
-          seriesProgressMap.set(progress.seriesId, progress);
-        }
-      });
-
-      // Convert map to array and sort by updatedAt (most recent first)
-      const result = Array.from(seriesProgressMap.values()).sort((a, b) => 
-        new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-      );
-
-      res.status(200).json(result);
+      res.status(200).json(await progressService.listSeriesProgress(clerkId!));
     } catch (error) {
       console.error("Error getting all series progress:", error);
       res.status(500).json({ error: "Failed to get all series progress" });
@@ -396,35 +189,13 @@ export const progressController = {
     try {
       const { clerkId, seriesId } = req.params;
 
-      // Create Redis key pattern for scanning
-      const pattern = `series_resume:${clerkId}:${seriesId}:*`;
-
-      // Use Redis SCAN to get all matching keys
-      const keys: string[] = [];
-      let cursor = "0";
+      const result = await progressService.deleteSeriesProgress(clerkId!, seriesId!);
 
-      do {
-        // Use scan to get keys in batches
-        const result: [string, string[]] = await redisClient.scan(
-          cursor,
-          "MATCH",
-          pattern,
-          "COUNT",
-          "100"
-        );
-
-        cursor = result[0];
-        keys.push(...result[1]);
-      } while (cursor !== "0");
-
-      if (keys.length === 0) {
+      if (result === 0) {
         res.status(404).json({ error: "Series progress not found" });
         return;
       }
 
-      // Delete all keys for this series
-      const result = await redisClient.del(...keys);
-
       console.log(`Deleted ${result} series progress entries for series ${seriesId}`);
 
       res.status(204).send();
@@ -441,10 +212,10 @@ export const progressController = {
   invalidateAllCache: async (_req: Request, res: Response): Promise<void> => {
     try {
       console.log("Manual cache invalidation requested");
-      
+
       // Clear all cache entries
       await CacheInvalidationService.clearAllCache();
-      
+
       res.status(200).json({
         success: true,
         message: "All cache entries have been invalidated successfully",
@@ -452,7 +223,7 @@ export const progressController = {
       });
     } catch (error) {
       console.error("Error invalidating all cache:", error);
-      res.status(500).json({ 
+      res.status(500).json({
         error: "Failed to invalidate cache",
         message: error instanceof Error ? error.message : "Unknown error",
       });
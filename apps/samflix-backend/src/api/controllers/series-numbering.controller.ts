@@ -0,0 +1,73 @@
+import { Request, Response } from 'express';
+import { prisma } from '../../app';
+import { episodeNumberingService } from '../../services/scanner/episode-numbering.service';
+import { scannerService } from '../../services/scanner/scanner.service';
+
+/**
+ * Maps service errors onto HTTP responses
+ */
+const handleError = (res: Response, error: unknown, fallback: string): void => {
+  const message = error instanceof Error ? error.message : '';
+
+  if (message === 'Series not found') {
+    res.status(404).json({ error: message });
+  } else if (message.startsWith('Invalid numbering')) {
+    res.status(400).json({ error: message });
+  } else {
+    console.error(`❌ ${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  }
+};
+
+const getSeriesTmdbId = async (seriesId: string): Promise<number> => {
+  const series = await prisma.tvSeries.findUnique({
+    where: { id: seriesId },
+    select: { tmdbId: true },
+  });
+
+  if (!series) {
+    throw new Error('Series not found');
+  }
+
+  return series.tmdbId;
+};
+
+export const seriesNumberingController = {
+  /**
+   * GET /api/series/:id/numbering
+   * Get the numbering scheme of a series and the TMDB episode groups it can use
+   */
+  getNumbering: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const tmdbId = await getSeriesTmdbId(req.params.id!);
+      const [numbering, episodeGroups] = await Promise.all([
+        episodeNumberingService.getNumbering(tmdbId),
+        episodeNumberingService.listEpisodeGroups(tmdbId),
+      ]);
+
+      res.status(200).json({ ...numbering, episodeGroups });
+    } catch (error) {
+      handleError(res, error, 'Failed to fetch series numbering');
+    }
+  },
+
+  /**
+   * PUT /api/series/:id/numbering
+   * Override the numbering scheme of a series and remap its episodes
+   */
+  updateNumbering: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const tmdbId = await getSeriesTmdbId(req.params.id!);
+      const numbering = await episodeNumberingService.setNumbering(tmdbId, req.body);
+      const renumbered = await scannerService.renumberSeries(req.params.id!);
+
+      res.status(200).json({
+        scheme: numbering.scheme,
+        episodeGroupId: numbering.episodeGroupId,
+        renumbered,
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to update series numbering');
+    }
+  },
+};
@@ -1,5 +1,10 @@
 import { Request, Response } from 'express';
+import type { Episode, Prisma, Season } from '@samflix/prisma-client';
 import { prisma } from '../../app';
+import { Localizable, localizationService } from '../../services/metadata/localization.service';
+import { creditService } from '../../services/metadata/credit.service';
+import { certificationService } from '../../services/metadata/certification.service';
+import { maturityLimit } from '../middleware/auth.middleware';
 
 type AsyncRequestHandler = (
   req: Request,
@@ -7,6 +12,18 @@ type AsyncRequestHandler = (
   next?: () => void
 ) => Promise<Response | void> | void;
 
+type LocalizedEpisode = Omit<Episode, 'localizations'>;
+
+type SeasonMetadata = Pick<Season, 'name' | 'overview' | 'posterPath' | 'airDate'> & {
+  id: string | null;
+};
+
+// A season as the API returns it, with its episodes
+type SeasonWithEpisodes = SeasonMetadata & {
+  seasonNumber: number;
+  episodes: LocalizedEpisode[];
+};
+
 interface PaginatedResponse<T> {
   data: T[];
   meta: {
@@ -29,8 +46,10 @@ class SeriesController {
 
       const skip = (page - 1) * limit;
 
-      // Build where clause based on filters
-      const where: any = {};
+      // Build where clause based on filters, leaving out what the viewer may not watch
+      const where: Prisma.TvSeriesWhereInput = certificationService.maturityFilter(
+        maturityLimit(req)
+      );
       if (genre) {
         where.genres = { hasSome: [genre] };
       }
@@ -38,6 +57,7 @@ class SeriesController {
         where.OR = [
           { title: { contains: search, mode: 'insensitive' } },
           { overview: { contains: search, mode: 'insensitive' } },
+          { localizations: { some: { title: { contains: search, mode: 'insensitive' } } } },
         ];
       }
 
@@ -54,16 +74,20 @@ class SeriesController {
           episodes: {
             orderBy: [{ seasonNumber: 'asc' }, { episodeNumber: 'asc' }],
           },
+          seasons: true,
         },
       });
 
       const totalPages = Math.ceil(total / limit);
 
       const response: PaginatedResponse<any> = {
-        data: series.map((s: any) => ({
-          ...s,
-          seasons: this.groupEpisodesIntoSeasons(s.episodes),
-        })),
+        data: series.map(({ seasons, ...s }) => {
+          const localized = this.localizeSeries(s, res.locals.languages);
+          return {
+            ...localized,
+            seasons: this.groupEpisodesIntoSeasons(localized.episodes, seasons),
+          };
+        }),
         meta: {
           total,
           page,
@@ -88,6 +112,8 @@ class SeriesController {
           episodes: {
             orderBy: [{ seasonNumber: 'asc' }, { episodeNumber: 'asc' }],
           },
+          credits: { include: { person: true } },
+          seasons: true,
         },
       });
 
@@ -95,11 +121,18 @@ class SeriesController {
         res.status(404).json({ error: 'Series not found' });
         return;
       }
+      if (!certificationService.isAllowed(series, maturityLimit(req))) {
+        res.status(403).json({ error: 'Blocked by parental controls' });
+        return;
+      }
 
       // Transform the data to group episodes by season
+      const { credits, seasons, ...details } = series;
+      const localized = this.localizeSeries(details, res.locals.languages);
       const seriesWithSeasons = {
-        ...series,
-        seasons: this.groupEpisodesIntoSeasons(series.episodes),
+        ...localized,
+        ...creditService.summarize(credits),
+        seasons: this.groupEpisodesIntoSeasons(localized.episodes, seasons),
       };
 
       res.json(seriesWithSeasons);
@@ -120,8 +153,10 @@ class SeriesController {
 
       const series = await prisma.tvSeries.findMany({
         where: {
+          ...certificationService.maturityFilter(maturityLimit(req)),
           OR: [
             { title: { contains: query, mode: 'insensitive' } },
+            { localizations: { some: { title: { contains: query, mode: 'insensitive' } } } },
             { genres: { hasSome: [query] } },
           ],
         },
@@ -132,7 +167,7 @@ class SeriesController {
           },
         },
       });
-      res.json(series);
+      res.json(series.map((s) => this.localizeSeries(s, res.locals.languages)));
     } catch (error) {
       console.error('Error searching series:', error);
       res.status(500).json({ error: 'Failed to search series' });
@@ -148,6 +183,10 @@ class SeriesController {
         res.status(400).json({ error: 'Invalid season number' });
         return;
       }
+      if (await this.isBlocked(seriesId!, req)) {
+        res.status(403).json({ error: 'Blocked by parental controls' });
+        return;
+      }
 
       const episodes = await prisma.episode.findMany({
         where: {
@@ -162,7 +201,17 @@ class SeriesController {
         return;
       }
 
-      res.json(episodes);
+      const season = await prisma.season.findUnique({
+        where: { season_identifier: { seriesId: seriesId!, seasonNumber: seasonNum } },
+      });
+
+      res.json({
+        ...this.seasonMetadata(season),
+        seasonNumber: seasonNum,
+        episodes: episodes.map((episode) =>
+          localizationService.localize(episode, res.locals.languages)
+        ),
+      });
       return;
     } catch (error) {
       console.error('Error fetching episodes:', error);
@@ -180,6 +229,7 @@ class SeriesController {
 
       const series = await prisma.tvSeries.findMany({
         where: {
+          ...certificationService.maturityFilter(maturityLimit(req)),
           genres: { hasSome: [genre] },
         },
         orderBy: { title: 'asc' },
@@ -189,7 +239,7 @@ class SeriesController {
           },
         },
       });
-      res.json(series);
+      res.json(series.map((s) => this.localizeSeries(s, res.locals.languages)));
     } catch (error) {
       console.error('Error fetching series by genre:', error);
       res.status(500).json({ error: 'Failed to fetch series by genre' });
@@ -206,6 +256,10 @@ class SeriesController {
         res.status(400).json({ error: 'Invalid season or episode number' });
         return;
       }
+      if (await this.isBlocked(seriesId!, req)) {
+        res.status(403).json({ error: 'Blocked by parental controls' });
+        return;
+      }
 
       const episode = await prisma.episode.findFirst({
         where: {
@@ -220,16 +274,17 @@ class SeriesController {
         return;
       }
 
-      res.json(episode);
+      res.json(localizationService.localize(episode, res.locals.languages));
     } catch (error) {
       console.error('Error fetching episode:', error);
       res.status(500).json({ error: 'Failed to fetch episode' });
     }
   };
 
-  getAllGenres: AsyncRequestHandler = async (_req, res) => {
+  getAllGenres: AsyncRequestHandler = async (req, res) => {
     try {
       const series = await prisma.tvSeries.findMany({
+        where: certificationService.maturityFilter(maturityLimit(req)),
         select: { genres: true },
       });
 
@@ -241,22 +296,60 @@ class SeriesController {
     }
   };
 
-  // Helper method to group episodes into seasons
-  private groupEpisodesIntoSeasons(episodes: any[]): any[] {
-    const seasonsMap = new Map<number, any>();
+  // Helper method to tell whether the viewer's maturity limit blocks a series; unknown series
+  // aren't, so they get their usual 404
+  private async isBlocked(seriesId: string, req: Request): Promise<boolean> {
+    const series = await prisma.tvSeries.findUnique({
+      where: { id: seriesId },
+      select: { certifications: true },
+    });
+    return !!series && !certificationService.isAllowed(series, maturityLimit(req));
+  }
+
+  // Helper method to localize a series along with its episodes
+  private localizeSeries<T extends Localizable & { episodes: Episode[] }>(
+    series: T,
+    languages: string[]
+  ): Omit<T, 'localizations'> & { episodes: LocalizedEpisode[] } {
+    return {
+      ...localizationService.localize(series, languages),
+      episodes: series.episodes.map((episode) => localizationService.localize(episode, languages)),
+    };
+  }
+
+  // Helper method to group episodes into seasons, with the stored metadata of each season
+  private groupEpisodesIntoSeasons(
+    episodes: LocalizedEpisode[],
+    seasons: Season[] = []
+  ): SeasonWithEpisodes[] {
+    const seasonsMap = new Map<number, SeasonWithEpisodes>();
 
     episodes.forEach((episode) => {
-      if (!seasonsMap.has(episode.seasonNumber)) {
-        seasonsMap.set(episode.seasonNumber, {
+      let season = seasonsMap.get(episode.seasonNumber);
+      if (!season) {
+        season = {
+          ...this.seasonMetadata(seasons.find((s) => s.seasonNumber === episode.seasonNumber)),
           seasonNumber: episode.seasonNumber,
           episodes: [],
-        });
+        };
+        seasonsMap.set(episode.seasonNumber, season);
       }
-      seasonsMap.get(episode.seasonNumber).episodes.push(episode);
+      season.episodes.push(episode);
     });
 
     return Array.from(seasonsMap.values()).sort((a, b) => a.seasonNumber - b.seasonNumber);
   }
+
+  // Helper method to pick the metadata of a season; null fields until its seasons are synced
+  private seasonMetadata(season: Season | null | undefined): SeasonMetadata {
+    return {
+      id: season?.id ?? null,
+      name: season?.name ?? null,
+      overview: season?.overview ?? null,
+      posterPath: season?.posterPath ?? null,
+      airDate: season?.airDate ?? null,
+    };
+  }
 }
 
 export const seriesController = new SeriesController();
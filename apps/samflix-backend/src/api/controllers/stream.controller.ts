@@ -0,0 +1,49 @@
+import { Request, Response } from 'express';
+import { streamService } from '../../services/stream.service';
+import { maturityLimit } from '../middleware/auth.middleware';
+
+/**
+ * Maps service errors onto HTTP responses
+ */
+const handleError = (res: Response, error: unknown, fallback: string): void => {
+  const message = error instanceof Error ? error.message : '';
+
+  if (message === 'Movie not found' || message === 'Episode not found') {
+    res.status(404).json({ error: message });
+  } else if (message === 'Video not transcoded') {
+    res.status(409).json({ error: message });
+  } else if (message === 'Blocked by parental controls') {
+    res.status(403).json({ error: message });
+  } else {
+    console.error(`❌ ${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  }
+};
+
+export const streamController = {
+  /**
+   * GET /api/stream/movies/:id
+   * Get a signed URL of a movie's HLS playlist
+   */
+  getMovieStream: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const url = await streamService.getMovieUrl(req.params.id!, maturityLimit(req));
+      res.status(200).json({ url });
+    } catch (error) {
+      handleError(res, error, 'Failed to get movie stream');
+    }
+  },
+
+  /**
+   * GET /api/stream/episodes/:id
+   * Get a signed URL of an episode's HLS playlist
+   */
+  getEpisodeStream: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const url = await streamService.getEpisodeUrl(req.params.id!, maturityLimit(req));
+      res.status(200).json({ url });
+    } catch (error) {
+      handleError(res, error, 'Failed to get episode stream');
+    }
+  },
+};
@@ -0,0 +1,204 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import express, { Request, Response } from 'express';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  store: new Map<string, string>(),
+  user: { findUnique: vi.fn() },
+  profile: { findFirst: vi.fn() },
+}));
+
+vi.mock('../../app', () => ({ prisma: { user: mocks.user, profile: mocks.profile } }));
+vi.mock('@clerk/express', () => ({
+  // Tokens in these tests are "token-<clerkId>"
+  verifyToken: vi.fn(async (token: string) => {
+    if (!token.startsWith('token-')) {
+      throw new Error('Invalid token');
+    }
+    return { sub: token.slice('token-'.length) };
+  }),
+}));
+vi.mock('../../services/redis.service', () => ({
+  default: {
+    get: vi.fn(async (key: string) => mocks.store.get(key) ?? null),
+    setex: vi.fn(async (key: string, _ttl: number, value: string) => {
+      mocks.store.set(key, value);
+      return 'OK';
+    }),
+  },
+}));
+vi.mock('../../services/metadata/localization.service', () => ({
+  localizationService: { negotiate: () => [] },
+}));
+
+import redisClient from '../../services/redis.service';
+import {
+  allowPublic,
+  asSignedInUser,
+  asUserProfile,
+  authenticate,
+  isAccessRule,
+  requireRole,
+  requireSelf,
+} from './auth.middleware';
+import { createCachedRouter } from './cache-routes';
+
+const USERS = {
+  user_admin: { id: 'admin', clerkId: 'user_admin', role: 'ADMIN', maturityLimit: null },
+  user_alice: { id: 'alice', clerkId: 'user_alice', role: 'USER', maturityLimit: null },
+  user_bob: { id: 'bob', clerkId: 'user_bob', role: 'USER', maturityLimit: null },
+};
+
+const echo = (req: Request, res: Response): void => {
+  res.json({ clerkId: req.params.clerkId ?? req.body?.clerkId ?? null, user: req.user?.clerkId });
+};
+
+// Routes as the API declares them, cached like the catalog routers
+const router = createCachedRouter();
+router.get('/public', allowPublic, echo);
+router.get('/admin', requireRole('ADMIN'), echo);
+router.get('/users/:clerkId', requireSelf('params'), echo);
+router.get('/me/:clerkId', asSignedInUser, echo);
+router.post('/me', asSignedInUser, echo);
+router.get('/progress/:clerkId', requireRole('ADMIN'), asUserProfile, echo);
+
+const app = express();
+app.use(express.json());
+app.use(authenticate);
+app.use('/api', router);
+
+let server: http.Server;
+let baseUrl: string;
+
+const request = async (
+  path: string,
+  clerkId?: string,
+  init: RequestInit = {}
+): Promise<{ status: number; body: Record<string, unknown> }> => {
+  const response = await fetch(`${baseUrl}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(clerkId ? { Authorization: `Bearer token-${clerkId}` } : {}),
+    },
+  });
+  return { status: response.status, body: (await response.json()) as Record<string, unknown> };
+};
+
+describe('auth middleware', () => {
+  beforeAll(async () => {
+    server = http.createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    mocks.store.clear();
+    vi.mocked(redisClient.get).mockClear();
+    mocks.user.findUnique.mockImplementation(
+      async ({ where }: { where: { clerkId: keyof typeof USERS } }) => USERS[where.clerkId] ?? null
+    );
+  });
+
+  it('declares the access rules so cached routers can run them first', () => {
+    expect(isAccessRule(requireRole('USER'))).toBe(true);
+    expect(isAccessRule(requireSelf('params'))).toBe(true);
+    expect(isAccessRule(asSignedInUser)).toBe(true);
+    expect(isAccessRule(allowPublic)).toBe(true);
+    expect(isAccessRule(echo)).toBe(false);
+  });
+
+  it('lets anyone through allowPublic, signed in or not', async () => {
+    expect(await request('/api/public')).toEqual({ status: 200, body: { clerkId: null } });
+  });
+
+  it('answers 401 without a session token', async () => {
+    expect((await request('/api/admin')).status).toBe(401);
+    expect((await request('/api/users/user_alice')).status).toBe(401);
+    expect((await request('/api/me/user_alice')).status).toBe(401);
+  });
+
+  it('answers 401 for a token that does not verify or an unknown user', async () => {
+    const forged = await fetch(`${baseUrl}/api/public`, {
+      headers: { Authorization: 'Bearer forged' },
+    });
+    expect(forged.status).toBe(401);
+    expect((await request('/api/public', 'user_mallory')).body).toEqual({ error: 'Unknown user' });
+  });
+
+  it('answers 403 below the required role', async () => {
+    expect(await request('/api/admin', 'user_alice')).toEqual({
+      status: 403,
+      body: { error: 'Insufficient role' },
+    });
+    expect((await request('/api/admin', 'user_admin')).status).toBe(200);
+  });
+
+  it("answers 403 for another user's data, except to admins", async () => {
+    expect(await request('/api/users/user_alice', 'user_bob')).toEqual({
+      status: 403,
+      body: { error: "Cannot access another user's data" },
+    });
+    expect((await request('/api/users/user_alice', 'user_alice')).status).toBe(200);
+    expect((await request('/api/users/user_alice', 'user_admin')).status).toBe(200);
+  });
+
+  it('acts for the signed-in user whatever Clerk ID the client sent', async () => {
+    expect((await request('/api/me/user_alice', 'user_bob')).body).toEqual({
+      clerkId: 'user_bob',
+      user: 'user_bob',
+    });
+    const posted = await request('/api/me', 'user_bob', {
+      method: 'POST',
+      body: JSON.stringify({ clerkId: 'user_alice' }),
+    });
+    expect(posted.body).toEqual({ clerkId: 'user_bob', user: 'user_bob' });
+  });
+
+  it("points an admin's progress route at one of the user's profiles", async () => {
+    mocks.profile.findFirst.mockImplementation(
+      async ({ where }: { where: { id: string; user: { clerkId: string } } }) =>
+        where.id === 'aaaaaaaaaaaaaaaaaaaaaaaa' && where.user.clerkId === 'user_alice'
+          ? { id: where.id }
+          : null
+    );
+
+    expect((await request('/api/progress/user_alice', 'user_admin')).body).toEqual({
+      clerkId: 'user_alice',
+      user: 'user_admin',
+    });
+    expect(
+      (await request('/api/progress/user_alice?profileId=aaaaaaaaaaaaaaaaaaaaaaaa', 'user_admin'))
+        .body
+    ).toEqual({ clerkId: 'aaaaaaaaaaaaaaaaaaaaaaaa', user: 'user_admin' });
+    expect(
+      await request('/api/progress/user_bob?profileId=aaaaaaaaaaaaaaaaaaaaaaaa', 'user_admin')
+    ).toEqual({ status: 404, body: { error: 'Profile not found' } });
+    expect((await request('/api/progress/user_alice?profileId=nope', 'user_admin')).status).toBe(
+      400
+    );
+  });
+
+  it('checks access before the cache, so cached responses only go to who may see them', async () => {
+    expect((await request('/api/admin', 'user_admin')).status).toBe(200);
+    expect((await request('/api/users/user_alice', 'user_alice')).status).toBe(200);
+    expect(mocks.store.size).toBe(2);
+    vi.mocked(redisClient.get).mockClear();
+
+    expect((await request('/api/admin')).status).toBe(401);
+    expect((await request('/api/admin', 'user_alice')).status).toBe(403);
+    expect((await request('/api/users/user_alice', 'user_bob')).status).toBe(403);
+    expect(redisClient.get).not.toHaveBeenCalled();
+
+    expect(await request('/api/admin', 'user_admin')).toEqual({
+      status: 200,
+      body: { clerkId: null, user: 'user_admin' },
+    });
+    expect(redisClient.get).toHaveBeenCalledTimes(1);
+  });
+});
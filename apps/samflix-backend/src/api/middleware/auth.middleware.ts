@@ -0,0 +1,277 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { verifyToken } from '@clerk/express';
+import type { Profile, Role, User } from '@samflix/prisma-client';
+import { prisma } from '../../app';
+import { parentalControlService } from '../../services/parental-control.service';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      /** The signed-in user, set by authenticate when the request carries a valid session token */
+      user?: User;
+      /** The profile of the user picked with the X-Profile-Id header, if any */
+      profile?: Profile;
+    }
+  }
+}
+
+// Session tokens are verified without a network call when the PEM public key is configured;
+// otherwise the signing keys are fetched from the JWKS of CLERK_API_URL with the secret key
+const VERIFY_OPTIONS = {
+  jwtKey: process.env.CLERK_JWT_KEY || undefined,
+  secretKey: process.env.CLERK_SECRET_KEY || undefined,
+  apiUrl: process.env.CLERK_API_URL || undefined,
+  authorizedParties: (process.env.CLERK_AUTHORIZED_PARTIES || '')
+    .split(',')
+    .map((party) => party.trim())
+    .filter(Boolean),
+};
+
+// Shared with the other Samflix services, such as the transcoder, that call the API without a
+// signed-in user; sent in the X-Service-Token header
+const SERVICE_TOKEN = process.env.SERVICE_TOKEN || '';
+
+// Profile IDs are MongoDB ObjectIds
+const PROFILE_ID = /^[a-f\d]{24}$/i;
+
+// Each role can do what the roles below it can
+const ROLE_RANKS: Record<Role, number> = { USER: 0, TESTER: 1, ADMIN: 2 };
+
+/**
+ * Middleware declaring who may call a route
+ * Generic over the route parameters so it can precede handlers typed for a route's params
+ */
+export type AccessRule = <P>(req: Request<P>, res: Response, next: NextFunction) => void;
+
+// Declared rules, so route wrappers can run them before anything else
+const accessRules = new WeakSet<AccessRule>();
+
+const declare = (rule: AccessRule): AccessRule => {
+  accessRules.add(rule);
+  return rule;
+};
+
+/**
+ * Whether a handler is a role requirement declared with requireRole, requireSelf, requireService or
+ * allowPublic
+ */
+export const isAccessRule = (handler: unknown): boolean =>
+  typeof handler === 'function' && accessRules.has(handler as AccessRule);
+
+// The scan job event stream is read with EventSource, which can't set headers, so it alone
+// takes the session token as a query parameter; paths are relative to /api
+const QUERY_TOKEN_ROUTE = /^\/scanner\/jobs\/[^/]+\/events$/;
+
+/**
+ * The session token of a request: the bearer token, or the token query parameter on the scan
+ * job event stream
+ */
+const sessionToken = (req: Request): string | null => {
+  const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+  if (scheme === 'Bearer' && token) {
+    return token;
+  }
+  if (req.method === 'GET' && QUERY_TOKEN_ROUTE.test(req.path)) {
+    return typeof req.query.token === 'string' ? req.query.token : null;
+  }
+  return null;
+};
+
+/**
+ * Masks the session token query parameter of a URL, so it never ends up in logs
+ */
+export const redactSessionToken = (url: string): string =>
+  url.replace(/([?&]token=)[^&#]*/g, '$1[redacted]');
+
+/**
+ * Middleware that verifies the session token of a request, if it has one, and attaches its user
+ * and the profile it picked with the X-Profile-Id header
+ * Requests without a token go on signed out; an invalid token, unknown user, a profile of
+ * another user or a locked profile without a valid unlock token (X-Profile-Token) is rejected
+ */
+export const authenticate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const token = sessionToken(req);
+  if (!token) {
+    next();
+    return;
+  }
+
+  try {
+    const { sub } = await verifyToken(token, VERIFY_OPTIONS);
+    const user = await prisma.user.findUnique({ where: { clerkId: sub } });
+    if (!user) {
+      res.status(401).json({ error: 'Unknown user' });
+      return;
+    }
+
+    const profileId = req.headers['x-profile-id'];
+    if (typeof profileId === 'string' && profileId) {
+      const profile = PROFILE_ID.test(profileId)
+        ? await prisma.profile.findFirst({ where: { id: profileId, userId: user.id } })
+        : null;
+      if (!profile) {
+        res.status(403).json({ error: 'Unknown profile' });
+        return;
+      }
+      if (!(await parentalControlService.isUnlocked(profile, req.get('X-Profile-Token')))) {
+        res.status(403).json({ error: 'Profile locked' });
+        return;
+      }
+      req.profile = profile;
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    console.warn('⚠️  Rejected session token:', error instanceof Error ? error.message : error);
+    res.status(401).json({ error: 'Invalid session token' });
+  }
+};
+
+/**
+ * Declares that a route needs a signed-in user with at least the given role
+ * @param role USER for any signed-in user, TESTER or ADMIN
+ */
+export const requireRole = (role: Role): AccessRule =>
+  declare((req, res, next) => {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+    if (ROLE_RANKS[req.user.role] < ROLE_RANKS[role]) {
+      res.status(403).json({ error: 'Insufficient role' });
+      return;
+    }
+    next();
+  });
+
+const requireAdmin = requireRole('ADMIN');
+
+/**
+ * Declares that a route is called by other Samflix services: it needs the SERVICE_TOKEN in the
+ * X-Service-Token header, or a signed-in admin
+ */
+export const requireService: AccessRule = declare((req, res, next) => {
+  const token = req.get('X-Service-Token');
+  if (token && SERVICE_TOKEN) {
+    // Compared as digests, so neither the length nor the content leaks through timing
+    const digest = (value: string): Buffer => crypto.createHash('sha256').update(value).digest();
+    if (crypto.timingSafeEqual(digest(token), digest(SERVICE_TOKEN))) {
+      next();
+      return;
+    }
+    res.status(403).json({ error: 'Invalid service token' });
+    return;
+  }
+  requireAdmin(req, res, next);
+});
+
+/**
+ * Declares that a route acts on a user's own data: the Clerk ID in the params or body must be
+ * the signed-in user's, unless they are an admin
+ * @param source Where the Clerk ID is
+ */
+export const requireSelf = (source: 'params' | 'body'): AccessRule =>
+  declare((req, res, next) => {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+    const clerkId = (req[source] as Record<string, unknown> | undefined)?.clerkId;
+    if (clerkId !== req.user.clerkId && req.user.role !== 'ADMIN') {
+      res.status(403).json({ error: "Cannot access another user's data" });
+      return;
+    }
+    next();
+  });
+
+/**
+ * The ID the progress of a request's viewer is kept under: their profile's, or their Clerk ID
+ * when they haven't picked one
+ */
+export const viewerId = (req: Pick<Request, 'user' | 'profile'>): string | undefined =>
+  req.profile?.id ?? req.user?.clerkId;
+
+/**
+ * The highest minimum age of content a request's viewer may watch: their profile's limit, or
+ * their account's when they haven't picked one; null when unrestricted, as signed-out requests are
+ */
+export const maturityLimit = (req: Pick<Request, 'user' | 'profile'>): number | null =>
+  req.profile ? req.profile.maturityLimit : (req.user?.maturityLimit ?? null);
+
+/**
+ * The parental PIN a request sent in the X-Parental-Pin header, to change parental controls
+ */
+export const parentalPin = (req: Request): string | undefined =>
+  req.get('X-Parental-Pin') || undefined;
+
+/**
+ * Declares that a route acts for the signed-in user: the Clerk ID controllers read from the params
+ * and body is set to their viewer ID, whatever the client sent
+ */
+export const asSignedInUser: AccessRule = declare((req, res, next) => {
+  if (!req.user) {
+    res.status(401).json({ error: 'Authentication required' });
+    return;
+  }
+  const clerkId = viewerId(req);
+  Object.assign(req.params as Record<string, string>, { clerkId });
+  if (req.body && typeof req.body === 'object') {
+    req.body = { ...req.body, clerkId };
+  }
+  next();
+});
+
+/**
+ * Middleware pointing a route acting on a user's progress by Clerk ID at one of their profiles:
+ * with a profileId query parameter, the Clerk ID controllers read from the params and body is
+ * replaced by the profile's ID, which its progress is kept under
+ * Answers 404 when the profile isn't one of that user's
+ */
+export const asUserProfile = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { profileId } = req.query;
+  if (profileId === undefined) {
+    next();
+    return;
+  }
+  if (typeof profileId !== 'string' || !PROFILE_ID.test(profileId)) {
+    res.status(400).json({ error: 'Invalid profile ID' });
+    return;
+  }
+
+  try {
+    const clerkId = req.params.clerkId ?? req.body?.clerkId;
+    const profile =
+      typeof clerkId === 'string'
+        ? await prisma.profile.findFirst({ where: { id: profileId, user: { clerkId } } })
+        : null;
+    if (!profile) {
+      res.status(404).json({ error: 'Profile not found' });
+      return;
+    }
+
+    Object.assign(req.params, { clerkId: profile.id });
+    if (req.body && typeof req.body === 'object') {
+      req.body = { ...req.body, clerkId: profile.id };
+    }
+    next();
+  } catch (error) {
+    console.error('Error resolving profile:', error);
+    res.status(500).json({ error: 'Failed to resolve profile' });
+  }
+};
+
+/**
+ * Declares that a route is open to everyone, signed in or not
+ */
+export const allowPublic: AccessRule = declare((_req, _res, next) => next());
@@ -35,6 +35,8 @@ export class CacheInvalidationService {
     } catch (error) {
       console.error(`Error clearing cache for key ${key}:`, error);
     }
+    // Localized and age-limited variants of the response are cached under "<key>#<variant>"
+    await this.clearPattern(`${key}#*`);
   }
 
   /**
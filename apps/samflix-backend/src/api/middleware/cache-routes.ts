@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { cacheMiddleware, CacheOptions } from './cache.middleware';
+import { isAccessRule } from './auth.middleware';
 
 /**
  * Default TTL values for different types of routes (in seconds)
@@ -44,8 +45,14 @@ export function applyCacheToAllRoutes(router: Router, defaultOptions: CacheOptio
     // Create cache options for this route
     const cacheOpts = { ...defaultOptions, ttl };
 
-    // Apply cache middleware before route handlers
-    return (originalGet as any)(path, cacheMiddleware(cacheOpts), ...handlers);
+    // Apply cache middleware before route handlers, but after the route's role requirements so
+    // cached responses only go to who may see them
+    return (originalGet as any)(
+      path,
+      ...handlers.filter(isAccessRule),
+      cacheMiddleware(cacheOpts),
+      ...handlers.filter((handler) => !isAccessRule(handler))
+    );
   };
 
   return router;
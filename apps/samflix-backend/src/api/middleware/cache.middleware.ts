@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import redisClient from '../../services/redis.service';
+import { localizationService } from '../../services/metadata/localization.service';
+import { maturityLimit } from './auth.middleware';
 
 /**
  * Configuration options for the cache middleware
@@ -18,18 +20,33 @@ export interface CacheOptions {
  */
 const DEFAULT_CACHE_TTL = 60 * 60; // 1 hour
 
+/**
+ * The suffix telling apart the cached variants of a response, to end every cache key with
+ * Responses are localized into the languages the request negotiates, and leave out what the
+ * viewer's maturity limit blocks
+ */
+export const cacheVariant = (req: Request): string => {
+  const languages = localizationService.negotiate(req.headers['accept-language']);
+  const limit = maturityLimit(req);
+  const variant = [languages.join(','), limit === null ? '' : `age${limit}`]
+    .filter(Boolean)
+    .join(';');
+  return variant ? `#${variant}` : '';
+};
+
 /**
  * Generate a cache key from the request
  */
 const generateCacheKey = (req: Request, includeQueryParams = true): string => {
   const baseUrl = `${req.baseUrl}${req.path}`;
+  const variantSuffix = cacheVariant(req);
 
   if (includeQueryParams && Object.keys(req.query).length > 0) {
     const queryParams = new URLSearchParams(req.query as Record<string, string>).toString();
-    return `cache:${baseUrl}?${queryParams}`;
+    return `cache:${baseUrl}?${queryParams}${variantSuffix}`;
   }
 
-  return `cache:${baseUrl}`;
+  return `cache:${baseUrl}${variantSuffix}`;
 };
 
 /**
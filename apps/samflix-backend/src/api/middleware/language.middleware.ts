@@ -0,0 +1,15 @@
+import { Request, Response, NextFunction } from 'express';
+import { BASE_LANGUAGE, localizationService } from '../../services/metadata/localization.service';
+
+/**
+ * Middleware that negotiates the metadata languages of a request from its Accept-Language
+ * header, for controllers to localize their responses with (res.locals.languages)
+ */
+export const negotiateLanguage = (req: Request, res: Response, next: NextFunction): void => {
+  const languages = localizationService.negotiate(req.headers['accept-language']);
+
+  res.locals.languages = languages;
+  res.setHeader('Content-Language', languages[0] ?? BASE_LANGUAGE);
+  res.vary('Accept-Language');
+  next();
+};
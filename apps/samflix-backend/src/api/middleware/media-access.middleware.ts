@@ -0,0 +1,17 @@
+import { Request, Response, NextFunction } from 'express';
+import { streamService } from '../../services/stream.service';
+
+/**
+ * Middleware that only lets through media requests with a valid signed URL, as handed out by
+ * /api/stream, and points them at the file the URL is for
+ */
+export const requireSignedMediaUrl = (req: Request, res: Response, next: NextFunction): void => {
+  const filePath = streamService.verify(req.path);
+  if (!filePath) {
+    res.status(403).json({ error: 'Invalid or expired media URL' });
+    return;
+  }
+
+  req.url = filePath.split('/').map(encodeURIComponent).join('/');
+  next();
+};
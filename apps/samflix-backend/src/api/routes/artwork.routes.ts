@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { allowPublic } from '../middleware/auth.middleware';
+import { artworkController } from '../controllers/artwork.controller';
+import { validateArtworkParams } from '../validators/artwork.validator';
+
+// Images are sent as files with their own cache headers, so the JSON response cache is skipped
+const router: Router = Router();
+
+/**
+ * @route GET /api/artwork/:mediaType/:tmdbId/:kind
+ * @desc Serve the local poster.jpg or fanart.jpg kept next to a movie or series
+ * @param mediaType - "movie" or "series"
+ * @param kind - "poster" or "fanart"
+ */
+router.get(
+  '/:mediaType/:tmdbId/:kind',
+  allowPublic,
+  validateArtworkParams,
+  artworkController.getArtwork
+);
+
+export default router;
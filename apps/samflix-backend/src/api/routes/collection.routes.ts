@@ -0,0 +1,42 @@
+import { createSmartCacheRouter } from '../middleware/cache-invalidation-middleware';
+import { allowPublic, requireSelf } from '../middleware/auth.middleware';
+import { collectionController } from '../controllers/collection.controller';
+import {
+  validateCollectionClerkIdParams,
+  validateCollectionParams,
+} from '../validators/collection.validator';
+
+// Create a router with caching for GET routes and automatic cache invalidation for POST/PUT/DELETE routes
+const router = createSmartCacheRouter(
+  // Cache options for GET routes
+  { ttl: 3600 },
+  // Invalidation options for data-modifying routes (simplified: clear all cache)
+  {}
+);
+
+/**
+ * @route GET /api/collections/continue/:clerkId
+ * @desc Get the next movie in the library of each collection a user has watched part of
+ * @returns { collection: Collection, movie: Movie }[], most recently watched collection first
+ */
+router.get(
+  '/continue/:clerkId',
+  requireSelf('params'),
+  validateCollectionClerkIdParams,
+  collectionController.getContinuations
+);
+
+/**
+ * @route GET /api/collections/:id
+ * @desc Get a collection with all of its parts in release order; parts missing from the
+ * library have no movie
+ */
+router.get('/:id', allowPublic, validateCollectionParams, collectionController.getCollectionById);
+
+/**
+ * @route GET /api/collections
+ * @desc List the collections with at least one movie in the library, by name
+ */
+router.get('/', allowPublic, collectionController.getAllCollections);
+
+export default router;
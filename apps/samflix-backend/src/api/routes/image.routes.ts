@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { allowPublic } from '../middleware/auth.middleware';
+import { imageController } from '../controllers/image.controller';
+import { validateImageParams, validateImageQuery } from '../validators/image.validator';
+
+// Images are sent as files with their own cache headers, so the JSON response cache is skipped
+const router: Router = Router();
+
+/**
+ * @route GET /api/images/:id
+ * @desc Serve TMDB artwork of the library from the local image store, downloading it first if needed
+ * @param id - The TMDB image file name, e.g. "kqjL17yufvn9OVLyXYpvtyrFfak.jpg"
+ * @query w - Width to resize to, one of the stored widths; the original when unset
+ */
+router.get('/:id', allowPublic, validateImageParams, validateImageQuery, imageController.getImage);
+
+export default router;
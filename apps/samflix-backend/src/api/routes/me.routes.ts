@@ -0,0 +1,260 @@
+import type { Request } from 'express';
+import { createSmartCacheRouter } from '../middleware/cache-invalidation-middleware';
+import { cacheVariant } from '../middleware/cache.middleware';
+import { asSignedInUser, requireRole, viewerId } from '../middleware/auth.middleware';
+import { progressController } from '../controllers/progress.controller';
+import { profileController } from '../controllers/profile.controller';
+import { preferenceController } from '../controllers/preference.controller';
+import { parentalControlController } from '../controllers/parental-control.controller';
+import { collectionController } from '../controllers/collection.controller';
+import {
+  validateSaveProgress,
+  validateProgressParams,
+  validateClerkIdParam,
+  validateSaveSeriesProgress,
+  validateSeriesProgressParams,
+  validateSeriesParams,
+} from '../validators/progress.validator';
+import {
+  validateCreateProfile,
+  validateUpdateProfile,
+  validateProfileParams,
+  validateUnlockProfile,
+} from '../validators/profile.validator';
+import { validateUpdateParentalControls } from '../validators/parental-control.validator';
+import { validateUpdatePreferences } from '../validators/preference.validator';
+import { validateCollectionClerkIdParams } from '../validators/collection.validator';
+
+// Create a router with caching for GET routes and automatic cache invalidation for POST/PUT/DELETE routes
+const router = createSmartCacheRouter(
+  // Cache options for GET routes; responses are the viewer's, so they are cached per viewer as
+  // well as per language and maturity limit
+  {
+    ttl: 1800, // 30 minutes cache for progress data
+    keyGenerator: (req: Request) =>
+      `cache:${req.baseUrl}/${viewerId(req)}${req.path}${cacheVariant(req)}`,
+  },
+  // Invalidation options for data-modifying routes (simplified: clear all cache)
+  {}
+);
+
+// Every route acts for the signed-in user, taken from the session token rather than the URL, and
+// for the profile they picked with the X-Profile-Id header
+// Adding and deleting profiles and changing maturity limits or PINs takes the account's parental
+// PIN in the X-Parental-Pin header, when it has one
+
+/**
+ * @route GET /api/me/profiles
+ * @desc List the signed-in user's profiles, oldest first
+ * @returns Profile[]
+ */
+router.get('/profiles', requireRole('USER'), profileController.listProfiles);
+
+/**
+ * @route POST /api/me/profiles
+ * @desc Add a profile; the first one takes over the progress saved without a profile
+ * @body { name: string, avatar?: string | null, maturityLimit?: number | null,
+ * preferredLanguage?: string | null, pin?: string | null }
+ * @returns Profile
+ */
+router.post(
+  '/profiles',
+  requireRole('USER'),
+  validateCreateProfile,
+  profileController.createProfile
+);
+
+/**
+ * @route PATCH /api/me/profiles/:id
+ * @desc Update a profile
+ * @body { name?, avatar?, maturityLimit?, preferredLanguage?, pin? }
+ * @returns Profile
+ */
+router.patch(
+  '/profiles/:id',
+  requireRole('USER'),
+  validateProfileParams,
+  validateUpdateProfile,
+  profileController.updateProfile
+);
+
+/**
+ * @route POST /api/me/profiles/:id/unlock
+ * @desc Exchange the PIN of a locked profile for a token to send with requests (X-Profile-Token)
+ * @body { pin: string }
+ * @returns { token: string, expiresAt: string }
+ */
+router.post(
+  '/profiles/:id/unlock',
+  requireRole('USER'),
+  validateProfileParams,
+  validateUnlockProfile,
+  profileController.unlockProfile
+);
+
+/**
+ * @route DELETE /api/me/profiles/:id
+ * @desc Delete a profile along with its progress
+ * @returns 204 No Content
+ */
+router.delete(
+  '/profiles/:id',
+  requireRole('USER'),
+  validateProfileParams,
+  profileController.deleteProfile
+);
+
+/**
+ * @route GET /api/me/parental-controls
+ * @desc Get the maturity limit applied without a profile and whether a parental PIN is set
+ * @returns { maturityLimit: number | null, hasPin: boolean }
+ */
+router.get('/parental-controls', requireRole('USER'), parentalControlController.getControls);
+
+/**
+ * @route PUT /api/me/parental-controls
+ * @desc Change the maturity limit applied without a profile or the parental PIN
+ * @body { maturityLimit?: number | null, pin?: string | null }
+ * @returns { maturityLimit: number | null, hasPin: boolean }
+ */
+router.put(
+  '/parental-controls',
+  requireRole('USER'),
+  validateUpdateParentalControls,
+  parentalControlController.updateControls
+);
+
+/**
+ * @route GET /api/me/preferences
+ * @desc Get the preferences of the profile, or of the user without one
+ * @returns { preferredLanguage: string | null }
+ */
+router.get('/preferences', requireRole('USER'), preferenceController.getOwnPreferences);
+
+/**
+ * @route PUT /api/me/preferences
+ * @desc Update the preferences of the profile, or of the user without one
+ * @body { preferredLanguage: string | null }
+ * @returns { preferredLanguage: string | null }
+ */
+router.put(
+  '/preferences',
+  requireRole('USER'),
+  validateUpdatePreferences,
+  preferenceController.updateOwnPreferences
+);
+
+/**
+ * @route GET /api/me/collections/continue
+ * @desc Get the next movie in the library of each collection the viewer has watched part of
+ * @returns { collection: Collection, movie: Movie }[], most recently watched collection first
+ */
+router.get(
+  '/collections/continue',
+  asSignedInUser,
+  validateCollectionClerkIdParams,
+  collectionController.getContinuations
+);
+
+/**
+ * @route POST /api/me/progress
+ * @desc Save or update the signed-in user's progress for a video
+ * @body { tmdbId: string, currentTime: number, duration?: number, completed?: boolean }
+ * @returns 204 No Content
+ */
+router.post('/progress', asSignedInUser, validateSaveProgress, progressController.saveProgress);
+
+/**
+ * @route GET /api/me/progress
+ * @desc Get all of the signed-in user's movie progress entries, most recently played first
+ * @returns PlaybackState[]
+ */
+router.get('/progress', asSignedInUser, validateClerkIdParam, progressController.getAllProgress);
+
+/**
+ * @route GET /api/me/progress/:tmdbId
+ * @desc Get the signed-in user's progress for a video
+ * @returns PlaybackState
+ */
+router.get(
+  '/progress/:tmdbId',
+  asSignedInUser,
+  validateProgressParams,
+  progressController.getProgress
+);
+
+/**
+ * @route DELETE /api/me/progress/:tmdbId
+ * @desc Delete the signed-in user's progress for a video
+ * @returns 204 No Content
+ */
+router.delete(
+  '/progress/:tmdbId',
+  asSignedInUser,
+  validateProgressParams,
+  progressController.deleteProgress
+);
+
+/**
+ * @route POST /api/me/series-progress
+ * @desc Save or update the signed-in user's progress for an episode, which becomes their current
+ * progress for the series
+ * @body { seriesId: string, tmdbId: string, currentTime: number, duration?: number, completed?: boolean }
+ * @returns 204 No Content
+ */
+router.post(
+  '/series-progress',
+  asSignedInUser,
+  validateSaveSeriesProgress,
+  progressController.saveSeriesProgress
+);
+
+/**
+ * @route GET /api/me/series-progress
+ * @desc Get the signed-in user's series progress entries (most recent per series)
+ * @returns PlaybackState[]
+ */
+router.get(
+  '/series-progress',
+  asSignedInUser,
+  validateClerkIdParam,
+  progressController.getAllSeriesProgress
+);
+
+/**
+ * @route GET /api/me/series-progress/:seriesId
+ * @desc Get the signed-in user's current progress for a series (latest episode)
+ * @returns PlaybackState
+ */
+router.get(
+  '/series-progress/:seriesId',
+  asSignedInUser,
+  validateSeriesParams,
+  progressController.getCurrentSeriesProgress
+);
+
+/**
+ * @route GET /api/me/series-progress/:seriesId/:tmdbId
+ * @desc Get the signed-in user's progress for an episode of a series
+ * @returns PlaybackState
+ */
+router.get(
+  '/series-progress/:seriesId/:tmdbId',
+  asSignedInUser,
+  validateSeriesProgressParams,
+  progressController.getSeriesProgress
+);
+
+/**
+ * @route DELETE /api/me/series-progress/:seriesId
+ * @desc Delete all of the signed-in user's progress for a series
+ * @returns 204 No Content
+ */
+router.delete(
+  '/series-progress/:seriesId',
+  asSignedInUser,
+  validateSeriesParams,
+  progressController.deleteSeriesProgress
+);
+
+export default router;
@@ -1,6 +1,13 @@
 import { movieController } from '../controllers/movie.controller';
+import { identifyController } from '../controllers/identify.controller';
+import {
+  validateIdentify,
+  validateIdentifyParams,
+  validateIdentifySearch,
+} from '../validators/identify.validator';
 import { createSmartCacheRouter } from '../middleware/cache-invalidation-middleware';
 import { RequestHandler } from 'express';
+import { allowPublic, requireRole } from '../middleware/auth.middleware';
 
 // Create a router with caching for GET routes and automatic cache invalidation for POST/PUT/DELETE routes
 const router = createSmartCacheRouter(
@@ -12,10 +19,36 @@ const router = createSmartCacheRouter(
 
 // Movie routes (caching is automatically applied to all GET routes)
 // Note: The order matters for Express routes - more specific routes should come before generic ones
-router.get('/genres/all', movieController.getAllGenres as RequestHandler);
-router.get('/genre/:genre', movieController.getMoviesByGenre as RequestHandler);
-router.get('/search/:query', movieController.searchMovies as RequestHandler);
-router.get('/:id', movieController.getMovieById as RequestHandler);
-router.get('/', movieController.getAllMovies as RequestHandler);
+router.get('/genres/all', allowPublic, movieController.getAllGenres as RequestHandler);
+router.get('/genre/:genre', allowPublic, movieController.getMoviesByGenre as RequestHandler);
+router.get('/search/:query', allowPublic, movieController.searchMovies as RequestHandler);
+/**
+ * @route GET /api/movies/:id/identify
+ * @desc Search TMDB for the movie a library entry should be matched to, scored against its file
+ * @query query? (defaults to the movie's title), year?
+ */
+router.get(
+  '/:id/identify',
+  requireRole('ADMIN'),
+  validateIdentifyParams,
+  validateIdentifySearch,
+  identifyController.searchMovie
+);
+
+/**
+ * @route POST /api/movies/:id/identify
+ * @desc Re-bind a movie to another TMDB entry and refresh its metadata
+ * @body { tmdbId: number }
+ */
+router.post(
+  '/:id/identify',
+  requireRole('ADMIN'),
+  validateIdentifyParams,
+  validateIdentify,
+  identifyController.identifyMovie
+);
+
+router.get('/:id', allowPublic, movieController.getMovieById as RequestHandler);
+router.get('/', allowPublic, movieController.getAllMovies as RequestHandler);
 
 export default router;
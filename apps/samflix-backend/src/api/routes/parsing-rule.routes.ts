@@ -0,0 +1,74 @@
+import { createSmartCacheRouter } from '../middleware/cache-invalidation-middleware';
+import { requireRole } from '../middleware/auth.middleware';
+import { parsingRuleController } from '../controllers/parsing-rule.controller';
+import {
+  validateCreateParsingRule,
+  validateParsingRuleParams,
+  validateTestParsingRule,
+  validateUpdateParsingRule,
+} from '../validators/parsing-rule.validator';
+
+// Create a router with caching for GET routes and automatic cache invalidation for POST/PUT/DELETE routes
+const router = createSmartCacheRouter(
+  // Cache options for GET routes
+  { ttl: 1800 }, // 30 minutes cache
+  // Invalidation options for data-modifying routes (simplified: clear all cache)
+  {}
+);
+
+/**
+ * @route GET /api/parsing-rules
+ * @desc List all filename parsing rules, highest priority first
+ */
+router.get('/', requireRole('ADMIN'), parsingRuleController.listRules);
+
+/**
+ * @route GET /api/parsing-rules/test
+ * @desc Show which rule or built-in pattern matches a file name and what it extracts
+ * @query fileName - File name, or a full path to exercise folder-scoped rules
+ * @query mediaType - "movie" or "series"
+ */
+router.get(
+  '/test',
+  requireRole('ADMIN'),
+  validateTestParsingRule,
+  parsingRuleController.testFileName
+);
+
+/**
+ * @route GET /api/parsing-rules/:id
+ * @desc Get a single parsing rule
+ */
+router.get('/:id', requireRole('ADMIN'), validateParsingRuleParams, parsingRuleController.getRule);
+
+/**
+ * @route POST /api/parsing-rules
+ * @desc Create a parsing rule
+ * @body { name, mediaType, pattern, flags?, priority?, enabled?, folderId? }
+ */
+router.post('/', requireRole('ADMIN'), validateCreateParsingRule, parsingRuleController.createRule);
+
+/**
+ * @route PATCH /api/parsing-rules/:id
+ * @desc Update a parsing rule
+ */
+router.patch(
+  '/:id',
+  requireRole('ADMIN'),
+  validateParsingRuleParams,
+  validateUpdateParsingRule,
+  parsingRuleController.updateRule
+);
+
+/**
+ * @route DELETE /api/parsing-rules/:id
+ * @desc Delete a parsing rule
+ */
+router.delete(
+  '/:id',
+  requireRole('ADMIN'),
+  validateParsingRuleParams,
+  parsingRuleController.deleteRule
+);
+
+export default router;
@@ -0,0 +1,27 @@
+import { createSmartCacheRouter } from '../middleware/cache-invalidation-middleware';
+import { allowPublic } from '../middleware/auth.middleware';
+import { peopleController } from '../controllers/people.controller';
+import { validatePersonParams } from '../validators/people.validator';
+
+// Create a router with caching for GET routes and automatic cache invalidation for POST/PUT/DELETE routes
+const router = createSmartCacheRouter(
+  // Cache options for GET routes
+  { ttl: 3600 },
+  // Invalidation options for data-modifying routes (simplified: clear all cache)
+  {}
+);
+
+/**
+ * @route GET /api/people/:id/credits
+ * @desc Get a person's cast and crew credits, limited to movies and series in the library
+ * @returns { cast: PersonCredit[], crew: PersonCredit[] }, newest first
+ */
+router.get('/:id/credits', allowPublic, validatePersonParams, peopleController.getPersonCredits);
+
+/**
+ * @route GET /api/people/:id
+ * @desc Get a person; their biography and dates are pulled from TMDB on the first request
+ */
+router.get('/:id', allowPublic, validatePersonParams, peopleController.getPerson);
+
+export default router;
@@ -0,0 +1,50 @@
+import { createSmartCacheRouter } from '../middleware/cache-invalidation-middleware';
+import { allowPublic, requireSelf } from '../middleware/auth.middleware';
+import { preferenceController } from '../controllers/preference.controller';
+import {
+  validatePreferenceParams,
+  validateUpdatePreferences,
+} from '../validators/preference.validator';
+
+// Create a router with caching for GET routes and automatic cache invalidation for POST/PUT/DELETE routes
+const router = createSmartCacheRouter(
+  // Cache options for GET routes
+  { ttl: 1800 }, // 30 minutes cache
+  // Invalidation options for data-modifying routes (simplified: clear all cache)
+  {}
+);
+
+/**
+ * @route GET /api/preferences/languages
+ * @desc List the languages metadata is available in ("en" and METADATA_LANGUAGES)
+ * @returns { languages: string[] }
+ */
+router.get('/languages', allowPublic, preferenceController.listLanguages);
+
+/**
+ * @route GET /api/preferences/:clerkId
+ * @desc Get a user's preferences
+ * @returns { preferredLanguage: string | null }
+ */
+router.get(
+  '/:clerkId',
+  requireSelf('params'),
+  validatePreferenceParams,
+  preferenceController.getPreferences
+);
+
+/**
+ * @route PUT /api/preferences/:clerkId
+ * @desc Update a user's preferences; clients send preferredLanguage as their Accept-Language
+ * @body { preferredLanguage: string | null }
+ * @returns { preferredLanguage: string | null }
+ */
+router.put(
+  '/:clerkId',
+  requireSelf('params'),
+  validatePreferenceParams,
+  validateUpdatePreferences,
+  preferenceController.updatePreferences
+);
+
+export default router;
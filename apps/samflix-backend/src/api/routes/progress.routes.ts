@@ -1,4 +1,5 @@
 import { createSmartCacheRouter } from '../middleware/cache-invalidation-middleware';
+import { asUserProfile, requireRole, requireService } from '../middleware/auth.middleware';
 import { progressController } from "../controllers/progress.controller";
 import {
   validateSaveProgress,
@@ -17,20 +18,24 @@ const router = createSmartCacheRouter(
   {}
 );
 
+// These routes act on any user's progress by Clerk ID, so they are for admins; users manage their
+// own through /api/me
+// Progress of a profile is kept under the profile's ID; ?profileId=<id> picks one of the user's
+
 /**
  * @route POST /api/progress
  * @desc Save or update progress for a specific user and video
- * @body { clerkId: string, tmdbId: string, currentTime: number }
+ * @body { clerkId: string, tmdbId: string, currentTime: number, duration?: number, completed?: boolean }
  * @returns 204 No Content
  */
-router.post('/', validateSaveProgress, progressController.saveProgress);
+router.post('/', requireRole('ADMIN'), validateSaveProgress, asUserProfile, progressController.saveProgress);
 
 /**
  * @route GET /api/progress/:clerkId/:tmdbId
  * @desc Get progress for a specific user and video
- * @returns { currentTime: number, updatedAt: string }
+ * @returns { tmdbId: string, currentTime: number, duration: number | null, completed: boolean, completedAt: string | null, playCount: number, createdAt: string, updatedAt: string }
  */
-router.get('/:clerkId/:tmdbId', validateProgressParams, progressController.getProgress);
+router.get('/:clerkId/:tmdbId', requireRole('ADMIN'), validateProgressParams, asUserProfile, progressController.getProgress);
 
 // Note: More specific routes must come BEFORE generic routes to avoid conflicts
 
@@ -39,54 +44,54 @@ router.get('/:clerkId/:tmdbId', validateProgressParams, progressController.getPr
  * @desc Delete progress for a specific user and video
  * @returns 204 No Content
  */
-router.delete('/:clerkId/:tmdbId', validateProgressParams, progressController.deleteProgress);
+router.delete('/:clerkId/:tmdbId', requireRole('ADMIN'), validateProgressParams, asUserProfile, progressController.deleteProgress);
 
 // Series Progress Routes
 
 /**
  * @route POST /api/progress/series
- * @desc Save or update series progress for a specific user and episode (invalidates previous progress for same series)
- * @body { clerkId: string, seriesId: string, tmdbId: string, currentTime: number }
+ * @desc Save or update series progress for a specific user and episode (becomes the series' current progress)
+ * @body { clerkId: string, seriesId: string, tmdbId: string, currentTime: number, duration?: number, completed?: boolean }
  * @returns 204 No Content
  */
-router.post('/series', validateSaveSeriesProgress, progressController.saveSeriesProgress);
+router.post('/series', requireRole('ADMIN'), validateSaveSeriesProgress, asUserProfile, progressController.saveSeriesProgress);
 
 /**
  * @route GET /api/progress/series/:clerkId/:seriesId/:tmdbId
  * @desc Get series progress for a specific user, series, and episode
- * @returns { currentTime: number, seriesId: string, tmdbId: string, updatedAt: string }
+ * @returns { tmdbId: string, seriesId: string, currentTime: number, duration: number | null, completed: boolean, completedAt: string | null, playCount: number, createdAt: string, updatedAt: string }
  */
-router.get('/series/:clerkId/:seriesId/:tmdbId', validateSeriesProgressParams, progressController.getSeriesProgress);
+router.get('/series/:clerkId/:seriesId/:tmdbId', requireRole('ADMIN'), validateSeriesProgressParams, asUserProfile, progressController.getSeriesProgress);
 
 /**
  * @route GET /api/progress/series/:clerkId/:seriesId
  * @desc Get current series progress for a specific user and series (latest episode)
- * @returns { currentTime: number, seriesId: string, tmdbId: string, updatedAt: string }
+ * @returns { tmdbId: string, seriesId: string, currentTime: number, duration: number | null, completed: boolean, completedAt: string | null, playCount: number, createdAt: string, updatedAt: string }
  */
-router.get('/series/:clerkId/:seriesId', validateSeriesParams, progressController.getCurrentSeriesProgress);
+router.get('/series/:clerkId/:seriesId', requireRole('ADMIN'), validateSeriesParams, asUserProfile, progressController.getCurrentSeriesProgress);
 
 /**
  * @route GET /api/progress/series/:clerkId
  * @desc Get all series progress entries for a specific user (most recent per series)
- * @returns Array of { currentTime: number, seriesId: string, tmdbId: string, updatedAt: string }
+ * @returns Array of { tmdbId: string, seriesId: string, currentTime: number, duration: number | null, completed: boolean, completedAt: string | null, playCount: number, createdAt: string, updatedAt: string }
  */
-router.get('/series/:clerkId', validateClerkIdParam, progressController.getAllSeriesProgress);
+router.get('/series/:clerkId', requireRole('ADMIN'), validateClerkIdParam, asUserProfile, progressController.getAllSeriesProgress);
 
 /**
  * @route DELETE /api/progress/series/:clerkId/:seriesId
  * @desc Delete all series progress for a specific user and series
  * @returns 204 No Content
  */
-router.delete('/series/:clerkId/:seriesId', validateSeriesParams, progressController.deleteSeriesProgress);
+router.delete('/series/:clerkId/:seriesId', requireRole('ADMIN'), validateSeriesParams, asUserProfile, progressController.deleteSeriesProgress);
 
 // Movie Progress Routes (must come AFTER series routes to avoid conflicts)
 
 /**
  * @route GET /api/progress/:clerkId
  * @desc Get all movie progress entries for a specific user
- * @returns Array of { tmdbId: string, currentTime: number, updatedAt: string }
+ * @returns Array of { tmdbId: string, currentTime: number, duration: number | null, completed: boolean, completedAt: string | null, playCount: number, createdAt: string, updatedAt: string }
  */
-router.get('/:clerkId', validateClerkIdParam, progressController.getAllProgress);
+router.get('/:clerkId', requireRole('ADMIN'), validateClerkIdParam, asUserProfile, progressController.getAllProgress);
 
 // Cache Management Routes
 
@@ -95,6 +100,6 @@ router.get('/:clerkId', validateClerkIdParam, progressController.getAllProgress)
  * @desc Invalidate all cache entries in the system
  * @returns { success: boolean, message: string, timestamp: string }
  */
-router.post('/invalidate-cache', progressController.invalidateAllCache);
+router.post('/invalidate-cache', requireService, progressController.invalidateAllCache);
 
 export default router;
@@ -1,7 +1,13 @@
-import { createSmartCacheRouter } from '../middleware/cache-invalidation-middleware';
+import { Router } from 'express';
 import type { Request, Response, NextFunction } from 'express';
+import type { ScanJobStatus } from '@samflix/prisma-client';
+import { createSmartCacheRouter } from '../middleware/cache-invalidation-middleware';
+import { requireRole } from '../middleware/auth.middleware';
 import { prisma } from '../../app';
 import { scannerService } from '../../services/scanner/scanner.service';
+import { scanJobService, ScanJobEvent } from '../../services/scanner/scan-job.service';
+import { folderWatcherService } from '../../services/scanner/folder-watcher.service';
+import { metadataProviderService } from '../../services/metadata/metadata-provider.service';
 
 type AsyncRouteHandler<P = Record<string, string>, ResBody = unknown, ReqBody = unknown> = (
   req: Request<P, ResBody, ReqBody>,
@@ -9,16 +15,11 @@ type AsyncRouteHandler<P = Record<string, string>, ResBody = unknown, ReqBody =
   next: NextFunction
 ) => Promise<void>;
 
-interface MediaFolder {
-  id: string;
-  type: string;
-  path: string;
-  active: boolean;
-}
-
 interface FolderBody {
   path: string;
   type: 'movies' | 'series';
+  watch?: boolean;
+  metadataProviders?: string[];
 }
 
 interface UpdateFolderParams {
@@ -26,7 +27,9 @@ interface UpdateFolderParams {
 }
 
 interface UpdateFolderBody {
-  active: boolean;
+  active?: boolean;
+  watch?: boolean;
+  metadataProviders?: string[];
 }
 
 interface ResolveConflictParams {
@@ -37,6 +40,25 @@ interface ResolveConflictBody {
   selectedId: number;
 }
 
+interface ScanJobParams {
+  id: string;
+}
+
+interface StartJobBody {
+  fullRescan?: boolean;
+}
+
+const SCAN_JOB_STATUSES: ScanJobStatus[] = [
+  'QUEUED',
+  'RUNNING',
+  'COMPLETED',
+  'FAILED',
+  'CANCELLED',
+];
+
+// Interval for SSE comments that keep idle proxies from closing the stream
+const SSE_KEEPALIVE_MS = 25000;
+
 // Start a manual scan
 // Create a router with caching for GET routes and automatic cache invalidation for POST/PUT/DELETE routes
 const router = createSmartCacheRouter(
@@ -46,62 +68,79 @@ const router = createSmartCacheRouter(
   {}
 );
 
-const scanHandler: AsyncRouteHandler = async (_req, res) => {
+/**
+ * Streams a scan job's events over SSE until the job finishes or the client disconnects
+ * Closing the stream does not stop the scan; clients can re-attach at any time
+ */
+const streamJobEvents = async <P>(jobId: string, req: Request<P>, res: Response): Promise<void> => {
+  // Set headers for SSE
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.flushHeaders();
+
+  const send = (event: ScanJobEvent): void => {
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  };
+
+  let closed = false;
+  let unsubscribe = (): void => {};
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), SSE_KEEPALIVE_MS);
+
+  const close = (): void => {
+    if (closed) return;
+    closed = true;
+    clearInterval(keepAlive);
+    unsubscribe();
+    res.end();
+  };
+
+  req.on('close', close);
+
+  // Subscribe before reading the snapshot so no event is missed in between
+  unsubscribe = scanJobService.subscribe(jobId, (event) => {
+    send(event);
+    if (event.complete) {
+      close();
+    }
+  });
+
+  // Send the current state first so re-attaching clients catch up immediately
+  const job = await scanJobService.getJob(jobId);
+  const snapshot = scanJobService.toEvent(job);
+  send(snapshot);
+  if (snapshot.complete) {
+    close();
+  }
+};
+
+// Start a manual scan (or attach to the running one) and stream its progress
+const scanHandler: AsyncRouteHandler = async (req, res) => {
   try {
-    // Set headers for SSE
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.flushHeaders();
-
-    const folders = await prisma.mediaFolder.findMany({
-      select: { id: true, path: true, type: true, active: true },
-      where: { active: true },
-    });
+    const activeJob = await scanJobService.getActiveJob();
+    const fullRescan = req.query.fullRescan === 'true';
+    const job = activeJob ?? (await scanJobService.startJob('manual', { fullRescan }));
 
-    const config = {
-      moviePaths: folders
-        .filter((f: MediaFolder) => f.type === 'movies')
-        .map((f: MediaFolder) => f.path),
-      seriesPaths: folders
-        .filter((f: MediaFolder) => f.type === 'series')
-        .map((f: MediaFolder) => f.path),
-      fileExtensions: ['.mp4', '.mkv', '.avi'],
-    };
-
-    // Send initial message
-    res.write(`data: ${JSON.stringify({ status: 'Starting scan', progress: 0 })}\n\n`);
-
-    // Define progress callback
-    const progressCallback = (status: string, progress: number, details?: unknown): void => {
-      const data = JSON.stringify({ status, progress, details });
-      res.write(`data: ${data}\n\n`);
-    };
-
-    // Start scanning with progress reporting
-    const results = await scannerService.scanAll(config, progressCallback);
-
-    // Send final message with results
-    res.write(
-      `data: ${JSON.stringify({
-        status: 'Scan completed',
-        progress: 100,
-        details: results,
-        complete: true,
-      })}\n\n`
-    );
-
-    // End the response
-    res.end();
+    await streamJobEvents(job.id, req, res);
   } catch (error) {
     console.error('Error during scan:', error);
+    if (!res.headersSent) {
+      // Another trigger started a scan between the lookup above and startJob
+      if (error instanceof Error && error.message === 'A scan is already running') {
+        const activeJob = await scanJobService.getActiveJob();
+        res.status(409).json({ error: error.message, job: activeJob });
+      } else {
+        res.status(500).json({ error: 'Failed to start scan' });
+      }
+      return;
+    }
     // Try to send error to client if connection is still open
     try {
       res.write(
         `data: ${JSON.stringify({
-          status: 'Error',
-          error: 'Failed to complete scan',
+          status: 'FAILED',
+          message: 'Failed to complete scan',
           complete: true,
         })}\n\n`
       );
@@ -112,22 +151,147 @@ const scanHandler: AsyncRouteHandler = async (_req, res) => {
   }
 };
 
+// Start a new scan job
+const startJobHandler: AsyncRouteHandler<Record<string, string>, unknown, StartJobBody> = async (
+  req,
+  res
+) => {
+  try {
+    const fullRescan = req.body?.fullRescan === true;
+    const job = await scanJobService.startJob('manual', { fullRescan });
+    res.status(202).json(job);
+  } catch (error) {
+    console.error('Error starting scan job:', error);
+    if (error instanceof Error && error.message === 'A scan is already running') {
+      const activeJob = await scanJobService.getActiveJob();
+      res.status(409).json({ error: error.message, job: activeJob });
+    } else if (error instanceof Error && error.message === 'No active media folders configured') {
+      res.status(400).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Failed to start scan job' });
+    }
+  }
+};
+
+// List scan jobs, most recent first
+const listJobsHandler: AsyncRouteHandler = async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const status = req.query.status as ScanJobStatus | undefined;
+
+    if (status && !SCAN_JOB_STATUSES.includes(status)) {
+      res.status(400).json({ error: 'Invalid status' });
+      return;
+    }
+
+    const jobs = await scanJobService.listJobs(limit, status);
+    res.json(jobs);
+  } catch (error) {
+    console.error('Error fetching scan jobs:', error);
+    res.status(500).json({ error: 'Failed to fetch scan jobs' });
+  }
+};
+
+// Get a single scan job
+const getJobHandler: AsyncRouteHandler<ScanJobParams> = async (req, res) => {
+  try {
+    const job = await scanJobService.getJob(req.params.id);
+    res.json(job);
+  } catch (error) {
+    console.error('Error fetching scan job:', error);
+    if (error instanceof Error && error.message === 'Scan job not found') {
+      res.status(404).json({ error: 'Scan job not found' });
+    } else {
+      res.status(500).json({ error: 'Failed to fetch scan job' });
+    }
+  }
+};
+
+// Cancel a running scan job
+const cancelJobHandler: AsyncRouteHandler<ScanJobParams> = async (req, res) => {
+  try {
+    const job = await scanJobService.cancelJob(req.params.id);
+    res.status(202).json(job);
+  } catch (error) {
+    console.error('Error cancelling scan job:', error);
+    if (error instanceof Error && error.message === 'Scan job not found') {
+      res.status(404).json({ error: 'Scan job not found' });
+    } else if (error instanceof Error && error.message === 'Scan job is not running') {
+      res.status(409).json({ error: 'Scan job is not running' });
+    } else {
+      res.status(500).json({ error: 'Failed to cancel scan job' });
+    }
+  }
+};
+
+// Attach to a scan job's event stream
+const jobEventsHandler: AsyncRouteHandler<ScanJobParams> = async (req, res) => {
+  try {
+    await scanJobService.getJob(req.params.id);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Scan job not found') {
+      res.status(404).json({ error: 'Scan job not found' });
+    } else {
+      console.error('Error fetching scan job:', error);
+      res.status(500).json({ error: 'Failed to fetch scan job' });
+    }
+    return;
+  }
+
+  try {
+    await streamJobEvents(req.params.id, req, res);
+  } catch (error) {
+    console.error('Error streaming scan job events:', error);
+    res.end();
+  }
+};
+
+/**
+ * Checks a folder's metadata provider chain, returning the error message if it is invalid
+ */
+const validateProviderChain = (chain: unknown): string | null => {
+  if (chain === undefined) {
+    return null;
+  }
+  if (!Array.isArray(chain) || chain.some((name) => typeof name !== 'string')) {
+    return 'Invalid provider chain: expected a list of provider names';
+  }
+  try {
+    metadataProviderService.validateChain(chain);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
 // Add a new media folder
 const addFolderHandler: AsyncRouteHandler<Record<string, never>, unknown, FolderBody> = async (
   req,
   res
 ) => {
   try {
-    const { path, type } = req.body;
-
-    if (!path || !type || !['movies', 'series'].includes(type)) {
+    const { path, type, watch, metadataProviders } = req.body;
+
+    if (
+      !path ||
+      !type ||
+      !['movies', 'series'].includes(type) ||
+      (watch !== undefined && typeof watch !== 'boolean')
+    ) {
       res.status(400).json({ error: 'Invalid folder configuration' });
       return;
     }
 
+    const chainError = validateProviderChain(metadataProviders);
+    if (chainError) {
+      res.status(400).json({ error: chainError });
+      return;
+    }
+
     const folder = await prisma.mediaFolder.create({
-      data: { path, type },
+      data: { path, type, watch: watch ?? false, metadataProviders: metadataProviders ?? [] },
     });
+    await folderWatcherService.syncFolder(folder);
 
     res.json(folder);
   } catch (error) {
@@ -154,17 +318,28 @@ const updateFolderHandler: AsyncRouteHandler<
   UpdateFolderBody
 > = async (req, res) => {
   try {
-    const { active } = req.body;
+    const { active, watch, metadataProviders } = req.body;
 
-    if (typeof active !== 'boolean') {
+    if (
+      (active === undefined && watch === undefined && metadataProviders === undefined) ||
+      (active !== undefined && typeof active !== 'boolean') ||
+      (watch !== undefined && typeof watch !== 'boolean')
+    ) {
       res.status(400).json({ error: 'Invalid status' });
       return;
     }
 
+    const chainError = validateProviderChain(metadataProviders);
+    if (chainError) {
+      res.status(400).json({ error: chainError });
+      return;
+    }
+
     const folder = await prisma.mediaFolder.update({
       where: { id: req.params.id },
-      data: { active },
+      data: { active, watch, metadataProviders },
     });
+    await folderWatcherService.syncFolder(folder);
 
     res.json(folder);
   } catch (error) {
@@ -179,6 +354,7 @@ const deleteFolderHandler: AsyncRouteHandler<{ id: string }> = async (req, res)
     await prisma.mediaFolder.delete({
       where: { id: req.params.id },
     });
+    await folderWatcherService.unwatchFolder(req.params.id);
 
     res.json({ message: 'Folder deleted successfully' });
   } catch (error) {
@@ -253,14 +429,29 @@ const deleteAllConflictsHandler: AsyncRouteHandler = async (_req, res) => {
   }
 };
 
-router.get('/scan', scanHandler);
-router.post('/folders', addFolderHandler);
-router.get('/folders', getFoldersHandler);
-router.patch('/folders/:id', updateFolderHandler);
-router.delete('/folders/:id', deleteFolderHandler);
-router.get('/conflicts', getConflictsHandler);
-router.post('/conflicts/:id/resolve', resolveConflictHandler);
-router.delete('/conflicts/:id', deleteConflictHandler);
-router.delete('/conflicts', deleteAllConflictsHandler);
+// Get the metadata providers a folder's chain can name
+const getMetadataProvidersHandler: AsyncRouteHandler = async (_req, res) => {
+  res.json(metadataProviderService.listProviders());
+};
+
+// Scan jobs change constantly, so they live on a plain router that bypasses the response cache
+const jobsRouter = Router();
+jobsRouter.post('/', requireRole('ADMIN'), startJobHandler);
+jobsRouter.get('/', requireRole('ADMIN'), listJobsHandler);
+jobsRouter.get('/:id', requireRole('ADMIN'), getJobHandler);
+jobsRouter.post('/:id/cancel', requireRole('ADMIN'), cancelJobHandler);
+jobsRouter.get('/:id/events', requireRole('ADMIN'), jobEventsHandler);
+
+router.use('/jobs', jobsRouter);
+router.get('/scan', requireRole('ADMIN'), scanHandler);
+router.post('/folders', requireRole('ADMIN'), addFolderHandler);
+router.get('/folders', requireRole('ADMIN'), getFoldersHandler);
+router.patch('/folders/:id', requireRole('ADMIN'), updateFolderHandler);
+router.delete('/folders/:id', requireRole('ADMIN'), deleteFolderHandler);
+router.get('/metadata-providers', requireRole('ADMIN'), getMetadataProvidersHandler);
+router.get('/conflicts', requireRole('ADMIN'), getConflictsHandler);
+router.post('/conflicts/:id/resolve', requireRole('ADMIN'), resolveConflictHandler);
+router.delete('/conflicts/:id', requireRole('ADMIN'), deleteConflictHandler);
+router.delete('/conflicts', requireRole('ADMIN'), deleteAllConflictsHandler);
 
 export default router;
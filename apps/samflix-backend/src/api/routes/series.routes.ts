@@ -1,6 +1,23 @@
 import { seriesController } from "../controllers/series.controller";
+import { seriesNumberingController } from "../controllers/series-numbering.controller";
+import {
+  validateSeriesNumberingParams,
+  validateUpdateSeriesNumbering,
+} from "../validators/series-numbering.validator";
+import { identifyController } from "../controllers/identify.controller";
+import { episodeGuideController } from "../controllers/episode-guide.controller";
+import {
+  validateEpisodeGuideParams,
+  validateUpcomingEpisodes,
+} from "../validators/episode-guide.validator";
+import {
+  validateIdentify,
+  validateIdentifyParams,
+  validateIdentifySearch,
+} from "../validators/identify.validator";
 import { createSmartCacheRouter } from "../middleware/cache-invalidation-middleware";
 import { RequestHandler } from "express";
+import { allowPublic, requireRole } from "../middleware/auth.middleware";
 
 // Create a router with caching for GET routes and automatic cache invalidation for POST/PUT/DELETE routes
 const router = createSmartCacheRouter(
@@ -12,21 +29,108 @@ const router = createSmartCacheRouter(
 
 // Series routes (caching is automatically applied to all GET routes)
 // Note: The order matters for Express routes - more specific routes should come before generic ones
-router.get("/genres/all", seriesController.getAllGenres as RequestHandler);
+router.get("/genres/all", allowPublic, seriesController.getAllGenres as RequestHandler);
 router.get(
   "/genre/:genre",
+  allowPublic,
   seriesController.getSeriesByGenre as RequestHandler
 );
-router.get("/search/:query", seriesController.searchSeries as RequestHandler);
+router.get("/search/:query", allowPublic, seriesController.searchSeries as RequestHandler);
+/**
+ * @route GET /api/series/missing-episodes
+ * @desc List the series with aired episodes TMDB lists that aren't in the library
+ * @returns { series, missing: GuideEpisode[] }[], by series title
+ */
+router.get("/missing-episodes", allowPublic, episodeGuideController.getMissing);
+
+/**
+ * @route GET /api/series/upcoming-episodes
+ * @desc List the episodes of series in the library airing in the coming days
+ * @query days? (1-365, defaults to 30)
+ * @returns { series, episode: GuideEpisode }[], soonest first
+ */
+router.get(
+  "/upcoming-episodes",
+  allowPublic,
+  validateUpcomingEpisodes,
+  episodeGuideController.getUpcoming
+);
+
+/**
+ * @route GET /api/series/:id/episode-guide
+ * @desc Get the episodes of a series that aren't in the library
+ * @returns { missing: GuideEpisode[], upcoming: GuideEpisode[] }
+ */
+router.get(
+  "/:id/episode-guide",
+  allowPublic,
+  validateEpisodeGuideParams,
+  episodeGuideController.getSeriesStatus
+);
+
 router.get(
   "/:seriesId/season/:seasonNumber/episode/:episodeNumber",
+  allowPublic,
   seriesController.getEpisode as RequestHandler
 );
 router.get(
   "/:seriesId/season/:seasonNumber",
+  allowPublic,
   seriesController.getEpisodesBySeason as RequestHandler
 );
-router.get("/:id", seriesController.getSeriesById as RequestHandler);
-router.get("/", seriesController.getAllSeries as RequestHandler);
+/**
+ * @route GET /api/series/:id/numbering
+ * @desc Get how episode numbers in file names map onto TMDB seasons, with the
+ *       TMDB episode groups the series can be numbered by
+ */
+router.get(
+  "/:id/numbering",
+  requireRole("ADMIN"),
+  validateSeriesNumberingParams,
+  seriesNumberingController.getNumbering
+);
+
+/**
+ * @route PUT /api/series/:id/numbering
+ * @desc Override the numbering scheme of a series and remap its episodes
+ * @body { scheme: "auto" | "absolute" | "episodeGroup" | "none", episodeGroupId? }
+ */
+router.put(
+  "/:id/numbering",
+  requireRole("ADMIN"),
+  validateSeriesNumberingParams,
+  validateUpdateSeriesNumbering,
+  seriesNumberingController.updateNumbering
+);
+
+/**
+ * @route GET /api/series/:id/identify
+ * @desc Search TMDB for the series a library entry should be matched to
+ * @query query? (defaults to the series' title), year?
+ */
+router.get(
+  "/:id/identify",
+  requireRole("ADMIN"),
+  validateIdentifyParams,
+  validateIdentifySearch,
+  identifyController.searchSeries
+);
+
+/**
+ * @route POST /api/series/:id/identify
+ * @desc Re-bind a series to another TMDB entry, rebuilding its episodes and moving
+ *       watch progress onto them
+ * @body { tmdbId: number }
+ */
+router.post(
+  "/:id/identify",
+  requireRole("ADMIN"),
+  validateIdentifyParams,
+  validateIdentify,
+  identifyController.identifySeries
+);
+
+router.get("/:id", allowPublic, seriesController.getSeriesById as RequestHandler);
+router.get("/", allowPublic, seriesController.getAllSeries as RequestHandler);
 
 export default router;
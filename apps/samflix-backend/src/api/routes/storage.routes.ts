@@ -1,4 +1,5 @@
 import { createSmartCacheRouter } from '../middleware/cache-invalidation-middleware';
+import { requireRole } from '../middleware/auth.middleware';
 import { storageController } from "../controllers/storage.controller";
 import { validateUpdateDiskSpace } from "../validators/storage.validator";
 
@@ -22,7 +23,7 @@ const router = createSmartCacheRouter(
  *   cached: boolean
  * }
  */
-router.get('/stats', storageController.getStorageStats);
+router.get('/stats', requireRole('ADMIN'), storageController.getStorageStats);
 
 /**
  * @route POST /api/storage/update-disk-space
@@ -30,14 +31,19 @@ router.get('/stats', storageController.getStorageStats);
  * @body { totalDiskSpace: string } - Format: "4TB", "500GB", "1.5TB", etc.
  * @returns { message: string, totalDiskSpace: string }
  */
-router.post('/update-disk-space', validateUpdateDiskSpace, storageController.updateDiskSpace);
+router.post(
+  '/update-disk-space',
+  requireRole('ADMIN'),
+  validateUpdateDiskSpace,
+  storageController.updateDiskSpace
+);
 
 /**
  * @route POST /api/storage/force-scan
  * @desc Force a disk usage scan (useful for testing or manual refresh)
  * @returns { message: string, status: string }
  */
-router.post('/force-scan', storageController.forceScan);
+router.post('/force-scan', requireRole('ADMIN'), storageController.forceScan);
 
 /**
  * @route GET /api/storage/scan-status
@@ -47,6 +53,6 @@ router.post('/force-scan', storageController.forceScan);
  *   isScanning: boolean
  * }
  */
-router.get('/scan-status', storageController.getScanStatus);
+router.get('/scan-status', requireRole('ADMIN'), storageController.getScanStatus);
 
 export default router;
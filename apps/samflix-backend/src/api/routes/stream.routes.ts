@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { requireRole } from '../middleware/auth.middleware';
+import { streamController } from '../controllers/stream.controller';
+import { validateStreamParams } from '../validators/stream.validator';
+
+// Not cached: every response carries a freshly signed URL
+const router: Router = Router();
+
+/**
+ * @route GET /api/stream/movies/:id
+ * @desc Get a signed URL of a movie's HLS playlist, for viewers its maturity rating allows
+ * @returns { url: string }, relative to the API's origin
+ */
+router.get(
+  '/movies/:id',
+  requireRole('USER'),
+  validateStreamParams,
+  streamController.getMovieStream
+);
+
+/**
+ * @route GET /api/stream/episodes/:id
+ * @desc Get a signed URL of an episode's HLS playlist, for viewers its series' rating allows
+ * @returns { url: string }, relative to the API's origin
+ */
+router.get(
+  '/episodes/:id',
+  requireRole('USER'),
+  validateStreamParams,
+  streamController.getEpisodeStream
+);
+
+export default router;
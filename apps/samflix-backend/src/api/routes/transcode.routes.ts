@@ -1,6 +1,7 @@
 import type { Request, Response, NextFunction } from "express";
 import { transcodeController } from "../controllers/transcode.controller";
 import { createSmartCacheRouter } from '../middleware/cache-invalidation-middleware';
+import { requireRole } from "../middleware/auth.middleware";
 
 type RequestHandler = (req: Request, res: Response, next: NextFunction) => void;
 
@@ -19,6 +20,7 @@ const router = createSmartCacheRouter(
  */
 router.put(
   "/movie/:id",
+  requireRole("ADMIN"),
   transcodeController.updateMovieTranscodeStatus as unknown as RequestHandler
 );
 
@@ -29,6 +31,7 @@ router.put(
  */
 router.put(
   "/episode/:id",
+  requireRole("ADMIN"),
   transcodeController.updateEpisodeTranscodeStatus as unknown as RequestHandler
 );
 
@@ -39,6 +42,7 @@ router.put(
  */
 router.put(
   "/series/:seriesId",
+  requireRole("ADMIN"),
   transcodeController.updateSeriesTranscodeStatus as unknown as RequestHandler
 );
 
@@ -49,6 +53,7 @@ router.put(
  */
 router.get(
   "/status/:status",
+  requireRole("ADMIN"),
   transcodeController.getItemsByTranscodeStatus as unknown as RequestHandler
 );
 
@@ -59,6 +64,7 @@ router.get(
  */
 router.get(
   "/movies/status/:status",
+  requireRole("ADMIN"),
   transcodeController.getMoviesByTranscodeStatus as unknown as RequestHandler
 );
 
@@ -69,6 +75,7 @@ router.get(
  */
 router.get(
   "/episodes/status/:status",
+  requireRole("ADMIN"),
   transcodeController.getEpisodesByTranscodeStatus as unknown as RequestHandler
 );
 
@@ -79,6 +86,7 @@ router.get(
  */
 router.get(
   "/stats",
+  requireRole("ADMIN"),
   transcodeController.getTranscodeStats as unknown as RequestHandler
 );
 
@@ -1,6 +1,7 @@
 import express from "express";
 import { WebhookController } from "../controllers/webhook.controller";
 import { createSmartCacheRouter } from '../middleware/cache-invalidation-middleware';
+import { allowPublic } from '../middleware/auth.middleware';
 
 // Create a router with caching for GET routes and automatic cache invalidation for POST/PUT/DELETE routes
 // For webhooks, we don't need caching since they are only POST endpoints
@@ -16,6 +17,7 @@ const webhookController = new WebhookController();
 // Using express.raw middleware with application/json type for Clerk webhook verification
 router.post(
   "/clerk",
+  allowPublic,
   express.raw({ type: "application/json" }),
   webhookController.handleClerkWebhook
 );
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+import { validate } from './validate';
+
+// Schema for GET /api/artwork/:mediaType/:tmdbId/:kind
+export const artworkParamsSchema = z.object({
+  mediaType: z.enum(['movie', 'series']),
+  tmdbId: z.string().regex(/^\d+$/, 'Must be a TMDB ID'),
+  kind: z.enum(['poster', 'fanart']),
+});
+
+// Middleware to validate request params
+export const validateArtworkParams = validate(artworkParamsSchema, 'params');
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { objectId, validate } from './validate';
+
+// Schema for params with a collection ID
+export const collectionParamsSchema = z.object({
+  id: objectId,
+});
+
+// Schema for params with a Clerk user ID
+export const collectionClerkIdParamsSchema = z.object({
+  clerkId: z.string().min(1, 'ClerkId is required'),
+});
+
+// Middleware to validate request params
+export const validateCollectionParams = validate(collectionParamsSchema, 'params');
+export const validateCollectionClerkIdParams = validate(collectionClerkIdParamsSchema, 'params');
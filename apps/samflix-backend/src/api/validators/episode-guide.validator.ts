@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { objectId, validate } from './validate';
+
+// Schema for GET /api/series/upcoming-episodes
+export const upcomingEpisodesSchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).optional(),
+});
+
+// Query parameters as validateUpcomingEpisodes hands them on
+export type UpcomingEpisodesQuery = z.infer<typeof upcomingEpisodesSchema>;
+
+// Schema for params with a series ID
+export const episodeGuideParamsSchema = z.object({
+  id: objectId,
+});
+
+// Middleware to validate request queries and params
+export const validateUpcomingEpisodes = validate(upcomingEpisodesSchema, 'query');
+export const validateEpisodeGuideParams = validate(episodeGuideParamsSchema, 'params');
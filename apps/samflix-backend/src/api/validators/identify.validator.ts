@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { objectId, validate } from './validate';
+
+// Schema for GET /api/movies/:id/identify and GET /api/series/:id/identify
+export const identifySearchSchema = z.object({
+  query: z.string().trim().min(1).max(200).optional(),
+  year: z.coerce.number().int().min(1870).max(2100).optional(),
+});
+
+// Query parameters as validateIdentifySearch hands them on
+export type IdentifySearchQuery = z.infer<typeof identifySearchSchema>;
+
+// Schema for POST /api/movies/:id/identify and POST /api/series/:id/identify
+export const identifySchema = z.object({
+  tmdbId: z.number().int().positive(),
+});
+
+// Schema for params with a movie or series ID
+export const identifyParamsSchema = z.object({
+  id: objectId,
+});
+
+// Middleware to validate request bodies, queries and params
+export const validateIdentifySearch = validate(identifySearchSchema, 'query');
+export const validateIdentify = validate(identifySchema, 'body');
+export const validateIdentifyParams = validate(identifyParamsSchema, 'params');
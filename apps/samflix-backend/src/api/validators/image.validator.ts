@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { validate } from './validate';
+import { IMAGE_ID, IMAGE_WIDTHS } from '../../services/images/image-cache.service';
+
+// Schema for GET /api/images/:id params
+export const imageParamsSchema = z.object({
+  id: z.string().regex(IMAGE_ID, 'Must be a TMDB image file name'),
+});
+
+// Schema for GET /api/images/:id query parameters
+export const imageQuerySchema = z.object({
+  w: z.coerce
+    .number()
+    .pipe(z.literal(IMAGE_WIDTHS, `Width must be one of ${IMAGE_WIDTHS.join(', ')}`))
+    .optional(),
+});
+
+// Query parameters as validateImageQuery hands them on
+export type ImageQuery = z.infer<typeof imageQuerySchema>;
+
+// Middleware to validate request params and query
+export const validateImageParams = validate(imageParamsSchema, 'params');
+export const validateImageQuery = validate(imageQuerySchema, 'query');
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import { validate } from './validate';
+import { pinSchema } from './profile.validator';
+
+// Schema for PUT /api/me/parental-controls
+export const updateParentalControlsSchema = z.object({
+  // Highest minimum age of content shown without a profile; null for no limit
+  maturityLimit: z.number().int().min(0).max(21).nullable().optional(),
+  // null removes the parental PIN
+  pin: pinSchema.nullable().optional(),
+});
+
+// Middleware to validate request bodies
+export const validateUpdateParentalControls = validate(updateParentalControlsSchema, 'body');
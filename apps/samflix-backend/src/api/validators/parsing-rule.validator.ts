@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { objectId, validate } from './validate';
+
+// Schema for POST /api/parsing-rules
+export const createParsingRuleSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  mediaType: z.enum(['movie', 'series']),
+  pattern: z.string().min(1, 'Pattern is required'),
+  // Stateful flags (g, y) would make repeated matches skip ahead, so they're not allowed
+  flags: z
+    .string()
+    .regex(/^(?!.*(.).*\1)[imsu]*$/, 'Flags may only contain i, m, s and u')
+    .optional(),
+  priority: z.number().int().optional(),
+  enabled: z.boolean().optional(),
+  folderId: objectId.nullable().optional(),
+});
+
+// Schema for PATCH /api/parsing-rules/:id
+export const updateParsingRuleSchema = createParsingRuleSchema.partial();
+
+// Schema for GET /api/parsing-rules/test
+export const testParsingRuleSchema = z.object({
+  fileName: z.string().min(1, 'File name is required'),
+  mediaType: z.enum(['movie', 'series']),
+});
+
+// Schema for params with a rule ID
+export const parsingRuleParamsSchema = z.object({
+  id: objectId,
+});
+
+// Middleware to validate request bodies and params
+export const validateCreateParsingRule = validate(createParsingRuleSchema, 'body');
+export const validateUpdateParsingRule = validate(updateParsingRuleSchema, 'body');
+export const validateTestParsingRule = validate(testParsingRuleSchema, 'query');
+export const validateParsingRuleParams = validate(parsingRuleParamsSchema, 'params');
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+import { objectId, validate } from './validate';
+
+// Schema for params with a person ID
+export const personParamsSchema = z.object({
+  id: objectId,
+});
+
+// Middleware to validate request params
+export const validatePersonParams = validate(personParamsSchema, 'params');
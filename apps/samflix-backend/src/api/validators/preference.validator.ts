@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { validate } from './validate';
+
+// Schema for PUT /api/preferences/:clerkId
+export const updatePreferencesSchema = z.object({
+  // null goes back to the language the browser asks for
+  preferredLanguage: z.string().min(1, 'Language is required').nullable(),
+});
+
+// Schema for params with a Clerk user ID
+export const preferenceParamsSchema = z.object({
+  clerkId: z.string().min(1, 'ClerkId is required'),
+});
+
+// Middleware to validate request bodies and params
+export const validateUpdatePreferences = validate(updatePreferencesSchema, 'body');
+export const validatePreferenceParams = validate(preferenceParamsSchema, 'params');
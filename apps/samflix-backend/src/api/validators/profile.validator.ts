@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { objectId, validate } from './validate';
+
+// PINs locking profiles and guarding parental controls
+export const pinSchema = z.string().regex(/^\d{4,8}$/, 'PIN must be 4 to 8 digits');
+
+// Schema for POST /api/me/profiles
+export const createProfileSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(50),
+  avatar: z.string().min(1).max(32).nullable().optional(),
+  // Highest minimum age of content the profile may watch; null for no limit
+  maturityLimit: z.number().int().min(0).max(21).nullable().optional(),
+  // null goes back to the language the browser asks for
+  preferredLanguage: z.string().min(1, 'Language is required').nullable().optional(),
+  // null unlocks the profile
+  pin: pinSchema.nullable().optional(),
+});
+
+// Schema for PATCH /api/me/profiles/:id
+export const updateProfileSchema = createProfileSchema.partial();
+
+// Schema for POST /api/me/profiles/:id/unlock
+export const unlockProfileSchema = z.object({
+  pin: z.string().min(1, 'PIN is required'),
+});
+
+// Schema for params with a profile ID
+export const profileParamsSchema = z.object({
+  id: objectId,
+});
+
+// Middleware to validate request bodies and params
+export const validateCreateProfile = validate(createProfileSchema, 'body');
+export const validateUpdateProfile = validate(updateProfileSchema, 'body');
+export const validateUnlockProfile = validate(unlockProfileSchema, 'body');
+export const validateProfileParams = validate(profileParamsSchema, 'params');
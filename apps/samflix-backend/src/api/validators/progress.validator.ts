@@ -6,6 +6,8 @@ export const saveProgressSchema = z.object({
   clerkId: z.string().min(1, 'ClerkId is required'),
   tmdbId: z.string().min(1, 'TmdbId is required'),
   currentTime: z.number().min(0, 'Current time must be a non-negative number'),
+  duration: z.number().positive('Duration must be a positive number').optional(),
+  completed: z.boolean().optional(),
 });
 
 // Middleware to validate request body
@@ -76,6 +78,8 @@ export const saveSeriesProgressSchema = z.object({
   seriesId: z.string().min(1, 'SeriesId is required'),
   tmdbId: z.string().min(1, 'TmdbId is required'),
   currentTime: z.number().min(0, 'Current time must be a non-negative number'),
+  duration: z.number().positive('Duration must be a positive number').optional(),
+  completed: z.boolean().optional(),
 });
 
 // Middleware to validate series progress request body
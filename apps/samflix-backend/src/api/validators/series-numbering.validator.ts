@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { objectId, validate } from './validate';
+
+// Schema for PUT /api/series/:id/numbering
+export const updateSeriesNumberingSchema = z.object({
+  scheme: z.enum(['auto', 'absolute', 'episodeGroup', 'none']),
+  episodeGroupId: z.string().min(1).nullable().optional(),
+});
+
+// Schema for params with a series ID
+export const seriesNumberingParamsSchema = z.object({
+  id: objectId,
+});
+
+// Middleware to validate request bodies and params
+export const validateUpdateSeriesNumbering = validate(updateSeriesNumberingSchema, 'body');
+export const validateSeriesNumberingParams = validate(seriesNumberingParamsSchema, 'params');
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+import { objectId, validate } from './validate';
+
+// Schema for params with a movie or episode ID
+export const streamParamsSchema = z.object({
+  id: objectId,
+});
+
+// Middleware to validate request params
+export const validateStreamParams = validate(streamParamsSchema, 'params');
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { Request, Response, NextFunction } from 'express';
+
+// MongoDB ObjectIds, as used for the IDs of library entries
+export const objectId = z.string().regex(/^[a-f\d]{24}$/i, 'Must be a valid ID');
+
+/**
+ * Builds middleware that validates one part of the request against a schema
+ * The parsed values replace the raw ones, so handlers get coerced numbers and trimmed strings;
+ * keys the schema doesn't know are kept as sent. Failures answer 400 with the ZodError as
+ * details, like the inline validators
+ */
+export const validate =
+  (schema: z.ZodType, source: 'body' | 'query' | 'params') =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    try {
+      const parsed = schema.parse(req[source]);
+      // Express 5 only has a getter for req.query
+      Object.defineProperty(req, source, {
+        value: { ...req[source], ...(parsed as object) },
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      });
+      next();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: error,
+        });
+      } else {
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  };
@@ -23,8 +23,24 @@ import webhookRoutes from './api/routes/webhook.routes';
 import transcodeRoutes from './api/routes/transcode.routes';
 import progressRoutes from './api/routes/progress.routes';
 import storageRoutes from './api/routes/storage.routes';
+import parsingRuleRoutes from './api/routes/parsing-rule.routes';
+import artworkRoutes from './api/routes/artwork.routes';
+import imageRoutes from './api/routes/image.routes';
+import preferenceRoutes from './api/routes/preference.routes';
+import peopleRoutes from './api/routes/people.routes';
+import collectionRoutes from './api/routes/collection.routes';
+import meRoutes from './api/routes/me.routes';
+import streamRoutes from './api/routes/stream.routes';
+import { negotiateLanguage } from './api/middleware/language.middleware';
+import { authenticate, redactSessionToken } from './api/middleware/auth.middleware';
+import { requireSignedMediaUrl } from './api/middleware/media-access.middleware';
+import { MEDIA_ROOT } from './services/stream.service';
 import { MediaScanSchedulerService } from './services/scheduler/media-scan-scheduler.service';
+import { MetadataRefreshSchedulerService } from './services/scheduler/metadata-refresh-scheduler.service';
 import { DiskScannerService } from './services/storage/disk-scanner.service';
+import { scanJobService } from './services/scanner/scan-job.service';
+import { folderWatcherService } from './services/scanner/folder-watcher.service';
+import { progressService } from './services/progress.service';
 
 // Create Express app
 const app = express();
@@ -38,7 +54,14 @@ app.use(
   cors({
     origin: '*',
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+    allowedHeaders: [
+      'Content-Type',
+      'Authorization',
+      'X-Requested-With',
+      'X-Profile-Id',
+      'X-Profile-Token',
+      'X-Parental-Pin',
+    ],
     credentials: true,
     preflightContinue: false,
     optionsSuccessStatus: 204,
@@ -49,7 +72,10 @@ app.use(
 app.use((req: express.Request, res: express.Response, next: express.NextFunction) => {
   res.header('Access-Control-Allow-Origin', (req.headers.origin as string) || '*');
   res.header('Access-Control-Allow-Methods', 'GET,PUT,POST,DELETE,PATCH,OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With');
+  res.header(
+    'Access-Control-Allow-Headers',
+    'Content-Type, Authorization, X-Requested-With, X-Profile-Id, X-Profile-Token, X-Parental-Pin'
+  );
 
   // Handle OPTIONS method
   if (req.method === 'OPTIONS') {
@@ -63,7 +89,8 @@ app.get('/', (_req, res) => {
   res.send('OK');
 });
 
-// Request logger
+// Request logger; session tokens passed in the query string are masked
+morgan.token('url', (req: express.Request) => redactSessionToken(req.originalUrl || req.url));
 app.use(morgan('dev'));
 
 // Routes that need raw body (must come before express.json() middleware)
@@ -72,19 +99,31 @@ app.use('/api/webhooks', webhookRoutes);
 // Apply JSON parsing middleware AFTER the webhook routes
 app.use(express.json());
 
+// Attach the signed-in user, if any; each route declares who may call it
+app.use('/api', authenticate);
+
 // Other routes that can use parsed JSON body
-app.use('/api/movies', movieRoutes);
-app.use('/api/series', seriesRoutes);
+app.use('/api/movies', negotiateLanguage, movieRoutes);
+app.use('/api/series', negotiateLanguage, seriesRoutes);
+app.use('/api/people', negotiateLanguage, peopleRoutes);
+app.use('/api/collections', negotiateLanguage, collectionRoutes);
 app.use('/api/scanner', scannerRoutes);
 app.use('/api/transcode', transcodeRoutes);
 app.use('/api/progress', progressRoutes);
+app.use('/api/me', negotiateLanguage, meRoutes);
 app.use('/api/storage', storageRoutes);
+app.use('/api/parsing-rules', parsingRuleRoutes);
+app.use('/api/artwork', artworkRoutes);
+app.use('/api/images', imageRoutes);
+app.use('/api/preferences', preferenceRoutes);
+app.use('/api/stream', streamRoutes);
 
-// Serve media folder as static content
+// Serve media folder as static content, to signed URLs from /api/stream only
 // In Docker container, media folder is one level up from the project root
 app.use(
   '/media',
-  express.static('/media', {
+  requireSignedMediaUrl,
+  express.static(MEDIA_ROOT, {
     setHeaders: (res, path) => {
       // Set CORS headers for all static media files
       res.setHeader('Access-Control-Allow-Origin', '*');
@@ -109,11 +148,23 @@ app.use((err: Error, _: express.Request, res: express.Response, _next: express.N
   console.error(err.stack);
   res.status(500).json({ error: 'Something went wrong!' });
 });
-// Start server
+// Start server once the startup tasks are done, so they can't race with the first requests
 const PORT = parseInt(process.env.PORT || '3000', 10);
-app.listen(PORT, '0.0.0.0', () => {
-  console.log(`Server is running on port ${PORT}`);
-});
+const start = async (): Promise<void> => {
+  // Scan jobs don't survive a restart, so close out any left running by the previous process
+  await scanJobService.failInterruptedJobs();
+
+  // Progress used to live in Redis alone; move what is left of it into the watch history, once
+  await progressService.migrateRedisProgress();
+
+  app.listen(PORT, '0.0.0.0', () => {
+    console.log(`Server is running on port ${PORT}`);
+  });
+
+  // Watch media folders that have watch mode enabled
+  folderWatcherService.start();
+};
+start();
 
 // Initialize cron job for media scanning
 const scanInterval = process.env.SCAN_INTERVAL || '0 */2 * * *'; // Every 2 hours
@@ -138,3 +189,15 @@ cron.schedule(
     timezone: process.env.TZ || 'UTC',
   }
 );
+
+// Initialize cron job for refreshing TMDB metadata of ongoing series and recent additions
+const metadataRefreshInterval = process.env.METADATA_REFRESH_INTERVAL || '0 4 * * *'; // Every day at 4am
+cron.schedule(
+  metadataRefreshInterval,
+  async () => {
+    await MetadataRefreshSchedulerService.executeScheduledRefresh();
+  },
+  {
+    timezone: process.env.TZ || 'UTC',
+  }
+);
@@ -0,0 +1,285 @@
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { prisma } from '../../app';
+import { RequestQueue } from '../tmdb/request-queue';
+
+const execFileAsync = promisify(execFile);
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+const IMAGE_CACHE_DIR = path.resolve(process.env.IMAGE_CACHE_DIR || 'image-cache');
+const TMDB_IMAGE_URL = process.env.TMDB_IMAGE_URL || 'https://image.tmdb.org/t/p';
+const DOWNLOAD_TIMEOUT_MS = 30000;
+const CONVERT_TIMEOUT_MS = 60000;
+
+// The only widths images are resized to
+export const IMAGE_WIDTHS = [92, 154, 185, 300, 342, 500, 780, 1280] as const;
+
+export type ImageWidth = (typeof IMAGE_WIDTHS)[number];
+
+// TMDB image paths are a single file name, e.g. "/kqjL17yufvn9OVLyXYpvtyrFfak.jpg"
+export const IMAGE_ID = /^[A-Za-z0-9_-]+\.(jpe?g|png)$/;
+
+export type ImageFormat = 'avif' | 'webp' | 'jpeg';
+
+const FORMAT_EXTENSIONS: Record<ImageFormat, string> = { avif: 'avif', webp: 'webp', jpeg: 'jpg' };
+
+const FORMAT_CODECS: Record<ImageFormat, string[]> = {
+  avif: ['-c:v', 'libaom-av1', '-still-picture', '1', '-crf', '32', '-cpu-used', '6'],
+  webp: ['-c:v', 'libwebp', '-quality', '80'],
+  jpeg: ['-c:v', 'mjpeg', '-q:v', '3'],
+};
+
+/**
+ * Service keeping a local copy of the TMDB artwork of the library
+ * Originals are downloaded at ingest and resized or converted on request with ffmpeg; every
+ * variant is kept next to them. Without ffmpeg the originals are served as they are
+ */
+class ImageCacheService {
+  private ffmpegMissing = false;
+  // Formats the installed ffmpeg has no encoder for
+  private unsupported = new Set<ImageFormat>();
+  // Downloads and conversions in flight, so concurrent requests for an image share one
+  private pending = new Map<string, Promise<string>>();
+  // Caps on the work requests can cause, however many come in
+  private downloads = new RequestQueue({
+    concurrency: parseInt(process.env.IMAGE_MAX_DOWNLOADS || '4', 10),
+    requestsPerSecond: parseInt(process.env.IMAGE_DOWNLOADS_PER_SECOND || '10', 10),
+  });
+  private conversions = new RequestQueue({
+    concurrency: parseInt(process.env.IMAGE_MAX_CONVERSIONS || '2', 10),
+    requestsPerSecond: parseInt(process.env.IMAGE_CONVERSIONS_PER_SECOND || '5', 10),
+  });
+
+  /**
+   * Gets the path of an image in the requested width and format, downloading and converting it
+   * first when it isn't in the store yet
+   * Only artwork of the library is downloaded; other images are not found
+   * Falls back on a JPEG, then on the original, when a format can't be produced
+   * @param id The TMDB file name of the image
+   * @param size The width to resize to; the original width when unset
+   * @param formats Formats the client accepts besides the original's, most preferred first
+   * @returns The path to the image file
+   */
+  async getImage(id: string, size?: ImageWidth, formats: ImageFormat[] = []): Promise<string> {
+    if (!fs.existsSync(this.originalPath(id)) && !(await this.isLibraryImage(id))) {
+      throw new Error('Image not found');
+    }
+
+    const original = await this.getOriginal(id);
+    const candidates: ImageFormat[] = size ? [...formats, 'jpeg'] : formats;
+
+    for (const format of candidates.filter((f) => !this.unsupported.has(f))) {
+      if (this.ffmpegMissing) {
+        break;
+      }
+      try {
+        return await this.getVariant(id, original, size, format);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          this.ffmpegMissing = true;
+          console.warn(`⚠️  ${FFMPEG_PATH} not found; images will be served as downloaded`);
+        } else if (
+          /unknown encoder|encoder not found/i.test(String((error as { stderr?: string }).stderr))
+        ) {
+          this.unsupported.add(format);
+          console.warn(`⚠️  ${FFMPEG_PATH} can't encode ${format}; images won't be served as it`);
+        } else {
+          console.warn(`⚠️  Unable to convert image ${id} to ${format}:`, error);
+        }
+      }
+    }
+    return original;
+  }
+
+  /**
+   * Downloads the artwork of the library that isn't in the store yet: posters and backdrops of
+   * movies, series, seasons and collections, localized posters and profile pictures
+   * Called after scans so new items have their artwork before it is first requested
+   * @returns The number of images downloaded
+   */
+  async cacheMissing(): Promise<{ images: number; errors: number }> {
+    const results = { images: 0, errors: 0 };
+    const artwork = { posterPath: true, backdropPath: true } as const;
+
+    const movies = await prisma.movie.findMany({ select: { ...artwork, localizations: true } });
+    const series = await prisma.tvSeries.findMany({ select: { ...artwork, localizations: true } });
+    const seasons = await prisma.season.findMany({ select: { posterPath: true } });
+    const collections = await prisma.collection.findMany({ select: { ...artwork, parts: true } });
+    const people = await prisma.person.findMany({ select: { profilePath: true } });
+
+    const paths = [
+      ...[...movies, ...series].flatMap((item) => [
+        item.posterPath,
+        item.backdropPath,
+        ...item.localizations.map((localization) => localization.posterPath),
+      ]),
+      ...seasons.map((season) => season.posterPath),
+      ...collections.flatMap((collection) => [
+        collection.posterPath,
+        collection.backdropPath,
+        ...collection.parts.map((part) => part.posterPath),
+      ]),
+      ...people.map((person) => person.profilePath),
+    ];
+    const ids = [
+      ...new Set(
+        paths
+          .map((imagePath) => imagePath?.slice(1))
+          .filter((id): id is string => !!id && IMAGE_ID.test(id))
+      ),
+    ];
+
+    for (const id of ids) {
+      if (fs.existsSync(this.originalPath(id))) {
+        continue;
+      }
+      try {
+        await this.getOriginal(id);
+        results.images++;
+      } catch (error) {
+        console.error(`Error downloading image ${id}:`, error);
+        results.errors++;
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Checks whether any movie, series, season, collection or person uses an image as artwork
+   */
+  private async isLibraryImage(id: string): Promise<boolean> {
+    const imagePath = `/${id}`;
+    const artwork = [
+      { posterPath: imagePath },
+      { backdropPath: imagePath },
+      { localizations: { some: { posterPath: imagePath } } },
+    ];
+    const lookups = [
+      () => prisma.movie.findFirst({ where: { OR: artwork }, select: { id: true } }),
+      () => prisma.tvSeries.findFirst({ where: { OR: artwork }, select: { id: true } }),
+      () => prisma.season.findFirst({ where: { posterPath: imagePath }, select: { id: true } }),
+      () =>
+        prisma.collection.findFirst({
+          where: {
+            OR: [
+              { posterPath: imagePath },
+              { backdropPath: imagePath },
+              { parts: { some: { posterPath: imagePath } } },
+            ],
+          },
+          select: { id: true },
+        }),
+      () => prisma.person.findFirst({ where: { profilePath: imagePath }, select: { id: true } }),
+    ];
+
+    for (const lookup of lookups) {
+      if (await lookup()) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * The downloaded original of an image, downloaded from TMDB first if needed
+   */
+  private getOriginal(id: string): Promise<string> {
+    const target = this.originalPath(id);
+    return this.once(target, async () => {
+      try {
+        const response = await this.downloads.run(() =>
+          axios.get<ArrayBuffer>(`${TMDB_IMAGE_URL}/original/${id}`, {
+            responseType: 'arraybuffer',
+            timeout: DOWNLOAD_TIMEOUT_MS,
+          })
+        );
+        await this.write(target, (temp) => fs.promises.writeFile(temp, Buffer.from(response.data)));
+      } catch (error) {
+        if (axios.isAxiosError(error) && error.response?.status === 404) {
+          throw new Error('Image not found');
+        }
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * A resized or converted copy of an image, produced with ffmpeg first if needed
+   */
+  private getVariant(
+    id: string,
+    original: string,
+    size: number | undefined,
+    format: ImageFormat
+  ): Promise<string> {
+    const name = `${path.parse(id).name}-${size ?? 'original'}.${FORMAT_EXTENSIONS[format]}`;
+    const target = path.join(IMAGE_CACHE_DIR, 'variants', name);
+    return this.once(target, () =>
+      this.write(target, async (temp) => {
+        // Sizes are kept even, which some encoders need; images are never scaled up
+        const width = `trunc(min(${size ?? 'iw'},iw)/2)*2`;
+        await this.conversions.run(() =>
+          execFileAsync(
+            FFMPEG_PATH,
+            [
+              '-v',
+              'error',
+              '-y',
+              '-i',
+              original,
+              '-vf',
+              `scale=w='${width}':h=-2`,
+              ...FORMAT_CODECS[format],
+              '-frames:v',
+              '1',
+              temp,
+            ],
+            { timeout: CONVERT_TIMEOUT_MS }
+          )
+        );
+      })
+    );
+  }
+
+  /**
+   * Runs a task producing a file unless the file exists, sharing the task while it runs
+   */
+  private async once(target: string, produce: () => Promise<void>): Promise<string> {
+    if (fs.existsSync(target)) {
+      return target;
+    }
+
+    let pending = this.pending.get(target);
+    if (!pending) {
+      pending = produce()
+        .then(() => target)
+        .finally(() => this.pending.delete(target));
+      this.pending.set(target, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Writes a file through a hidden temporary file next to it, so partial files are never served
+   */
+  private async write(target: string, writeTemp: (temp: string) => Promise<void>): Promise<void> {
+    const temp = path.join(path.dirname(target), `.${path.basename(target)}`);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    try {
+      await writeTemp(temp);
+      await fs.promises.rename(temp, target);
+    } catch (error) {
+      await fs.promises.rm(temp, { force: true });
+      throw error;
+    }
+  }
+
+  private originalPath(id: string): string {
+    return path.join(IMAGE_CACHE_DIR, 'originals', id);
+  }
+}
+
+export const imageCacheService = new ImageCacheService();
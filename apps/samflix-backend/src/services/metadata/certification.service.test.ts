@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Certification } from '@samflix/prisma-client';
+
+const mocks = vi.hoisted(() => ({
+  movie: { findUnique: vi.fn(), update: vi.fn() },
+  getMovieDetails: vi.fn(),
+}));
+
+vi.mock('../../app', () => ({ prisma: { movie: mocks.movie } }));
+vi.mock('../tmdb/tmdb.service', () => ({
+  tmdbService: { getMovieDetails: mocks.getMovieDetails },
+}));
+vi.mock('../../api/middleware/cache-invalidation', () => ({
+  CacheInvalidationService: { clearPattern: vi.fn() },
+}));
+
+import { CERTIFICATION_COUNTRY, certificationService } from './certification.service';
+
+const rated = (...certifications: Certification[]): { certifications: Certification[] } => ({
+  certifications,
+});
+
+describe('certificationService.minimumAge', () => {
+  it.each([
+    ['US', 'PG-13', 13],
+    ['US', 'TV-MA', 17],
+    ['us', 'r', 17],
+    ['GB', '12A', 12],
+    ['DE', '16', 16],
+    ['US', 'TV-14', 14],
+    ['US', 'NR', null],
+  ])('reads %s %s as %s', (country, rating, age) => {
+    expect(certificationService.minimumAge(country, rating)).toBe(age);
+  });
+});
+
+describe('certificationService.maturityFilter', () => {
+  it('filters nothing without a limit', () => {
+    expect(certificationService.maturityFilter(null)).toEqual({});
+  });
+
+  it('keeps titles rated at or below the limit in the certification country', () => {
+    expect(certificationService.maturityFilter(13)).toEqual({
+      certifications: { some: { country: CERTIFICATION_COUNTRY, minimumAge: { lte: 13 } } },
+    });
+  });
+});
+
+describe('certificationService.isAllowed', () => {
+  const pg13 = rated(
+    { country: 'DE', rating: '12', minimumAge: 12 },
+    { country: CERTIFICATION_COUNTRY, rating: 'PG-13', minimumAge: 13 }
+  );
+
+  it('allows everything without a limit', () => {
+    expect(certificationService.isAllowed(rated(), null)).toBe(true);
+  });
+
+  it('allows titles rated at or below the limit', () => {
+    expect(certificationService.isAllowed(pg13, 13)).toBe(true);
+  });
+
+  it('blocks titles rated above the limit, whatever other countries rate them', () => {
+    expect(certificationService.isAllowed(pg13, 12)).toBe(false);
+  });
+
+  it('blocks titles the certification country has not rated, or rated without an age', () => {
+    expect(
+      certificationService.isAllowed(rated({ country: 'DE', rating: '6', minimumAge: 6 }), 17)
+    ).toBe(false);
+    expect(
+      certificationService.isAllowed(
+        rated({ country: CERTIFICATION_COUNTRY, rating: 'NR', minimumAge: null }),
+        17
+      )
+    ).toBe(false);
+  });
+});
+
+describe('certificationService.syncMovieCertifications', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.movie.findUnique.mockResolvedValue({ id: 'movie', tmdbId: 603 });
+  });
+
+  it('stores one certification per country, from the most preferred release type', async () => {
+    mocks.getMovieDetails.mockResolvedValue({
+      release_dates: {
+        results: [
+          {
+            iso_3166_1: 'US',
+            release_dates: [
+              { certification: 'NR', release_date: '1999-03-24', type: 1 },
+              { certification: '', release_date: '1999-03-31', type: 3 },
+              { certification: 'R', release_date: '1999-09-21', type: 5 },
+            ],
+          },
+          {
+            iso_3166_1: 'FR',
+            release_dates: [{ certification: ' ', release_date: '1999-06-23', type: 3 }],
+          },
+        ],
+      },
+    });
+
+    await certificationService.syncMovieCertifications('movie');
+
+    expect(mocks.movie.update).toHaveBeenCalledWith({
+      where: { id: 'movie' },
+      data: {
+        certifications: [{ country: 'US', rating: 'R', minimumAge: 17 }],
+        certificationsSyncedAt: expect.any(Date),
+      },
+    });
+  });
+
+  it('throws when the movie does not exist', async () => {
+    mocks.movie.findUnique.mockResolvedValue(null);
+
+    await expect(certificationService.syncMovieCertifications('missing')).rejects.toThrow(
+      'Movie not found'
+    );
+    expect(mocks.getMovieDetails).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,213 @@
+import type { Certification } from '@samflix/prisma-client';
+import { prisma } from '../../app';
+import { tmdbService, DetailOptions } from '../tmdb/tmdb.service';
+import { TMDBContentRating, TMDBReleaseDates } from '../../types/media.types';
+import { CacheInvalidationService } from '../../api/middleware/cache-invalidation';
+
+// Country whose ratings maturity limits are checked against
+export const CERTIFICATION_COUNTRY = (process.env.CERTIFICATION_COUNTRY || 'US').toUpperCase();
+
+// TMDB release types, in the order their certification is preferred: theatrical, limited,
+// digital, physical, TV, premiere
+const RELEASE_TYPE_ORDER = [3, 2, 4, 5, 6, 1];
+
+// Ages of the ratings that don't carry one; ratings like "12A", "16" or "TV-14" are read as is
+const RATING_AGES: Record<string, Record<string, number>> = {
+  US: {
+    G: 0,
+    PG: 8,
+    'PG-13': 13,
+    R: 17,
+    'NC-17': 18,
+    'TV-Y': 0,
+    'TV-Y7': 7,
+    'TV-G': 0,
+    'TV-PG': 8,
+    'TV-MA': 17,
+  },
+  GB: { U: 0, PG: 8 },
+  CA: { G: 0, PG: 8, R: 18, A: 18, E: 0, C: 0 },
+  AU: { E: 0, G: 0, PG: 8, M: 15 },
+  IN: { U: 0, UA: 12, A: 18, S: 18 },
+  FR: { U: 0, TP: 0 },
+  BR: { L: 0 },
+  NL: { AL: 0 },
+};
+
+/**
+ * Filter on movies or series keeping those a viewer may watch
+ */
+export type MaturityFilter = {
+  certifications?: { some: { country: string; minimumAge: { lte: number } } };
+};
+
+/**
+ * Service for the age ratings of movies and series, pulled from TMDB release dates and content
+ * ratings, and for the maturity limits of users and profiles checked against them
+ * Titles are rated per country; limits are checked against the ratings of CERTIFICATION_COUNTRY,
+ * and titles it hasn't rated are hidden from viewers with a limit
+ */
+class CertificationService {
+  /**
+   * Pulls a movie's certifications from TMDB and replaces its stored ones
+   * @param movieId The ID of the movie in the database
+   * @param options Passed on to TMDB, e.g. to bypass its cache
+   */
+  async syncMovieCertifications(movieId: string, options: DetailOptions = {}): Promise<void> {
+    const movie = await prisma.movie.findUnique({ where: { id: movieId } });
+    if (!movie) {
+      throw new Error('Movie not found');
+    }
+
+    const details = await tmdbService.getMovieDetails(movie.tmdbId, ['release_dates'], options);
+    await prisma.movie.update({
+      where: { id: movie.id },
+      data: {
+        certifications: this.movieCertifications(details.release_dates?.results ?? []),
+        certificationsSyncedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Pulls a series' content ratings from TMDB and replaces its stored certifications
+   * @param seriesId The ID of the series in the database
+   * @param options Passed on to TMDB, e.g. to bypass its cache
+   */
+  async syncSeriesCertifications(seriesId: string, options: DetailOptions = {}): Promise<void> {
+    const series = await prisma.tvSeries.findUnique({ where: { id: seriesId } });
+    if (!series) {
+      throw new Error('Series not found');
+    }
+
+    const details = await tmdbService.getTVDetails(series.tmdbId, ['content_ratings'], options);
+    await prisma.tvSeries.update({
+      where: { id: series.id },
+      data: {
+        certifications: this.seriesCertifications(details.content_ratings?.results ?? []),
+        certificationsSyncedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Pulls the certifications of movies and series that have never been synced
+   * Called after scans so newly added titles get their age ratings
+   * @returns The number of movies and series synced
+   */
+  async syncMissing(): Promise<{ movies: number; series: number; errors: number }> {
+    const results = { movies: 0, series: 0, errors: 0 };
+    const unsynced = {
+      OR: [{ certificationsSyncedAt: { isSet: false } }, { certificationsSyncedAt: null }],
+    };
+
+    const movies = await prisma.movie.findMany({
+      where: unsynced,
+      select: { id: true, title: true },
+    });
+    const series = await prisma.tvSeries.findMany({
+      where: unsynced,
+      select: { id: true, title: true },
+    });
+
+    for (const movie of movies) {
+      try {
+        await this.syncMovieCertifications(movie.id);
+        results.movies++;
+      } catch (error) {
+        console.error(`Error syncing certifications of movie ${movie.title}:`, error);
+        results.errors++;
+      }
+    }
+    for (const item of series) {
+      try {
+        await this.syncSeriesCertifications(item.id);
+        results.series++;
+      } catch (error) {
+        console.error(`Error syncing certifications of series ${item.title}:`, error);
+        results.errors++;
+      }
+    }
+
+    if (results.movies > 0) {
+      await CacheInvalidationService.clearPattern('cache:/api/movies*');
+    }
+    if (results.series > 0) {
+      await CacheInvalidationService.clearPattern('cache:/api/series*');
+    }
+    return results;
+  }
+
+  /**
+   * The age a rating is meant for, e.g. 13 for "PG-13" in the US
+   * @param country ISO 3166-1 code of the country that gave the rating
+   * @returns null for ratings without a known age, like "NR"
+   */
+  minimumAge(country: string, rating: string): number | null {
+    const known = RATING_AGES[country.toUpperCase()]?.[rating.toUpperCase()];
+    if (known !== undefined) {
+      return known;
+    }
+    const age = rating.match(/\d{1,2}/);
+    return age ? parseInt(age[0], 10) : null;
+  }
+
+  /**
+   * Filter keeping the movies or series a viewer with a maturity limit may watch
+   * @param maturityLimit The viewer's limit; null for none
+   */
+  maturityFilter(maturityLimit: number | null): MaturityFilter {
+    if (maturityLimit === null) {
+      return {};
+    }
+    return {
+      certifications: {
+        some: { country: CERTIFICATION_COUNTRY, minimumAge: { lte: maturityLimit } },
+      },
+    };
+  }
+
+  /**
+   * Whether a viewer with a maturity limit may watch a movie or series
+   * @param maturityLimit The viewer's limit; null for none
+   */
+  isAllowed(title: { certifications: Certification[] }, maturityLimit: number | null): boolean {
+    if (maturityLimit === null) {
+      return true;
+    }
+    const age = title.certifications.find(
+      (certification) => certification.country === CERTIFICATION_COUNTRY
+    )?.minimumAge;
+    return age !== null && age !== undefined && age <= maturityLimit;
+  }
+
+  /**
+   * One certification per country: the one of the most preferred release type that has one
+   */
+  private movieCertifications(countries: TMDBReleaseDates[]): Certification[] {
+    const rank = (type: number): number => {
+      const index = RELEASE_TYPE_ORDER.indexOf(type);
+      return index === -1 ? RELEASE_TYPE_ORDER.length : index;
+    };
+
+    return countries.flatMap(({ iso_3166_1, release_dates }) => {
+      const release = release_dates
+        .filter((date) => date.certification.trim())
+        .sort((a, b) => rank(a.type) - rank(b.type))[0];
+      return release ? [this.certification(iso_3166_1, release.certification)] : [];
+    });
+  }
+
+  private seriesCertifications(ratings: TMDBContentRating[]): Certification[] {
+    return ratings
+      .filter(({ rating }) => rating.trim())
+      .map(({ iso_3166_1, rating }) => this.certification(iso_3166_1, rating));
+  }
+
+  private certification(country: string, rating: string): Certification {
+    const trimmed = rating.trim();
+    return { country, rating: trimmed, minimumAge: this.minimumAge(country, trimmed) };
+  }
+}
+
+export const certificationService = new CertificationService();
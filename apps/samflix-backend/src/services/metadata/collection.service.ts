@@ -0,0 +1,232 @@
+import type { Collection, CollectionPart, Movie } from '@samflix/prisma-client';
+import { prisma } from '../../app';
+import { tmdbService, DetailOptions } from '../tmdb/tmdb.service';
+import { progressService } from '../progress.service';
+import { certificationService } from './certification.service';
+import { CacheInvalidationService } from '../../api/middleware/cache-invalidation';
+
+const OBJECT_ID = /^[a-f\d]{24}$/i;
+
+/**
+ * A collection as listed, with how many of its movies are in the library
+ */
+export interface CollectionSummary extends Omit<Collection, 'parts'> {
+  ownedCount: number;
+  partCount: number;
+}
+
+/**
+ * A part of a collection with the library's movie for it, if there is one
+ */
+export interface CollectionEntry extends CollectionPart {
+  movie: Movie | null;
+}
+
+/**
+ * The next movie of a collection for a user who has watched an earlier one
+ */
+export interface CollectionContinuation {
+  collection: Omit<Collection, 'parts'>;
+  movie: Movie;
+}
+
+/**
+ * Service for the TMDB collections (franchises) movies of the library belong to
+ * Collections keep all of their parts, so the ones missing from the library can be shown
+ */
+class CollectionService {
+  /**
+   * Looks up the TMDB collection of a movie, stores it and links the movie to it
+   * @param movieId The ID of the movie in the database
+   * @param options Passed on to TMDB, e.g. to bypass its cache
+   */
+  async syncMovieCollection(movieId: string, options: DetailOptions = {}): Promise<void> {
+    const movie = await prisma.movie.findUnique({ where: { id: movieId } });
+    if (!movie) {
+      throw new Error('Movie not found');
+    }
+
+    const details = await tmdbService.getMovieDetails(movie.tmdbId, [], options);
+    const collection = details.belongs_to_collection
+      ? await this.syncCollection(details.belongs_to_collection.id, options)
+      : null;
+
+    await prisma.movie.update({
+      where: { id: movie.id },
+      data: { collectionId: collection?.id ?? null, collectionSyncedAt: new Date() },
+    });
+  }
+
+  /**
+   * Looks up the collections of movies that have never been checked
+   * Called after scans so newly added movies join their collection
+   * @returns The number of movies checked
+   */
+  async syncMissing(): Promise<{ movies: number; errors: number }> {
+    const results = { movies: 0, errors: 0 };
+    const movies = await prisma.movie.findMany({
+      where: { OR: [{ collectionSyncedAt: { isSet: false } }, { collectionSyncedAt: null }] },
+      select: { id: true, title: true },
+    });
+
+    for (const movie of movies) {
+      try {
+        await this.syncMovieCollection(movie.id);
+        results.movies++;
+      } catch (error) {
+        console.error(`Error looking up the collection of movie ${movie.title}:`, error);
+        results.errors++;
+      }
+    }
+
+    if (results.movies > 0) {
+      await CacheInvalidationService.clearPattern('cache:/api/movies*');
+      await CacheInvalidationService.clearPattern('cache:/api/collections*');
+    }
+    return results;
+  }
+
+  /**
+   * Lists the collections with at least one movie in the library, by name
+   * @param maturityLimit The viewer's limit; movies above it don't count as owned
+   */
+  async listCollections(maturityLimit: number | null = null): Promise<CollectionSummary[]> {
+    const allowed = certificationService.maturityFilter(maturityLimit);
+    const collections = await prisma.collection.findMany({
+      where: { movies: { some: allowed } },
+      include: { movies: { where: allowed, select: { id: true } } },
+      orderBy: { name: 'asc' },
+    });
+
+    return collections.map(({ parts, movies, ...collection }) => ({
+      ...collection,
+      ownedCount: movies.length,
+      partCount: parts.length,
+    }));
+  }
+
+  /**
+   * Gets a collection with its parts in release order, undated parts last
+   * @param collectionId The ID of the collection in the database
+   * @param maturityLimit The viewer's limit; parts above it are listed without their movie
+   */
+  async getCollection(
+    collectionId: string,
+    maturityLimit: number | null = null
+  ): Promise<Omit<Collection, 'parts'> & { parts: CollectionEntry[] }> {
+    const collection = await prisma.collection.findUnique({
+      where: { id: collectionId },
+      include: { movies: { where: certificationService.maturityFilter(maturityLimit) } },
+    });
+    if (!collection) {
+      throw new Error('Collection not found');
+    }
+
+    const { movies, parts, ...details } = collection;
+    const released = (part: CollectionPart): number =>
+      part.releaseDate?.getTime() ?? Number.MAX_SAFE_INTEGER;
+
+    return {
+      ...details,
+      parts: [...parts]
+        .sort((a, b) => released(a) - released(b))
+        .map((part) => ({
+          ...part,
+          movie: movies.find((movie) => movie.tmdbId === part.tmdbId) ?? null,
+        })),
+    };
+  }
+
+  /**
+   * The next movie in the library of each collection a user has watched part of, most
+   * recently watched collection first
+   * The next movie is the first one released after the latest part they started that they
+   * haven't started themselves; collections they are caught up on are left out
+   * @param clerkId The user's Clerk ID
+   * @param maturityLimit The viewer's limit; movies above it are never the next one
+   */
+  async getContinuations(
+    clerkId: string,
+    maturityLimit: number | null = null
+  ): Promise<CollectionContinuation[]> {
+    const progress = (await progressService.listMovieProgress(clerkId)).filter(({ tmdbId }) =>
+      OBJECT_ID.test(tmdbId)
+    );
+    if (progress.length === 0) {
+      return [];
+    }
+
+    const started = new Set(progress.map(({ tmdbId }) => tmdbId));
+    const watched = await prisma.movie.findMany({
+      where: { id: { in: [...started] }, collectionId: { not: null } },
+      select: { id: true, collectionId: true },
+    });
+    // Progress is most recent first, so collections keep that order
+    const collectionIds = [
+      ...new Set(
+        progress
+          .map(({ tmdbId }) => watched.find((movie) => movie.id === tmdbId)?.collectionId)
+          .filter((id): id is string => !!id)
+      ),
+    ];
+    const collections = await prisma.collection.findMany({
+      where: { id: { in: collectionIds } },
+      omit: { parts: true },
+      include: {
+        movies: {
+          where: {
+            transcodeStatus: 'COMPLETED',
+            ...certificationService.maturityFilter(maturityLimit),
+          },
+          orderBy: { releaseDate: 'asc' },
+        },
+      },
+    });
+
+    const continuations: CollectionContinuation[] = [];
+    for (const collectionId of collectionIds) {
+      const collection = collections.find((c) => c.id === collectionId);
+      if (!collection) {
+        continue;
+      }
+
+      const { movies, ...details } = collection;
+      const latest = movies.map((movie) => started.has(movie.id)).lastIndexOf(true);
+      const next = movies.slice(latest + 1).find((movie) => !started.has(movie.id));
+      if (next) {
+        continuations.push({ collection: details, movie: next });
+      }
+    }
+    return continuations;
+  }
+
+  /**
+   * Pulls a collection and its parts from TMDB and stores them
+   */
+  private async syncCollection(tmdbId: number, options: DetailOptions): Promise<Collection> {
+    const details = await tmdbService.getCollectionDetails(tmdbId, options);
+    const data = {
+      name: details.name,
+      overview: details.overview || null,
+      posterPath: details.poster_path,
+      backdropPath: details.backdrop_path,
+      parts: details.parts.map(
+        (part): CollectionPart => ({
+          tmdbId: part.id,
+          title: part.title,
+          overview: part.overview || null,
+          posterPath: part.poster_path,
+          releaseDate: part.release_date ? new Date(part.release_date) : null,
+        })
+      ),
+    };
+
+    return prisma.collection.upsert({
+      where: { tmdbId: details.id },
+      create: { tmdbId: details.id, ...data },
+      update: data,
+    });
+  }
+}
+
+export const collectionService = new CollectionService();
@@ -0,0 +1,344 @@
+import type { Credit, CreditType, Movie, Person, TvSeries } from '@samflix/prisma-client';
+import { prisma } from '../../app';
+import { tmdbService, DetailOptions } from '../tmdb/tmdb.service';
+import { TMDBCastMember, TMDBCredits, TMDBCrewMember } from '../../types/media.types';
+import { CacheInvalidationService } from '../../api/middleware/cache-invalidation';
+import { certificationService } from './certification.service';
+
+// Billed cast members kept per movie or series
+const CAST_LIMIT = parseInt(process.env.CREDITS_CAST_LIMIT || '20', 10);
+
+// Crew jobs worth browsing by; TMDB lists hundreds of others (grips, caterers, ...)
+const CREW_JOBS = [
+  'Creator',
+  'Director',
+  'Screenplay',
+  'Writer',
+  'Story',
+  'Novel',
+  'Original Music Composer',
+  'Director of Photography',
+];
+
+interface CreditInput {
+  person: Pick<TMDBCastMember, 'id' | 'name' | 'profile_path' | 'known_for_department'>;
+  type: CreditType;
+  character?: string;
+  job?: string;
+  department?: string;
+  order: number;
+}
+
+/**
+ * A credit as shown on a movie or series page
+ */
+export interface CreditSummary {
+  personId: string;
+  name: string;
+  profilePath: string | null;
+  character: string | null;
+  job: string | null;
+  department: string | null;
+}
+
+/**
+ * A person's credit on a movie or series of the library
+ */
+export interface PersonCredit {
+  character: string | null;
+  job: string | null;
+  department: string | null;
+  movie: Movie | null;
+  series: TvSeries | null;
+}
+
+/**
+ * Service for the cast and crew of the library, pulled from TMDB credits
+ * People are shared between titles; only the credits of movies and series in the library
+ * are kept
+ */
+class CreditService {
+  /**
+   * Pulls a movie's cast and crew from TMDB and replaces its stored credits
+   * @param movieId The ID of the movie in the database
+   * @param options Passed on to TMDB, e.g. to bypass its cache
+   */
+  async syncMovieCredits(movieId: string, options: DetailOptions = {}): Promise<void> {
+    const movie = await prisma.movie.findUnique({ where: { id: movieId } });
+    if (!movie) {
+      throw new Error('Movie not found');
+    }
+
+    const details = await tmdbService.getMovieDetails(movie.tmdbId, ['credits'], options);
+    await this.replaceCredits({ movieId: movie.id }, this.creditInputs(details.credits));
+    await prisma.movie.update({ where: { id: movie.id }, data: { creditsSyncedAt: new Date() } });
+  }
+
+  /**
+   * Pulls a series' cast, crew and creators from TMDB and replaces its stored credits
+   * @param seriesId The ID of the series in the database
+   * @param options Passed on to TMDB, e.g. to bypass its cache
+   */
+  async syncSeriesCredits(seriesId: string, options: DetailOptions = {}): Promise<void> {
+    const series = await prisma.tvSeries.findUnique({ where: { id: seriesId } });
+    if (!series) {
+      throw new Error('Series not found');
+    }
+
+    const details = await tmdbService.getTVDetails(series.tmdbId, ['credits'], options);
+    const creators: TMDBCrewMember[] = (details.created_by ?? []).map((creator) => ({
+      ...creator,
+      job: 'Creator',
+      department: 'Writing',
+    }));
+    await this.replaceCredits(
+      { seriesId: series.id },
+      this.creditInputs({
+        cast: details.credits?.cast ?? [],
+        crew: [...creators, ...(details.credits?.crew ?? [])],
+      })
+    );
+    await prisma.tvSeries.update({
+      where: { id: series.id },
+      data: { creditsSyncedAt: new Date() },
+    });
+  }
+
+  /**
+   * Pulls the credits of movies and series that have never been synced
+   * Called after scans so newly added titles get their cast and crew
+   * @returns The number of movies and series synced
+   */
+  async syncMissing(): Promise<{ movies: number; series: number; errors: number }> {
+    const results = { movies: 0, series: 0, errors: 0 };
+    const unsynced = {
+      OR: [{ creditsSyncedAt: { isSet: false } }, { creditsSyncedAt: null }],
+    };
+
+    const movies = await prisma.movie.findMany({
+      where: unsynced,
+      select: { id: true, title: true },
+    });
+    const series = await prisma.tvSeries.findMany({
+      where: unsynced,
+      select: { id: true, title: true },
+    });
+
+    for (const movie of movies) {
+      try {
+        await this.syncMovieCredits(movie.id);
+        results.movies++;
+      } catch (error) {
+        console.error(`Error syncing credits of movie ${movie.title}:`, error);
+        results.errors++;
+      }
+    }
+    for (const item of series) {
+      try {
+        await this.syncSeriesCredits(item.id);
+        results.series++;
+      } catch (error) {
+        console.error(`Error syncing credits of series ${item.title}:`, error);
+        results.errors++;
+      }
+    }
+
+    if (results.movies > 0) {
+      await CacheInvalidationService.clearPattern('cache:/api/movies*');
+    }
+    if (results.series > 0) {
+      await CacheInvalidationService.clearPattern('cache:/api/series*');
+    }
+    if (results.movies + results.series > 0) {
+      await CacheInvalidationService.clearPattern('cache:/api/people*');
+    }
+    return results;
+  }
+
+  /**
+   * The cast and crew of a movie or series, in billing order
+   * @param credits Credits loaded with their person
+   */
+  summarize(credits: Array<Credit & { person: Person }>): {
+    cast: CreditSummary[];
+    crew: CreditSummary[];
+  } {
+    const summary = (credit: Credit & { person: Person }): CreditSummary => ({
+      personId: credit.person.id,
+      name: credit.person.name,
+      profilePath: credit.person.profilePath,
+      character: credit.character,
+      job: credit.job,
+      department: credit.department,
+    });
+    const sorted = [...credits].sort((a, b) => a.order - b.order);
+
+    return {
+      cast: sorted.filter((credit) => credit.type === 'CAST').map(summary),
+      crew: sorted.filter((credit) => credit.type === 'CREW').map(summary),
+    };
+  }
+
+  /**
+   * Gets a person, pulling their biography and dates from TMDB the first time
+   * A failing TMDB request leaves them out until the next view
+   * @param personId The ID of the person in the database
+   */
+  async getPerson(personId: string): Promise<Person> {
+    const person = await prisma.person.findUnique({ where: { id: personId } });
+    if (!person) {
+      throw new Error('Person not found');
+    }
+    if (person.detailsFetchedAt) {
+      return person;
+    }
+
+    try {
+      const details = await tmdbService.getPersonDetails(person.tmdbId);
+      return await prisma.person.update({
+        where: { id: person.id },
+        data: {
+          name: details.name,
+          profilePath: details.profile_path,
+          knownForDepartment: details.known_for_department,
+          biography: details.biography || null,
+          birthday: this.date(details.birthday),
+          deathday: this.date(details.deathday),
+          placeOfBirth: details.place_of_birth,
+          detailsFetchedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      console.warn(`⚠️  Unable to fetch TMDB details of ${person.name}:`, error);
+      return person;
+    }
+  }
+
+  /**
+   * A person's credits on movies and series in the library, newest first
+   * @param personId The ID of the person in the database
+   * @param maturityLimit The viewer's limit; credits on titles above it are left out
+   */
+  async getPersonCredits(
+    personId: string,
+    maturityLimit: number | null = null
+  ): Promise<{ cast: PersonCredit[]; crew: PersonCredit[] }> {
+    const person = await prisma.person.findUnique({ where: { id: personId } });
+    if (!person) {
+      throw new Error('Person not found');
+    }
+
+    const credits = await prisma.credit.findMany({
+      where: { personId },
+      include: { movie: true, series: true },
+    });
+    const released = (credit: (typeof credits)[number]): number =>
+      (credit.movie?.releaseDate ?? credit.series?.firstAirDate)?.getTime() ?? 0;
+    const entry = (credit: (typeof credits)[number]): PersonCredit => ({
+      character: credit.character,
+      job: credit.job,
+      department: credit.department,
+      movie: credit.movie,
+      series: credit.series,
+    });
+    const sorted = credits
+      .filter((credit) => {
+        const title = credit.movie ?? credit.series;
+        return !!title && certificationService.isAllowed(title, maturityLimit);
+      })
+      .sort((a, b) => released(b) - released(a));
+
+    return {
+      cast: sorted.filter((credit) => credit.type === 'CAST').map(entry),
+      crew: sorted.filter((credit) => credit.type === 'CREW').map(entry),
+    };
+  }
+
+  /**
+   * The billed cast and the notable crew of TMDB credits
+   */
+  private creditInputs(credits: TMDBCredits | undefined): CreditInput[] {
+    const cast = [...(credits?.cast ?? [])]
+      .sort((a, b) => a.order - b.order)
+      .slice(0, CAST_LIMIT)
+      .map(
+        (member, index): CreditInput => ({
+          person: member,
+          type: 'CAST',
+          character: member.character,
+          order: index,
+        })
+      );
+    const crew = (credits?.crew ?? [])
+      .filter((member) => CREW_JOBS.includes(member.job))
+      // Someone credited with the same job twice shows up once
+      .filter(
+        (member, index, all) =>
+          all.findIndex((other) => other.id === member.id && other.job === member.job) === index
+      )
+      .map(
+        (member, index): CreditInput => ({
+          person: member,
+          type: 'CREW',
+          job: member.job,
+          department: member.department,
+          order: index,
+        })
+      );
+    return [...cast, ...crew];
+  }
+
+  /**
+   * Stores the people of a title's credits and replaces its credits with them
+   */
+  private async replaceCredits(
+    title: { movieId: string } | { seriesId: string },
+    credits: CreditInput[]
+  ): Promise<void> {
+    const personIds = new Map<number, string>();
+    for (const { person } of credits) {
+      if (personIds.has(person.id)) {
+        continue;
+      }
+      const stored = await prisma.person.upsert({
+        where: { tmdbId: person.id },
+        create: {
+          tmdbId: person.id,
+          name: person.name,
+          profilePath: person.profile_path,
+          knownForDepartment: person.known_for_department ?? null,
+        },
+        update: {
+          name: person.name,
+          profilePath: person.profile_path,
+          ...(person.known_for_department && {
+            knownForDepartment: person.known_for_department,
+          }),
+        },
+      });
+      personIds.set(person.id, stored.id);
+    }
+
+    await prisma.credit.deleteMany({ where: title });
+    if (credits.length > 0) {
+      await prisma.credit.createMany({
+        data: credits.map((credit) => ({
+          ...title,
+          personId: personIds.get(credit.person.id)!,
+          type: credit.type,
+          character: credit.character || null,
+          job: credit.job ?? null,
+          department: credit.department ?? null,
+          order: credit.order,
+        })),
+      });
+    }
+  }
+
+  private date(value: string | null): Date | null {
+    const date = value ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) ? date : null;
+  }
+}
+
+export const creditService = new CreditService();
@@ -0,0 +1,205 @@
+import type { GuideEpisode, Localization } from '@samflix/prisma-client';
+import { prisma } from '../../app';
+import { tmdbService, DetailOptions } from '../tmdb/tmdb.service';
+import { CacheInvalidationService } from '../../api/middleware/cache-invalidation';
+import { certificationService } from './certification.service';
+
+/**
+ * A series as listed next to its missing or upcoming episodes
+ */
+export interface GuideSeries {
+  id: string;
+  title: string;
+  overview: string | null;
+  posterPath: string | null;
+  localizations: Localization[];
+}
+
+/**
+ * The episodes TMDB lists for a series that aren't in the library
+ */
+export interface EpisodeGuideStatus {
+  missing: GuideEpisode[]; // Aired, in season order
+  upcoming: GuideEpisode[]; // Airing later, soonest first; undated ones last
+}
+
+const GUIDE_SERIES_SELECT = {
+  id: true,
+  title: true,
+  overview: true,
+  posterPath: true,
+  localizations: true,
+  episodeGuide: true,
+  episodes: { select: { seasonNumber: true, episodeNumber: true } },
+} as const;
+
+/**
+ * Service comparing the TMDB seasons of each series with the episodes in the library
+ * The episode guide is stored on the series and pulled again along with metadata refreshes,
+ * so listing missing and upcoming episodes doesn't ask TMDB; specials are left out
+ */
+class EpisodeGuideService {
+  /**
+   * Pulls every season of a series from TMDB and stores its episode guide
+   * @param seriesId The ID of the series in the database
+   * @param options Passed on to TMDB, e.g. to bypass its cache
+   */
+  async syncSeries(seriesId: string, options: DetailOptions = {}): Promise<void> {
+    const series = await prisma.tvSeries.findUnique({ where: { id: seriesId } });
+    if (!series) {
+      throw new Error('Series not found');
+    }
+
+    const details = await tmdbService.getTVDetails(series.tmdbId, [], options);
+    const episodeGuide: GuideEpisode[] = [];
+    for (const { season_number } of details.seasons ?? []) {
+      if (season_number === 0) {
+        continue;
+      }
+      const season = await tmdbService.getSeasonDetails(series.tmdbId, season_number, options);
+      episodeGuide.push(
+        ...season.episodes.map((episode) => ({
+          seasonNumber: season_number,
+          episodeNumber: episode.episode_number,
+          title: episode.name || null,
+          airDate: this.date(episode.air_date),
+        }))
+      );
+    }
+
+    await prisma.tvSeries.update({
+      where: { id: series.id },
+      data: { episodeGuide, guideSyncedAt: new Date() },
+    });
+  }
+
+  /**
+   * Pulls the episode guides of series that have never been synced
+   * Called after scans so newly added series get theirs
+   * @returns The number of series synced
+   */
+  async syncMissing(): Promise<{ series: number; errors: number }> {
+    const results = { series: 0, errors: 0 };
+    const series = await prisma.tvSeries.findMany({
+      where: { OR: [{ guideSyncedAt: { isSet: false } }, { guideSyncedAt: null }] },
+      select: { id: true, title: true },
+    });
+
+    for (const item of series) {
+      try {
+        await this.syncSeries(item.id);
+        results.series++;
+      } catch (error) {
+        console.error(`Error pulling the episode guide of series ${item.title}:`, error);
+        results.errors++;
+      }
+    }
+
+    if (results.series > 0) {
+      await CacheInvalidationService.clearPattern('cache:/api/series*');
+    }
+    return results;
+  }
+
+  /**
+   * The missing and upcoming episodes of a series
+   * @param seriesId The ID of the series in the database
+   * @param maturityLimit The viewer's limit; a series above it is blocked
+   */
+  async getSeriesStatus(
+    seriesId: string,
+    maturityLimit: number | null = null
+  ): Promise<EpisodeGuideStatus> {
+    const series = await prisma.tvSeries.findUnique({
+      where: { id: seriesId },
+      select: { ...GUIDE_SERIES_SELECT, certifications: true },
+    });
+    if (!series) {
+      throw new Error('Series not found');
+    }
+    if (!certificationService.isAllowed(series, maturityLimit)) {
+      throw new Error('Blocked by parental controls');
+    }
+
+    return this.status(series);
+  }
+
+  /**
+   * The series of the library with aired episodes that aren't in it, by title
+   * @param maturityLimit The viewer's limit; series above it are left out
+   */
+  async listMissing(
+    maturityLimit: number | null = null
+  ): Promise<Array<{ series: GuideSeries; missing: GuideEpisode[] }>> {
+    const series = await prisma.tvSeries.findMany({
+      where: certificationService.maturityFilter(maturityLimit),
+      select: GUIDE_SERIES_SELECT,
+      orderBy: { title: 'asc' },
+    });
+
+    return series
+      .map(({ episodeGuide, episodes, ...summary }) => ({
+        series: summary,
+        missing: this.status({ episodeGuide, episodes }).missing,
+      }))
+      .filter(({ missing }) => missing.length > 0);
+  }
+
+  /**
+   * The episodes of series in the library airing in the coming days, soonest first
+   * @param days How many days ahead to look
+   * @param maturityLimit The viewer's limit; series above it are left out
+   */
+  async listUpcoming(
+    days: number,
+    maturityLimit: number | null = null
+  ): Promise<Array<{ series: GuideSeries; episode: GuideEpisode }>> {
+    const until = Date.now() + days * 24 * 60 * 60 * 1000;
+    const series = await prisma.tvSeries.findMany({
+      where: certificationService.maturityFilter(maturityLimit),
+      select: GUIDE_SERIES_SELECT,
+    });
+
+    return series
+      .flatMap(({ episodeGuide, episodes, ...summary }) =>
+        this.status({ episodeGuide, episodes })
+          .upcoming.filter((episode) => episode.airDate && episode.airDate.getTime() <= until)
+          .map((episode) => ({ series: summary, episode }))
+      )
+      .sort((a, b) => a.episode.airDate!.getTime() - b.episode.airDate!.getTime());
+  }
+
+  /**
+   * Splits the guide episodes a series doesn't have into aired and upcoming ones
+   */
+  private status(series: {
+    episodeGuide: GuideEpisode[];
+    episodes: Array<{ seasonNumber: number; episodeNumber: number }>;
+  }): EpisodeGuideStatus {
+    const owned = new Set(
+      series.episodes.map((episode) => `${episode.seasonNumber}:${episode.episodeNumber}`)
+    );
+    const now = Date.now();
+    const absent = series.episodeGuide
+      .filter((episode) => !owned.has(`${episode.seasonNumber}:${episode.episodeNumber}`))
+      .sort((a, b) => a.seasonNumber - b.seasonNumber || a.episodeNumber - b.episodeNumber);
+
+    return {
+      missing: absent.filter((episode) => episode.airDate && episode.airDate.getTime() <= now),
+      upcoming: absent
+        .filter((episode) => !episode.airDate || episode.airDate.getTime() > now)
+        .sort(
+          (a, b) =>
+            (a.airDate?.getTime() ?? Number.MAX_SAFE_INTEGER) -
+            (b.airDate?.getTime() ?? Number.MAX_SAFE_INTEGER)
+        ),
+    };
+  }
+
+  private date(value: string | null | undefined): Date | null {
+    const date = value ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) ? date : null;
+  }
+}
+
+export const episodeGuideService = new EpisodeGuideService();
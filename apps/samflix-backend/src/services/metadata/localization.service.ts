@@ -0,0 +1,297 @@
+import type { Localization } from '@samflix/prisma-client';
+import { prisma } from '../../app';
+import { tmdbService, DetailOptions } from '../tmdb/tmdb.service';
+import { CacheInvalidationService } from '../../api/middleware/cache-invalidation';
+
+// The base fields hold TMDB's default language
+export const BASE_LANGUAGE = 'en';
+
+// TMDB language codes metadata is also stored in, e.g. "hi-IN,ta-IN"
+const LANGUAGES = (process.env.METADATA_LANGUAGES || '')
+  .split(',')
+  .map((language) => language.trim())
+  .filter((language) => /^[a-z]{2}(-[A-Z]{2})?$/.test(language))
+  .filter((language) => primaryTag(language) !== BASE_LANGUAGE);
+
+// Artwork found next to the media takes priority over TMDB's in every language
+const LOCAL_ARTWORK_PREFIX = '/api/artwork/';
+
+// Metadata from another provider isn't TMDB's to translate
+const FROM_TMDB = {
+  OR: [
+    { metadataProvider: { isSet: false } },
+    { metadataProvider: null },
+    { metadataProvider: 'tmdb' },
+  ],
+};
+
+type LocalizedFields = Pick<Localization, 'title' | 'overview' | 'posterPath'>;
+
+/**
+ * A movie, series or episode with its stored localizations
+ */
+export interface Localizable {
+  title: string;
+  overview: string | null;
+  posterPath?: string | null;
+  localizations?: Localization[];
+}
+
+function primaryTag(language: string): string {
+  return language.split('-')[0]!.toLowerCase();
+}
+
+/**
+ * Service for titles, overviews and posters in the configured metadata languages
+ * Localizations are pulled from TMDB and stored next to the English fields; only values
+ * that differ from the English ones are kept, so each field falls back on its own
+ */
+class LocalizationService {
+  /**
+   * The configured metadata languages besides English
+   */
+  listLanguages(): string[] {
+    return [...LANGUAGES];
+  }
+
+  /**
+   * The configured languages an Accept-Language header asks for, most preferred first
+   * Ranges match a language exactly or by their primary subtag ("hi" matches "hi-IN");
+   * languages ranked below English are left out since English is always there
+   * @param acceptLanguage The header value
+   * @returns The languages to try before English; empty when English is preferred
+   */
+  negotiate(acceptLanguage: string | undefined): string[] {
+    if (!acceptLanguage || LANGUAGES.length === 0) {
+      return [];
+    }
+
+    const ranges = acceptLanguage
+      .split(',')
+      .map((part, index) => {
+        const [range = '', ...params] = part.trim().split(';');
+        const q = params.map((param) => param.trim()).find((param) => param.startsWith('q='));
+        return { range: range.trim(), q: q ? parseFloat(q.slice(2)) : 1, index };
+      })
+      .filter(({ range, q }) => range && range !== '*' && q > 0)
+      .sort((a, b) => b.q - a.q || a.index - b.index);
+
+    const languages: string[] = [];
+    for (const { range } of ranges) {
+      if (primaryTag(range) === BASE_LANGUAGE) {
+        break;
+      }
+      const match =
+        LANGUAGES.find((language) => language.toLowerCase() === range.toLowerCase()) ??
+        LANGUAGES.find((language) => primaryTag(language) === primaryTag(range));
+      if (match && !languages.includes(match)) {
+        languages.push(match);
+      }
+    }
+    return languages;
+  }
+
+  /**
+   * Checks that a user's preferred language is one metadata is stored in
+   * @param language A configured language, or English
+   */
+  validateLanguage(language: string): void {
+    if (language !== BASE_LANGUAGE && !LANGUAGES.includes(language)) {
+      throw new Error(
+        `Invalid language: ${language} is not one of ${[BASE_LANGUAGE, ...LANGUAGES].join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Replaces an item's title, overview and poster with those of the first language that
+   * has them, and drops its stored localizations
+   * @param item A movie, series or episode
+   * @param languages Languages in order of preference, as returned by negotiate
+   */
+  localize<T extends Localizable>(item: T, languages: string[]): Omit<T, 'localizations'> {
+    const { localizations = [], ...fields } = item;
+    const ordered = languages
+      .map((language) => localizations.find((l) => l.language === language))
+      .filter((localization): localization is Localization => localization !== undefined);
+
+    const pick = (field: keyof LocalizedFields): string | null | undefined =>
+      ordered.find((localization) => localization[field])?.[field] ?? fields[field];
+
+    return {
+      ...fields,
+      title: pick('title')!,
+      overview: pick('overview') ?? null,
+      ...(fields.posterPath !== undefined && { posterPath: pick('posterPath') ?? null }),
+    };
+  }
+
+  /**
+   * Pulls a movie's localizations from TMDB and stores them
+   * @param movieId The ID of the movie in the database
+   * @param options Passed on to TMDB, e.g. to bypass its cache
+   */
+  async localizeMovie(movieId: string, options: DetailOptions = {}): Promise<void> {
+    const movie = await prisma.movie.findFirst({ where: { AND: [{ id: movieId }, FROM_TMDB] } });
+    if (!movie || LANGUAGES.length === 0) {
+      return;
+    }
+
+    const localizations: Localization[] = [];
+    for (const language of LANGUAGES) {
+      const details = await tmdbService.getMovieDetails(movie.tmdbId, [], {
+        ...options,
+        language,
+      });
+      localizations.push(
+        this.localization(language, movie, {
+          title: details.title,
+          overview: details.overview,
+          posterPath: details.poster_path,
+        })
+      );
+    }
+
+    await prisma.movie.update({ where: { id: movie.id }, data: { localizations } });
+  }
+
+  /**
+   * Pulls the localizations of a series and its episodes from TMDB and stores them
+   * Episodes are translated a season at a time
+   * @param seriesId The ID of the series in the database
+   * @param options Passed on to TMDB, e.g. to bypass its cache
+   */
+  async localizeSeries(seriesId: string, options: DetailOptions = {}): Promise<void> {
+    const series = await prisma.tvSeries.findFirst({
+      where: { AND: [{ id: seriesId }, FROM_TMDB] },
+      include: { episodes: { where: FROM_TMDB } },
+    });
+    if (!series || LANGUAGES.length === 0) {
+      return;
+    }
+
+    const localizations: Localization[] = [];
+    const episodeLocalizations = new Map<string, Localization[]>(
+      series.episodes.map((episode) => [episode.id, []])
+    );
+    const seasonNumbers = [...new Set(series.episodes.map((episode) => episode.seasonNumber))];
+
+    for (const language of LANGUAGES) {
+      const details = await tmdbService.getTVDetails(series.tmdbId, [], { ...options, language });
+      localizations.push(
+        this.localization(language, series, {
+          title: details.name,
+          overview: details.overview,
+          posterPath: details.poster_path,
+        })
+      );
+
+      for (const seasonNumber of seasonNumbers) {
+        const season = await tmdbService.getSeasonDetails(series.tmdbId, seasonNumber, {
+          ...options,
+          language,
+        });
+
+        for (const episode of series.episodes.filter((e) => e.seasonNumber === seasonNumber)) {
+          const tmdbEpisode = season.episodes.find(
+            (e) => e.episode_number === episode.episodeNumber
+          );
+          episodeLocalizations.get(episode.id)!.push(
+            this.localization(language, episode, {
+              title: tmdbEpisode?.name ?? null,
+              overview: tmdbEpisode?.overview ?? null,
+              posterPath: null,
+            })
+          );
+        }
+      }
+    }
+
+    await prisma.tvSeries.update({ where: { id: series.id }, data: { localizations } });
+    for (const episode of series.episodes) {
+      const updated = episodeLocalizations.get(episode.id)!;
+      if (JSON.stringify(updated) !== JSON.stringify(episode.localizations)) {
+        await prisma.episode.update({
+          where: { id: episode.id },
+          data: { localizations: updated },
+        });
+      }
+    }
+  }
+
+  /**
+   * Localizes the movies and series that lack one of the configured languages, including
+   * series with episodes that do
+   * Called after scans so new items and languages added to the configuration are filled in
+   * @returns The number of movies and series localized
+   */
+  async localizeMissing(): Promise<{ movies: number; series: number; errors: number }> {
+    const results = { movies: 0, series: 0, errors: 0 };
+    if (LANGUAGES.length === 0) {
+      return results;
+    }
+
+    const missing = {
+      OR: [
+        { localizations: { isSet: false } },
+        ...LANGUAGES.map((language) => ({ localizations: { none: { language } } })),
+      ],
+    };
+    const movies = await prisma.movie.findMany({
+      where: { AND: [FROM_TMDB, missing] },
+      select: { id: true, title: true },
+    });
+    const series = await prisma.tvSeries.findMany({
+      where: {
+        AND: [FROM_TMDB, { OR: [missing, { episodes: { some: { AND: [FROM_TMDB, missing] } } }] }],
+      },
+      select: { id: true, title: true },
+    });
+
+    for (const movie of movies) {
+      try {
+        await this.localizeMovie(movie.id);
+        results.movies++;
+      } catch (error) {
+        console.error(`Error localizing movie ${movie.title}:`, error);
+        results.errors++;
+      }
+    }
+    for (const item of series) {
+      try {
+        await this.localizeSeries(item.id);
+        results.series++;
+      } catch (error) {
+        console.error(`Error localizing series ${item.title}:`, error);
+        results.errors++;
+      }
+    }
+
+    if (results.movies > 0) {
+      await CacheInvalidationService.clearPattern('cache:/api/movies*');
+    }
+    if (results.series > 0) {
+      await CacheInvalidationService.clearPattern('cache:/api/series*');
+    }
+    return results;
+  }
+
+  /**
+   * A localization holding only the values that differ from the English ones
+   */
+  private localization(language: string, base: Localizable, values: LocalizedFields): Localization {
+    const differs = (value: string | null, baseValue: string | null | undefined): string | null =>
+      value && value !== baseValue ? value : null;
+
+    return {
+      language,
+      title: differs(values.title, base.title),
+      overview: differs(values.overview, base.overview),
+      posterPath: base.posterPath?.startsWith(LOCAL_ARTWORK_PREFIX)
+        ? null
+        : differs(values.posterPath, base.posterPath),
+    };
+  }
+}
+
+export const localizationService = new LocalizationService();
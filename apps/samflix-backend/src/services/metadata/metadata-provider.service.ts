@@ -0,0 +1,165 @@
+import path from 'path';
+import { prisma } from '../../app';
+import { TMDBEpisodeResult, TMDBMovieResult, TMDBTVResult } from '../../types/media.types';
+import {
+  MetadataContext,
+  MetadataProvider,
+  MetadataSearch,
+  ProvidedMetadata,
+} from './metadata-provider';
+import { tmdbMetadataProvider } from './tmdb.provider';
+import { nfoMetadataProvider } from './nfo.provider';
+
+// Folders without a chain of their own use TMDB only
+const DEFAULT_CHAIN = ['tmdb'];
+
+/**
+ * Metadata along with the name of the provider it came from
+ */
+export type SourcedMetadata<T> = ProvidedMetadata<T> & { provider: string };
+
+/**
+ * Providers asked in order; the first one with an answer wins
+ */
+export class MetadataProviderChain {
+  constructor(readonly providers: MetadataProvider[]) {}
+
+  async searchMovies(search: MetadataSearch): Promise<TMDBMovieResult[]> {
+    for (const provider of this.providers) {
+      const results = await provider.searchMovies(search);
+      if (results.length > 0) {
+        return results;
+      }
+    }
+    return [];
+  }
+
+  async searchSeries(search: MetadataSearch): Promise<TMDBTVResult[]> {
+    for (const provider of this.providers) {
+      const results = await provider.searchSeries(search);
+      if (results.length > 0) {
+        return results;
+      }
+    }
+    return [];
+  }
+
+  async getMovieDetails(
+    tmdbId: number,
+    context: MetadataContext
+  ): Promise<SourcedMetadata<TMDBMovieResult> | null> {
+    return this.first((provider) => provider.getMovieDetails(tmdbId, context));
+  }
+
+  async getSeriesDetails(
+    tmdbId: number,
+    context: MetadataContext
+  ): Promise<SourcedMetadata<TMDBTVResult> | null> {
+    return this.first((provider) => provider.getSeriesDetails(tmdbId, context));
+  }
+
+  async getEpisodeDetails(
+    tmdbId: number,
+    seasonNumber: number,
+    episodeNumber: number,
+    context: MetadataContext
+  ): Promise<SourcedMetadata<TMDBEpisodeResult> | null> {
+    return this.first((provider) =>
+      provider.getEpisodeDetails(tmdbId, seasonNumber, episodeNumber, context)
+    );
+  }
+
+  private async first<T>(
+    request: (provider: MetadataProvider) => Promise<ProvidedMetadata<T> | null>
+  ): Promise<SourcedMetadata<T> | null> {
+    for (const provider of this.providers) {
+      const result = await request(provider);
+      if (result) {
+        return { ...result, provider: provider.name };
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Service that keeps the registered metadata providers and the provider chain of each
+ * media folder
+ */
+class MetadataProviderService {
+  private providers = new Map<string, MetadataProvider>();
+  private folders: { path: string; chain: string[] }[] = [];
+
+  constructor() {
+    this.register(tmdbMetadataProvider);
+    this.register(nfoMetadataProvider);
+  }
+
+  /**
+   * Makes a provider available to folder chains under its name
+   * @param provider The provider to add
+   */
+  register(provider: MetadataProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Names of the registered providers
+   */
+  listProviders(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * Checks that a folder's provider chain only names registered providers
+   * @param chain Provider names in the order they should be asked
+   */
+  validateChain(chain: string[]): void {
+    const unknown = chain.filter((name) => !this.providers.has(name));
+    if (unknown.length > 0) {
+      throw new Error(`Invalid provider chain: unknown provider(s) ${unknown.join(', ')}`);
+    }
+    if (new Set(chain).size !== chain.length) {
+      throw new Error('Invalid provider chain: providers may only be listed once');
+    }
+  }
+
+  /**
+   * Loads the provider chains of the media folders
+   * Called before every scan so folders edited elsewhere are picked up
+   */
+  async loadFolders(): Promise<void> {
+    const folders = await prisma.mediaFolder.findMany({
+      select: { path: true, metadataProviders: true },
+    });
+    this.folders = folders.map((folder) => ({
+      path: folder.path,
+      chain: folder.metadataProviders,
+    }));
+  }
+
+  /**
+   * The provider chain for a file: that of the innermost media folder holding it
+   * @param filePath The path to the media file; the default chain when omitted
+   */
+  chainFor(filePath?: string): MetadataProviderChain {
+    const folder = filePath
+      ? this.folders
+          .filter((f) =>
+            filePath.startsWith(f.path.endsWith(path.sep) ? f.path : `${f.path}${path.sep}`)
+          )
+          .sort((a, b) => b.path.length - a.path.length)[0]
+      : undefined;
+
+    const names = folder?.chain.length ? folder.chain : DEFAULT_CHAIN;
+    const providers = names
+      .map((name) => this.providers.get(name))
+      .filter((provider): provider is MetadataProvider => provider !== undefined);
+
+    return new MetadataProviderChain(
+      providers.length > 0 ? providers : DEFAULT_CHAIN.map((name) => this.providers.get(name)!)
+    );
+  }
+}
+
+export const metadataProviderService = new MetadataProviderService();
@@ -0,0 +1,50 @@
+import { TMDBEpisodeResult, TMDBMovieResult, TMDBTVResult } from '../../types/media.types';
+
+/**
+ * What a provider is asked about; local providers read the files next to filePath
+ */
+export interface MetadataContext {
+  filePath?: string;
+}
+
+export interface MetadataSearch extends MetadataContext {
+  title: string;
+  year?: number;
+}
+
+/**
+ * Metadata as a provider returned it, with the item's ID in the provider's own database
+ */
+export type ProvidedMetadata<T> = T & { externalId: string };
+
+/**
+ * A source of movie, series and episode metadata
+ * Results use TMDB's shapes, which the scanner, match scoring and conflicts work with, and
+ * carry the TMDB ID the library is keyed by; providers backed by another database map
+ * their entries onto it
+ * Returning null, or no search results, hands the request to the next provider in a chain
+ */
+export interface MetadataProvider {
+  readonly name: string;
+
+  searchMovies(search: MetadataSearch): Promise<TMDBMovieResult[]>;
+
+  searchSeries(search: MetadataSearch): Promise<TMDBTVResult[]>;
+
+  getMovieDetails(
+    tmdbId: number,
+    context: MetadataContext
+  ): Promise<ProvidedMetadata<TMDBMovieResult> | null>;
+
+  getSeriesDetails(
+    tmdbId: number,
+    context: MetadataContext
+  ): Promise<ProvidedMetadata<TMDBTVResult> | null>;
+
+  getEpisodeDetails(
+    tmdbId: number,
+    seasonNumber: number,
+    episodeNumber: number,
+    context: MetadataContext
+  ): Promise<ProvidedMetadata<TMDBEpisodeResult> | null>;
+}
@@ -0,0 +1,139 @@
+import { nfoService, NfoMetadata } from '../scanner/nfo.service';
+import { TMDBEpisodeResult, TMDBMovieResult, TMDBTVResult } from '../../types/media.types';
+import {
+  MetadataContext,
+  MetadataProvider,
+  MetadataSearch,
+  ProvidedMetadata,
+} from './metadata-provider';
+
+// Kodi scrapers write TVDB's series states
+const SERIES_STATUSES: Record<string, string> = {
+  continuing: 'Returning Series',
+  ended: 'Ended',
+};
+
+/**
+ * Metadata from the Kodi NFO files next to the media, without asking any database
+ * Only NFOs naming a TMDB ID and holding at least a title and a date are used; the
+ * rest is left to the next provider
+ */
+class NfoMetadataProvider implements MetadataProvider {
+  readonly name = 'nfo';
+
+  async searchMovies(search: MetadataSearch): Promise<TMDBMovieResult[]> {
+    const movie = search.filePath ? await this.movieFromNfo(search.filePath) : null;
+    return movie ? [movie] : [];
+  }
+
+  async searchSeries(search: MetadataSearch): Promise<TMDBTVResult[]> {
+    const series = search.filePath ? await this.seriesFromNfo(search.filePath) : null;
+    return series ? [series] : [];
+  }
+
+  async getMovieDetails(
+    tmdbId: number,
+    context: MetadataContext
+  ): Promise<ProvidedMetadata<TMDBMovieResult> | null> {
+    const movie = context.filePath ? await this.movieFromNfo(context.filePath) : null;
+    return movie?.id === tmdbId ? movie : null;
+  }
+
+  async getSeriesDetails(
+    tmdbId: number,
+    context: MetadataContext
+  ): Promise<ProvidedMetadata<TMDBTVResult> | null> {
+    const series = context.filePath ? await this.seriesFromNfo(context.filePath) : null;
+    return series?.id === tmdbId ? series : null;
+  }
+
+  async getEpisodeDetails(
+    tmdbId: number,
+    seasonNumber: number,
+    episodeNumber: number,
+    context: MetadataContext
+  ): Promise<ProvidedMetadata<TMDBEpisodeResult> | null> {
+    if (!context.filePath) {
+      return null;
+    }
+
+    const [seriesNfo, nfo] = await Promise.all([
+      nfoService.readSeriesNfo(context.filePath),
+      nfoService.readEpisodeNfo(context.filePath),
+    ]);
+    if (
+      seriesNfo?.tmdbId !== tmdbId ||
+      !nfo?.title ||
+      nfo.season !== seasonNumber ||
+      nfo.episode !== episodeNumber
+    ) {
+      return null;
+    }
+
+    return {
+      // Without an ID of its own, the series ID and the numbers still identify the episode
+      id: nfo.tmdbId ?? tmdbId,
+      name: nfo.title,
+      overview: nfo.plot ?? '',
+      air_date: nfo.premiered ?? '',
+      season_number: seasonNumber,
+      episode_number: episodeNumber,
+      runtime: nfo.runtime ?? null,
+      externalId: this.externalId(nfo, nfo.tmdbId ?? tmdbId),
+    };
+  }
+
+  private async movieFromNfo(filePath: string): Promise<ProvidedMetadata<TMDBMovieResult> | null> {
+    const nfo = await nfoService.readMovieNfo(filePath);
+    const releaseDate = nfo?.premiered ?? (nfo?.year ? `${nfo.year}-01-01` : undefined);
+    if (!nfo?.tmdbId || !nfo.title || !releaseDate) {
+      return null;
+    }
+
+    return {
+      id: nfo.tmdbId,
+      title: nfo.title,
+      overview: nfo.plot ?? '',
+      release_date: releaseDate,
+      poster_path: null,
+      backdrop_path: null,
+      genres: this.genres(nfo),
+      runtime: nfo.runtime ?? 0,
+      vote_average: nfo.rating ?? 0,
+      externalId: this.externalId(nfo, nfo.tmdbId),
+    };
+  }
+
+  private async seriesFromNfo(filePath: string): Promise<ProvidedMetadata<TMDBTVResult> | null> {
+    const nfo = await nfoService.readSeriesNfo(filePath);
+    const firstAirDate = nfo?.premiered ?? (nfo?.year ? `${nfo.year}-01-01` : undefined);
+    if (!nfo?.tmdbId || !nfo.title || !firstAirDate) {
+      return null;
+    }
+
+    return {
+      id: nfo.tmdbId,
+      name: nfo.title,
+      overview: nfo.plot ?? '',
+      first_air_date: firstAirDate,
+      last_air_date: firstAirDate,
+      poster_path: null,
+      backdrop_path: null,
+      genres: this.genres(nfo),
+      status: (nfo.status && SERIES_STATUSES[nfo.status.toLowerCase()]) ?? nfo.status ?? '',
+      vote_average: nfo.rating,
+      externalId: this.externalId(nfo, nfo.tmdbId),
+    };
+  }
+
+  private genres(nfo: NfoMetadata): TMDBMovieResult['genres'] {
+    return (nfo.genres ?? []).map((name) => ({ id: 0, name }));
+  }
+
+  // NFOs are usually scraped from IMDb, so its ID is the one they are known by
+  private externalId(nfo: NfoMetadata, tmdbId: number): string {
+    return nfo.imdbId ?? String(tmdbId);
+  }
+}
+
+export const nfoMetadataProvider = new NfoMetadataProvider();
@@ -0,0 +1,105 @@
+import type { Season } from '@samflix/prisma-client';
+import { prisma } from '../../app';
+import { tmdbService, DetailOptions } from '../tmdb/tmdb.service';
+import { CacheInvalidationService } from '../../api/middleware/cache-invalidation';
+
+/**
+ * Service for the seasons of each series: their name, overview, poster and air date
+ * Seasons are pulled from TMDB's season details, including specials, and episodes are linked
+ * to the season they are numbered in
+ */
+class SeasonService {
+  /**
+   * Pulls every season of a series from TMDB, stores them and links its episodes to them
+   * Seasons TMDB no longer lists are removed
+   * @param seriesId The ID of the series in the database
+   * @param options Passed on to TMDB, e.g. to bypass its cache
+   */
+  async syncSeries(seriesId: string, options: DetailOptions = {}): Promise<void> {
+    const series = await prisma.tvSeries.findUnique({ where: { id: seriesId } });
+    if (!series) {
+      throw new Error('Series not found');
+    }
+
+    const details = await tmdbService.getTVDetails(series.tmdbId, [], options);
+    const seasons: Season[] = [];
+    for (const { season_number } of details.seasons ?? []) {
+      const season = await tmdbService.getSeasonDetails(series.tmdbId, season_number, options);
+      const data = {
+        tmdbId: season.id,
+        name: season.name || null,
+        overview: season.overview || null,
+        posterPath: season.poster_path,
+        airDate: this.date(season.air_date),
+      };
+      seasons.push(
+        await prisma.season.upsert({
+          where: { season_identifier: { seriesId: series.id, seasonNumber: season_number } },
+          create: { seriesId: series.id, seasonNumber: season_number, ...data },
+          update: data,
+        })
+      );
+    }
+
+    await prisma.season.deleteMany({
+      where: {
+        seriesId: series.id,
+        seasonNumber: { notIn: seasons.map((season) => season.seasonNumber) },
+      },
+    });
+    for (const season of seasons) {
+      await prisma.episode.updateMany({
+        where: { seriesId: series.id, seasonNumber: season.seasonNumber },
+        data: { seasonId: season.id },
+      });
+    }
+    await prisma.tvSeries.update({
+      where: { id: series.id },
+      data: { seasonsSyncedAt: new Date() },
+    });
+  }
+
+  /**
+   * Pulls the seasons of series that have never been synced, or have episodes that aren't
+   * linked to a season yet
+   * Called after scans so new series and new seasons of a series get theirs
+   * @returns The number of series synced
+   */
+  async syncMissing(): Promise<{ series: number; errors: number }> {
+    const results = { series: 0, errors: 0 };
+    const series = await prisma.tvSeries.findMany({
+      where: {
+        OR: [
+          { seasonsSyncedAt: { isSet: false } },
+          { seasonsSyncedAt: null },
+          {
+            episodes: { some: { OR: [{ seasonId: { isSet: false } }, { seasonId: null }] } },
+          },
+        ],
+      },
+      select: { id: true, title: true },
+    });
+
+    for (const item of series) {
+      try {
+        await this.syncSeries(item.id);
+        results.series++;
+      } catch (error) {
+        console.error(`Error pulling the seasons of series ${item.title}:`, error);
+        results.errors++;
+      }
+    }
+
+    if (results.series > 0) {
+      await CacheInvalidationService.clearPattern('cache:/api/series*');
+    }
+    return results;
+  }
+
+  private date(value: string | null | undefined): Date | null {
+    const date = value ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) ? date : null;
+  }
+}
+
+export const seasonService = new SeasonService();
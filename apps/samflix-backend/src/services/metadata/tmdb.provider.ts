@@ -0,0 +1,59 @@
+import { tmdbService } from '../tmdb/tmdb.service';
+import { TMDBEpisodeResult, TMDBMovieResult, TMDBTVResult } from '../../types/media.types';
+import { MetadataProvider, MetadataSearch, ProvidedMetadata } from './metadata-provider';
+
+/**
+ * Metadata from TMDB; its IDs are the external IDs as well
+ */
+class TmdbMetadataProvider implements MetadataProvider {
+  readonly name = 'tmdb';
+
+  async searchMovies(search: MetadataSearch): Promise<TMDBMovieResult[]> {
+    return tmdbService.searchMovie(search.title, search.year);
+  }
+
+  async searchSeries(search: MetadataSearch): Promise<TMDBTVResult[]> {
+    return tmdbService.searchTV(search.title);
+  }
+
+  async getMovieDetails(tmdbId: number): Promise<ProvidedMetadata<TMDBMovieResult> | null> {
+    return this.unlessNotFound(async () => {
+      const details = await tmdbService.getMovieDetails(tmdbId);
+      return { ...details, externalId: String(details.id) };
+    });
+  }
+
+  async getSeriesDetails(tmdbId: number): Promise<ProvidedMetadata<TMDBTVResult> | null> {
+    return this.unlessNotFound(async () => {
+      const details = await tmdbService.getTVDetails(tmdbId);
+      return { ...details, externalId: String(details.id) };
+    });
+  }
+
+  async getEpisodeDetails(
+    tmdbId: number,
+    seasonNumber: number,
+    episodeNumber: number
+  ): Promise<ProvidedMetadata<TMDBEpisodeResult> | null> {
+    return this.unlessNotFound(async () => {
+      const details = await tmdbService.getEpisodeDetails(tmdbId, seasonNumber, episodeNumber);
+      return { ...details, externalId: String(details.id) };
+    });
+  }
+
+  /**
+   * Turns TMDB's 404 into null so the next provider gets a chance; other errors are thrown
+   */
+  private async unlessNotFound<T>(request: () => Promise<T>): Promise<T | null> {
+    try {
+      return await request();
+    } catch (error) {
+      if ((error as { response?: { status?: number } }).response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+export const tmdbMetadataProvider = new TmdbMetadataProvider();
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  store: new Map<string, string>(),
+}));
+
+vi.mock('../app', () => ({ prisma: {} }));
+vi.mock('./redis.service', () => {
+  const { store } = mocks;
+  return {
+    default: {
+      get: vi.fn(async (key: string) => store.get(key) ?? null),
+      setex: vi.fn(async (key: string, _ttl: number, value: string) => {
+        store.set(key, value);
+        return 'OK';
+      }),
+      incr: vi.fn(async (key: string) => {
+        const value = parseInt(store.get(key) ?? '0', 10) + 1;
+        store.set(key, String(value));
+        return value;
+      }),
+      expire: vi.fn(async () => 1),
+      del: vi.fn(async (key: string) => (store.delete(key) ? 1 : 0)),
+    },
+  };
+});
+
+import { parentalControlService } from './parental-control.service';
+
+const profile = { id: 'profile', pin: parentalControlService.hashPin('1234') };
+
+describe('parentalControlService', () => {
+  beforeEach(() => {
+    mocks.store.clear();
+  });
+
+  describe('attemptPin', () => {
+    it('refuses every PIN, the right one too, after too many wrong ones', async () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        expect(await parentalControlService.attemptPin('profile:a', profile.pin, '0000')).toBe(
+          false
+        );
+      }
+
+      await expect(
+        parentalControlService.attemptPin('profile:a', profile.pin, '1234')
+      ).rejects.toThrow('Too many PIN attempts');
+      // Counted per subject
+      expect(await parentalControlService.attemptPin('profile:b', profile.pin, '1234')).toBe(true);
+    });
+
+    it('resets the count on the right PIN', async () => {
+      for (let attempt = 0; attempt < 4; attempt++) {
+        await parentalControlService.attemptPin('profile:a', profile.pin, '0000');
+      }
+      expect(await parentalControlService.attemptPin('profile:a', profile.pin, '1234')).toBe(true);
+
+      expect(await parentalControlService.attemptPin('profile:a', profile.pin, '0000')).toBe(false);
+      expect(await parentalControlService.attemptPin('profile:a', profile.pin, '1234')).toBe(true);
+    });
+  });
+
+  describe('checkParentalPin', () => {
+    it('locks the account out after too many wrong parental PINs', async () => {
+      const user = { id: 'user', pin: profile.pin };
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await expect(parentalControlService.checkParentalPin(user, '0000')).rejects.toThrow(
+          'Invalid parental PIN'
+        );
+      }
+
+      await expect(parentalControlService.checkParentalPin(user, '1234')).rejects.toThrow(
+        'Too many PIN attempts'
+      );
+    });
+  });
+
+  describe('unlockProfile', () => {
+    it('exchanges the PIN for a token that unlocks the profile', async () => {
+      const { token, expiresAt } = await parentalControlService.unlockProfile(profile, '1234');
+
+      expect(expiresAt.getTime()).toBeGreaterThan(Date.now());
+      expect(await parentalControlService.isUnlocked(profile, token)).toBe(true);
+      expect(await parentalControlService.isUnlocked(profile, undefined)).toBe(false);
+      expect(await parentalControlService.isUnlocked(profile, 'forged')).toBe(false);
+      expect(await parentalControlService.isUnlocked({ ...profile, id: 'other' }, token)).toBe(
+        false
+      );
+    });
+
+    it('keeps the token in Redis hashed', async () => {
+      const { token } = await parentalControlService.unlockProfile(profile, '1234');
+
+      expect([...mocks.store.entries()].flat().join(' ')).not.toContain(token);
+    });
+
+    it('locks the profile again once its PIN changes', async () => {
+      const { token } = await parentalControlService.unlockProfile(profile, '1234');
+
+      const changed = { ...profile, pin: parentalControlService.hashPin('5678') };
+      expect(await parentalControlService.isUnlocked(changed, token)).toBe(false);
+    });
+
+    it('refuses a wrong PIN without handing out a token', async () => {
+      await expect(parentalControlService.unlockProfile(profile, '0000')).rejects.toThrow(
+        'Invalid profile PIN'
+      );
+      expect([...mocks.store.keys()]).toEqual(['pin_attempts:profile:profile']);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+import type { Profile, User } from '@samflix/prisma-client';
+import { prisma } from '../app';
+import redisClient from './redis.service';
+
+// PINs are a few digits, so a costly hash would only slow down the requests checking them
+const PIN_HASH_OPTIONS = { N: 1024 };
+const PIN_HASH_LENGTH = 32;
+
+// Wrong PINs a profile or account may get before its PINs are refused for a while; PINs are a
+// few digits, so they would fall to guessing otherwise
+const PIN_MAX_ATTEMPTS = parseInt(process.env.PIN_MAX_ATTEMPTS || '5', 10);
+
+// How long wrong PINs are counted, and PINs refused once there were too many, in seconds
+const PIN_LOCKOUT_SECONDS = parseInt(process.env.PIN_LOCKOUT_SECONDS || '900', 10);
+
+// How long a profile stays unlocked with the token its PIN was exchanged for, in seconds
+const PROFILE_UNLOCK_TTL = parseInt(process.env.PROFILE_UNLOCK_TTL || '14400', 10);
+
+/**
+ * The parental controls of an account, as shown to its user
+ */
+export interface ParentalControls {
+  maturityLimit: number | null;
+  hasPin: boolean;
+}
+
+/**
+ * Changes to the parental controls of an account; null clears a setting
+ */
+export interface ParentalControlsInput {
+  maturityLimit?: number | null;
+  pin?: string | null;
+}
+
+/**
+ * A token a locked profile's PIN was exchanged for, sent with requests instead of the PIN
+ */
+export interface ProfileUnlock {
+  token: string;
+  expiresAt: Date;
+}
+
+const sha256 = (value: string): string => crypto.createHash('sha256').update(value).digest('hex');
+
+/**
+ * Service for the parental controls of accounts: the maturity limit applied without a profile and
+ * the parental PIN guarding maturity limits and profiles, and for the PINs locking profiles
+ * PINs are stored as salted hashes, and wrong PINs are counted in Redis so guessing them locks
+ * the profile or account out for a while
+ */
+class ParentalControlService {
+  /**
+   * Hashes a PIN for storage
+   */
+  hashPin(pin: string): string {
+    const salt = crypto.randomBytes(16);
+    const hash = crypto.scryptSync(pin, salt, PIN_HASH_LENGTH, PIN_HASH_OPTIONS);
+    return `${salt.toString('hex')}:${hash.toString('hex')}`;
+  }
+
+  /**
+   * Whether a PIN matches a stored hash
+   */
+  verifyPin(stored: string, pin: string): boolean {
+    const [salt, hash] = stored.split(':');
+    if (!salt || !hash) {
+      return false;
+    }
+    const expected = Buffer.from(hash, 'hex');
+    const actual = crypto.scryptSync(
+      pin,
+      Buffer.from(salt, 'hex'),
+      expected.length,
+      PIN_HASH_OPTIONS
+    );
+    return crypto.timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Checks a PIN, refusing any once too many wrong ones were tried
+   * @param subject What the PIN guards, e.g. "profile:<id>"; wrong PINs are counted per subject
+   * @param stored The stored hash
+   * @returns Whether the PIN matches
+   */
+  async attemptPin(subject: string, stored: string, pin: string): Promise<boolean> {
+    const key = `pin_attempts:${subject}`;
+    const attempts = parseInt((await redisClient.get(key)) ?? '0', 10);
+    if (attempts >= PIN_MAX_ATTEMPTS) {
+      throw new Error('Too many PIN attempts, try again later');
+    }
+
+    if (this.verifyPin(stored, pin)) {
+      if (attempts > 0) {
+        await redisClient.del(key);
+      }
+      return true;
+    }
+
+    // Counted from the first wrong PIN, so the lockout ends PIN_LOCKOUT_SECONDS after it
+    if ((await redisClient.incr(key)) === 1) {
+      await redisClient.expire(key, PIN_LOCKOUT_SECONDS);
+    }
+    return false;
+  }
+
+  /**
+   * Throws unless the parental PIN of an account was given, when it has one
+   * @param pin The PIN sent with the request
+   */
+  async checkParentalPin(user: Pick<User, 'id' | 'pin'>, pin: string | undefined): Promise<void> {
+    if (!user.pin) {
+      return;
+    }
+    if (!pin) {
+      throw new Error('Parental PIN required');
+    }
+    if (!(await this.attemptPin(`user:${user.id}`, user.pin, pin))) {
+      throw new Error('Invalid parental PIN');
+    }
+  }
+
+  /**
+   * Exchanges the PIN of a locked profile for a token that unlocks it for a while, so clients
+   * never keep the PIN
+   * @param pin The PIN entered
+   */
+  async unlockProfile(profile: Pick<Profile, 'id' | 'pin'>, pin: string): Promise<ProfileUnlock> {
+    if (profile.pin && !(await this.attemptPin(`profile:${profile.id}`, profile.pin, pin))) {
+      throw new Error('Invalid profile PIN');
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    await redisClient.setex(this.unlockKey(token), PROFILE_UNLOCK_TTL, this.unlockValue(profile));
+    return { token, expiresAt: new Date(Date.now() + PROFILE_UNLOCK_TTL * 1000) };
+  }
+
+  /**
+   * Whether a token unlocks a profile: it must have been handed out for the profile, not have
+   * expired, and the profile's PIN must not have changed since
+   * @param token The token sent with the request
+   */
+  async isUnlocked(
+    profile: Pick<Profile, 'id' | 'pin'>,
+    token: string | undefined
+  ): Promise<boolean> {
+    if (!profile.pin) {
+      return true;
+    }
+    if (!token) {
+      return false;
+    }
+    return (await redisClient.get(this.unlockKey(token))) === this.unlockValue(profile);
+  }
+
+  /**
+   * The parental controls of an account
+   */
+  getControls(user: Pick<User, 'maturityLimit' | 'pin'>): ParentalControls {
+    return { maturityLimit: user.maturityLimit, hasPin: !!user.pin };
+  }
+
+  /**
+   * Changes the maturity limit or parental PIN of an account
+   * @param pin The current parental PIN, needed when the account has one
+   */
+  async updateControls(
+    user: Pick<User, 'id' | 'pin'>,
+    input: ParentalControlsInput,
+    pin: string | undefined
+  ): Promise<ParentalControls> {
+    await this.checkParentalPin(user, pin);
+    const updated = await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        maturityLimit: input.maturityLimit,
+        pin: input.pin ? this.hashPin(input.pin) : input.pin,
+      },
+    });
+    return this.getControls(updated);
+  }
+
+  // Tokens are kept hashed, like PINs
+  private unlockKey(token: string): string {
+    return `profile_unlock:${sha256(token)}`;
+  }
+
+  // Holds the PIN hash's digest, so changing the PIN locks the profile again
+  private unlockValue(profile: Pick<Profile, 'id' | 'pin'>): string {
+    return `${profile.id}:${sha256(profile.pin ?? '')}`;
+  }
+}
+
+export const parentalControlService = new ParentalControlService();
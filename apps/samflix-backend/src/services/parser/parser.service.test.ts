@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ParsingRule } from '@samflix/prisma-client';
+import { parserService } from './parser.service';
+
+const rule = (
+  overrides: Partial<ParsingRule> & Pick<ParsingRule, 'mediaType' | 'pattern'>,
+  folderPath: string | null = null
+): ParsingRule & { folder: { path: string } | null } => ({
+  id: 'rule',
+  name: 'Test rule',
+  flags: 'i',
+  priority: 0,
+  enabled: true,
+  folderId: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+  folder: folderPath ? { path: folderPath } : null,
+});
+
+describe('parserService.parseMovie', () => {
+  it('reads the title, year and release tags', () => {
+    expect(
+      parserService.parseMovie(
+        '/movies/The Matrix (1999)/The.Matrix.1999.1080p.BluRay.x264-GROUP.mkv'
+      )
+    ).toMatchObject({
+      title: 'The Matrix',
+      year: 1999,
+      resolution: '1080p',
+      rip: 'BluRay',
+      provider: 'GROUP',
+      videoCodec: 'H.264',
+    });
+  });
+
+  it('takes a TMDB ID hint out of the title', () => {
+    expect(parserService.parseMovie('/movies/Inception (2010) {tmdb-27205}.mkv')).toMatchObject({
+      title: 'Inception',
+      year: 2010,
+      tmdbId: 27205,
+    });
+  });
+
+  it('reads the part of a movie split across files', () => {
+    expect(parserService.parseMovie('/movies/Kill Bill Vol 1 (2003) - part1.mkv')).toMatchObject({
+      title: 'Kill Bill Vol 1',
+      part: 1,
+    });
+  });
+});
+
+describe('parserService.parseEpisode', () => {
+  it.each([
+    ['Show.S01E02.1080p.mkv', 1, 2],
+    ['Show - S02E10 - Name.mkv', 2, 10],
+    ['Show S01 E02.mkv', 1, 2],
+    ['Show - 1x02 - Name.mkv', 1, 2],
+    ['Show.S03E04.mkv', 3, 4],
+  ])('reads the season and episode of %s', (fileName, seasonNumber, episodeNumber) => {
+    const episode = parserService.parseEpisode(`/tv/Show/${fileName}`);
+
+    expect(episode).toMatchObject({ seriesName: 'Show', seasonNumber, episodeNumber });
+    expect(episode?.endEpisodeNumber).toBeUndefined();
+  });
+
+  it.each([
+    ['Show.S01E01-E03.mkv', 1, 3],
+    ['Show.S01E01E02.mkv', 1, 2],
+    ['Show.S01E01-03.mkv', 1, 3],
+    ['Show.S01E01-03.Title.720p.mkv', 1, 3],
+    ['Show - S02E10-11 - Name.mkv', 10, 11],
+    ['Show.1x01-02.mkv', 1, 2],
+    ['Show.1x01-02.Title.mkv', 1, 2],
+  ])('reads the episode range of %s', (fileName, episodeNumber, endEpisodeNumber) => {
+    expect(parserService.parseEpisode(`/tv/Show/${fileName}`)).toMatchObject({
+      seriesName: 'Show',
+      episodeNumber,
+      endEpisodeNumber,
+    });
+  });
+
+  it('does not take a release tag after the episode for a range', () => {
+    const episode = parserService.parseEpisode('/tv/Show/Show S01E05-720p.mkv');
+
+    expect(episode).toMatchObject({ episodeNumber: 5, resolution: '720p' });
+    expect(episode?.endEpisodeNumber).toBeUndefined();
+  });
+
+  it('ignores ranges too long to be one file', () => {
+    const episode = parserService.parseEpisode('/tv/Show/Show.S01E01-E09.mkv');
+
+    expect(episode).toMatchObject({ episodeNumber: 1 });
+    expect(episode?.endEpisodeNumber).toBeUndefined();
+  });
+
+  it('reads seasonless releases with their group as absolute numbering', () => {
+    expect(
+      parserService.parseEpisode('/tv/[SubsPlease] Chainsaw Man - 05 (1080p) [ABCD1234].mkv')
+    ).toMatchObject({
+      seriesName: 'Chainsaw Man',
+      seasonNumber: 1,
+      episodeNumber: 5,
+      absoluteNumbering: true,
+      provider: 'SubsPlease',
+    });
+  });
+});
+
+describe('parsing rules', () => {
+  afterEach(() => {
+    parserService.setRules([]);
+    vi.restoreAllMocks();
+  });
+
+  it('uses a matching rule before the built-in patterns', () => {
+    parserService.setRules([
+      rule({
+        mediaType: 'series',
+        pattern: '^(?<series>.+?) Ep(?<episode>\\d+)(?:-(?<episodeEnd>\\d+))?$',
+      }),
+    ]);
+
+    expect(parserService.explainEpisode('/tv/My Show Ep07-08.mkv')).toMatchObject({
+      source: 'rule',
+      result: { seriesName: 'My Show', seasonNumber: 1, episodeNumber: 7, endEpisodeNumber: 8 },
+    });
+  });
+
+  it('only applies a folder-scoped rule under its folder', () => {
+    parserService.setRules([
+      rule({ mediaType: 'movie', pattern: '^(?<title>.+)_(?<year>\\d{4})$' }, '/movies/anime'),
+    ]);
+
+    expect(parserService.explainMovie('/movies/anime/Akira_1988.mkv')).toMatchObject({
+      source: 'rule',
+      result: { title: 'Akira', year: 1988 },
+    });
+    expect(parserService.explainMovie('/movies/other/Akira_1988.mkv')?.source).toBe('builtin');
+  });
+
+  it('skips rules whose regex does not compile', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    parserService.setRules([rule({ mediaType: 'movie', pattern: '(?<title>' })]);
+
+    expect(parserService.explainMovie('/movies/Heat (1995).mkv')?.source).toBe('builtin');
+  });
+});
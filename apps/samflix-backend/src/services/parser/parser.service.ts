@@ -1,7 +1,31 @@
 import path from 'path';
-import { ParsedMovie, ParsedEpisode } from '../../types/media.types';
+import type { ParsingRule } from '@samflix/prisma-client';
+import {
+  IdHints,
+  ParsedMovie,
+  ParsedEpisode,
+  ParseMatch,
+  ReleaseAttributes,
+} from '../../types/media.types';
+import { releaseTagService, ReleaseTags } from './release-tag.service';
+
+// A parsing rule from the database together with its compiled regex
+export interface CompiledParsingRule {
+  id: string;
+  name: string;
+  mediaType: 'movie' | 'series';
+  regex: RegExp;
+  // Files must live under this folder for the rule to apply
+  folderPath: string | null;
+}
+
+// Explicit ID hints in file and folder names: {tmdb-438631}, [tmdbid=1399], {imdb-tt1160419}
+const ID_HINT = /[[{(]\s*(tmdb|tmdbid|imdb|imdbid)\s*[-=:]\s*(tt\d+|\d+)\s*[\]})]/gi;
 
 class ParserService {
+  // Admin-defined rules, ordered by priority; tried before the built-in patterns
+  private rules: CompiledParsingRule[] = [];
+
   private readonly movieRegexPatterns = [
     // Pattern 1: Title (Year) [Attr1] [Attr2] ... [AttrN]
     /^(.+?)\s*\((\d{4})\)\s*(?:\[(.*?)\]\s*)*(.*)$/i,
@@ -20,83 +44,331 @@ class ParserService {
   ];
 
   private readonly episodeRegexPatterns = [
+    // Episode numbers may be ranges (S01E01-E02, S01E01E02, S01E01-03, 1x01-02); see episodeRange()
+
     // Pattern 1: Series S01 E02 (with space between S and E) - MUST BE FIRST
-    /^(.+?)[\s.\-_]+[Ss](\d{1,2})[\s.\-_]+[Ee](\d{1,2})[\s.\-_]*(.*)$/i,
+    /^(.+?)[\s.\-_]+[Ss](\d{1,2})[\s.\-_]+[Ee](\d{1,2}(?:-?[Ee]\d{1,2}|-\d{1,2}(?!\d))*)[\s.\-_]*(.*)$/i,
 
     // Pattern 2: Series - S01E02 - Title or Series.S01E02.Title (no space)
-    /^(.+?)[\s.\-_]+[Ss](\d{1,2})[Ee](\d{1,2})[\s.\-_]+(.*)$/i,
-    /^(.+?)[\s.\-_]+[Ss](\d{1,2})[Ee](\d{1,2})[\s.\-_]*$/i,
+    // A name that ends in the episode is tried first, so the end of a range isn't taken for a title
+    /^(.+?)[\s.\-_]+[Ss](\d{1,2})[Ee](\d{1,2}(?:-?[Ee]\d{1,2}|-\d{1,2}(?!\d))*)[\s.\-_]*$/i,
+    /^(.+?)[\s.\-_]+[Ss](\d{1,2})[Ee](\d{1,2}(?:-?[Ee]\d{1,2}|-\d{1,2}(?!\d))*)[\s.\-_]+(.*)$/i,
 
     // Pattern 3: Series - 01x02 - Title or Series.01x02.Title
-    /^(.+?)[\s.\-_]+(\d{1,2})[xX](\d{1,2})[\s.\-_]+(.*)$/i,
-    /^(.+?)[\s.\-_]+(\d{1,2})[xX](\d{1,2})[\s.\-_]*$/i,
+    /^(.+?)[\s.\-_]+(\d{1,2})[xX](\d{1,2}(?:[-xX]\d{1,2})*)[\s.\-_]*$/i,
+    /^(.+?)[\s.\-_]+(\d{1,2})[xX](\d{1,2}(?:[-xX]\d{1,2})*)[\s.\-_]+(.*)$/i,
 
-    // Pattern 4: [SubsPlease] Chainsaw Man - 01v2 (1080p) [HASH]
+    // Pattern 4: Chainsaw Man - 01v2 (1080p) [HASH] (a leading [Group] is split off first)
     /^(.+?)[\s.\-_]+(\d{2,3})[vV]\d*[\s.\-_]+(.*)$/i,
 
     // Pattern 5: Series - 01 - Title (seasonless)
     /^(.+?)[\s.\-_]+(\d{2,3})[\s.\-_]+(.*)$/i,
 
     // Pattern 6: Fallback for just SxxEyy or xxXyy without title
-    /^(.+?)[\s.\-_]+[Ss](\d{1,2})[Ee](\d{1,2})$/i,
-    /^(.+?)[\s.\-_]+(\d{1,2})[xX](\d{1,2})$/i,
+    /^(.+?)[\s.\-_]+[Ss](\d{1,2})[Ee](\d{1,2}(?:-?[Ee]\d{1,2}|-\d{1,2}(?!\d))*)$/i,
+    /^(.+?)[\s.\-_]+(\d{1,2})[xX](\d{1,2}(?:[-xX]\d{1,2})*)$/i,
   ];
 
+  // A range longer than this is more likely a misparse than one file holding that many episodes
+  private readonly maxEpisodesPerFile = 6;
+
+  // Indexes of the episode patterns above that capture no season (series, episode, rest)
+  private readonly seasonlessEpisodePatterns = new Set([5, 6]);
+
+  /**
+   * Replaces the admin-defined parsing rules
+   * Rules whose regex doesn't compile are skipped
+   * @param rules Enabled rules in priority order, with the path of their folder scope
+   */
+  setRules(rules: (ParsingRule & { folder: { path: string } | null })[]): void {
+    this.rules = [];
+
+    for (const rule of rules) {
+      try {
+        this.rules.push({
+          id: rule.id,
+          name: rule.name,
+          mediaType: rule.mediaType === 'series' ? 'series' : 'movie',
+          regex: new RegExp(rule.pattern, rule.flags),
+          folderPath: rule.folder?.path ?? null,
+        });
+      } catch (error) {
+        console.warn(`⚠️  Skipping parsing rule "${rule.name}" with invalid regex:`, error);
+      }
+    }
+  }
+
   parseMovie(filePath: string): ParsedMovie | null {
+    return this.explainMovie(filePath)?.result ?? null;
+  }
+
+  parseEpisode(filePath: string): ParsedEpisode | null {
+    return this.explainEpisode(filePath)?.result ?? null;
+  }
+
+  /**
+   * Parses a movie file name and reports which rule or built-in pattern matched
+   * @param filePath The path (or name) of the movie file
+   */
+  explainMovie(filePath: string): ParseMatch<ParsedMovie> | null {
     const fileName = path.basename(filePath, path.extname(filePath));
+    // ID hints aren't part of the title or the release tags
+    const bareName = fileName.replace(ID_HINT, ' ').trim();
+    const hints = this.idHints(filePath);
+
+    for (const rule of this.rulesFor('movie', filePath)) {
+      const groups = bareName.match(rule.regex)?.groups;
+      if (groups?.title) {
+        const tags = releaseTagService.parse(bareName.replace(groups.title, ' '));
+        return {
+          source: 'rule',
+          ruleId: rule.id,
+          ruleName: rule.name,
+          groups: this.definedGroups(groups),
+          result: {
+            fileName,
+            filePath,
+            ...hints,
+            title: this.cleanTitle(groups.title),
+            year: groups.year ? parseInt(groups.year) : undefined,
+            ...this.attributesFromTags(tags),
+            ...this.attributesFromGroups(groups),
+          },
+        };
+      }
+    }
+
+    const { releaseGroup, rest: name } = releaseTagService.splitLeadingGroup(bareName);
 
-    for (const pattern of this.movieRegexPatterns) {
-      const match = fileName.match(pattern);
+    for (const [patternIndex, pattern] of this.movieRegexPatterns.entries()) {
+      const match = name.match(pattern);
       if (match) {
-        const [, title, year, resolution = '', quality = '', rip = '', sound = '', provider = ''] =
-          match;
+        const [, rawTitle = '', second] = match;
+
+        // Only the first two patterns capture a year; the others capture tags there
+        const year = second && /^\d{4}$/.test(second) ? second : undefined;
+        let title = rawTitle;
+        let tail = year
+          ? name.slice(name.indexOf(year, rawTitle.length) + year.length)
+          : name.slice(rawTitle.length);
+
+        // Without a year the title can run into the tags: "Movie 1080p BluRay"
+        const titleTags = releaseTagService.parse(rawTitle);
+        if (titleTags.firstTagIndex) {
+          title = rawTitle.slice(0, titleTags.firstTagIndex);
+          tail = name.slice(titleTags.firstTagIndex);
+        }
 
         return {
-          fileName,
-          filePath,
-          title: this.cleanTitle(title!),
-          year: parseInt(year!),
-          resolution: resolution || undefined,
-          quality: quality || undefined,
-          rip: rip || undefined,
-          sound: sound || undefined,
-          provider: provider || undefined,
+          source: 'builtin',
+          patternIndex,
+          groups: this.positionalGroups(match),
+          result: {
+            fileName,
+            filePath,
+            ...hints,
+            title: this.cleanTitle(title),
+            year: year ? parseInt(year) : undefined,
+            ...this.attributesFromTags(releaseTagService.parse(tail), releaseGroup),
+          },
         };
       }
     }
     return null;
   }
 
-  parseEpisode(filePath: string): ParsedEpisode | null {
+  /**
+   * Parses an episode file name and reports which rule or built-in pattern matched
+   * @param filePath The path (or name) of the episode file
+   */
+  explainEpisode(filePath: string): ParseMatch<ParsedEpisode> | null {
     const fileName = path.basename(filePath, path.extname(filePath));
+    // ID hints aren't part of the title or the release tags
+    const bareName = fileName.replace(ID_HINT, ' ').trim();
+    const hints = this.idHints(filePath);
 
-    for (const pattern of this.episodeRegexPatterns) {
-      const match = fileName.match(pattern);
-      if (match) {
-        const [, seriesName, seasonStr, episodeStr] = match;
+    for (const rule of this.rulesFor('series', filePath)) {
+      const groups = bareName.match(rule.regex)?.groups;
+      if (groups?.series && groups.episode) {
+        const tags = releaseTagService.parse(bareName.replace(groups.series, ' '));
+        return {
+          source: 'rule',
+          ruleId: rule.id,
+          ruleName: rule.name,
+          groups: this.definedGroups(groups),
+          result: {
+            fileName,
+            filePath,
+            ...hints,
+            seriesName: this.cleanTitle(groups.series),
+            // Seasonless releases (mostly anime) are season 1 until the scanner maps them
+            seasonNumber: groups.season ? parseInt(groups.season) : 1,
+            ...this.episodeRange(groups.episode, groups.episodeEnd),
+            absoluteNumbering: !groups.season,
+            ...this.attributesFromTags(tags),
+            ...this.attributesFromGroups(groups),
+          },
+        };
+      }
+    }
+
+    const { releaseGroup, rest: name } = releaseTagService.splitLeadingGroup(bareName);
 
-        // Extract quality info if present
-        const qualityMatch = fileName.match(/\[(.*?)\]/g);
-        const [resolution = '', quality = '', rip = '', sound = '', provider = ''] =
-          qualityMatch || [];
+    for (const [patternIndex, pattern] of this.episodeRegexPatterns.entries()) {
+      const match = name.match(pattern);
+      if (match) {
+        const seasonless = this.seasonlessEpisodePatterns.has(patternIndex);
+        const [, seriesName, ...numbers] = match;
+        const seasonStr = seasonless ? '1' : numbers[0];
+        const episodeStr = seasonless ? numbers[0] : numbers[1];
+        // Whatever follows the episode number holds the release tags
+        const tail = (seasonless ? numbers[1] : numbers[2]) ?? '';
 
         return {
-          fileName,
-          filePath,
-          seriesName: this.cleanTitle(seriesName!),
-          seasonNumber: parseInt(seasonStr!),
-          episodeNumber: parseInt(episodeStr!),
-          resolution: resolution?.replace(/[[\]]/g, '') || undefined,
-          quality: quality?.replace(/[[\]]/g, '') || undefined,
-          rip: rip?.replace(/[[\]]/g, '') || undefined,
-          sound: sound?.replace(/[[\]]/g, '') || undefined,
-          provider: provider?.replace(/[[\]]/g, '') || undefined,
+          source: 'builtin',
+          patternIndex,
+          groups: this.positionalGroups(match),
+          result: {
+            fileName,
+            filePath,
+            ...hints,
+            seriesName: this.cleanTitle(seriesName!),
+            seasonNumber: parseInt(seasonStr!),
+            ...this.episodeRange(episodeStr!),
+            absoluteNumbering: seasonless,
+            ...this.attributesFromTags(releaseTagService.parse(tail), releaseGroup),
+          },
         };
       }
     }
     return null;
   }
 
+  /**
+   * Finds TMDB and IMDb ID hints in a file name or the names of its folders
+   * The hint closest to the file wins, so a file can override its folder
+   * @param filePath The path (or name) of the media file
+   */
+  private idHints(filePath: string): IdHints {
+    const hints: IdHints = {};
+    const names = [path.basename(filePath, path.extname(filePath))];
+    for (let dir = path.dirname(filePath); dir !== path.dirname(dir); dir = path.dirname(dir)) {
+      names.push(path.basename(dir));
+    }
+
+    for (const name of names) {
+      for (const [, source, id] of name.matchAll(ID_HINT)) {
+        const isImdb = source!.toLowerCase().startsWith('imdb');
+        if (isImdb && /^tt\d+$/i.test(id!)) {
+          hints.imdbId ??= id!.toLowerCase();
+        } else if (!isImdb && /^\d+$/.test(id!)) {
+          hints.tmdbId ??= parseInt(id!);
+        }
+      }
+      if (hints.tmdbId || hints.imdbId) {
+        return hints;
+      }
+    }
+
+    return hints;
+  }
+
+  /**
+   * Reads the episode number, or range of numbers, of a multi-episode file
+   * @param episode The captured episode, e.g. "01", "01-E02", "01E02E03" or "01-02"
+   * @param episodeEnd A separately captured last episode, from parsing rules
+   */
+  private episodeRange(
+    episode: string,
+    episodeEnd?: string
+  ): Pick<ParsedEpisode, 'episodeNumber' | 'endEpisodeNumber'> {
+    const numbers = (episode.match(/\d+/g) ?? []).map((value) => parseInt(value));
+    if (episodeEnd) {
+      numbers.push(parseInt(episodeEnd));
+    }
+
+    const episodeNumber = numbers[0]!;
+    const endEpisodeNumber = numbers[numbers.length - 1]!;
+
+    if (
+      endEpisodeNumber <= episodeNumber ||
+      endEpisodeNumber - episodeNumber >= this.maxEpisodesPerFile
+    ) {
+      return { episodeNumber };
+    }
+    return { episodeNumber, endEpisodeNumber };
+  }
+
+  /**
+   * Rules of a media type that apply to a file, honouring their folder scope
+   */
+  private rulesFor(mediaType: 'movie' | 'series', filePath: string): CompiledParsingRule[] {
+    return this.rules.filter(
+      (rule) =>
+        rule.mediaType === mediaType &&
+        (!rule.folderPath ||
+          filePath.startsWith(
+            rule.folderPath.endsWith(path.sep) ? rule.folderPath : `${rule.folderPath}${path.sep}`
+          ))
+    );
+  }
+
+  /**
+   * Maps recognised release tags onto the media file fields
+   * @param tags Tags found after the title
+   * @param leadingGroup Release group from a leading [Group] tag, if any
+   */
+  private attributesFromTags(tags: ReleaseTags, leadingGroup?: string): ReleaseAttributes {
+    const quality = [tags.resolution, ...tags.hdr].filter(Boolean).join(' ');
+
+    return {
+      resolution: tags.resolution,
+      quality: quality || undefined,
+      rip: tags.source,
+      sound: tags.audio,
+      provider: leadingGroup ?? tags.releaseGroup,
+      videoCodec: tags.videoCodec,
+      hdr: tags.hdr,
+      edition: tags.edition,
+      part: tags.part,
+    };
+  }
+
+  /**
+   * Fields a parsing rule captured explicitly; these win over recognised tags
+   */
+  private attributesFromGroups(groups: Record<string, string | undefined>): ReleaseAttributes {
+    const attributes: ReleaseAttributes = {
+      resolution: groups.resolution,
+      quality: groups.quality,
+      rip: groups.rip,
+      sound: groups.sound,
+      provider: groups.provider,
+      videoCodec: groups.videoCodec,
+      edition: groups.edition,
+      part: groups.part ? parseInt(groups.part) : undefined,
+    };
+
+    return Object.fromEntries(
+      Object.entries(attributes).filter(([, value]) => value !== undefined && value !== '')
+    );
+  }
+
+  private definedGroups(groups: Record<string, string | undefined>): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(groups).filter((entry): entry is [string, string] => entry[1] !== undefined)
+    );
+  }
+
+  private positionalGroups(match: RegExpMatchArray): Record<string, string> {
+    return Object.fromEntries(
+      match
+        .slice(1)
+        .map((value, index): [string, string | undefined] => [String(index + 1), value])
+        .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    );
+  }
+
   private cleanTitle(title: string): string {
     return title.replace(/\./g, ' ').replace(/_/g, ' ').replace(/\s+/g, ' ').trim();
   }
@@ -0,0 +1,201 @@
+import type { ParsingRule } from '@samflix/prisma-client';
+import { prisma } from '../../app';
+import { parserService } from './parser.service';
+import { ParsedEpisode, ParsedMovie, ParseMatch } from '../../types/media.types';
+
+export interface ParsingRuleInput {
+  name: string;
+  mediaType: 'movie' | 'series';
+  pattern: string;
+  flags?: string;
+  priority?: number;
+  enabled?: boolean;
+  folderId?: string | null;
+}
+
+// Named groups a rule may capture, and the ones it must capture per media type
+const KNOWN_GROUPS = [
+  'title',
+  'year',
+  'series',
+  'season',
+  'episode',
+  'episodeEnd',
+  'resolution',
+  'quality',
+  'rip',
+  'sound',
+  'provider',
+  'videoCodec',
+  'edition',
+  'part',
+];
+const REQUIRED_GROUPS: Record<ParsingRuleInput['mediaType'], string[]> = {
+  movie: ['title'],
+  series: ['series', 'episode'],
+};
+
+/**
+ * Service for admin-defined filename parsing rules
+ * Keeps the parser's in-memory copy of the enabled rules in sync with the database
+ */
+class ParsingRuleService {
+  /**
+   * Lists all parsing rules, highest priority first
+   */
+  async listRules(): Promise<ParsingRule[]> {
+    return prisma.parsingRule.findMany({
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Gets a single parsing rule
+   * @param ruleId The ID of the rule
+   */
+  async getRule(ruleId: string): Promise<ParsingRule> {
+    const rule = await prisma.parsingRule.findUnique({ where: { id: ruleId } });
+
+    if (!rule) {
+      throw new Error('Parsing rule not found');
+    }
+
+    return rule;
+  }
+
+  /**
+   * Creates a parsing rule
+   * @param input The rule definition
+   */
+  async createRule(input: ParsingRuleInput): Promise<ParsingRule> {
+    const flags = input.flags ?? 'i';
+    this.validatePattern(input.mediaType, input.pattern, flags);
+    await this.validateFolder(input.folderId);
+
+    const rule = await prisma.parsingRule.create({
+      data: {
+        name: input.name,
+        mediaType: input.mediaType,
+        pattern: input.pattern,
+        flags,
+        priority: input.priority ?? 0,
+        enabled: input.enabled ?? true,
+        folderId: input.folderId ?? null,
+      },
+    });
+
+    await this.loadRules();
+    return rule;
+  }
+
+  /**
+   * Updates a parsing rule
+   * @param ruleId The ID of the rule
+   * @param input The fields to change
+   */
+  async updateRule(ruleId: string, input: Partial<ParsingRuleInput>): Promise<ParsingRule> {
+    const existing = await this.getRule(ruleId);
+    const mediaType = input.mediaType ?? (existing.mediaType as ParsingRuleInput['mediaType']);
+
+    this.validatePattern(
+      mediaType,
+      input.pattern ?? existing.pattern,
+      input.flags ?? existing.flags
+    );
+    await this.validateFolder(input.folderId);
+
+    const rule = await prisma.parsingRule.update({
+      where: { id: ruleId },
+      data: {
+        name: input.name,
+        mediaType: input.mediaType,
+        pattern: input.pattern,
+        flags: input.flags,
+        priority: input.priority,
+        enabled: input.enabled,
+        folderId: input.folderId,
+      },
+    });
+
+    await this.loadRules();
+    return rule;
+  }
+
+  /**
+   * Deletes a parsing rule
+   * @param ruleId The ID of the rule
+   */
+  async deleteRule(ruleId: string): Promise<void> {
+    await this.getRule(ruleId);
+    await prisma.parsingRule.delete({ where: { id: ruleId } });
+    await this.loadRules();
+  }
+
+  /**
+   * Shows how a file name would be parsed with the current rules
+   * @param filePath The file name, or a full path to exercise folder-scoped rules
+   * @param mediaType Whether to parse it as a movie or an episode
+   */
+  async testFileName(
+    filePath: string,
+    mediaType: ParsingRuleInput['mediaType']
+  ): Promise<ParseMatch<ParsedMovie> | ParseMatch<ParsedEpisode> | null> {
+    await this.loadRules();
+    return mediaType === 'movie'
+      ? parserService.explainMovie(filePath)
+      : parserService.explainEpisode(filePath);
+  }
+
+  /**
+   * Loads the enabled rules into the parser
+   * Called before every scan so rules edited elsewhere are picked up
+   */
+  async loadRules(): Promise<void> {
+    const rules = await prisma.parsingRule.findMany({
+      where: { enabled: true },
+      include: { folder: { select: { path: true } } },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    parserService.setRules(rules);
+  }
+
+  private validatePattern(
+    mediaType: ParsingRuleInput['mediaType'],
+    pattern: string,
+    flags: string
+  ): void {
+    try {
+      new RegExp(pattern, flags);
+    } catch (error) {
+      throw new Error(
+        `Invalid parsing rule: ${error instanceof Error ? error.message : 'invalid regex'}`
+      );
+    }
+
+    const groups = [...pattern.matchAll(/\(\?<([A-Za-z_$][\w$]*)>/g)].map((match) => match[1]!);
+
+    const unknown = groups.filter((group) => !KNOWN_GROUPS.includes(group));
+    if (unknown.length > 0) {
+      throw new Error(`Invalid parsing rule: unknown named group(s) ${unknown.join(', ')}`);
+    }
+
+    const missing = REQUIRED_GROUPS[mediaType].filter((group) => !groups.includes(group));
+    if (missing.length > 0) {
+      throw new Error(`Invalid parsing rule: missing named group(s) ${missing.join(', ')}`);
+    }
+  }
+
+  private async validateFolder(folderId: string | null | undefined): Promise<void> {
+    if (!folderId) {
+      return;
+    }
+
+    const folder = await prisma.mediaFolder.findUnique({ where: { id: folderId } });
+    if (!folder) {
+      throw new Error('Invalid parsing rule: media folder not found');
+    }
+  }
+}
+
+export const parsingRuleService = new ParsingRuleService();
@@ -0,0 +1,222 @@
+/**
+ * Release tags recognised in a file name
+ */
+export interface ReleaseTags {
+  resolution?: string;
+  source?: string;
+  videoCodec?: string;
+  audio?: string;
+  hdr: string[];
+  edition?: string;
+  releaseGroup?: string;
+  part?: number;
+  /** Where the first tag (other than a part marker) starts, or null if there is none */
+  firstTagIndex: number | null;
+}
+
+type TagCategory = 'resolution' | 'source' | 'videoCodec' | 'audio' | 'hdr' | 'edition' | 'part';
+
+interface TagVocabularyEntry {
+  category: TagCategory;
+  pattern: RegExp;
+  // Normalised value, built from the match when the tag carries extra data (e.g. channels)
+  value: (match: RegExpExecArray) => string;
+}
+
+// Tags must stand on their own: not preceded or followed by a letter or digit
+const tag = (source: string): RegExp => new RegExp(`(?<![a-z0-9])(?:${source})(?![a-z0-9])`, 'gi');
+
+const channels = (match: RegExpExecArray): string => match[1] ?? '';
+
+/**
+ * Known vocabularies, most specific entries first: once a stretch of text is claimed
+ * by a tag, shorter tags inside it (DTS in DTS-HD, WEB in WEB-DL) are ignored
+ */
+const VOCABULARY: TagVocabularyEntry[] = [
+  // Resolutions
+  { category: 'resolution', pattern: tag('2160p|4k|uhd|3840x2160'), value: () => '2160p' },
+  { category: 'resolution', pattern: tag('1080[pi]|1920x1080'), value: () => '1080p' },
+  { category: 'resolution', pattern: tag('720p|1280x720'), value: () => '720p' },
+  { category: 'resolution', pattern: tag('576p'), value: () => '576p' },
+  { category: 'resolution', pattern: tag('480p'), value: () => '480p' },
+
+  // Sources
+  { category: 'source', pattern: tag('(?:blu-?ray|bd)[ ._-]?remux'), value: () => 'BluRay Remux' },
+  { category: 'source', pattern: tag('remux'), value: () => 'Remux' },
+  { category: 'source', pattern: tag('blu-?ray|bdrip|brrip|bd'), value: () => 'BluRay' },
+  { category: 'source', pattern: tag('web[ ._-]?dl'), value: () => 'WEB-DL' },
+  { category: 'source', pattern: tag('web[ ._-]?rip'), value: () => 'WEBRip' },
+  { category: 'source', pattern: tag('web'), value: () => 'WEB' },
+  { category: 'source', pattern: tag('hdtv'), value: () => 'HDTV' },
+  { category: 'source', pattern: tag('hdrip'), value: () => 'HDRip' },
+  { category: 'source', pattern: tag('dvd[ ._-]?rip'), value: () => 'DVDRip' },
+  { category: 'source', pattern: tag('dvd(?:5|9|r)?'), value: () => 'DVD' },
+  { category: 'source', pattern: tag('hd[ ._-]?cam|cam[ ._-]?rip|cam'), value: () => 'CAM' },
+  { category: 'source', pattern: tag('hd[ ._-]?ts|telesync'), value: () => 'TS' },
+
+  // Video codecs
+  { category: 'videoCodec', pattern: tag('[xh][ .]?265|hevc'), value: () => 'HEVC' },
+  { category: 'videoCodec', pattern: tag('[xh][ .]?264|avc'), value: () => 'H.264' },
+  { category: 'videoCodec', pattern: tag('av1'), value: () => 'AV1' },
+  { category: 'videoCodec', pattern: tag('vp9'), value: () => 'VP9' },
+  { category: 'videoCodec', pattern: tag('xvid|divx'), value: () => 'XviD' },
+
+  // HDR formats
+  { category: 'hdr', pattern: tag('dolby[ ._-]?vision|dovi|dv'), value: () => 'DV' },
+  { category: 'hdr', pattern: tag('hdr10(?:\\+|plus)'), value: () => 'HDR10+' },
+  { category: 'hdr', pattern: tag('hdr10'), value: () => 'HDR10' },
+  { category: 'hdr', pattern: tag('hdr'), value: () => 'HDR' },
+  { category: 'hdr', pattern: tag('hlg'), value: () => 'HLG' },
+
+  // Audio formats, with channels when they are attached
+  {
+    category: 'audio',
+    pattern: tag('(?:ddp|dd\\+|e-?ac-?3)[ .]?(\\d\\.\\d)?'),
+    value: (m) => `DDP${channels(m)}`,
+  },
+  {
+    category: 'audio',
+    pattern: tag('truehd[ .]?(\\d\\.\\d)?'),
+    value: (m) => (m[1] ? `TrueHD ${m[1]}` : 'TrueHD'),
+  },
+  { category: 'audio', pattern: tag('atmos'), value: () => 'Atmos' },
+  {
+    category: 'audio',
+    pattern: tag('dts[ ._-]?hd[ ._-]?ma|dts[ ._-]?hd'),
+    value: () => 'DTS-HD MA',
+  },
+  { category: 'audio', pattern: tag('dts[ ._-]?x'), value: () => 'DTS:X' },
+  { category: 'audio', pattern: tag('dts'), value: () => 'DTS' },
+  {
+    category: 'audio',
+    pattern: tag('(?:dd|ac-?3)[ .]?(\\d\\.\\d)?'),
+    value: (m) => `DD${channels(m)}`,
+  },
+  { category: 'audio', pattern: tag('aac[ .]?(\\d\\.\\d)?'), value: (m) => `AAC${channels(m)}` },
+  { category: 'audio', pattern: tag('flac'), value: () => 'FLAC' },
+  { category: 'audio', pattern: tag('opus'), value: () => 'Opus' },
+  { category: 'audio', pattern: tag('mp3'), value: () => 'MP3' },
+  // Bare channel layouts ([5.1]) when no format carried them
+  { category: 'audio', pattern: tag('[2578]\\.[01]'), value: (m) => m[0] },
+
+  // Editions
+  { category: 'edition', pattern: tag("director'?s[ ._-]?cut"), value: () => "Director's Cut" },
+  {
+    category: 'edition',
+    pattern: tag('extended(?:[ ._-](?:cut|edition))?'),
+    value: () => 'Extended',
+  },
+  { category: 'edition', pattern: tag('theatrical(?:[ ._-]cut)?'), value: () => 'Theatrical' },
+  { category: 'edition', pattern: tag('unrated'), value: () => 'Unrated' },
+  { category: 'edition', pattern: tag('uncut'), value: () => 'Uncut' },
+  { category: 'edition', pattern: tag('final[ ._-]cut'), value: () => 'Final Cut' },
+  {
+    category: 'edition',
+    pattern: tag('ultimate[ ._-](?:cut|edition)'),
+    value: () => 'Ultimate Edition',
+  },
+  { category: 'edition', pattern: tag('special[ ._-]edition'), value: () => 'Special Edition' },
+  { category: 'edition', pattern: tag('criterion(?:[ ._-]collection)?'), value: () => 'Criterion' },
+  { category: 'edition', pattern: tag('imax(?:[ ._-]edition)?'), value: () => 'IMAX' },
+  { category: 'edition', pattern: tag('remastered'), value: () => 'Remastered' },
+
+  // Multi-part markers
+  {
+    category: 'part',
+    pattern: tag('(?:cd|disc|disk|part|pt)[ ._-]?(\\d{1,2})'),
+    value: (m) => String(parseInt(m[1]!)),
+  },
+];
+
+// Scene releases end in -GROUP; anime releases start with [Group]
+const TRAILING_GROUP = /-([a-z0-9][a-z0-9_]*)(?:[ ._-]*\[[0-9a-f]{8}\])?[ ._-]*$/i;
+const LEADING_GROUP = /^\[([^\]]+)\][ ._-]*/;
+
+/**
+ * Service that extracts structured release tags from file names
+ */
+class ReleaseTagService {
+  /**
+   * Splits a leading [Group] tag off a file name
+   * @param fileName The file name without extension
+   * @returns The release group, if any, and the rest of the name
+   */
+  splitLeadingGroup(fileName: string): { releaseGroup?: string; rest: string } {
+    const match = fileName.match(LEADING_GROUP);
+    if (!match) {
+      return { rest: fileName };
+    }
+
+    return { releaseGroup: match[1]!.trim(), rest: fileName.slice(match[0].length) };
+  }
+
+  /**
+   * Recognises the release tags in a piece of a file name
+   * Pass only the part after the title, so titles like "Part 2" aren't mistaken for tags
+   * @param text The text to scan
+   */
+  parse(text: string): ReleaseTags {
+    const tags: ReleaseTags = { hdr: [], firstTagIndex: null };
+    const audio: string[] = [];
+    const editions: string[] = [];
+    const claimed: Array<[number, number]> = [];
+
+    const isClaimed = (start: number, end: number): boolean =>
+      claimed.some(([from, to]) => start < to && end > from);
+
+    for (const entry of VOCABULARY) {
+      entry.pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+
+      while ((match = entry.pattern.exec(text)) !== null) {
+        const start = match.index;
+        const end = start + match[0].length;
+        if (isClaimed(start, end)) {
+          continue;
+        }
+        claimed.push([start, end]);
+
+        const value = entry.value(match);
+        switch (entry.category) {
+          case 'hdr':
+            if (!tags.hdr.includes(value)) tags.hdr.push(value);
+            break;
+          case 'audio':
+            if (!audio.includes(value)) audio.push(value);
+            break;
+          case 'edition':
+            if (!editions.includes(value)) editions.push(value);
+            break;
+          case 'part':
+            tags.part ??= parseInt(value);
+            break;
+          default:
+            tags[entry.category] ??= value;
+        }
+
+        if (
+          entry.category !== 'part' &&
+          (tags.firstTagIndex === null || start < tags.firstTagIndex)
+        ) {
+          tags.firstTagIndex = start;
+        }
+      }
+    }
+
+    if (audio.length > 0) tags.audio = audio.join(' ');
+    if (editions.length > 0) tags.edition = editions.join(' ');
+
+    const group = text.match(TRAILING_GROUP);
+    if (
+      group &&
+      group.index !== undefined &&
+      !isClaimed(group.index + 1, group.index + 1 + group[1]!.length)
+    ) {
+      tags.releaseGroup = group[1];
+    }
+
+    return tags;
+  }
+}
+
+export const releaseTagService = new ReleaseTagService();
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+interface StoredProfile {
+  id: string;
+  userId: string;
+  name: string;
+  pin: string | null;
+  createdAt: Date;
+}
+
+const mocks = vi.hoisted(() => ({
+  profiles: [] as StoredProfile[],
+  moveViewerProgress: vi.fn(),
+}));
+
+vi.mock('../app', () => {
+  const { profiles } = mocks;
+  let nextId = 0;
+  // Yields first, so requests made together interleave as they would against the database
+  const later = <T>(value: () => T): Promise<T> =>
+    new Promise((resolve) => setImmediate(() => resolve(value())));
+
+  return {
+    prisma: {
+      profile: {
+        count: vi.fn(({ where }: { where: { userId: string } }) =>
+          later(() => profiles.filter((profile) => profile.userId === where.userId).length)
+        ),
+        create: vi.fn(({ data }: { data: Omit<StoredProfile, 'id' | 'createdAt'> }) =>
+          later(() => {
+            const profile = { ...data, id: `p${nextId++}`, createdAt: new Date() };
+            profiles.push(profile);
+            return profile;
+          })
+        ),
+        findMany: vi.fn(({ where }: { where: { userId: string } }) =>
+          later(() => profiles.filter((profile) => profile.userId === where.userId))
+        ),
+        delete: vi.fn(({ where }: { where: { id: string } }) =>
+          later(
+            () =>
+              profiles.splice(
+                profiles.findIndex(({ id }) => id === where.id),
+                1
+              )[0]
+          )
+        ),
+      },
+    },
+  };
+});
+vi.mock('./metadata/localization.service', () => ({
+  localizationService: { validateLanguage: vi.fn() },
+}));
+vi.mock('./progress.service', () => ({
+  progressService: { moveViewerProgress: mocks.moveViewerProgress },
+}));
+vi.mock('./redis.service', () => ({ default: {} }));
+
+import { MAX_PROFILES, profileService } from './profile.service';
+
+const user = { id: 'user', clerkId: 'user_alice', pin: null };
+
+describe('profileService.createProfile', () => {
+  beforeEach(() => {
+    mocks.profiles.length = 0;
+    mocks.moveViewerProgress.mockClear();
+  });
+
+  it('gives the first profile the progress saved without one', async () => {
+    const first = await profileService.createProfile(user, { name: 'Alice' });
+    await profileService.createProfile(user, { name: 'Bob' });
+
+    expect(mocks.moveViewerProgress).toHaveBeenCalledTimes(1);
+    expect(mocks.moveViewerProgress).toHaveBeenCalledWith('user_alice', first.id);
+  });
+
+  it('keeps to the limit when profiles are added at once', async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: MAX_PROFILES + 3 }, (_, index) =>
+        profileService.createProfile(user, { name: `Profile ${index}` })
+      )
+    );
+
+    expect(mocks.profiles).toHaveLength(MAX_PROFILES);
+    expect(results.filter(({ status }) => status === 'fulfilled')).toHaveLength(MAX_PROFILES);
+    expect(results.filter(({ status }) => status === 'rejected')).toEqual(
+      Array.from({ length: 3 }, () => ({
+        status: 'rejected',
+        reason: new Error(`Profile limit reached: an account can have ${MAX_PROFILES} profiles`),
+      }))
+    );
+    expect(mocks.moveViewerProgress).toHaveBeenCalledTimes(1);
+  });
+});
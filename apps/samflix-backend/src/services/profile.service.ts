@@ -0,0 +1,164 @@
+import type { Profile, User } from '@samflix/prisma-client';
+import { prisma } from '../app';
+import { localizationService } from './metadata/localization.service';
+import { parentalControlService, ProfileUnlock } from './parental-control.service';
+import { progressService } from './progress.service';
+
+// Profiles an account can have, as on most streaming services
+export const MAX_PROFILES = 5;
+
+/**
+ * The editable fields of a profile
+ */
+export interface ProfileInput {
+  name: string;
+  avatar?: string | null;
+  maturityLimit?: number | null;
+  preferredLanguage?: string | null;
+  /** PIN locking the profile; null removes it */
+  pin?: string | null;
+}
+
+/**
+ * A profile as shown to its user, with whether it is locked instead of its PIN
+ */
+export interface ProfileSummary extends Omit<Profile, 'pin'> {
+  hasPin: boolean;
+}
+
+/**
+ * Service for the profiles of the members of a household sharing an account
+ * Each profile keeps its own progress, under its ID instead of the account's Clerk ID
+ * Adding and deleting profiles and changing their maturity limit or PIN takes the account's
+ * parental PIN, when it has one
+ */
+class ProfileService {
+  /**
+   * The profiles of a user, oldest first
+   * @param userId The ID of the user in the database
+   */
+  async listProfiles(userId: string): Promise<ProfileSummary[]> {
+    const profiles = await prisma.profile.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+    return profiles.map((profile) => this.summarize(profile));
+  }
+
+  /**
+   * Adds a profile to a user
+   * The first profile takes over the progress the account saved before it had profiles
+   * @param user The user in the database
+   * @param parentalPin The account's parental PIN, needed when it has one
+   */
+  async createProfile(
+    user: Pick<User, 'id' | 'clerkId' | 'pin'>,
+    input: ProfileInput,
+    parentalPin?: string
+  ): Promise<ProfileSummary> {
+    this.validate(input);
+    await parentalControlService.checkParentalPin(user, parentalPin);
+    const count = await prisma.profile.count({ where: { userId: user.id } });
+    if (count >= MAX_PROFILES) {
+      throw new Error(`Profile limit reached: an account can have ${MAX_PROFILES} profiles`);
+    }
+
+    const profile = await prisma.profile.create({
+      data: { ...input, pin: this.pinHash(input.pin), userId: user.id },
+    });
+
+    // Requests adding profiles at once all get past the count, so whichever profiles end up
+    // beyond the limit, in the order they were created, are removed again
+    const profiles = await prisma.profile.findMany({
+      where: { userId: user.id },
+      select: { id: true },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+    const position = profiles.findIndex(({ id }) => id === profile.id);
+    if (position >= MAX_PROFILES) {
+      await prisma.profile.delete({ where: { id: profile.id } });
+      throw new Error(`Profile limit reached: an account can have ${MAX_PROFILES} profiles`);
+    }
+
+    if (position === 0) {
+      await progressService.moveViewerProgress(user.clerkId, profile.id);
+    }
+    return this.summarize(profile);
+  }
+
+  /**
+   * Updates a profile of a user
+   * @param user The user in the database
+   * @param profileId The ID of the profile
+   * @param parentalPin The account's parental PIN, needed to change the maturity limit or PIN
+   */
+  async updateProfile(
+    user: Pick<User, 'id' | 'pin'>,
+    profileId: string,
+    input: Partial<ProfileInput>,
+    parentalPin?: string
+  ): Promise<ProfileSummary> {
+    this.validate(input);
+    await this.getProfile(user.id, profileId);
+    if (input.maturityLimit !== undefined || input.pin !== undefined) {
+      await parentalControlService.checkParentalPin(user, parentalPin);
+    }
+    const profile = await prisma.profile.update({
+      where: { id: profileId },
+      data: { ...input, pin: this.pinHash(input.pin) },
+    });
+    return this.summarize(profile);
+  }
+
+  /**
+   * Exchanges the PIN of a locked profile for the token a client sends with its requests
+   * @param userId The ID of the user in the database
+   * @param profileId The ID of the profile
+   */
+  async unlockProfile(userId: string, profileId: string, pin: string): Promise<ProfileUnlock> {
+    const profile = await this.getProfile(userId, profileId);
+    return parentalControlService.unlockProfile(profile, pin);
+  }
+
+  /**
+   * Deletes a profile of a user along with its progress
+   * @param user The user in the database
+   * @param profileId The ID of the profile
+   * @param parentalPin The account's parental PIN, needed when it has one
+   */
+  async deleteProfile(
+    user: Pick<User, 'id' | 'pin'>,
+    profileId: string,
+    parentalPin?: string
+  ): Promise<void> {
+    await this.getProfile(user.id, profileId);
+    await parentalControlService.checkParentalPin(user, parentalPin);
+    await prisma.profile.delete({ where: { id: profileId } });
+    await progressService.deleteViewerProgress(profileId);
+  }
+
+  private async getProfile(userId: string, profileId: string): Promise<Profile> {
+    const profile = await prisma.profile.findFirst({ where: { id: profileId, userId } });
+    if (!profile) {
+      throw new Error('Profile not found');
+    }
+    return profile;
+  }
+
+  private summarize({ pin, ...profile }: Profile): ProfileSummary {
+    return { ...profile, hasPin: !!pin };
+  }
+
+  // Hashed PINs are stored; null removes the PIN and undefined leaves it as is
+  private pinHash(pin: string | null | undefined): string | null | undefined {
+    return pin ? parentalControlService.hashPin(pin) : pin;
+  }
+
+  private validate(input: Partial<ProfileInput>): void {
+    if (input.preferredLanguage) {
+      localizationService.validateLanguage(input.preferredLanguage);
+    }
+  }
+}
+
+export const profileService = new ProfileService();
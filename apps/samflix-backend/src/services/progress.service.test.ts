@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  store: new Map<string, string>(),
+  watchHistory: { findUnique: vi.fn(), create: vi.fn(), upsert: vi.fn() },
+  dataMigration: { findUnique: vi.fn(), upsert: vi.fn() },
+}));
+
+vi.mock('../app', () => ({
+  prisma: { watchHistory: mocks.watchHistory, dataMigration: mocks.dataMigration },
+}));
+vi.mock('./redis.service', () => {
+  const { store } = mocks;
+  // Glob patterns as SCAN's MATCH takes them, with * as the only wildcard used here
+  const matches = (pattern: string, key: string): boolean =>
+    new RegExp(
+      `^${pattern
+        .split('*')
+        .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*')}$`
+    ).test(key);
+
+  return {
+    RESUME_PROGRESS_TTL: 60,
+    default: {
+      get: vi.fn(async (key: string) => store.get(key) ?? null),
+      set: vi.fn(async (key: string, value: string) => {
+        store.set(key, value);
+        return 'OK';
+      }),
+      del: vi.fn(async (...keys: string[]) => keys.filter((key) => store.delete(key)).length),
+      scan: vi.fn(async (_cursor: string, _match: string, pattern: string) => [
+        '0',
+        [...store.keys()].filter((key) => matches(pattern, key)),
+      ]),
+    },
+  };
+});
+
+import { progressService } from './progress.service';
+
+describe('progressService.migrateRedisProgress', () => {
+  beforeEach(() => {
+    mocks.store.clear();
+    vi.clearAllMocks();
+    mocks.watchHistory.findUnique.mockResolvedValue(null);
+    mocks.dataMigration.findUnique.mockResolvedValue(null);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('does nothing once the keys were moved', async () => {
+    mocks.dataMigration.findUnique.mockResolvedValue({ name: 'redis-progress-to-watch-history' });
+    mocks.store.set('resume:viewer:movie', JSON.stringify({ currentTime: 30 }));
+
+    await progressService.migrateRedisProgress();
+
+    expect(mocks.watchHistory.create).not.toHaveBeenCalled();
+    expect(mocks.store.has('resume:viewer:movie')).toBe(true);
+  });
+
+  it('moves movie and episode positions into the watch history', async () => {
+    const updatedAt = '2025-06-01T12:00:00.000Z';
+    mocks.store.set('resume:viewer:movie', JSON.stringify({ currentTime: 30, updatedAt }));
+    mocks.store.set(
+      'series_resume:viewer:series:episode',
+      JSON.stringify({ currentTime: 90, updatedAt })
+    );
+
+    await progressService.migrateRedisProgress();
+
+    expect(mocks.watchHistory.create).toHaveBeenCalledTimes(2);
+    expect(mocks.watchHistory.create).toHaveBeenCalledWith({
+      data: {
+        viewerId: 'viewer',
+        videoId: 'movie',
+        seriesId: null,
+        position: 30,
+        createdAt: new Date(updatedAt),
+        updatedAt: new Date(updatedAt),
+      },
+    });
+    expect(mocks.watchHistory.create).toHaveBeenCalledWith({
+      data: {
+        viewerId: 'viewer',
+        videoId: 'episode',
+        seriesId: 'series',
+        position: 90,
+        createdAt: new Date(updatedAt),
+        updatedAt: new Date(updatedAt),
+      },
+    });
+  });
+
+  it('keeps entries the watch history already has', async () => {
+    mocks.store.set('resume:viewer:movie', JSON.stringify({ currentTime: 30 }));
+    mocks.watchHistory.findUnique.mockResolvedValue({ id: 'entry' });
+
+    await progressService.migrateRedisProgress();
+
+    expect(mocks.watchHistory.create).not.toHaveBeenCalled();
+  });
+
+  it('deletes the moved keys and records that the move is done', async () => {
+    mocks.store.set('resume:viewer:movie', JSON.stringify({ currentTime: 30 }));
+    mocks.store.set('series_resume:viewer:series:episode', JSON.stringify({ currentTime: 90 }));
+    mocks.store.set('other:key', 'kept');
+
+    await progressService.migrateRedisProgress();
+
+    expect([...mocks.store.keys()]).toEqual(['other:key']);
+    expect(mocks.dataMigration.upsert).toHaveBeenCalledWith({
+      where: { name: 'redis-progress-to-watch-history' },
+      create: { name: 'redis-progress-to-watch-history' },
+      update: {},
+    });
+  });
+
+  it('skips malformed entries one by one and still finishes the move', async () => {
+    mocks.store.set('resume:viewer:broken', '{"currentTime":');
+    mocks.store.set('resume:viewer:empty', 'null');
+    mocks.store.set('resume:viewer:movie', JSON.stringify({ currentTime: 30 }));
+
+    await progressService.migrateRedisProgress();
+
+    expect(mocks.watchHistory.create).toHaveBeenCalledTimes(1);
+    expect(mocks.watchHistory.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ videoId: 'movie', position: 30 }),
+    });
+    expect(console.warn).toHaveBeenCalledTimes(2);
+    expect(mocks.store.size).toBe(0);
+    expect(mocks.dataMigration.upsert).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs again on the next start when the watch history cannot be written', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mocks.store.set('resume:viewer:movie', JSON.stringify({ currentTime: 30 }));
+    mocks.watchHistory.create.mockRejectedValueOnce(new Error('Connection lost'));
+
+    await progressService.migrateRedisProgress();
+
+    expect(mocks.store.has('resume:viewer:movie')).toBe(true);
+    expect(mocks.dataMigration.upsert).not.toHaveBeenCalled();
+  });
+});
+
+describe('progressService.saveProgress', () => {
+  beforeEach(() => {
+    mocks.store.clear();
+    vi.clearAllMocks();
+  });
+
+  it('upserts the entry so concurrent first saves do not collide', async () => {
+    const now = new Date();
+    mocks.watchHistory.findUnique.mockResolvedValue(null);
+    mocks.watchHistory.upsert.mockResolvedValue({
+      viewerId: 'viewer',
+      videoId: 'movie',
+      seriesId: null,
+      position: 95,
+      duration: 100,
+      completed: true,
+      completedAt: now,
+      playCount: 1,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const state = await progressService.saveProgress('viewer', 'movie', {
+      currentTime: 95,
+      duration: 100,
+    });
+
+    expect(mocks.watchHistory.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { watch_history_identifier: { viewerId: 'viewer', videoId: 'movie' } },
+        create: expect.objectContaining({ position: 95, completed: true }),
+      })
+    );
+    expect(state).toMatchObject({ tmdbId: 'movie', currentTime: 95, completed: true });
+    expect(JSON.parse(mocks.store.get('resume:viewer:movie')!)).toEqual(state);
+  });
+});
@@ -0,0 +1,412 @@
+import type { WatchHistory } from '@samflix/prisma-client';
+import { prisma } from '../app';
+import redisClient, { RESUME_PROGRESS_TTL } from './redis.service';
+
+// Share of a video that counts as finished when the player reports its duration; credits
+// usually take up the rest
+const COMPLETED_RATIO = 0.9;
+
+// Data migration moving the resume keys kept before the watch history existed into it
+const REDIS_PROGRESS_MIGRATION = 'redis-progress-to-watch-history';
+
+/**
+ * Where a viewer is in a movie or episode, as the progress API returns it
+ */
+export interface PlaybackState {
+  tmdbId: string; // The movie's or episode's ID
+  seriesId?: string; // Set for episodes
+  currentTime: number;
+  duration: number | null;
+  completed: boolean;
+  completedAt: string | null;
+  playCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A position reported by the player
+ */
+export interface PlaybackInput {
+  currentTime: number;
+  duration?: number;
+  completed?: boolean; // Worked out from the duration when left out
+}
+
+/**
+ * Service for the watch history: where each viewer is in each movie and episode, how often they
+ * played it and whether they finished it
+ * The history is kept in MongoDB; Redis caches single entries under resume:<viewerId>:<movieId>
+ * and series_resume:<viewerId>:<seriesId>:<episodeId>, written through on every save. The viewer
+ * ID is a profile's ID, or the Clerk ID of a user without a profile picked
+ */
+class ProgressService {
+  /**
+   * Saves a viewer's position in a movie or episode
+   * Finishing a video marks it completed; playing it again afterwards counts another play
+   * @param seriesId The series of an episode; left out for movies
+   */
+  async saveProgress(
+    viewerId: string,
+    videoId: string,
+    input: PlaybackInput,
+    seriesId?: string
+  ): Promise<PlaybackState> {
+    const existing = await prisma.watchHistory.findUnique({
+      where: { watch_history_identifier: { viewerId, videoId } },
+    });
+    const duration = input.duration ?? existing?.duration ?? null;
+    const completed =
+      input.completed ?? (!!duration && input.currentTime >= duration * COMPLETED_RATIO);
+
+    // Upserted, so two first saves of a video at once don't both try to create its entry
+    const entry = await prisma.watchHistory.upsert({
+      where: { watch_history_identifier: { viewerId, videoId } },
+      create: {
+        viewerId,
+        videoId,
+        seriesId: seriesId ?? null,
+        position: input.currentTime,
+        duration,
+        completed,
+        completedAt: completed ? new Date() : null,
+      },
+      update: {
+        seriesId: seriesId ?? null,
+        position: input.currentTime,
+        duration,
+        completed,
+        completedAt: completed && !existing?.completed ? new Date() : undefined,
+        playCount: existing?.completed && !completed ? { increment: 1 } : undefined,
+      },
+    });
+
+    const state = this.toState(entry);
+    await this.cache(viewerId, state);
+    return state;
+  }
+
+  /**
+   * A viewer's position in a movie, or in an episode when a series is given
+   */
+  async getProgress(
+    viewerId: string,
+    videoId: string,
+    seriesId?: string
+  ): Promise<PlaybackState | null> {
+    const cached = await redisClient.get(this.cacheKey(viewerId, videoId, seriesId));
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    const entry = await prisma.watchHistory.findUnique({
+      where: { watch_history_identifier: { viewerId, videoId } },
+    });
+    if (!entry || (entry.seriesId ?? undefined) !== seriesId) {
+      return null;
+    }
+
+    const state = this.toState(entry);
+    await this.cache(viewerId, state);
+    return state;
+  }
+
+  /**
+   * The movies a viewer has played, most recently played first
+   */
+  async listMovieProgress(viewerId: string): Promise<PlaybackState[]> {
+    const entries = await prisma.watchHistory.findMany({
+      where: { viewerId, seriesId: null },
+      orderBy: { updatedAt: 'desc' },
+    });
+    return entries.map((entry) => this.toState(entry));
+  }
+
+  /**
+   * The episode a viewer played last in each series they have played, most recent first
+   */
+  async listSeriesProgress(viewerId: string): Promise<PlaybackState[]> {
+    const entries = await prisma.watchHistory.findMany({
+      where: { viewerId, seriesId: { not: null } },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    const latest = new Map<string, WatchHistory>();
+    for (const entry of entries) {
+      if (!latest.has(entry.seriesId!)) {
+        latest.set(entry.seriesId!, entry);
+      }
+    }
+    return Array.from(latest.values()).map((entry) => this.toState(entry));
+  }
+
+  /**
+   * The episode of a series a viewer played last
+   */
+  async getCurrentSeriesProgress(
+    viewerId: string,
+    seriesId: string
+  ): Promise<PlaybackState | null> {
+    const entry = await prisma.watchHistory.findFirst({
+      where: { viewerId, seriesId },
+      orderBy: { updatedAt: 'desc' },
+    });
+    return entry ? this.toState(entry) : null;
+  }
+
+  /**
+   * Deletes a viewer's history of a movie
+   * @returns Whether there was any
+   */
+  async deleteProgress(viewerId: string, videoId: string): Promise<boolean> {
+    const { count } = await prisma.watchHistory.deleteMany({
+      where: { viewerId, videoId, seriesId: null },
+    });
+    await redisClient.del(this.cacheKey(viewerId, videoId));
+    return count > 0;
+  }
+
+  /**
+   * Deletes a viewer's history of every episode of a series
+   * @returns The number of episodes deleted
+   */
+  async deleteSeriesProgress(viewerId: string, seriesId: string): Promise<number> {
+    const { count } = await prisma.watchHistory.deleteMany({ where: { viewerId, seriesId } });
+    await this.clearCache(`series_resume:${viewerId}:${seriesId}:*`);
+    return count;
+  }
+
+  /**
+   * Moves series history onto new series and episode IDs, e.g. after a series was re-matched
+   * and its episodes were recreated
+   * A viewer who already has history of a target episode keeps the more recent entry
+   * @param seriesId The ID the history is stored under
+   * @param targetSeriesId The ID to move it to; the same ID when only episodes changed
+   * @param episodeIds Old episode IDs mapped to new ones; unmapped episodes keep theirs
+   * @returns The number of entries moved
+   */
+  async moveSeriesProgress(
+    seriesId: string,
+    targetSeriesId: string,
+    episodeIds: Map<string, string>
+  ): Promise<number> {
+    const entries = await prisma.watchHistory.findMany({ where: { seriesId } });
+    let moved = 0;
+
+    for (const entry of entries) {
+      const targetVideoId = episodeIds.get(entry.videoId) ?? entry.videoId;
+      if (targetSeriesId === seriesId && targetVideoId === entry.videoId) {
+        continue;
+      }
+
+      const existing =
+        targetVideoId === entry.videoId
+          ? null
+          : await prisma.watchHistory.findUnique({
+              where: {
+                watch_history_identifier: { viewerId: entry.viewerId, videoId: targetVideoId },
+              },
+            });
+      if (existing && existing.updatedAt >= entry.updatedAt) {
+        await prisma.watchHistory.delete({ where: { id: entry.id } });
+      } else {
+        if (existing) {
+          await prisma.watchHistory.delete({ where: { id: existing.id } });
+        }
+        await prisma.watchHistory.update({
+          where: { id: entry.id },
+          data: { seriesId: targetSeriesId, videoId: targetVideoId, updatedAt: entry.updatedAt },
+        });
+        moved++;
+      }
+    }
+
+    await this.clearCache(`series_resume:*:${seriesId}:*`);
+    if (targetSeriesId !== seriesId) {
+      await this.clearCache(`series_resume:*:${targetSeriesId}:*`);
+    }
+    return moved;
+  }
+
+  /**
+   * Moves all of a viewer's history onto another viewer ID, e.g. from an account onto its
+   * first profile
+   * @returns The number of entries moved
+   */
+  async moveViewerProgress(viewerId: string, targetViewerId: string): Promise<number> {
+    const { count } = await prisma.watchHistory.updateMany({
+      where: { viewerId },
+      data: { viewerId: targetViewerId },
+    });
+    await this.clearViewerCache(viewerId);
+    return count;
+  }
+
+  /**
+   * Deletes all of a viewer's history, e.g. when their profile is deleted
+   */
+  async deleteViewerProgress(viewerId: string): Promise<void> {
+    await prisma.watchHistory.deleteMany({ where: { viewerId } });
+    await this.clearViewerCache(viewerId);
+  }
+
+  /**
+   * Moves the resume keys kept in Redis before the watch history existed into it, once
+   * Called on startup; entries the history already has are left as they are, and the keys are
+   * deleted so the cache only ever holds history entries
+   * Unreadable entries are skipped one by one; that the move ran is kept in MongoDB, so it
+   * survives Redis being flushed
+   */
+  async migrateRedisProgress(): Promise<void> {
+    try {
+      const done = await prisma.dataMigration.findUnique({
+        where: { name: REDIS_PROGRESS_MIGRATION },
+      });
+      if (done) {
+        return;
+      }
+
+      const keys = [
+        ...(await this.scanKeys('resume:*')),
+        ...(await this.scanKeys('series_resume:*')),
+      ];
+      let migrated = 0;
+      let skipped = 0;
+
+      for (const key of keys) {
+        const value = await redisClient.get(key);
+        if (!value) {
+          continue;
+        }
+        const [prefix, viewerId, ...ids] = key.split(':');
+        const videoId = ids[ids.length - 1];
+        if (!viewerId || !videoId) {
+          continue;
+        }
+
+        const entry = this.parseRedisProgress(value);
+        if (!entry) {
+          // Nothing can be recovered from it, and the cache mustn't serve it
+          console.warn(`⚠️  Skipping unreadable progress entry ${key}`);
+          skipped++;
+          await redisClient.del(key);
+          continue;
+        }
+
+        const existing = await prisma.watchHistory.findUnique({
+          where: { watch_history_identifier: { viewerId, videoId } },
+        });
+        if (!existing) {
+          await prisma.watchHistory.create({
+            data: {
+              viewerId,
+              videoId,
+              seriesId: prefix === 'series_resume' ? (ids[0] ?? null) : null,
+              position: entry.currentTime,
+              createdAt: entry.playedAt,
+              updatedAt: entry.playedAt,
+            },
+          });
+          migrated++;
+        }
+        await redisClient.del(key);
+      }
+
+      await prisma.dataMigration.upsert({
+        where: { name: REDIS_PROGRESS_MIGRATION },
+        create: { name: REDIS_PROGRESS_MIGRATION },
+        update: {},
+      });
+      console.log(
+        `✅ Moved ${migrated} progress entries from Redis into the watch history, skipped ${skipped} unreadable one(s)`
+      );
+    } catch (error) {
+      console.error('Error moving progress from Redis into the watch history:', error);
+    }
+  }
+
+  /**
+   * Reads the value of a resume key as it was saved before the watch history existed
+   * @returns The position and when it was saved, or null when the value is malformed
+   */
+  private parseRedisProgress(value: string): { currentTime: number; playedAt: Date } | null {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return null;
+    }
+    if (typeof parsed !== 'object' || parsed === null) {
+      return null;
+    }
+
+    const { currentTime, updatedAt } = parsed as { currentTime?: unknown; updatedAt?: unknown };
+    if (typeof currentTime !== 'number' || !Number.isFinite(currentTime)) {
+      return null;
+    }
+    const playedAt = typeof updatedAt === 'string' ? new Date(updatedAt) : new Date();
+    return { currentTime, playedAt: isNaN(playedAt.getTime()) ? new Date() : playedAt };
+  }
+
+  private toState(entry: WatchHistory): PlaybackState {
+    return {
+      tmdbId: entry.videoId,
+      ...(entry.seriesId && { seriesId: entry.seriesId }),
+      currentTime: entry.position,
+      duration: entry.duration,
+      completed: entry.completed,
+      completedAt: entry.completedAt?.toISOString() ?? null,
+      playCount: entry.playCount,
+      createdAt: entry.createdAt.toISOString(),
+      updatedAt: entry.updatedAt.toISOString(),
+    };
+  }
+
+  private cacheKey(viewerId: string, videoId: string, seriesId?: string): string {
+    return seriesId
+      ? `series_resume:${viewerId}:${seriesId}:${videoId}`
+      : `resume:${viewerId}:${videoId}`;
+  }
+
+  private async cache(viewerId: string, state: PlaybackState): Promise<void> {
+    await redisClient.set(
+      this.cacheKey(viewerId, state.tmdbId, state.seriesId),
+      JSON.stringify(state),
+      'EX',
+      RESUME_PROGRESS_TTL
+    );
+  }
+
+  private async clearViewerCache(viewerId: string): Promise<void> {
+    await this.clearCache(`resume:${viewerId}:*`);
+    await this.clearCache(`series_resume:${viewerId}:*`);
+  }
+
+  private async clearCache(pattern: string): Promise<void> {
+    const keys = await this.scanKeys(pattern);
+    if (keys.length > 0) {
+      await redisClient.del(...keys);
+    }
+  }
+
+  private async scanKeys(pattern: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+
+    do {
+      const result: [string, string[]] = await redisClient.scan(
+        cursor,
+        'MATCH',
+        pattern,
+        'COUNT',
+        '100'
+      );
+      cursor = result[0];
+      keys.push(...result[1]);
+    } while (cursor !== '0');
+
+    return keys;
+  }
+}
+
+export const progressService = new ProgressService();
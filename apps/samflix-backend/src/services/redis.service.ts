@@ -18,7 +18,7 @@ redisClient.on("error", (err) => {
   console.error("Redis connection error:", err);
 });
 
-// Default TTL for resume progress keys (30 days in seconds)
+// TTL of the watch history entries cached in Redis (30 days in seconds); MongoDB keeps them for good
 export const RESUME_PROGRESS_TTL = 60 * 60 * 24 * 30; // 30 days
 
 export default redisClient;
@@ -0,0 +1,211 @@
+import type { SeriesNumbering } from '@samflix/prisma-client';
+import { prisma } from '../../app';
+import { tmdbService } from '../tmdb/tmdb.service';
+import { ParsedEpisode, TMDBEpisodeGroupSummary } from '../../types/media.types';
+
+/**
+ * How episode numbers in file names map onto TMDB seasons:
+ * - auto: seasonless (absolute) numbers are mapped through the TMDB season episode counts
+ * - absolute: every number is absolute, even in files that name a season (S01E25)
+ * - episodeGroup: numbers follow a TMDB episode group, absolute or per group season
+ * - none: numbers are used as parsed, seasonless files being season 1
+ */
+export type NumberingScheme = 'auto' | 'absolute' | 'episodeGroup' | 'none';
+
+export interface NumberingInput {
+  scheme: NumberingScheme;
+  episodeGroupId?: string | null;
+}
+
+export interface EpisodeRef {
+  seasonNumber: number;
+  episodeNumber: number;
+}
+
+// A season in the file numbering, listing the TMDB episodes it covers in order
+interface NumberingSeason {
+  number: number;
+  episodes: EpisodeRef[];
+}
+
+// How long a cached mapping is used before TMDB is asked again; airing series gain episodes
+const EPISODE_MAPPING_TTL_MS =
+  parseInt(process.env.EPISODE_MAPPING_TTL_HOURS || '24', 10) * 60 * 60 * 1000;
+
+/**
+ * Service that maps the episode numbers in file names onto TMDB season/episode pairs,
+ * for releases (mostly anime) numbered from the start of the series
+ */
+class EpisodeNumberingService {
+  /**
+   * Works out which TMDB episodes a parsed file holds
+   * Numbers the mapping doesn't cover are used as parsed
+   * @param tvId The TMDB ID of the series
+   * @param parsed The parsed episode file
+   */
+  async mapEpisodes(tvId: number, parsed: ParsedEpisode): Promise<EpisodeRef[]> {
+    const last = parsed.endEpisodeNumber ?? parsed.episodeNumber;
+    const asParsed = Array.from({ length: last - parsed.episodeNumber + 1 }, (_, i) => ({
+      seasonNumber: parsed.seasonNumber,
+      episodeNumber: parsed.episodeNumber + i,
+    }));
+
+    const numbering = await prisma.seriesNumbering.findUnique({ where: { tmdbId: tvId } });
+    const scheme = (numbering?.scheme ?? 'auto') as NumberingScheme;
+    const absolute = scheme === 'absolute' || (scheme !== 'none' && !!parsed.absoluteNumbering);
+
+    if (scheme === 'none' || (scheme === 'auto' && !absolute)) {
+      return asParsed;
+    }
+
+    const lookup = (seasons: NumberingSeason[], ref: EpisodeRef): EpisodeRef | undefined =>
+      absolute
+        ? this.absoluteEpisodes(seasons)[ref.episodeNumber - 1]
+        : seasons.find((season) => season.number === ref.seasonNumber)?.episodes[
+            ref.episodeNumber - 1
+          ];
+
+    let seasons = await this.getMapping(tvId, numbering, false);
+    // A number past the end of a cached mapping may be a newly aired episode
+    if (asParsed.some((ref) => !lookup(seasons, ref))) {
+      seasons = await this.getMapping(tvId, numbering, true);
+    }
+
+    return asParsed.map((ref) => lookup(seasons, ref) ?? ref);
+  }
+
+  /**
+   * Gets the numbering settings of a series, or the defaults when none were saved
+   * @param tvId The TMDB ID of the series
+   */
+  async getNumbering(tvId: number): Promise<NumberingInput> {
+    const numbering = await prisma.seriesNumbering.findUnique({ where: { tmdbId: tvId } });
+
+    return {
+      scheme: (numbering?.scheme ?? 'auto') as NumberingScheme,
+      episodeGroupId: numbering?.episodeGroupId ?? null,
+    };
+  }
+
+  /**
+   * Overrides the numbering scheme of a series and drops its cached mapping
+   * @param tvId The TMDB ID of the series
+   * @param input The scheme, and the episode group for the "episodeGroup" scheme
+   */
+  async setNumbering(tvId: number, input: NumberingInput): Promise<SeriesNumbering> {
+    const episodeGroupId = input.scheme === 'episodeGroup' ? input.episodeGroupId : null;
+
+    if (input.scheme === 'episodeGroup') {
+      if (!episodeGroupId) {
+        throw new Error(
+          'Invalid numbering: episodeGroupId is required for the episodeGroup scheme'
+        );
+      }
+      const groups = await tmdbService.getEpisodeGroups(tvId);
+      if (!groups.some((group) => group.id === episodeGroupId)) {
+        throw new Error('Invalid numbering: episode group not found for this series');
+      }
+    }
+
+    // The mapping depends on the scheme, so it is rebuilt on next use
+    const data = {
+      scheme: input.scheme,
+      episodeGroupId: episodeGroupId ?? null,
+      mapping: [],
+      mappingUpdatedAt: null,
+    };
+
+    return prisma.seriesNumbering.upsert({
+      where: { tmdbId: tvId },
+      create: { tmdbId: tvId, ...data },
+      update: data,
+    });
+  }
+
+  /**
+   * Lists the TMDB episode groups a series can be numbered by
+   * @param tvId The TMDB ID of the series
+   */
+  async listEpisodeGroups(tvId: number): Promise<TMDBEpisodeGroupSummary[]> {
+    return tmdbService.getEpisodeGroups(tvId);
+  }
+
+  /**
+   * Returns the cached mapping of a series, rebuilding it from TMDB when it is missing,
+   * stale or a refresh is forced
+   */
+  private async getMapping(
+    tvId: number,
+    numbering: SeriesNumbering | null,
+    forceRefresh: boolean
+  ): Promise<NumberingSeason[]> {
+    const cached = numbering?.mapping as NumberingSeason[] | null | undefined;
+    const isFresh =
+      !!numbering?.mappingUpdatedAt &&
+      Date.now() - numbering.mappingUpdatedAt.getTime() < EPISODE_MAPPING_TTL_MS;
+
+    if (!forceRefresh && isFresh && Array.isArray(cached) && cached.length > 0) {
+      return cached;
+    }
+
+    const seasons = await this.buildMapping(tvId, numbering);
+    const data = { mapping: seasons as object[], mappingUpdatedAt: new Date() };
+
+    await prisma.seriesNumbering.upsert({
+      where: { tmdbId: tvId },
+      create: { tmdbId: tvId, ...data },
+      update: data,
+    });
+
+    return seasons;
+  }
+
+  /**
+   * Builds the numbering seasons of a series from its episode group, or from the
+   * episode counts of its TMDB seasons
+   */
+  private async buildMapping(
+    tvId: number,
+    numbering: SeriesNumbering | null
+  ): Promise<NumberingSeason[]> {
+    if (numbering?.scheme === 'episodeGroup' && numbering.episodeGroupId) {
+      const group = await tmdbService.getEpisodeGroup(numbering.episodeGroupId);
+
+      return [...group.groups]
+        .sort((a, b) => a.order - b.order)
+        .map((season) => ({
+          number: season.order,
+          episodes: [...season.episodes]
+            .sort((a, b) => a.order - b.order)
+            .map((episode) => ({
+              seasonNumber: episode.season_number,
+              episodeNumber: episode.episode_number,
+            })),
+        }));
+    }
+
+    const details = await tmdbService.getTVDetails(tvId);
+
+    return (details.seasons ?? [])
+      .filter((season) => season.season_number > 0)
+      .sort((a, b) => a.season_number - b.season_number)
+      .map((season) => ({
+        number: season.season_number,
+        episodes: Array.from({ length: season.episode_count }, (_, i) => ({
+          seasonNumber: season.season_number,
+          episodeNumber: i + 1,
+        })),
+      }));
+  }
+
+  /**
+   * All episodes in absolute order; specials don't count towards absolute numbers
+   */
+  private absoluteEpisodes(seasons: NumberingSeason[]): EpisodeRef[] {
+    return seasons
+      .flatMap((season) => season.episodes)
+      .filter((episode) => episode.seasonNumber > 0);
+  }
+}
+
+export const episodeNumberingService = new EpisodeNumberingService();
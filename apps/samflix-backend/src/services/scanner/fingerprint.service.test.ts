@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+interface StoredFingerprint {
+  path: string;
+  tmdbId: number | null;
+  part: number | null;
+}
+
+interface PathFilter {
+  startsWith?: string;
+  in?: string[];
+}
+
+const mocks = vi.hoisted(() => ({
+  fingerprints: [] as StoredFingerprint[],
+  movies: [] as { tmdbId: number; filePath: string }[],
+  episodes: [] as { filePath: string }[],
+}));
+
+vi.mock('../../app', () => {
+  const matches = (value: string, filter: PathFilter): boolean =>
+    filter.startsWith !== undefined
+      ? value.startsWith(filter.startsWith)
+      : (filter.in ?? []).includes(value);
+
+  return {
+    prisma: {
+      fileFingerprint: {
+        findMany: vi.fn(async ({ where }: { where: { path: PathFilter } }) =>
+          mocks.fingerprints.filter((fingerprint) => matches(fingerprint.path, where.path))
+        ),
+        deleteMany: vi.fn(async ({ where }: { where: { path: PathFilter } }) => {
+          const kept = mocks.fingerprints.filter(
+            (fingerprint) => !matches(fingerprint.path, where.path)
+          );
+          const count = mocks.fingerprints.length - kept.length;
+          mocks.fingerprints = kept;
+          return { count };
+        }),
+      },
+      movie: {
+        findMany: vi.fn(
+          async ({ where }: { where: { filePath?: PathFilter; tmdbId?: { in: number[] } } }) =>
+            mocks.movies.filter((movie) =>
+              where.filePath
+                ? matches(movie.filePath, where.filePath)
+                : where.tmdbId!.in.includes(movie.tmdbId)
+            )
+        ),
+      },
+      episode: {
+        findMany: vi.fn(async ({ where }: { where: { filePath: PathFilter } }) =>
+          mocks.episodes.filter((episode) => matches(episode.filePath, where.filePath))
+        ),
+      },
+    },
+  };
+});
+
+import { fingerprintService } from './fingerprint.service';
+
+const fingerprint = (
+  path: string,
+  tmdbId: number | null = null,
+  part: number | null = null
+): StoredFingerprint => ({ path, tmdbId, part });
+
+describe('fingerprintService', () => {
+  beforeEach(() => {
+    mocks.fingerprints = [];
+    mocks.movies = [];
+    mocks.episodes = [];
+  });
+
+  it('keeps every part of a multi-part movie while the movie is there', async () => {
+    mocks.fingerprints = [
+      fingerprint('/movies/Heat/Heat CD1.mkv', 949, 1),
+      fingerprint('/movies/Heat/Heat CD2.mkv', 949, 2),
+      fingerprint('/movies/Ronin/Ronin CD1.mkv', 8195, 1),
+    ];
+    // The movie keeps the path of the part ingested last
+    mocks.movies = [{ tmdbId: 949, filePath: '/movies/Heat/Heat CD2.mkv' }];
+
+    const loaded = await fingerprintService.loadForFolder('/movies');
+
+    expect([...loaded.keys()]).toEqual(['/movies/Heat/Heat CD1.mkv', '/movies/Heat/Heat CD2.mkv']);
+  });
+
+  it('prunes files missing from disk, including ones whose entries were deleted', async () => {
+    mocks.fingerprints = [
+      fingerprint('/movies/Heat.mkv'),
+      fingerprint('/movies/Ronin.mkv'),
+      fingerprint('/movies/Deleted entry.mkv'),
+      fingerprint('/tv/The Wire/S01E01.mkv'),
+    ];
+    mocks.movies = [{ tmdbId: 949, filePath: '/movies/Heat.mkv' }];
+
+    const removed = await fingerprintService.pruneMissing('/movies', new Set(['/movies/Heat.mkv']));
+
+    expect(removed).toBe(2);
+    expect(mocks.fingerprints.map(({ path }) => path)).toEqual([
+      '/movies/Heat.mkv',
+      '/tv/The Wire/S01E01.mkv',
+    ]);
+  });
+});
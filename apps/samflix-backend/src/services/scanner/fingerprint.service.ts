@@ -0,0 +1,171 @@
+import fs from 'fs';
+import path from 'path';
+import type { FileFingerprint, Prisma } from '@samflix/prisma-client';
+import { prisma } from '../../app';
+
+export type FingerprintMap = Map<string, FileFingerprint>;
+
+/**
+ * The movie a file of a multi-part movie is a part of
+ */
+export interface MoviePart {
+  tmdbId: number;
+  part: number;
+}
+
+/**
+ * Service that remembers the size, mtime and inode of every ingested media file
+ * A file whose fingerprint still matches is skipped by the scanner, so a scan of an
+ * unchanged library costs one stat per file and no metadata lookups
+ * Fingerprints are only used while a movie or episode still has the file, so a file whose entry
+ * was deleted outside the scanner is ingested again; a part of a multi-part movie counts as long
+ * as its movie is there, since the movie keeps only one part's path
+ */
+class FingerprintService {
+  /**
+   * Loads the stored fingerprints of every file under a media folder
+   * @param folderPath The media folder being scanned
+   * @returns Fingerprints keyed by file path
+   */
+  async loadForFolder(folderPath: string): Promise<FingerprintMap> {
+    const prefix = this.prefixOf(folderPath);
+    const fingerprints = await prisma.fileFingerprint.findMany({
+      where: { path: { startsWith: prefix } },
+    });
+
+    return this.withEntries(fingerprints, { startsWith: prefix });
+  }
+
+  /**
+   * Loads the stored fingerprints of specific files
+   * @param filePaths Paths of the media files
+   * @returns Fingerprints keyed by file path
+   */
+  async loadForPaths(filePaths: string[]): Promise<FingerprintMap> {
+    const fingerprints = await prisma.fileFingerprint.findMany({
+      where: { path: { in: filePaths } },
+    });
+
+    return this.withEntries(fingerprints, { in: filePaths });
+  }
+
+  /**
+   * Checks whether a file is unchanged since its fingerprint was recorded
+   * @param fingerprints Fingerprints loaded for the folder
+   * @param filePath The path to the media file
+   * @param stats The current stats of the file
+   */
+  isUnchanged(fingerprints: FingerprintMap, filePath: string, stats: fs.Stats): boolean {
+    const fingerprint = fingerprints.get(filePath);
+
+    return (
+      !!fingerprint &&
+      fingerprint.size === BigInt(stats.size) &&
+      fingerprint.mtimeMs === stats.mtimeMs &&
+      fingerprint.inode === BigInt(stats.ino)
+    );
+  }
+
+  /**
+   * Records the fingerprint of a file that is now represented in the library
+   * @param filePath The path to the media file
+   * @param stats The stats the file was ingested with
+   * @param mediaType Whether the file is a movie or an episode
+   * @param moviePart The movie the file is a part of, for a part of a multi-part movie
+   */
+  async record(
+    filePath: string,
+    stats: fs.Stats,
+    mediaType: 'movie' | 'series',
+    moviePart?: MoviePart
+  ): Promise<void> {
+    const data = {
+      mediaType,
+      size: BigInt(stats.size),
+      mtimeMs: stats.mtimeMs,
+      inode: BigInt(stats.ino),
+      tmdbId: moviePart?.tmdbId ?? null,
+      part: moviePart?.part ?? null,
+    };
+
+    await prisma.fileFingerprint.upsert({
+      where: { path: filePath },
+      create: { path: filePath, ...data },
+      update: data,
+    });
+  }
+
+  /**
+   * Deletes fingerprints of files that were not found during a folder scan, whether or not
+   * a movie or episode still has them
+   * @param folderPath The media folder that was scanned
+   * @param seenPaths Paths of every media file found in the folder
+   * @returns The number of fingerprints removed
+   */
+  async pruneMissing(folderPath: string, seenPaths: Set<string>): Promise<number> {
+    const stored = await prisma.fileFingerprint.findMany({
+      where: { path: { startsWith: this.prefixOf(folderPath) } },
+      select: { path: true },
+    });
+    const stale = stored
+      .map((fingerprint) => fingerprint.path)
+      .filter((filePath) => !seenPaths.has(filePath));
+
+    if (stale.length === 0) {
+      return 0;
+    }
+
+    const result = await prisma.fileFingerprint.deleteMany({
+      where: { path: { in: stale } },
+    });
+    return result.count;
+  }
+
+  /**
+   * Deletes the fingerprints of files that were removed from disk
+   * @param filePaths Paths of the removed media files
+   */
+  async forgetPaths(filePaths: string[]): Promise<void> {
+    await prisma.fileFingerprint.deleteMany({ where: { path: { in: filePaths } } });
+  }
+
+  private prefixOf(folderPath: string): string {
+    return folderPath.endsWith(path.sep) ? folderPath : `${folderPath}${path.sep}`;
+  }
+
+  /**
+   * Keys fingerprints by file path, leaving out files no movie or episode has anymore
+   * @param filePath Filter matching the paths the fingerprints were loaded for
+   */
+  private async withEntries(
+    fingerprints: FileFingerprint[],
+    filePath: Prisma.StringFilter
+  ): Promise<FingerprintMap> {
+    if (fingerprints.length === 0) {
+      return new Map();
+    }
+
+    const partOf = [...new Set(fingerprints.flatMap((fingerprint) => fingerprint.tmdbId ?? []))];
+    const [movies, episodes, multiPart] = await Promise.all([
+      prisma.movie.findMany({ where: { filePath }, select: { filePath: true } }),
+      prisma.episode.findMany({ where: { filePath }, select: { filePath: true } }),
+      partOf.length > 0
+        ? prisma.movie.findMany({ where: { tmdbId: { in: partOf } }, select: { tmdbId: true } })
+        : [],
+    ]);
+    const represented = new Set([...movies, ...episodes].map((entry) => entry.filePath));
+    const multiPartMovies = new Set(multiPart.map((movie) => movie.tmdbId));
+
+    return new Map(
+      fingerprints
+        .filter(
+          (fingerprint) =>
+            represented.has(fingerprint.path) ||
+            (fingerprint.tmdbId !== null && multiPartMovies.has(fingerprint.tmdbId))
+        )
+        .map((fingerprint) => [fingerprint.path, fingerprint])
+    );
+  }
+}
+
+export const fingerprintService = new FingerprintService();
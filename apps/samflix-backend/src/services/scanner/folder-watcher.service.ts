@@ -0,0 +1,265 @@
+import fs from 'fs';
+import { watch, FSWatcher } from 'chokidar';
+import type { MediaFolder } from '@samflix/prisma-client';
+import { prisma } from '../../app';
+import { scannerService } from './scanner.service';
+import { scanJobService } from './scan-job.service';
+import { CacheInvalidationService } from '../../api/middleware/cache-invalidation';
+
+type WatchedFolder = Pick<MediaFolder, 'id' | 'path' | 'type' | 'active' | 'watch'>;
+
+type FileChange = 'add' | 'change' | 'unlink';
+
+interface FolderWatch {
+  folder: WatchedFolder;
+  // Device the folder was on when watching started; the mount point an unmounted share leaves
+  // behind is on its parent's device instead
+  device: number | null;
+  watcher: FSWatcher;
+  pending: Map<string, FileChange>;
+  timer: NodeJS.Timeout | null;
+}
+
+// Wait for this long without new events before processing a folder's changes
+const WATCH_DEBOUNCE_MS = parseInt(process.env.WATCH_DEBOUNCE_MS || '10000', 10);
+
+// A file counts as fully copied once its size hasn't changed for this long
+const WATCH_STABILITY_MS = parseInt(process.env.WATCH_STABILITY_MS || '30000', 10);
+
+/**
+ * Service that watches media folders with watch mode enabled and ingests changes
+ * as they happen, instead of waiting for the scheduled scan
+ */
+class FolderWatcherService {
+  private readonly watches = new Map<string, FolderWatch>();
+  // Batches from all folders run one after another
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Starts watchers for every active media folder with watch mode enabled
+   */
+  async start(): Promise<void> {
+    try {
+      const folders = await prisma.mediaFolder.findMany({
+        where: { active: true, watch: true },
+      });
+
+      for (const folder of folders) {
+        this.watchFolder(folder);
+      }
+
+      if (folders.length > 0) {
+        console.log(`👀 Watching ${folders.length} media folder(s) for changes`);
+      }
+    } catch (error) {
+      console.error('❌ Error starting folder watchers:', error);
+    }
+  }
+
+  /**
+   * Starts or stops the watcher of a folder to match its settings
+   * @param folder The media folder after it was created or updated
+   */
+  async syncFolder(folder: WatchedFolder): Promise<void> {
+    const current = this.watches.get(folder.id);
+
+    if (folder.active && folder.watch) {
+      if (current && current.folder.path === folder.path) {
+        current.folder = folder;
+        return;
+      }
+      await this.unwatchFolder(folder.id);
+      this.watchFolder(folder);
+    } else {
+      await this.unwatchFolder(folder.id);
+    }
+  }
+
+  /**
+   * Stops watching a folder; changes not yet processed are dropped
+   * and picked up by the next scheduled scan
+   * @param folderId The ID of the media folder
+   */
+  async unwatchFolder(folderId: string): Promise<void> {
+    const current = this.watches.get(folderId);
+    if (!current) {
+      return;
+    }
+
+    this.watches.delete(folderId);
+    if (current.timer) {
+      clearTimeout(current.timer);
+    }
+    await current.watcher.close();
+    console.log(`Stopped watching media folder: ${current.folder.path}`);
+  }
+
+  /**
+   * Checks whether a folder is currently being watched
+   * @param folderId The ID of the media folder
+   */
+  isWatching(folderId: string): boolean {
+    return this.watches.has(folderId);
+  }
+
+  private watchFolder(folder: WatchedFolder): void {
+    const watcher = watch(folder.path, {
+      ignoreInitial: true,
+      // Only media files matter; directories still have to be traversed
+      ignored: (filePath, stats) => !!stats?.isFile() && !scannerService.isMediaFile(filePath),
+      // Hold back add events until the file stops growing, so partial copies aren't ingested
+      awaitWriteFinish: {
+        stabilityThreshold: WATCH_STABILITY_MS,
+        pollInterval: 1000,
+      },
+      usePolling: process.env.WATCH_USE_POLLING === 'true',
+    });
+
+    const entry: FolderWatch = {
+      folder,
+      device: this.deviceOf(folder.path),
+      watcher,
+      pending: new Map(),
+      timer: null,
+    };
+    this.watches.set(folder.id, entry);
+
+    watcher
+      .on('add', (filePath) => this.queueChange(entry, filePath, 'add'))
+      .on('change', (filePath) => this.queueChange(entry, filePath, 'change'))
+      .on('unlink', (filePath) => this.queueChange(entry, filePath, 'unlink'))
+      .on('error', (error) => console.error(`❌ Watcher error for ${folder.path}:`, error));
+
+    console.log(`👀 Watching media folder: ${folder.path}`);
+  }
+
+  /**
+   * Records a change and (re)starts the folder's debounce timer
+   */
+  private queueChange(entry: FolderWatch, filePath: string, change: FileChange): void {
+    if (!scannerService.isMediaFile(filePath)) {
+      return;
+    }
+
+    // A rename shows up as unlink + add; the latest event for a path wins
+    entry.pending.set(filePath, change);
+    this.scheduleFlush(entry, WATCH_DEBOUNCE_MS);
+  }
+
+  private scheduleFlush(entry: FolderWatch, delay: number): void {
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+    entry.timer = setTimeout(() => {
+      entry.timer = null;
+      this.queue = this.queue.then(() => this.flush(entry));
+    }, delay);
+  }
+
+  /**
+   * Processes a folder's pending changes while no scan can run
+   */
+  private async flush(entry: FolderWatch): Promise<void> {
+    if (entry.pending.size === 0 || this.watches.get(entry.folder.id) !== entry) {
+      return;
+    }
+
+    try {
+      // A running scan job covers these files too; try again once it's done
+      const ran = await scanJobService.runExclusive(() => this.applyChanges(entry));
+      if (!ran) {
+        this.scheduleFlush(entry, WATCH_DEBOUNCE_MS);
+      }
+    } catch (error) {
+      console.error(`❌ Error processing watched changes in ${entry.folder.path}:`, error);
+    }
+  }
+
+  /**
+   * Applies a folder's pending changes: removals first, so a renamed file
+   * is re-ingested under its new path instead of matching its old entry
+   * A file replaced in place is ingested again like a new one
+   */
+  private async applyChanges(entry: FolderWatch): Promise<void> {
+    const changes = [...entry.pending.entries()];
+    entry.pending.clear();
+
+    // An unmounted or deleted library reports every file as unlinked; leave its entries
+    // alone and let the next scan sort it out
+    const unavailable = this.unavailableReason(entry);
+    if (unavailable) {
+      console.warn(
+        `⚠️  Media folder ${entry.folder.path} ${unavailable}; ignoring ${changes.length} watched change(s)`
+      );
+      return;
+    }
+
+    const removed = changes
+      .filter(([filePath, change]) => change === 'unlink' && !fs.existsSync(filePath))
+      .map(([filePath]) => filePath);
+    const added = changes
+      .filter(([filePath, change]) => change !== 'unlink' && fs.existsSync(filePath))
+      .map(([filePath]) => filePath);
+
+    // A share unmounted above the folder leaves it empty without changing its device; a library
+    // that was really emptied is cleaned up by the next scan instead
+    if (removed.length > 0 && fs.readdirSync(entry.folder.path).length === 0) {
+      console.warn(
+        `⚠️  Media folder ${entry.folder.path} is empty; keeping the ${removed.length} removed file(s) until the next scan`
+      );
+      return;
+    }
+
+    let changed = false;
+
+    if (removed.length > 0) {
+      const results = await scannerService.removeFiles(removed);
+      changed = results.removedMovies + results.removedEpisodes > 0;
+      console.log(
+        `Watcher removed ${results.removedMovies} movie(s), ${results.removedEpisodes} episode(s) and ${results.removedSeries} series from ${entry.folder.path}`
+      );
+    }
+
+    if (added.length > 0) {
+      const type = entry.folder.type === 'series' ? 'series' : 'movies';
+      const results = await scannerService.ingestFiles(entry.folder.path, type, added);
+      // Replaced files that weren't skipped may have picked up new local metadata
+      changed = changed || results.added > 0 || results.skipped < added.length;
+      console.log(
+        `Watcher ingested ${added.length} file(s) in ${entry.folder.path}: ${results.added} added, ${results.conflicts} conflict(s), ${results.errors} error(s)`
+      );
+    }
+
+    if (changed) {
+      if (entry.folder.type === 'series') {
+        await CacheInvalidationService.clearSeriesCache();
+      } else {
+        await CacheInvalidationService.clearMoviesCache();
+      }
+    }
+  }
+
+  /**
+   * Tells why a watched folder can't be trusted right now, if it can't
+   * @returns The reason, or null when the folder is there and still on the same device
+   */
+  private unavailableReason(entry: FolderWatch): string | null {
+    const device = this.deviceOf(entry.folder.path);
+    if (device === null) {
+      return 'is missing';
+    }
+    // Missing when watching started, so whatever it is on now is where it belongs
+    entry.device ??= device;
+    return device === entry.device ? null : 'is no longer on the device it was watched on';
+  }
+
+  private deviceOf(folderPath: string): number | null {
+    try {
+      return fs.statSync(folderPath).dev;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const folderWatcherService = new FolderWatcherService();
@@ -0,0 +1,318 @@
+import { tmdbService } from '../tmdb/tmdb.service';
+import { mediaProbeService } from './media-probe.service';
+import { TMDBMovieResult, TMDBTVResult } from '../../types/media.types';
+
+/**
+ * What the scanner knows about a file when looking for its TMDB entry
+ */
+export interface MatchQuery {
+  title: string;
+  year?: number;
+  /** The media file; its duration is compared with candidate runtimes */
+  filePath?: string;
+  /** Episodes held by the file, which split its duration between them */
+  episodeCount?: number;
+}
+
+/**
+ * How well a TMDB candidate fits a file, kept on scanning conflicts so the admin UI can
+ * show why a candidate was suggested
+ */
+export interface MatchScore {
+  /** Overall confidence from 0 to 1 */
+  score: number;
+  signals: {
+    /** Best similarity between the file title and the candidate's titles */
+    title: number;
+    /** The candidate title that similarity was measured against */
+    matchedTitle: string;
+    /** Null when the file carries no year */
+    year: number | null;
+    /** Null when the file duration or candidate runtime is unknown */
+    runtime: number | null;
+    /** Popularity relative to the most popular candidate */
+    popularity: number;
+  };
+  reasons: string[];
+}
+
+export type ScoredMatch<T> = T & MatchScore;
+
+// A candidate reduced to what scoring looks at
+interface CandidateInfo {
+  titles: string[];
+  year?: number;
+  popularity: number;
+  runtimes: number[];
+}
+
+// Relative weight of each signal; signals that can't be measured are left out
+const WEIGHTS = { title: 0.55, year: 0.2, runtime: 0.15, popularity: 0.1 };
+
+// Score by years between the file and the release; releases are often dated a year apart
+const YEAR_SCORES = [1, 0.75, 0.4, 0.15];
+
+// Only the first search results are scored, and only the best few get their details fetched
+const MAX_CANDIDATES = 10;
+const DETAILED_CANDIDATES = 3;
+
+// The best candidate is matched automatically above this score, when it leads by the margin
+const MATCH_CONFIDENCE_THRESHOLD = parseFloat(process.env.MATCH_CONFIDENCE_THRESHOLD || '0.8');
+const MATCH_MARGIN = 0.1;
+
+/**
+ * Service that scores TMDB search results against a media file, so the scanner only
+ * matches automatically when one candidate clearly fits and leaves the rest to the admin
+ */
+class MatchScoringService {
+  /**
+   * Scores movie search results against a movie file, best first
+   * @param query What the file name, folder and NFO say about the movie
+   * @param results TMDB search results
+   */
+  async scoreMovies(
+    query: MatchQuery,
+    results: TMDBMovieResult[]
+  ): Promise<ScoredMatch<TMDBMovieResult>[]> {
+    return this.score(query, results.slice(0, MAX_CANDIDATES), {
+      describe: (movie) => ({
+        titles: [movie.title, movie.original_title ?? ''],
+        year: this.yearOf(movie.release_date),
+        popularity: movie.popularity ?? 0,
+        runtimes: [],
+      }),
+      fetchDetails: async (movie) => {
+        const details = await tmdbService.getMovieDetails(movie.id, ['alternative_titles']);
+        return {
+          titles: (details.alternative_titles?.titles ?? []).map((alt) => alt.title),
+          runtimes: details.runtime ? [details.runtime] : [],
+        };
+      },
+    });
+  }
+
+  /**
+   * Scores series search results against an episode file or series folder, best first
+   * @param query What the file name, folder and NFO say about the series
+   * @param results TMDB search results
+   */
+  async scoreSeries(
+    query: MatchQuery,
+    results: TMDBTVResult[]
+  ): Promise<ScoredMatch<TMDBTVResult>[]> {
+    return this.score(query, results.slice(0, MAX_CANDIDATES), {
+      describe: (series) => ({
+        titles: [series.name, series.original_name ?? ''],
+        year: this.yearOf(series.first_air_date),
+        popularity: series.popularity ?? 0,
+        runtimes: [],
+      }),
+      fetchDetails: async (series) => {
+        const details = await tmdbService.getTVDetails(series.id, ['alternative_titles']);
+        return {
+          titles: (details.alternative_titles?.results ?? []).map((alt) => alt.title),
+          runtimes: details.episode_run_time ?? [],
+        };
+      },
+    });
+  }
+
+  /**
+   * Picks the candidate to match automatically: the best one, when it scores above the
+   * confidence threshold and clearly beats the runner-up
+   * @param candidates Scored candidates, best first
+   * @returns The match, or null when the admin should decide
+   */
+  pickMatch<T>(candidates: ScoredMatch<T>[]): ScoredMatch<T> | null {
+    const [best, runnerUp] = candidates;
+
+    if (!best || best.score < MATCH_CONFIDENCE_THRESHOLD) {
+      return null;
+    }
+    if (runnerUp && best.score - runnerUp.score < MATCH_MARGIN) {
+      return null;
+    }
+    return best;
+  }
+
+  /**
+   * Scores candidates in two passes: titles and years from the search results first,
+   * then alternative titles and runtimes for the most promising few
+   */
+  private async score<T>(
+    query: MatchQuery,
+    results: T[],
+    source: {
+      describe: (result: T) => CandidateInfo;
+      fetchDetails: (result: T) => Promise<Pick<CandidateInfo, 'titles' | 'runtimes'>>;
+    }
+  ): Promise<ScoredMatch<T>[]> {
+    const candidates = results.map((result) => ({ result, info: source.describe(result) }));
+    const maxPopularity = Math.max(0, ...candidates.map(({ info }) => info.popularity));
+
+    const preliminary = candidates
+      .map((candidate) => ({
+        ...candidate,
+        score: this.scoreCandidate(query, candidate.info, maxPopularity, null).score,
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    await Promise.all(
+      preliminary.slice(0, DETAILED_CANDIDATES).map(async ({ result, info }) => {
+        try {
+          const details = await source.fetchDetails(result);
+          info.titles.push(...details.titles);
+          info.runtimes.push(...details.runtimes);
+        } catch (error) {
+          console.warn('⚠️  Unable to fetch candidate details for scoring:', error);
+        }
+      })
+    );
+
+    // Probing the file is only worth it when there is a runtime to compare with
+    const duration =
+      query.filePath && candidates.some(({ info }) => info.runtimes.length > 0)
+        ? await mediaProbeService.getDuration(query.filePath)
+        : null;
+
+    return candidates
+      .map(({ result, info }) => ({
+        ...result,
+        ...this.scoreCandidate(query, info, maxPopularity, duration),
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private scoreCandidate(
+    query: MatchQuery,
+    info: CandidateInfo,
+    maxPopularity: number,
+    duration: number | null
+  ): MatchScore {
+    const reasons: string[] = [];
+
+    // Title: the closest of the title, original title and alternative titles
+    let title = 0;
+    let matchedTitle = info.titles[0] ?? '';
+    for (const candidateTitle of info.titles.filter(Boolean)) {
+      const similarity = this.titleSimilarity(query.title, candidateTitle);
+      if (similarity > title) {
+        title = similarity;
+        matchedTitle = candidateTitle;
+      }
+    }
+    const titleKind =
+      matchedTitle === info.titles[0]
+        ? 'title'
+        : matchedTitle === info.titles[1]
+          ? 'original title'
+          : 'alternative title';
+    reasons.push(
+      title === 1
+        ? `Matches the ${titleKind} "${matchedTitle}"`
+        : `${Math.round(title * 100)}% similar to the ${titleKind} "${matchedTitle}"`
+    );
+
+    // Year: unknown on the file side means it can't count either way
+    let year: number | null = null;
+    if (query.year) {
+      const distance = info.year !== undefined ? Math.abs(info.year - query.year) : undefined;
+      year = distance !== undefined ? (YEAR_SCORES[distance] ?? 0) : 0;
+      reasons.push(
+        distance === undefined
+          ? 'No release year on TMDB'
+          : distance === 0
+            ? `Released in ${info.year}, as the file says`
+            : `Released in ${info.year}, ${distance} year${distance > 1 ? 's' : ''} from ${query.year}`
+      );
+    }
+
+    // Runtime: the closest of the candidate's runtimes to the file's duration per episode
+    let runtime: number | null = null;
+    if (duration && info.runtimes.length > 0) {
+      const minutes = duration / 60 / (query.episodeCount ?? 1);
+      const closest = info.runtimes.reduce((a, b) =>
+        Math.abs(b - minutes) < Math.abs(a - minutes) ? b : a
+      );
+      // Within 10% counts fully, fading out by 50%
+      const difference = Math.abs(minutes - closest) / closest;
+      runtime = Math.min(1, Math.max(0, 1 - (difference - 0.1) / 0.4));
+      reasons.push(`Runs ${closest} min; the file runs ${Math.round(minutes)} min`);
+    }
+
+    const popularity =
+      maxPopularity > 0 ? Math.log1p(info.popularity) / Math.log1p(maxPopularity) : 0;
+    if (info.popularity > 0) {
+      reasons.push(`Popularity ${info.popularity.toFixed(1)}`);
+    }
+
+    const weighted = [
+      [WEIGHTS.title, title],
+      [WEIGHTS.year, year],
+      [WEIGHTS.runtime, runtime],
+      [WEIGHTS.popularity, popularity],
+    ].filter((signal): signal is [number, number] => signal[1] !== null);
+    const totalWeight = weighted.reduce((sum, [weight]) => sum + weight, 0);
+    const score = weighted.reduce((sum, [weight, value]) => sum + weight * value, 0) / totalWeight;
+
+    return {
+      score: Math.round(score * 1000) / 1000,
+      signals: { title, matchedTitle, year, runtime, popularity },
+      reasons,
+    };
+  }
+
+  /**
+   * Similarity of two titles from 0 to 1, ignoring case, accents, punctuation and
+   * leading articles
+   */
+  private titleSimilarity(a: string, b: string): number {
+    const left = this.normalizeTitle(a);
+    const right = this.normalizeTitle(b);
+
+    if (left === right) {
+      return 1;
+    }
+    const longest = Math.max(left.length, right.length);
+    return longest === 0 ? 0 : 1 - this.editDistance(left, right) / longest;
+  }
+
+  private normalizeTitle(title: string): string {
+    return title
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/&/g, ' and ')
+      .replace(/[^\p{L}\p{N}]+/gu, ' ')
+      .trim()
+      .replace(/^(?:the|a|an) /, '');
+  }
+
+  /**
+   * Levenshtein distance; titles are short enough for the plain dynamic programme
+   */
+  private editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j]! + 1,
+          current[j - 1]! + 1,
+          previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+        );
+      }
+      previous = current;
+    }
+
+    return previous[b.length]!;
+  }
+
+  private yearOf(date: string | undefined): number | undefined {
+    const year = date ? parseInt(date.slice(0, 4)) : NaN;
+    return isNaN(year) ? undefined : year;
+  }
+}
+
+export const matchScoringService = new MatchScoringService();
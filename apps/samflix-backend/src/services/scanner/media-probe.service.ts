@@ -0,0 +1,52 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+const FFPROBE_PATH = process.env.FFPROBE_PATH || 'ffprobe';
+const PROBE_TIMEOUT_MS = 15000;
+
+/**
+ * Service that reads technical details of media files with ffprobe
+ * Everything here is best effort: without ffprobe the scanner simply does without
+ */
+class MediaProbeService {
+  private ffprobeMissing = false;
+
+  /**
+   * Gets the duration of a media file in seconds
+   * @param filePath The path to the media file
+   * @returns The duration, or null when it can't be read
+   */
+  async getDuration(filePath: string): Promise<number | null> {
+    if (this.ffprobeMissing) {
+      return null;
+    }
+
+    try {
+      const { stdout } = await execFileAsync(
+        FFPROBE_PATH,
+        [
+          '-v',
+          'error',
+          '-show_entries',
+          'format=duration',
+          '-of',
+          'default=noprint_wrappers=1:nokey=1',
+          filePath,
+        ],
+        { timeout: PROBE_TIMEOUT_MS }
+      );
+      const duration = parseFloat(stdout.trim());
+      return isNaN(duration) ? null : duration;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.ffprobeMissing = true;
+        console.warn(`⚠️  ${FFPROBE_PATH} not found; file durations won't be used for matching`);
+      }
+      return null;
+    }
+  }
+}
+
+export const mediaProbeService = new MediaProbeService();
@@ -0,0 +1,248 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Metadata read from a Kodi-style .nfo sidecar file
+ */
+export interface NfoMetadata {
+  tmdbId?: number;
+  imdbId?: string;
+  title?: string;
+  year?: number;
+  plot?: string;
+  rating?: number;
+  genres?: string[];
+  runtime?: number;
+  /** Release date of a movie, first air date of a series or air date of an episode */
+  premiered?: string;
+  status?: string;
+  season?: number;
+  episode?: number;
+}
+
+/**
+ * Local artwork found next to a media file
+ */
+export interface LocalArtwork {
+  poster?: string;
+  fanart?: string;
+}
+
+export type ArtworkKind = keyof LocalArtwork;
+
+// Names Kodi and similar tools write artwork under, most specific first ({name} is the file name)
+const ARTWORK_NAMES: Record<ArtworkKind, string[]> = {
+  poster: ['{name}-poster', 'poster', 'folder', 'cover'],
+  fanart: ['{name}-fanart', 'fanart', 'backdrop', 'background'],
+};
+const ARTWORK_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp'];
+
+// Season folders sit between a series folder and its episodes
+const SEASON_FOLDER = /^(?:season|series|staffel|saison)?[\s._-]*\d{1,3}$|^specials$/i;
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Service that reads .nfo sidecar files and local artwork kept next to media files
+ * Kodi NFOs are flat XML; only the handful of fields the scanner uses are extracted
+ */
+class NfoService {
+  /**
+   * Reads the NFO of a movie: <file name>.nfo, then movie.nfo in the same folder
+   * @param filePath The path to the movie file
+   */
+  async readMovieNfo(filePath: string): Promise<NfoMetadata | null> {
+    const dir = path.dirname(filePath);
+    return this.readFirst([this.sidecarPath(filePath), path.join(dir, 'movie.nfo')]);
+  }
+
+  /**
+   * Reads the tvshow.nfo of the series an episode belongs to
+   * @param filePath The path to the episode file
+   */
+  async readSeriesNfo(filePath: string): Promise<NfoMetadata | null> {
+    return this.readFirst([path.join(this.seriesDirectory(filePath), 'tvshow.nfo')]);
+  }
+
+  /**
+   * Reads the NFO of a single episode: <file name>.nfo
+   * @param filePath The path to the episode file
+   */
+  async readEpisodeNfo(filePath: string): Promise<NfoMetadata | null> {
+    return this.readFirst([this.sidecarPath(filePath)]);
+  }
+
+  /**
+   * Finds local poster and fanart images for a movie or for the series of an episode
+   * @param filePath The path to the movie or episode file
+   * @param mediaType Whether the file is a movie or an episode
+   */
+  async findArtwork(filePath: string, mediaType: 'movie' | 'series'): Promise<LocalArtwork> {
+    const dir = mediaType === 'movie' ? path.dirname(filePath) : this.seriesDirectory(filePath);
+    const name = path.basename(filePath, path.extname(filePath));
+    const artwork: LocalArtwork = {};
+
+    for (const kind of Object.keys(ARTWORK_NAMES) as ArtworkKind[]) {
+      // File-specific art only makes sense for movies; episodes share their series' art
+      const names = ARTWORK_NAMES[kind]
+        .filter((candidate) => mediaType === 'movie' || !candidate.includes('{name}'))
+        .map((candidate) => candidate.replace('{name}', name));
+
+      for (const candidate of names) {
+        const found = await this.findImage(dir, candidate);
+        if (found) {
+          artwork[kind] = found;
+          break;
+        }
+      }
+    }
+
+    return artwork;
+  }
+
+  /**
+   * Extracts the scanner's fields from NFO content
+   * NFOs that only hold a TMDB or IMDb URL are supported too
+   * @param content The text of the .nfo file
+   */
+  parse(content: string): NfoMetadata {
+    const metadata: NfoMetadata = {};
+
+    const tmdbId =
+      this.uniqueId(content, 'tmdb') ??
+      this.tag(content, 'tmdbid') ??
+      content.match(/themoviedb\.org\/(?:movie|tv)\/(\d+)/i)?.[1];
+    const imdbId =
+      this.uniqueId(content, 'imdb') ??
+      this.tag(content, 'imdbid') ??
+      content.match(/\b(tt\d{7,8})\b/)?.[1];
+
+    if (tmdbId && /^\d+$/.test(tmdbId)) metadata.tmdbId = parseInt(tmdbId);
+    if (imdbId && /^tt\d+$/i.test(imdbId)) metadata.imdbId = imdbId.toLowerCase();
+
+    const title = this.tag(content, 'title');
+    if (title) metadata.title = title;
+
+    const plot = this.tag(content, 'plot') ?? this.tag(content, 'outline');
+    if (plot) metadata.plot = plot;
+
+    const year = this.tag(content, 'year') ?? this.tag(content, 'premiered')?.slice(0, 4);
+    if (year && /^\d{4}$/.test(year)) metadata.year = parseInt(year);
+
+    // <ratings> holds one <rating> per source; the default one wins, else the first
+    const ratings = [...content.matchAll(/<rating\b([^>]*)>([\s\S]*?)<\/rating>/gi)];
+    const rating =
+      ratings.find(([, attributes]) => /default="true"/i.test(attributes!)) ?? ratings[0];
+    const ratingValue = rating?.[2]!.match(/<value>\s*([\d.]+)\s*<\/value>/i)?.[1] ?? rating?.[2];
+    if (ratingValue && !isNaN(parseFloat(ratingValue))) metadata.rating = parseFloat(ratingValue);
+
+    const genres = this.tags(content, 'genre');
+    if (genres.length > 0) metadata.genres = genres;
+
+    const runtime = this.tag(content, 'runtime');
+    if (runtime && /^\d+$/.test(runtime)) metadata.runtime = parseInt(runtime);
+
+    const premiered = this.tag(content, 'premiered') ?? this.tag(content, 'aired');
+    if (premiered && /^\d{4}-\d{2}-\d{2}$/.test(premiered)) metadata.premiered = premiered;
+
+    const status = this.tag(content, 'status');
+    if (status) metadata.status = status;
+
+    const season = this.tag(content, 'season');
+    const episode = this.tag(content, 'episode');
+    if (season && /^\d+$/.test(season)) metadata.season = parseInt(season);
+    if (episode && /^\d+$/.test(episode)) metadata.episode = parseInt(episode);
+
+    return metadata;
+  }
+
+  /**
+   * Reads and parses the first of several candidate NFO files that exists
+   */
+  private async readFirst(candidates: string[]): Promise<NfoMetadata | null> {
+    for (const candidate of candidates) {
+      try {
+        const content = await fs.promises.readFile(candidate, 'utf8');
+        return this.parse(content);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.warn(`⚠️  Unable to read NFO file ${candidate}:`, error);
+        }
+      }
+    }
+    return null;
+  }
+
+  private async findImage(dir: string, name: string): Promise<string | undefined> {
+    for (const extension of ARTWORK_EXTENSIONS) {
+      const candidate = path.join(dir, `${name}${extension}`);
+      try {
+        if ((await fs.promises.stat(candidate)).isFile()) {
+          return candidate;
+        }
+      } catch {
+        // Not there; try the next name
+      }
+    }
+    return undefined;
+  }
+
+  private sidecarPath(filePath: string): string {
+    return path.join(
+      path.dirname(filePath),
+      `${path.basename(filePath, path.extname(filePath))}.nfo`
+    );
+  }
+
+  /**
+   * The folder of a series: the episode's folder, or its parent for season folders
+   */
+  private seriesDirectory(filePath: string): string {
+    const dir = path.dirname(filePath);
+    return SEASON_FOLDER.test(path.basename(dir)) ? path.dirname(dir) : dir;
+  }
+
+  private uniqueId(content: string, type: string): string | undefined {
+    const pattern = new RegExp(
+      `<uniqueid\\b[^>]*type="${type}"[^>]*>\\s*([^<]+?)\\s*</uniqueid>`,
+      'i'
+    );
+    return content.match(pattern)?.[1];
+  }
+
+  /**
+   * The text of the first element with a name; elements nested deeper share the name
+   * rarely enough in Kodi NFOs that the first occurrence is the top-level one
+   */
+  private tag(content: string, name: string): string | undefined {
+    const match = content.match(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, 'i'));
+    return match ? this.text(match[1]!) : undefined;
+  }
+
+  /**
+   * The non-empty texts of every element with a name, e.g. the <genre> list
+   */
+  private tags(content: string, name: string): string[] {
+    const pattern = new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, 'gi');
+    return [...content.matchAll(pattern)]
+      .map((match) => this.text(match[1]!))
+      .filter((text): text is string => text !== undefined);
+  }
+
+  private text(raw: string): string | undefined {
+    const text = raw
+      .replace(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/, '$1')
+      .replace(/&(amp|lt|gt|quot|apos);/g, (_, entity: string) => XML_ENTITIES[entity]!)
+      .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(parseInt(code)))
+      .trim();
+    return text || undefined;
+  }
+}
+
+export const nfoService = new NfoService();
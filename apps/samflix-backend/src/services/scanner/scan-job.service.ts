@@ -0,0 +1,389 @@
+import { EventEmitter } from 'events';
+import type { ScanJob, ScanJobStatus } from '@samflix/prisma-client';
+import { prisma } from '../../app';
+import { scannerService } from './scanner.service';
+import { ScannerConfig, ScanSummary } from '../../types/media.types';
+
+export type ScanTrigger = 'manual' | 'scheduled';
+
+export interface ScanJobOptions {
+  /** Ignore stored file fingerprints and process every file again */
+  fullRescan?: boolean;
+}
+
+/**
+ * Event pushed to subscribers of a scan job's stream
+ */
+export interface ScanJobEvent {
+  jobId: string;
+  status: ScanJobStatus;
+  progress: number;
+  message: string | null;
+  details?: unknown;
+  summary?: ScanSummary;
+  complete: boolean;
+}
+
+type ScanJobListener = (event: ScanJobEvent) => void;
+
+const ACTIVE_STATUSES: ScanJobStatus[] = ['QUEUED', 'RUNNING'];
+const FINISHED_STATUSES: ScanJobStatus[] = ['COMPLETED', 'FAILED', 'CANCELLED'];
+
+// Summary updates arrive once per file, so persist and broadcast them at most this often
+const SUMMARY_THROTTLE_MS = 1000;
+
+/**
+ * Service that runs media scans as persisted jobs
+ * Both the manual scan endpoints and the scheduled cron scan go through here,
+ * so only one scan can run at a time
+ */
+class ScanJobService {
+  private readonly emitter = new EventEmitter();
+  private activeJobId: string | null = null;
+  private starting = false;
+  // Set while a task that must not overlap with a scan runs; new scans wait for it
+  private exclusive: Promise<void> | null = null;
+  private cancelRequested = false;
+  private lastSummaryAt = 0;
+
+  constructor() {
+    // Every open SSE connection adds a listener
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Starts a new scan job in the background
+   * @param trigger What started the scan
+   * @param options Optional scan options
+   * @returns The created job (still QUEUED)
+   */
+  async startJob(trigger: ScanTrigger, options: ScanJobOptions = {}): Promise<ScanJob> {
+    const { job, finished } = await this.launch(trigger, options);
+    finished.catch((error) => console.error('❌ Error recording scan job result:', error));
+    return job;
+  }
+
+  /**
+   * Starts a new scan job and waits for it to finish
+   * @param trigger What started the scan
+   * @param options Optional scan options
+   * @returns The finished job
+   */
+  async runJob(trigger: ScanTrigger, options: ScanJobOptions = {}): Promise<ScanJob> {
+    const { finished } = await this.launch(trigger, options);
+    return finished;
+  }
+
+  /**
+   * Lists scan jobs, most recent first
+   * @param limit Maximum number of jobs to return
+   * @param status Optional status filter
+   */
+  async listJobs(limit = 20, status?: ScanJobStatus): Promise<ScanJob[]> {
+    return prisma.scanJob.findMany({
+      where: status ? { status } : {},
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Gets a single scan job
+   * @param jobId The ID of the job
+   */
+  async getJob(jobId: string): Promise<ScanJob> {
+    const job = await prisma.scanJob.findUnique({ where: { id: jobId } });
+
+    if (!job) {
+      throw new Error('Scan job not found');
+    }
+
+    return job;
+  }
+
+  /**
+   * Gets the currently running scan job, if any
+   */
+  async getActiveJob(): Promise<ScanJob | null> {
+    return prisma.scanJob.findFirst({
+      where: { status: { in: ACTIVE_STATUSES } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Requests cancellation of a running scan job
+   * The scan stops before the next file it would process
+   * @param jobId The ID of the job
+   */
+  async cancelJob(jobId: string): Promise<ScanJob> {
+    const job = await this.getJob(jobId);
+
+    if (!ACTIVE_STATUSES.includes(job.status)) {
+      throw new Error('Scan job is not running');
+    }
+
+    if (this.activeJobId === jobId) {
+      this.cancelRequested = true;
+    }
+
+    return prisma.scanJob.update({
+      where: { id: jobId },
+      data: { cancelRequested: true, message: 'Cancelling scan' },
+    });
+  }
+
+  /**
+   * Subscribes to a job's events
+   * @param jobId The ID of the job
+   * @param listener Called for every event of that job
+   * @returns A function that removes the subscription
+   */
+  subscribe(jobId: string, listener: ScanJobListener): () => void {
+    const handler = (event: ScanJobEvent): void => {
+      if (event.jobId === jobId) {
+        listener(event);
+      }
+    };
+
+    this.emitter.on('event', handler);
+    return () => {
+      this.emitter.off('event', handler);
+    };
+  }
+
+  /**
+   * Builds the stream event that describes a job's current state
+   * @param job The scan job
+   */
+  toEvent(job: ScanJob): ScanJobEvent {
+    return {
+      jobId: job.id,
+      status: job.status,
+      progress: job.progress,
+      message: job.message,
+      complete: FINISHED_STATUSES.includes(job.status),
+    };
+  }
+
+  /**
+   * Runs a task that must not overlap with a scan, such as processing watched changes
+   * Scans started meanwhile wait for the task to finish
+   * @param task The task to run
+   * @returns Whether the task ran; false when a scan or another such task is running
+   */
+  async runExclusive(task: () => Promise<void>): Promise<boolean> {
+    if (this.starting || this.activeJobId || this.exclusive) {
+      return false;
+    }
+
+    const run = (async (): Promise<boolean> => {
+      if (await this.getActiveJob()) {
+        return false;
+      }
+      await task();
+      return true;
+    })();
+    this.exclusive = run.then(
+      () => undefined,
+      () => undefined
+    );
+
+    try {
+      return await run;
+    } finally {
+      this.exclusive = null;
+    }
+  }
+
+  /**
+   * Marks jobs left running by a previous process as failed
+   * Called once on startup, before any new scan can start
+   */
+  async failInterruptedJobs(): Promise<void> {
+    try {
+      const result = await prisma.scanJob.updateMany({
+        where: { status: { in: ACTIVE_STATUSES } },
+        data: {
+          status: 'FAILED',
+          message: 'Interrupted by server restart',
+          finishedAt: new Date(),
+        },
+      });
+
+      if (result.count > 0) {
+        console.log(`⚠️  Marked ${result.count} interrupted scan job(s) as failed`);
+      }
+    } catch (error) {
+      console.error('Error failing interrupted scan jobs:', error);
+    }
+  }
+
+  /**
+   * Creates the job record and kicks off the scan without awaiting it
+   */
+  private async launch(
+    trigger: ScanTrigger,
+    options: ScanJobOptions
+  ): Promise<{ job: ScanJob; finished: Promise<ScanJob> }> {
+    while (this.exclusive) {
+      await this.exclusive;
+    }
+
+    if (this.starting || this.activeJobId) {
+      throw new Error('A scan is already running');
+    }
+
+    // Claimed before the first await, so triggers arriving together can't both get past the check
+    this.starting = true;
+    try {
+      if (await this.getActiveJob()) {
+        throw new Error('A scan is already running');
+      }
+
+      const config = await this.buildConfig();
+
+      if (config.moviePaths.length === 0 && config.seriesPaths.length === 0) {
+        throw new Error('No active media folders configured');
+      }
+
+      const job = await prisma.scanJob.create({
+        data: {
+          trigger,
+          fullRescan: options.fullRescan ?? false,
+          status: 'QUEUED',
+          message: 'Waiting to start',
+          folders: [],
+          errors: [],
+        },
+      });
+
+      this.activeJobId = job.id;
+      this.cancelRequested = false;
+      this.lastSummaryAt = 0;
+
+      const finished = this.execute(job.id, config, job.fullRescan);
+      return { job, finished };
+    } finally {
+      this.starting = false;
+    }
+  }
+
+  /**
+   * Runs the scan for a job and records its outcome
+   */
+  private async execute(
+    jobId: string,
+    config: ScannerConfig,
+    fullRescan: boolean
+  ): Promise<ScanJob> {
+    let progress = 0;
+    let latestSummary: ScanSummary | undefined;
+
+    // Progress callbacks are fire-and-forget, so chain the writes to keep them in order
+    let writes: Promise<unknown> = Promise.resolve();
+    const update = (data: Record<string, unknown>, details?: unknown): Promise<ScanJob> => {
+      const write = writes.then(async () => {
+        const job = await prisma.scanJob.update({ where: { id: jobId }, data });
+        this.emitter.emit('event', { ...this.toEvent(job), details, summary: latestSummary });
+        return job;
+      });
+      writes = write.catch(() => undefined);
+      return write;
+    };
+
+    try {
+      await update({ status: 'RUNNING', startedAt: new Date(), message: 'Starting media scan' });
+
+      const summary = await scannerService.scanAll(
+        config,
+        (status, value, details) => {
+          progress = value;
+          update({ progress, message: status }, details).catch((error) =>
+            console.error('Error updating scan job progress:', error)
+          );
+        },
+        {
+          fullRescan,
+          isCancelled: () => this.cancelRequested,
+          onSummary: (current) => {
+            latestSummary = current;
+            const now = Date.now();
+            if (now - this.lastSummaryAt < SUMMARY_THROTTLE_MS) {
+              return;
+            }
+            this.lastSummaryAt = now;
+            update(this.summaryData(current)).catch((error) =>
+              console.error('Error updating scan job summary:', error)
+            );
+          },
+        }
+      );
+
+      latestSummary = summary;
+      return await update({
+        ...this.summaryData(summary),
+        status: 'COMPLETED',
+        progress: 100,
+        message: 'Media scan and cleanup completed',
+        finishedAt: new Date(),
+      });
+    } catch (error) {
+      const cancelled = error instanceof Error && error.message === 'Scan cancelled';
+      if (!cancelled) {
+        console.error('❌ Scan job failed:', error);
+      }
+
+      return await update({
+        ...(latestSummary ? this.summaryData(latestSummary) : {}),
+        status: cancelled ? 'CANCELLED' : 'FAILED',
+        progress,
+        message: cancelled
+          ? 'Scan cancelled'
+          : error instanceof Error
+            ? error.message
+            : 'Failed to complete scan',
+        finishedAt: new Date(),
+      });
+    } finally {
+      this.activeJobId = null;
+      this.cancelRequested = false;
+    }
+  }
+
+  /**
+   * Maps a scan summary onto the ScanJob columns
+   */
+  private summaryData(summary: ScanSummary): Record<string, unknown> {
+    return {
+      folders: summary.folders.map((folder) => ({ ...folder })),
+      filesScanned: summary.filesScanned,
+      filesSkipped: summary.filesSkipped,
+      moviesAdded: summary.moviesAdded,
+      episodesAdded: summary.episodesAdded,
+      conflicts: summary.conflicts,
+      removedMovies: summary.removedMovies,
+      removedEpisodes: summary.removedEpisodes,
+      removedSeries: summary.removedSeries,
+      errors: summary.errors.map((error) => ({ ...error })),
+    };
+  }
+
+  /**
+   * Builds the scanner configuration from the active media folders
+   */
+  private async buildConfig(): Promise<ScannerConfig> {
+    const folders = await prisma.mediaFolder.findMany({
+      select: { id: true, path: true, type: true, active: true },
+      where: { active: true },
+    });
+
+    return {
+      moviePaths: folders.filter((f) => f.type === 'movies').map((f) => f.path),
+      seriesPaths: folders.filter((f) => f.type === 'series').map((f) => f.path),
+      fileExtensions: ['.mp4', '.mkv', '.avi'],
+    };
+  }
+}
+
+export const scanJobService = new ScanJobService();
@@ -1,14 +1,51 @@
 import fs from 'fs';
 import path from 'path';
+import type { Movie, TvSeries } from '@samflix/prisma-client';
 import { prisma } from '../../app';
 import { parserService } from '../parser/parser.service';
+import { parsingRuleService } from '../parser/parsing-rule.service';
 import { tmdbService } from '../tmdb/tmdb.service';
+import { fingerprintService, FingerprintMap } from './fingerprint.service';
+import { episodeNumberingService } from './episode-numbering.service';
+import { nfoService, NfoMetadata } from './nfo.service';
+import { matchScoringService, MatchQuery, ScoredMatch } from './match-scoring.service';
+import { progressService } from '../progress.service';
+import {
+  metadataProviderService,
+  MetadataProviderChain,
+  SourcedMetadata,
+} from '../metadata/metadata-provider.service';
+import { localizationService } from '../metadata/localization.service';
+import { creditService } from '../metadata/credit.service';
+import { certificationService } from '../metadata/certification.service';
+import { collectionService } from '../metadata/collection.service';
+import { episodeGuideService } from '../metadata/episode-guide.service';
+import { seasonService } from '../metadata/season.service';
+import { imageCacheService } from '../images/image-cache.service';
 import { CacheInvalidationService } from '../../api/middleware/cache-invalidation';
-import { ScannerConfig, TMDBMovieResult, TMDBTVResult } from '../../types/media.types';
+import {
+  FolderScanProgress,
+  MediaFile,
+  ParsedEpisode,
+  ScannerConfig,
+  ScanRunOptions,
+  ScanSummary,
+  TMDBEpisodeResult,
+  TMDBMovieResult,
+  TMDBTVResult,
+} from '../../types/media.types';
 
 // Define a type for progress callback
 type ProgressCallback = (status: string, progress: number, details?: any) => void;
 
+// Hooks a directory scan uses to report back to the running scanAll call
+interface ScanRun {
+  fullRescan: boolean;
+  notify: () => void;
+  throwIfCancelled: () => void;
+  recordError: (filePath: string, error: unknown) => void;
+}
+
 class ScannerService {
   private readonly supportedExtensions: string[] = ['.mp4', '.mkv', '.avi'];
 
@@ -16,9 +53,14 @@ class ScannerService {
    * Scans all configured media directories and cleans up orphaned entries
    * @param config The scanner configuration
    * @param progressCallback Optional callback function to report progress
+   * @param options Optional cancellation check and summary listener
    * @returns A summary of the scan results
    */
-  async scanAll(config: ScannerConfig, progressCallback?: ProgressCallback): Promise<any> {
+  async scanAll(
+    config: ScannerConfig,
+    progressCallback?: ProgressCallback,
+    options: ScanRunOptions = {}
+  ): Promise<ScanSummary> {
     try {
       const reportProgress = (status: string, progress: number, details?: any): void => {
         console.log(`${status}: ${progress}%${details ? ` - ${JSON.stringify(details)}` : ''}`);
@@ -27,40 +69,89 @@ class ScannerService {
         }
       };
 
-      reportProgress('Starting media scan', 0);
+      const summary = this.createSummary(config);
+      const run: ScanRun = {
+        fullRescan: options.fullRescan ?? false,
+        notify: () => {
+          this.updateTotals(summary);
+          options.onSummary?.(summary);
+        },
+        throwIfCancelled: () => {
+          if (options.isCancelled?.()) {
+            throw new Error('Scan cancelled');
+          }
+        },
+        recordError: (filePath, error) => {
+          summary.errors.push({
+            path: filePath,
+            message: error instanceof Error ? error.message : String(error),
+            at: new Date().toISOString(),
+          });
+        },
+      };
+
+      reportProgress(options.fullRescan ? 'Starting full media rescan' : 'Starting media scan', 0);
+      await parsingRuleService.loadRules();
+      await metadataProviderService.loadFolders();
 
       // Count total paths to calculate progress
-      const totalPaths = config.moviePaths.length + config.seriesPaths.length;
+      const totalPaths = summary.folders.length;
       let completedPaths = 0;
 
       // First scan all directories for new media
-      for (let i = 0; i < config.moviePaths.length; i++) {
-        const moviePath = config.moviePaths[i]!;
-        reportProgress('Scanning movie directory', Math.floor((completedPaths / totalPaths) * 70), {
-          path: moviePath,
-          current: i + 1,
-          total: config.moviePaths.length,
-        });
-
-        await this.scanMovieDirectory(moviePath);
-        completedPaths++;
-      }
+      for (const folder of summary.folders) {
+        run.throwIfCancelled();
 
-      for (let i = 0; i < config.seriesPaths.length; i++) {
-        const seriesPath = config.seriesPaths[i]!;
+        const sameType = summary.folders.filter((f) => f.type === folder.type);
         reportProgress(
-          'Scanning series directory',
+          folder.type === 'movies' ? 'Scanning movie directory' : 'Scanning series directory',
           Math.floor((completedPaths / totalPaths) * 70),
-          { path: seriesPath, current: i + 1, total: config.seriesPaths.length }
+          { path: folder.path, current: sameType.indexOf(folder) + 1, total: sameType.length }
         );
 
-        await this.scanSeriesDirectory(seriesPath);
+        folder.status = 'scanning';
+        run.notify();
+
+        try {
+          if (folder.type === 'movies') {
+            await this.scanMovieDirectory(folder.path, folder, run);
+          } else {
+            await this.scanSeriesDirectory(folder.path, folder, run);
+          }
+          folder.status = 'completed';
+        } catch (error) {
+          if (error instanceof Error && error.message === 'Scan cancelled') {
+            throw error;
+          }
+          // A missing or unreadable folder shouldn't abort the other folders
+          console.error(`Error scanning directory ${folder.path}:`, error);
+          folder.status = 'failed';
+          run.recordError(folder.path, error);
+        }
+
         completedPaths++;
+        run.notify();
       }
 
-      // Then check for and clean up orphaned entries
+      // Fill in the localizations and credits of what was added
+      reportProgress(
+        'Localizing metadata and pulling credits, collections, seasons, guides and artwork',
+        72
+      );
+      await this.enrichMissing();
+
+      // Then check for and clean up orphaned entries, leaving alone what is under folders that
+      // failed: a missing or unmounted folder would otherwise look like every file was deleted
       reportProgress('Checking for orphaned media entries', 75);
-      const cleanupResults = await this.cleanupOrphanedEntries(progressCallback);
+      const failedFolders = summary.folders.filter((f) => f.status === 'failed').map((f) => f.path);
+      if (failedFolders.length > 0) {
+        console.warn(`⚠️  Keeping entries under failed folders: ${failedFolders.join(', ')}`);
+      }
+      const cleanupResults = await this.cleanupOrphanedEntries(progressCallback, failedFolders);
+      summary.removedMovies = cleanupResults.removedMovies;
+      summary.removedEpisodes = cleanupResults.removedEpisodes;
+      summary.removedSeries = cleanupResults.removedSeries;
+      run.notify();
 
       // Delete resolved conflicts after moving data to collections
       reportProgress('Cleaning up resolved conflicts', 95);
@@ -71,7 +162,7 @@ class ScannerService {
       console.log('Cleared conflicts cache after scan');
 
       reportProgress('Media scan and cleanup completed', 100, cleanupResults);
-      return cleanupResults;
+      return summary;
     } catch (error) {
       console.error('Error during media scan:', error);
       throw error;
@@ -79,36 +170,870 @@ class ScannerService {
   }
 
   /**
-   * Checks if a movie is already in the database
+   * Builds an empty scan summary with one pending entry per configured folder
+   */
+  private createSummary(config: ScannerConfig): ScanSummary {
+    return {
+      folders: [
+        ...config.moviePaths.map((p) => this.createFolderProgress(p, 'movies')),
+        ...config.seriesPaths.map((p) => this.createFolderProgress(p, 'series')),
+      ],
+      filesScanned: 0,
+      filesSkipped: 0,
+      moviesAdded: 0,
+      episodesAdded: 0,
+      conflicts: 0,
+      removedMovies: 0,
+      removedEpisodes: 0,
+      removedSeries: 0,
+      errors: [],
+    };
+  }
+
+  /**
+   * Builds the pending progress entry for one media folder
+   */
+  private createFolderProgress(folderPath: string, type: 'movies' | 'series'): FolderScanProgress {
+    return {
+      path: folderPath,
+      type,
+      status: 'pending',
+      filesTotal: 0,
+      filesProcessed: 0,
+      skipped: 0,
+      added: 0,
+      conflicts: 0,
+      errors: 0,
+    };
+  }
+
+  /**
+   * Ingests specific files of a media folder instead of walking the whole folder
+   * Used by the folder watcher for files that were just created or renamed
+   * @param folderPath The media folder the files belong to
+   * @param type Whether the folder holds movies or series
+   * @param files Paths of the media files to ingest
+   * @returns The counts for the ingested files
+   */
+  async ingestFiles(
+    folderPath: string,
+    type: 'movies' | 'series',
+    files: string[]
+  ): Promise<FolderScanProgress> {
+    const folder = this.createFolderProgress(folderPath, type);
+    folder.status = 'scanning';
+    folder.filesTotal = files.length;
+
+    const run: ScanRun = {
+      fullRescan: false,
+      notify: () => {},
+      throwIfCancelled: () => {},
+      recordError: () => {},
+    };
+    await parsingRuleService.loadRules();
+    await metadataProviderService.loadFolders();
+    const fingerprints = await fingerprintService.loadForPaths(files);
+
+    if (type === 'movies') {
+      await this.ingestMovieFiles(files, fingerprints, folder, run);
+    } else {
+      await this.ingestEpisodeFiles(files, fingerprints, folder, run);
+    }
+    folder.status = 'completed';
+
+    await this.enrichMissing();
+    await CacheInvalidationService.clearPattern('cache:/api/scanner/conflicts*');
+    return folder;
+  }
+
+  /**
+   * Removes the movies and episodes backed by files that were deleted or renamed away
+   * Series left without episodes are removed as well
+   * @param files Paths of the media files that no longer exist
+   * @returns The number of movies, episodes and series removed
+   */
+  async removeFiles(
+    files: string[]
+  ): Promise<{ removedMovies: number; removedEpisodes: number; removedSeries: number }> {
+    const results = { removedMovies: 0, removedEpisodes: 0, removedSeries: 0 };
+
+    const movies = await prisma.movie.findMany({
+      where: { filePath: { in: files } },
+      select: { id: true },
+    });
+    for (const movie of movies) {
+      try {
+        await this.removeDeletedMovie(movie.id);
+        results.removedMovies++;
+      } catch (error) {
+        console.error(`Failed to remove deleted movie ${movie.id}:`, error);
+      }
+    }
+
+    const episodes = await prisma.episode.findMany({
+      where: { filePath: { in: files } },
+      select: { id: true, seriesId: true },
+    });
+    const affectedSeriesIds = new Set<string>();
+    for (const episode of episodes) {
+      try {
+        await this.removeDeletedEpisode(episode.id);
+        affectedSeriesIds.add(episode.seriesId);
+        results.removedEpisodes++;
+      } catch (error) {
+        console.error(`Failed to remove deleted episode ${episode.id}:`, error);
+      }
+    }
+
+    if (affectedSeriesIds.size > 0) {
+      const emptySeries = await prisma.tvSeries.deleteMany({
+        where: { id: { in: [...affectedSeriesIds] }, episodes: { none: {} } },
+      });
+      results.removedSeries = emptySeries.count;
+    }
+
+    await fingerprintService.forgetPaths(files);
+    return results;
+  }
+
+  /**
+   * Maps the files of a series onto TMDB episodes again, after its numbering scheme changed
+   * Episode rows that no longer match their file are removed
+   * @param seriesId The ID of the series in the database
+   * @returns The number of files remapped, episodes removed and files that failed
+   */
+  async renumberSeries(
+    seriesId: string
+  ): Promise<{ files: number; removedEpisodes: number; errors: number }> {
+    const series = await prisma.tvSeries.findUnique({
+      where: { id: seriesId },
+      include: { episodes: { select: { id: true, filePath: true } } },
+    });
+
+    if (!series) {
+      throw new Error('Series not found');
+    }
+
+    await parsingRuleService.loadRules();
+    await metadataProviderService.loadFolders();
+    const results = { files: 0, removedEpisodes: 0, errors: 0 };
+    const filePaths = [...new Set(series.episodes.map((episode) => episode.filePath))];
+
+    for (const filePath of filePaths) {
+      const parsedEpisode = parserService.parseEpisode(filePath);
+      if (!parsedEpisode) {
+        results.errors++;
+        continue;
+      }
+
+      try {
+        const episodeDetails = await this.getFileEpisodeDetails(
+          series.tmdbId,
+          parsedEpisode,
+          metadataProviderService.chainFor(filePath)
+        );
+        if (!episodeDetails) {
+          console.warn(`⚠️  No metadata provider knows the episodes of ${filePath}`);
+          results.errors++;
+          continue;
+        }
+        await this.saveFileEpisodes(parsedEpisode, episodeDetails, series.id);
+
+        const fileEpisodes = await prisma.episode.findMany({
+          where: { seriesId: series.id, filePath },
+        });
+        const stale = fileEpisodes.filter(
+          (episode) =>
+            !episodeDetails.some(
+              (details) =>
+                details.season_number === episode.seasonNumber &&
+                details.episode_number === episode.episodeNumber
+            )
+        );
+
+        if (stale.length > 0) {
+          const removed = await prisma.episode.deleteMany({
+            where: { id: { in: stale.map((episode) => episode.id) } },
+          });
+          results.removedEpisodes += removed.count;
+        }
+        results.files++;
+      } catch (error) {
+        console.error(`Error renumbering episode file ${filePath}:`, error);
+        results.errors++;
+      }
+    }
+
+    await this.localizeSeries(series.id);
+    return results;
+  }
+
+  /**
+   * Searches TMDB for the movie a library entry should be matched to, scoring the results
+   * against its file
+   * @param movieId The ID of the movie in the database
+   * @param search The title to search for, the movie's own title by default, and a year
+   */
+  async searchMovieMatches(
+    movieId: string,
+    search: { query?: string; year?: number }
+  ): Promise<ScoredMatch<TMDBMovieResult>[]> {
+    const movie = await prisma.movie.findUnique({ where: { id: movieId } });
+    if (!movie) {
+      throw new Error('Movie not found');
+    }
+
+    // Admins search TMDB itself, whatever the folder's providers are
+    return this.findMovieCandidates(
+      {
+        title: search.query ?? movie.title,
+        year: search.year ?? (search.query ? undefined : movie.year),
+        filePath: movie.part ? undefined : movie.filePath,
+      },
+      metadataProviderService.chainFor()
+    );
+  }
+
+  /**
+   * Searches TMDB for the series a library entry should be matched to
+   * @param seriesId The ID of the series in the database
+   * @param search The title to search for, the series' own title by default, and a year
+   */
+  async searchSeriesMatches(
+    seriesId: string,
+    search: { query?: string; year?: number }
+  ): Promise<ScoredMatch<TMDBTVResult>[]> {
+    const series = await prisma.tvSeries.findUnique({ where: { id: seriesId } });
+    if (!series) {
+      throw new Error('Series not found');
+    }
+
+    const title = search.query ?? series.title;
+    return matchScoringService.scoreSeries(
+      { title, year: search.year },
+      await tmdbService.searchTV(title)
+    );
+  }
+
+  /**
+   * Re-binds a movie to another TMDB entry and refreshes its metadata from it
+   * The movie keeps its database ID, so watch progress stays attached to it
+   * @param movieId The ID of the movie in the database
+   * @param tmdbId The TMDB ID of the correct movie
+   */
+  async rematchMovie(movieId: string, tmdbId: number): Promise<Movie> {
+    const movie = await prisma.movie.findUnique({ where: { id: movieId } });
+    if (!movie) {
+      throw new Error('Movie not found');
+    }
+
+    const taken = await prisma.movie.findUnique({ where: { tmdbId } });
+    if (taken && taken.id !== movie.id) {
+      throw new Error(
+        `Invalid match: TMDB movie ${tmdbId} is already in the library as "${taken.title}"`
+      );
+    }
+
+    await metadataProviderService.loadFolders();
+    const movieDetails = await metadataProviderService
+      .chainFor(movie.filePath)
+      .getMovieDetails(tmdbId, { filePath: movie.filePath });
+    if (!movieDetails) {
+      throw new Error('Invalid match: TMDB entry not found');
+    }
+
+    await prisma.movie.update({
+      where: { id: movie.id },
+      data: {
+        tmdbId: movieDetails.id,
+        title: movieDetails.title,
+        year: new Date(movieDetails.release_date).getFullYear(),
+        overview: movieDetails.overview,
+        posterPath: movieDetails.poster_path,
+        backdropPath: movieDetails.backdrop_path,
+        genres: movieDetails.genres.map((g) => g.name),
+        runtime: movieDetails.runtime,
+        rating: movieDetails.vote_average,
+        releaseDate: new Date(movieDetails.release_date),
+        metadataProvider: movieDetails.provider,
+        externalId: movieDetails.externalId,
+        localizations: [],
+        creditsSyncedAt: null,
+        collectionSyncedAt: null,
+        certificationsSyncedAt: null,
+      },
+    });
+
+    // An NFO naming another movie is what the admin is correcting, so it no longer applies
+    const nfo = await nfoService.readMovieNfo(movie.filePath);
+    await this.applyLocalMovieMetadata(
+      movie.filePath,
+      nfo?.tmdbId && nfo.tmdbId !== tmdbId ? null : nfo
+    );
+    await prisma.scanningConflict.deleteMany({ where: { filePath: movie.filePath } });
+    await this.enrichMovie(movie.id);
+
+    console.log(`🔗 Re-matched movie "${movie.title}" to TMDB ${tmdbId} (${movieDetails.title})`);
+    return (await prisma.movie.findUnique({ where: { id: movie.id } }))!;
+  }
+
+  /**
+   * Re-binds a series to another TMDB entry, refreshes its metadata and rebuilds its
+   * episodes from the new entry
+   * When the new entry is already in the library, the files move into that series
+   * Progress saved against the old series and episodes is moved to the new ones
+   * @param seriesId The ID of the series in the database
+   * @param tmdbId The TMDB ID of the correct series
+   */
+  async rematchSeries(
+    seriesId: string,
+    tmdbId: number
+  ): Promise<{ series: TvSeries; files: number; removedEpisodes: number; errors: number }> {
+    const series = await prisma.tvSeries.findUnique({
+      where: { id: seriesId },
+      include: { episodes: true },
+    });
+    if (!series) {
+      throw new Error('Series not found');
+    }
+
+    await metadataProviderService.loadFolders();
+    const seriesDetails = await metadataProviderService
+      .chainFor(series.episodes[0]?.filePath)
+      .getSeriesDetails(tmdbId, { filePath: series.episodes[0]?.filePath });
+    if (!seriesDetails) {
+      throw new Error('Invalid match: TMDB entry not found');
+    }
+
+    const seriesData = {
+      title: seriesDetails.name,
+      overview: seriesDetails.overview,
+      posterPath: seriesDetails.poster_path,
+      backdropPath: seriesDetails.backdrop_path,
+      genres: seriesDetails.genres.map((g) => g.name),
+      rating: seriesDetails.vote_average ?? null,
+      firstAirDate: new Date(seriesDetails.first_air_date),
+      lastAirDate: new Date(seriesDetails.last_air_date),
+      status: seriesDetails.status,
+      metadataProvider: seriesDetails.provider,
+      externalId: seriesDetails.externalId,
+    };
+
+    // Merging into a series already in the library keeps that one
+    const existing = await prisma.tvSeries.findUnique({ where: { tmdbId } });
+    const target =
+      existing && existing.id !== series.id
+        ? existing
+        : await prisma.tvSeries.update({
+            where: { id: series.id },
+            data: {
+              tmdbId,
+              ...seriesData,
+              localizations: [],
+              creditsSyncedAt: null,
+              seasonsSyncedAt: null,
+              guideSyncedAt: null,
+              certificationsSyncedAt: null,
+            },
+          });
+
+    await parsingRuleService.loadRules();
+    const results = { files: 0, removedEpisodes: 0, errors: 0 };
+    const episodeIds = new Map<string, string>();
+    const filePaths = [...new Set(series.episodes.map((episode) => episode.filePath))];
+
+    for (const filePath of filePaths) {
+      const parsedEpisode = parserService.parseEpisode(filePath);
+      if (!parsedEpisode) {
+        results.errors++;
+        continue;
+      }
+
+      try {
+        const oldEpisodes = series.episodes
+          .filter((episode) => episode.filePath === filePath)
+          .sort((a, b) => a.seasonNumber - b.seasonNumber || a.episodeNumber - b.episodeNumber);
+        const episodeDetails = await this.getFileEpisodeDetails(
+          tmdbId,
+          parsedEpisode,
+          metadataProviderService.chainFor(filePath)
+        );
+        if (!episodeDetails) {
+          console.warn(`⚠️  No metadata provider knows the episodes of ${filePath}`);
+          results.errors++;
+          continue;
+        }
+        await this.saveFileEpisodes(parsedEpisode, episodeDetails, target.id);
+
+        const newEpisodes = await prisma.episode.findMany({
+          where: {
+            seriesId: target.id,
+            filePath,
+            tmdbId: { in: episodeDetails.map((details) => details.id) },
+          },
+          orderBy: [{ seasonNumber: 'asc' }, { episodeNumber: 'asc' }],
+        });
+
+        // The file was transcoded already; its output doesn't depend on the match
+        const transcoded = oldEpisodes[0]!;
+        await prisma.episode.updateMany({
+          where: { id: { in: newEpisodes.map((episode) => episode.id) } },
+          data: { transcodeStatus: transcoded.transcodeStatus, playPath: transcoded.playPath },
+        });
+
+        oldEpisodes.forEach((episode, index) => {
+          const replacement = newEpisodes[index] ?? newEpisodes[0];
+          if (replacement && replacement.id !== episode.id) {
+            episodeIds.set(episode.id, replacement.id);
+          }
+        });
+
+        const stale = oldEpisodes.filter(
+          (episode) => !newEpisodes.some((newEpisode) => newEpisode.id === episode.id)
+        );
+        if (stale.length > 0) {
+          const removed = await prisma.episode.deleteMany({
+            where: { id: { in: stale.map((episode) => episode.id) } },
+          });
+          results.removedEpisodes += removed.count;
+        }
+
+        const [seriesNfo, episodeNfo] = await Promise.all([
+          nfoService.readSeriesNfo(filePath),
+          nfoService.readEpisodeNfo(filePath),
+        ]);
+        await this.applyLocalEpisodeMetadata(
+          filePath,
+          seriesNfo?.tmdbId && seriesNfo.tmdbId !== tmdbId ? null : seriesNfo,
+          episodeNfo
+        );
+        await prisma.scanningConflict.deleteMany({ where: { filePath } });
+        results.files++;
+      } catch (error) {
+        console.error(`Error re-matching episode file ${filePath}:`, error);
+        results.errors++;
+      }
+    }
+
+    await progressService.moveSeriesProgress(series.id, target.id, episodeIds);
+
+    // A merged series is removed once all of its files have moved
+    if (target.id !== series.id && results.errors === 0) {
+      await prisma.tvSeries.delete({ where: { id: series.id } });
+    }
+    await this.enrichSeries(target.id);
+
+    console.log(`🔗 Re-matched series "${series.title}" to TMDB ${tmdbId} (${seriesDetails.name})`);
+    return {
+      series: (await prisma.tvSeries.findUnique({ where: { id: target.id } }))!,
+      ...results,
+    };
+  }
+
+  /**
+   * Localizes and pulls the credits and certifications of the movies and series that lack them,
+   * looks up the collections of new movies, pulls the seasons and episode guides of new series
+   * and downloads the artwork that isn't in the image store yet
+   */
+  private async enrichMissing(): Promise<void> {
+    await localizationService.localizeMissing();
+    await creditService.syncMissing();
+    await certificationService.syncMissing();
+    await collectionService.syncMissing();
+    await seasonService.syncMissing();
+    await episodeGuideService.syncMissing();
+    await imageCacheService.cacheMissing();
+  }
+
+  /**
+   * Localizes a re-matched movie, pulls its credits and certifications and looks up its collection
+   * Failures are logged and left to the next scan, which fills in what is missing
+   * @param movieId The ID of the movie in the database
+   */
+  private async enrichMovie(movieId: string): Promise<void> {
+    try {
+      await localizationService.localizeMovie(movieId);
+      await creditService.syncMovieCredits(movieId);
+      await certificationService.syncMovieCertifications(movieId);
+      await collectionService.syncMovieCollection(movieId);
+    } catch (error) {
+      console.warn(`⚠️  Unable to enrich movie ${movieId}:`, error);
+    }
+  }
+
+  /**
+   * Localizes a re-matched series and pulls its credits, certifications, seasons and episode guide
+   * Failures are logged and left to the next scan, which fills in what is missing
+   * @param seriesId The ID of the series in the database
+   */
+  private async enrichSeries(seriesId: string): Promise<void> {
+    await this.localizeSeries(seriesId);
+    try {
+      await creditService.syncSeriesCredits(seriesId);
+      await certificationService.syncSeriesCertifications(seriesId);
+      await seasonService.syncSeries(seriesId);
+      await episodeGuideService.syncSeries(seriesId);
+    } catch (error) {
+      console.warn(`⚠️  Unable to enrich series ${seriesId}:`, error);
+    }
+  }
+
+  /**
+   * Localizes a series whose episodes were just remapped
+   * A failure is logged and left to the next scan, which fills in missing localizations
+   * @param seriesId The ID of the series in the database
+   */
+  private async localizeSeries(seriesId: string): Promise<void> {
+    try {
+      await localizationService.localizeSeries(seriesId);
+    } catch (error) {
+      console.warn(`⚠️  Unable to localize series ${seriesId}:`, error);
+    }
+  }
+
+  /**
+   * Database fields describing a parsed media file and its release tags
+   * @param parsed The parsed movie or episode file
+   */
+  private fileData(parsed: MediaFile): {
+    filePath: string;
+    fileName: string;
+    resolution: string | null;
+    quality: string | null;
+    rip: string | null;
+    sound: string | null;
+    provider: string | null;
+    videoCodec: string | null;
+    hdr: string[];
+    edition: string | null;
+  } {
+    return {
+      filePath: parsed.filePath,
+      fileName: parsed.fileName,
+      resolution: parsed.resolution ?? null,
+      quality: parsed.quality ?? null,
+      rip: parsed.rip ?? null,
+      sound: parsed.sound ?? null,
+      provider: parsed.provider ?? null,
+      videoCodec: parsed.videoCodec ?? null,
+      hdr: parsed.hdr ?? [],
+      edition: parsed.edition ?? null,
+    };
+  }
+
+  /**
+   * Episode numbers held by a parsed episode file; more than one for multi-episode files
+   * @param parsed The parsed episode file
+   */
+  private episodeNumbers(parsed: ParsedEpisode): number[] {
+    const last = parsed.endEpisodeNumber ?? parsed.episodeNumber;
+    return Array.from(
+      { length: last - parsed.episodeNumber + 1 },
+      (_, i) => parsed.episodeNumber + i
+    );
+  }
+
+  /**
+   * Fetches the details of every episode in a file from the folder's providers, after
+   * mapping absolute numbers onto TMDB seasons
+   * @param tvId The TMDB ID of the series
+   * @param parsed The parsed episode file
+   * @param chain The metadata providers of the file's folder
+   * @returns The episodes in order, or null when no provider knows one of them
+   */
+  private async getFileEpisodeDetails(
+    tvId: number,
+    parsed: ParsedEpisode,
+    chain: MetadataProviderChain
+  ): Promise<SourcedMetadata<TMDBEpisodeResult>[] | null> {
+    const episodes: SourcedMetadata<TMDBEpisodeResult>[] = [];
+    for (const ref of await episodeNumberingService.mapEpisodes(tvId, parsed)) {
+      const episode = await chain.getEpisodeDetails(tvId, ref.seasonNumber, ref.episodeNumber, {
+        filePath: parsed.filePath,
+      });
+      if (!episode) {
+        return null;
+      }
+      episodes.push(episode);
+    }
+    return episodes;
+  }
+
+  /**
+   * Overrides a movie's TMDB metadata with its NFO and local artwork, which take priority
+   * @param filePath The path to the movie file
+   * @param nfo The movie's NFO, if it has one
+   */
+  private async applyLocalMovieMetadata(filePath: string, nfo: NfoMetadata | null): Promise<void> {
+    const movie = await prisma.movie.findFirst({
+      where: { filePath },
+      select: { id: true, tmdbId: true },
+    });
+    if (!movie) {
+      return;
+    }
+
+    const data = await this.localMetadata(filePath, 'movie', movie.tmdbId, nfo);
+    if (Object.keys(data).length > 0) {
+      await prisma.movie.update({ where: { id: movie.id }, data });
+    }
+  }
+
+  /**
+   * Overrides the TMDB metadata of an episode file's series and episode with their NFOs
+   * and the series' local artwork
+   * @param filePath The path to the episode file
+   * @param seriesNfo The series' tvshow.nfo, if it has one
+   * @param episodeNfo The episode's NFO, if it has one
+   */
+  private async applyLocalEpisodeMetadata(
+    filePath: string,
+    seriesNfo: NfoMetadata | null,
+    episodeNfo: NfoMetadata | null
+  ): Promise<void> {
+    const episodes = await prisma.episode.findMany({
+      where: { filePath },
+      select: { id: true, seriesId: true, series: { select: { tmdbId: true } } },
+    });
+    if (episodes.length === 0) {
+      return;
+    }
+
+    const seriesData = await this.localMetadata(
+      filePath,
+      'series',
+      episodes[0]!.series.tmdbId,
+      seriesNfo
+    );
+    if (Object.keys(seriesData).length > 0) {
+      await prisma.tvSeries.update({ where: { id: episodes[0]!.seriesId }, data: seriesData });
+    }
+
+    // An episode NFO describes one episode, so it can't apply to a multi-episode file
+    if (episodes.length === 1 && (episodeNfo?.title || episodeNfo?.plot)) {
+      await prisma.episode.update({
+        where: { id: episodes[0]!.id },
+        data: {
+          ...(episodeNfo.title && { title: episodeNfo.title }),
+          ...(episodeNfo.plot && { overview: episodeNfo.plot }),
+        },
+      });
+    }
+  }
+
+  /**
+   * Fields an NFO and local artwork provide for a movie or series
+   * Artwork paths point at the backend's artwork route instead of TMDB
+   */
+  private async localMetadata(
+    filePath: string,
+    mediaType: 'movie' | 'series',
+    tmdbId: number,
+    nfo: NfoMetadata | null
+  ): Promise<{
+    title?: string;
+    year?: number;
+    overview?: string;
+    rating?: number;
+    posterPath?: string;
+    backdropPath?: string;
+  }> {
+    const artwork = await nfoService.findArtwork(filePath, mediaType);
+
+    return {
+      ...(nfo?.title && { title: nfo.title }),
+      // A series' year comes from its first air date
+      ...(nfo?.year && mediaType === 'movie' && { year: nfo.year }),
+      ...(nfo?.plot && { overview: nfo.plot }),
+      ...(nfo?.rating !== undefined && { rating: nfo.rating }),
+      ...(artwork.poster && { posterPath: `/api/artwork/${mediaType}/${tmdbId}/poster` }),
+      ...(artwork.fanart && { backdropPath: `/api/artwork/${mediaType}/${tmdbId}/fanart` }),
+    };
+  }
+
+  /**
+   * Resolves the TMDB ID named by a file's ID hint, if it has one
+   * IMDb IDs are looked up through TMDB; an episode's IMDb ID resolves to its series
+   * @param parsed The parsed movie or episode file
+   * @param mediaType Whether the file is a movie or an episode
+   * @returns The TMDB ID, or null to fall back to the title search
+   */
+  private async resolveIdHint(
+    parsed: MediaFile,
+    mediaType: 'movie' | 'series'
+  ): Promise<number | null> {
+    if (parsed.tmdbId) {
+      return parsed.tmdbId;
+    }
+    if (!parsed.imdbId) {
+      return null;
+    }
+
+    const found = await tmdbService.findByImdbId(parsed.imdbId);
+    const id =
+      mediaType === 'movie'
+        ? found.movie_results[0]?.id
+        : (found.tv_results[0]?.id ?? found.tv_episode_results[0]?.show_id);
+
+    if (!id) {
+      console.warn(`⚠️  IMDb ID ${parsed.imdbId} not found in TMDB for ${parsed.filePath}`);
+    }
+    return id ?? null;
+  }
+
+  /**
+   * Searches the metadata providers for a movie and scores the results against the file
+   * TMDB only returns exact-year results when given a year, so the search is retried
+   * without it and year distance is left to the scoring
+   * @param query What the file name, folder and NFO say about the movie
+   * @param chain The metadata providers to search
+   * @param filePath The movie file, for providers that read what lies next to it
+   */
+  private async findMovieCandidates(
+    query: MatchQuery,
+    chain: MetadataProviderChain,
+    filePath?: string
+  ): Promise<ScoredMatch<TMDBMovieResult>[]> {
+    let searchResults = await chain.searchMovies({ ...query, filePath });
+    if (searchResults.length === 0 && query.year) {
+      searchResults = await chain.searchMovies({ title: query.title, filePath });
+    }
+    return matchScoringService.scoreMovies(query, searchResults);
+  }
+
+  /**
+   * Works out where each episode of a multi-episode file starts and ends, from the
+   * TMDB runtimes; offsets stay null once a runtime is unknown, and the last episode
+   * runs to the end of the file
+   * @param episodes The episodes in the file, in order
+   */
+  private episodeOffsets(
+    episodes: TMDBEpisodeResult[]
+  ): { startOffset: number | null; endOffset: number | null }[] {
+    if (episodes.length === 1) {
+      return [{ startOffset: null, endOffset: null }];
+    }
+
+    let start: number | null = 0;
+    return episodes.map((episode, index) => {
+      const startOffset = start;
+      const isLast = index === episodes.length - 1;
+      const endOffset =
+        start !== null && episode.runtime && !isLast ? start + episode.runtime * 60 : null;
+      start = endOffset;
+      return { startOffset, endOffset };
+    });
+  }
+
+  /**
+   * Creates or updates the episode rows of a file, one per episode it holds
+   * @param parsed The parsed episode file
+   * @param episodes Details of the episodes in the file, in order
+   * @param seriesId The ID of the series in the database
+   * @returns The number of episodes that were newly created
+   */
+  private async saveFileEpisodes(
+    parsed: ParsedEpisode,
+    episodes: SourcedMetadata<TMDBEpisodeResult>[],
+    seriesId: string
+  ): Promise<number> {
+    const offsets = this.episodeOffsets(episodes);
+    let created = 0;
+
+    for (const [index, episodeDetails] of episodes.entries()) {
+      const fileData = { ...this.fileData(parsed), ...offsets[index]! };
+
+      const existingEpisode = await prisma.episode.findFirst({
+        where: {
+          tmdbId: episodeDetails.id,
+          seasonNumber: episodeDetails.season_number,
+          episodeNumber: episodeDetails.episode_number,
+        },
+      });
+
+      if (existingEpisode) {
+        await prisma.episode.update({
+          where: { id: existingEpisode.id },
+          data: fileData,
+        });
+      } else {
+        await prisma.episode.create({
+          data: {
+            tmdbId: episodeDetails.id,
+            title: episodeDetails.name,
+            overview: episodeDetails.overview,
+            ...fileData,
+            seasonNumber: episodeDetails.season_number,
+            episodeNumber: episodeDetails.episode_number,
+            airDate: episodeDetails.air_date ? new Date(episodeDetails.air_date) : null,
+            metadataProvider: episodeDetails.provider,
+            externalId: episodeDetails.externalId,
+            seriesId,
+          },
+        });
+        created++;
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Checks whether a path has one of the supported media file extensions
+   * @param filePath The path to check
+   */
+  isMediaFile(filePath: string): boolean {
+    return this.supportedExtensions.includes(path.extname(filePath).toLowerCase());
+  }
+
+  /**
+   * Recomputes the summary totals from the per-folder counters
+   */
+  private updateTotals(summary: ScanSummary): void {
+    summary.filesScanned = summary.folders.reduce((sum, f) => sum + f.filesProcessed, 0);
+    summary.filesSkipped = summary.folders.reduce((sum, f) => sum + f.skipped, 0);
+    summary.moviesAdded = summary.folders
+      .filter((f) => f.type === 'movies')
+      .reduce((sum, f) => sum + f.added, 0);
+    summary.episodesAdded = summary.folders
+      .filter((f) => f.type === 'series')
+      .reduce((sum, f) => sum + f.added, 0);
+    summary.conflicts = summary.folders.reduce((sum, f) => sum + f.conflicts, 0);
+  }
+
+  /**
+   * Looks up the movie a file already is in the database as
    * @param fileName The name of the movie file
    * @param filePath The path to the movie file
    * @param title The title of the movie
    * @param year The release year of the movie
-   * @returns True if the movie is already in the database, false otherwise
+   * @returns The movie, or null when it isn't in the database yet
    */
-  private async isMovieInDatabase(
+  private async findMovieInDatabase(
     fileName: string,
     filePath: string,
     title: string,
     year?: number
-  ): Promise<boolean> {
+  ): Promise<Pick<Movie, 'tmdbId'> | null> {
     try {
       // First check by file path (most reliable)
       const existingByPath = await prisma.movie.findFirst({
         where: { filePath },
+        select: { tmdbId: true },
       });
 
       if (existingByPath) {
-        return true;
+        return existingByPath;
       }
 
       // Then check by file name
       const existingByFileName = await prisma.movie.findFirst({
         where: { fileName },
+        select: { tmdbId: true },
       });
 
       if (existingByFileName) {
-        return true;
+        return existingByFileName;
       }
 
       // Finally check by title and year (escape special characters)
@@ -124,15 +1049,14 @@ class ScannerService {
         titleQuery.year = year;
       }
 
-      const existingByTitle = await prisma.movie.findFirst({
+      return await prisma.movie.findFirst({
         where: titleQuery,
+        select: { tmdbId: true },
       });
-
-      return !!existingByTitle;
     } catch (error) {
       console.error('Error checking if movie exists in database:', error);
       console.error('Problematic values:', { fileName, filePath, title, year });
-      return false;
+      return null;
     }
   }
 
@@ -141,30 +1065,32 @@ class ScannerService {
     filePath: string,
     seriesName: string,
     seasonNumber: number,
-    episodeNumber: number
+    episodeNumbers: number[]
   ): Promise<boolean> {
     try {
+      // A multi-episode file is only complete once every episode it holds has a row
+
       // First check by file path (most reliable)
-      const existingByPath = await prisma.episode.findFirst({
+      const existingByPath = await prisma.episode.count({
         where: { filePath },
       });
 
-      if (existingByPath) {
+      if (existingByPath >= episodeNumbers.length) {
         return true;
       }
 
       // Then check by file name
-      const existingByFileName = await prisma.episode.findFirst({
+      const existingByFileName = await prisma.episode.count({
         where: { fileName },
       });
 
-      if (existingByFileName) {
+      if (existingByFileName >= episodeNumbers.length) {
         return true;
       }
 
       // Finally check by series name, season, and episode number
       const sanitizedSeriesName = seriesName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-      const existingByDetails = await prisma.episode.findFirst({
+      const existingByDetails = await prisma.episode.count({
         where: {
           AND: [
             {
@@ -176,15 +1102,12 @@ class ScannerService {
               },
             },
             { seasonNumber },
-            { episodeNumber },
+            { episodeNumber: { in: episodeNumbers } },
           ],
         },
-        include: {
-          series: true,
-        },
       });
 
-      return !!existingByDetails;
+      return existingByDetails >= episodeNumbers.length;
     } catch (error) {
       console.error('Error checking if episode exists in database:', error);
       console.error('Problematic values:', {
@@ -192,60 +1115,111 @@ class ScannerService {
         filePath,
         seriesName,
         seasonNumber,
-        episodeNumber,
+        episodeNumbers,
       });
       return false;
     }
   }
 
-  private async scanMovieDirectory(directoryPath: string): Promise<void> {
+  private async scanMovieDirectory(
+    directoryPath: string,
+    folder: FolderScanProgress,
+    run: ScanRun
+  ): Promise<void> {
     const files = await this.getMediaFiles(directoryPath);
+    const fingerprints = await fingerprintService.loadForFolder(directoryPath);
+    folder.filesTotal = files.length;
+    run.notify();
 
+    await this.ingestMovieFiles(files, fingerprints, folder, run);
+    await fingerprintService.pruneMissing(directoryPath, new Set(files));
+  }
+
+  /**
+   * Runs movie files through parsing, TMDB matching and the database
+   * Files with an unchanged fingerprint are skipped unless this is a full rescan
+   */
+  private async ingestMovieFiles(
+    files: string[],
+    fingerprints: FingerprintMap,
+    folder: FolderScanProgress,
+    run: ScanRun
+  ): Promise<void> {
     for (const file of files) {
+      run.throwIfCancelled();
+
       try {
+        const stats = await fs.promises.stat(file);
+        if (!run.fullRescan && fingerprintService.isUnchanged(fingerprints, file, stats)) {
+          folder.skipped++;
+          continue;
+        }
+
         const parsedMovie = parserService.parseMovie(file);
         if (!parsedMovie) {
           console.warn(`Unable to parse movie file: ${file}`);
           // Create a conflict for unparseable files so user can manually resolve
           await this.createScanningConflict('movie', path.basename(file), file, []);
+          folder.conflicts++;
           continue;
         }
 
-        if (
-          await this.isMovieInDatabase(
-            parsedMovie.fileName,
-            parsedMovie.filePath,
-            parsedMovie.title,
-            parsedMovie.year
-          )
-        ) {
-          continue;
-        }
-
-        // Search TMDB
-        const searchResults = await tmdbService.searchMovie(parsedMovie.title, parsedMovie.year);
+        const nfo = await nfoService.readMovieNfo(file);
 
-        if (searchResults.length === 0) {
-          await this.createScanningConflict(
+        const existing = await this.findMovieInDatabase(
+          parsedMovie.fileName,
+          parsedMovie.filePath,
+          parsedMovie.title,
+          parsedMovie.year
+        );
+        if (existing) {
+          await this.applyLocalMovieMetadata(file, nfo);
+          await fingerprintService.record(
+            file,
+            stats,
             'movie',
-            parsedMovie.fileName,
-            parsedMovie.filePath,
-            []
+            parsedMovie.part ? { tmdbId: existing.tmdbId, part: parsedMovie.part } : undefined
           );
           continue;
         }
 
-        if (searchResults.length > 1) {
-          await this.createScanningConflict(
-            'movie',
-            parsedMovie.fileName,
-            parsedMovie.filePath,
-            searchResults
+        // IDs and titles from an NFO stand in for what the file name says
+        parsedMovie.tmdbId ??= nfo?.tmdbId;
+        parsedMovie.imdbId ??= nfo?.imdbId;
+
+        // An ID hint in the file or folder name skips the title search
+        const chain = metadataProviderService.chainFor(file);
+        let tmdbId = await this.resolveIdHint(parsedMovie, 'movie');
+        if (!tmdbId) {
+          const candidates = await this.findMovieCandidates(
+            {
+              title: nfo?.title ?? parsedMovie.title,
+              year: nfo?.year ?? parsedMovie.year,
+              // A part's duration says nothing about the movie's runtime
+              filePath: parsedMovie.part ? undefined : file,
+            },
+            chain,
+            file
           );
-          continue;
+          const match = matchScoringService.pickMatch(candidates);
+
+          if (!match) {
+            await this.createScanningConflict(
+              'movie',
+              parsedMovie.fileName,
+              parsedMovie.filePath,
+              candidates
+            );
+            folder.conflicts++;
+            continue;
+          }
+          tmdbId = match.id;
         }
 
-        const movieDetails = await tmdbService.getMovieDetails(searchResults[0]!.id);
+        const movieDetails = await chain.getMovieDetails(tmdbId, { filePath: file });
+        if (!movieDetails) {
+          throw new Error(`No metadata provider knows TMDB movie ${tmdbId}`);
+        }
 
         // Create or update movie in database
         await prisma.movie.upsert({
@@ -260,40 +1234,76 @@ class ScannerService {
             genres: movieDetails.genres.map((g) => g.name),
             runtime: movieDetails.runtime,
             rating: movieDetails.vote_average,
-            filePath: parsedMovie.filePath,
-            fileName: parsedMovie.fileName,
-            resolution: parsedMovie.resolution,
-            quality: parsedMovie.quality,
-            rip: parsedMovie.rip,
-            sound: parsedMovie.sound,
-            provider: parsedMovie.provider,
+            ...this.fileData(parsedMovie),
+            part: parsedMovie.part ?? null,
             releaseDate: new Date(movieDetails.release_date),
+            metadataProvider: movieDetails.provider,
+            externalId: movieDetails.externalId,
           },
           update: {
-            filePath: parsedMovie.filePath,
-            fileName: parsedMovie.fileName,
-            resolution: parsedMovie.resolution,
-            quality: parsedMovie.quality,
-            rip: parsedMovie.rip,
-            sound: parsedMovie.sound,
-            provider: parsedMovie.provider,
+            ...this.fileData(parsedMovie),
+            part: parsedMovie.part ?? null,
             releaseDate: new Date(movieDetails.release_date),
           },
         });
+        await this.applyLocalMovieMetadata(file, nfo);
+        // The movie keeps only this part's path, so the other parts are recognized by their movie
+        await fingerprintService.record(
+          file,
+          stats,
+          'movie',
+          parsedMovie.part ? { tmdbId: movieDetails.id, part: parsedMovie.part } : undefined
+        );
+        folder.added++;
       } catch (error) {
         console.error(`Error processing movie file ${file}:`, error);
+        folder.errors++;
+        run.recordError(file, error);
+      } finally {
+        folder.filesProcessed++;
+        run.notify();
       }
     }
   }
 
-  private async scanSeriesDirectory(directoryPath: string): Promise<void> {
+  private async scanSeriesDirectory(
+    directoryPath: string,
+    folder: FolderScanProgress,
+    run: ScanRun
+  ): Promise<void> {
     const files = await this.getMediaFiles(directoryPath);
+    const fingerprints = await fingerprintService.loadForFolder(directoryPath);
+    folder.filesTotal = files.length;
+    run.notify();
+
+    await this.ingestEpisodeFiles(files, fingerprints, folder, run);
+    await fingerprintService.pruneMissing(directoryPath, new Set(files));
+    run.notify();
+  }
 
+  /**
+   * Runs episode files through parsing, TMDB matching and the database
+   * Unparseable files are grouped into one conflict per series folder
+   */
+  private async ingestEpisodeFiles(
+    files: string[],
+    fingerprints: FingerprintMap,
+    folder: FolderScanProgress,
+    run: ScanRun
+  ): Promise<void> {
     // Track unparseable files by series folder to group them
     const unparseableFilesBySeries = new Map<string, string[]>();
 
     for (const file of files) {
+      run.throwIfCancelled();
+
       try {
+        const stats = await fs.promises.stat(file);
+        if (!run.fullRescan && fingerprintService.isUnchanged(fingerprints, file, stats)) {
+          folder.skipped++;
+          continue;
+        }
+
         const parsedEpisode = parserService.parseEpisode(file);
         if (!parsedEpisode) {
           console.warn(`Unable to parse episode file: ${file}`);
@@ -307,68 +1317,92 @@ class ScannerService {
           continue;
         }
 
+        const [seriesNfo, episodeNfo] = await Promise.all([
+          nfoService.readSeriesNfo(file),
+          nfoService.readEpisodeNfo(file),
+        ]);
+
+        // An episode NFO's numbering wins over the file name's, unless the file holds several
+        if (
+          episodeNfo?.season !== undefined &&
+          episodeNfo.episode &&
+          !parsedEpisode.endEpisodeNumber
+        ) {
+          parsedEpisode.seasonNumber = episodeNfo.season;
+          parsedEpisode.episodeNumber = episodeNfo.episode;
+          parsedEpisode.absoluteNumbering = false;
+        }
+
         if (
           await this.isEpisodeInDatabase(
             parsedEpisode.fileName,
             parsedEpisode.filePath,
             parsedEpisode.seriesName,
             parsedEpisode.seasonNumber,
-            parsedEpisode.episodeNumber
+            this.episodeNumbers(parsedEpisode)
           )
         ) {
+          await this.applyLocalEpisodeMetadata(file, seriesNfo, episodeNfo);
+          await fingerprintService.record(file, stats, 'series');
           continue;
         }
 
-        // Search TMDB
-        const searchResults = await tmdbService.searchTV(parsedEpisode.seriesName);
-
-        if (searchResults.length === 0) {
-          await this.createScanningConflict(
-            'series',
-            parsedEpisode.fileName,
-            parsedEpisode.filePath,
-            []
-          );
-          continue;
-        }
-
-        if (searchResults.length > 1) {
-          await this.createScanningConflict(
-            'series',
-            parsedEpisode.fileName,
-            parsedEpisode.filePath,
+        // IDs and titles from tvshow.nfo stand in for what the file name says
+        parsedEpisode.tmdbId ??= seriesNfo?.tmdbId;
+        parsedEpisode.imdbId ??= seriesNfo?.imdbId;
+
+        // An ID hint in the file or folder name skips the title search
+        const chain = metadataProviderService.chainFor(file);
+        let tvId = await this.resolveIdHint(parsedEpisode, 'series');
+        if (!tvId) {
+          const searchResults = await chain.searchSeries({
+            title: seriesNfo?.title ?? parsedEpisode.seriesName,
+            year: seriesNfo?.year,
+            filePath: file,
+          });
+          const candidates = await matchScoringService.scoreSeries(
+            {
+              title: seriesNfo?.title ?? parsedEpisode.seriesName,
+              year: seriesNfo?.year,
+              filePath: file,
+              episodeCount: this.episodeNumbers(parsedEpisode).length,
+            },
             searchResults
           );
-          continue;
-        }
+          const match = matchScoringService.pickMatch(candidates);
 
-        const seriesDetails = await tmdbService.getTVDetails(searchResults[0]!.id);
-
-        // Try to get episode details, handle 404 if episode doesn't exist in TMDB
-        let episodeDetails;
-        try {
-          episodeDetails = await tmdbService.getEpisodeDetails(
-            searchResults[0]!.id,
-            parsedEpisode.seasonNumber,
-            parsedEpisode.episodeNumber
-          );
-        } catch (episodeError: any) {
-          // If episode not found in TMDB (404), create a conflict
-          if (episodeError.response?.status === 404 || episodeError.status === 404) {
-            console.warn(
-              `Episode not found in TMDB: ${parsedEpisode.seriesName} S${parsedEpisode.seasonNumber}E${parsedEpisode.episodeNumber} - Series found but episode doesn't exist in TMDB database`
-            );
-            // Create conflict with the series match but note that the specific episode wasn't found
+          if (!match) {
             await this.createScanningConflict(
               'series',
               parsedEpisode.fileName,
               parsedEpisode.filePath,
-              [] // Empty array since the series exists but episode doesn't
+              candidates
             );
+            folder.conflicts++;
             continue;
           }
-          // Re-throw other errors
-          throw episodeError;
+          tvId = match.id;
+        }
+        const seriesDetails = await chain.getSeriesDetails(tvId, { filePath: file });
+        if (!seriesDetails) {
+          throw new Error(`No metadata provider knows TMDB series ${tvId}`);
+        }
+
+        // Get episode details, creating a conflict if no provider knows the episode
+        const episodeDetails = await this.getFileEpisodeDetails(tvId, parsedEpisode, chain);
+        if (!episodeDetails) {
+          console.warn(
+            `Episode not found: ${parsedEpisode.seriesName} S${parsedEpisode.seasonNumber}E${parsedEpisode.episodeNumber} - Series found but no metadata provider knows the episode`
+          );
+          // Create conflict with the series match but note that the specific episode wasn't found
+          await this.createScanningConflict(
+            'series',
+            parsedEpisode.fileName,
+            parsedEpisode.filePath,
+            [] // Empty array since the series exists but episode doesn't
+          );
+          folder.conflicts++;
+          continue;
         }
 
         // Create or update series
@@ -381,62 +1415,27 @@ class ScannerService {
             posterPath: seriesDetails.poster_path,
             backdropPath: seriesDetails.backdrop_path,
             genres: seriesDetails.genres.map((g) => g.name),
+            rating: seriesDetails.vote_average ?? null,
             firstAirDate: new Date(seriesDetails.first_air_date),
             lastAirDate: new Date(seriesDetails.last_air_date),
             status: seriesDetails.status,
+            metadataProvider: seriesDetails.provider,
+            externalId: seriesDetails.externalId,
           },
           update: {},
         });
 
-        // Create or update episode
-        const episodeData = {
-          tmdbId: episodeDetails.id,
-          title: episodeDetails.name,
-          overview: episodeDetails.overview,
-          filePath: parsedEpisode.filePath,
-          fileName: parsedEpisode.fileName,
-          resolution: parsedEpisode.resolution,
-          quality: parsedEpisode.quality,
-          rip: parsedEpisode.rip,
-          sound: parsedEpisode.sound,
-          provider: parsedEpisode.provider,
-          seasonNumber: episodeDetails.season_number,
-          episodeNumber: episodeDetails.episode_number,
-          airDate: episodeDetails.air_date ? new Date(episodeDetails.air_date) : null,
-          seriesId: series.id,
-        };
-
-        // First try to find existing episode by the unique constraint
-        const existingEpisode = await prisma.episode.findFirst({
-          where: {
-            tmdbId: episodeDetails.id,
-            seasonNumber: episodeDetails.season_number,
-            episodeNumber: episodeDetails.episode_number,
-          },
-        });
-
-        if (existingEpisode) {
-          // Update existing episode
-          await prisma.episode.update({
-            where: { id: existingEpisode.id },
-            data: {
-              filePath: parsedEpisode.filePath,
-              fileName: parsedEpisode.fileName,
-              resolution: parsedEpisode.resolution,
-              quality: parsedEpisode.quality,
-              rip: parsedEpisode.rip,
-              sound: parsedEpisode.sound,
-              provider: parsedEpisode.provider,
-            },
-          });
-        } else {
-          // Create new episode
-          await prisma.episode.create({
-            data: episodeData,
-          });
-        }
+        // Create or update the file's episodes
+        folder.added += await this.saveFileEpisodes(parsedEpisode, episodeDetails, series.id);
+        await this.applyLocalEpisodeMetadata(file, seriesNfo, episodeNfo);
+        await fingerprintService.record(file, stats, 'series');
       } catch (error) {
         console.error(`Error processing episode file ${file}:`, error);
+        folder.errors++;
+        run.recordError(file, error);
+      } finally {
+        folder.filesProcessed++;
+        run.notify();
       }
     }
 
@@ -453,10 +1452,14 @@ class ScannerService {
         `Extracted series name: "${extractedSeriesName}" from folder: "${seriesFolderName}"`
       );
 
-      // Search TMDB with the extracted name
-      let searchResults: any[] = [];
+      // Search the folder's providers with the extracted name
+      const chain = metadataProviderService.chainFor(files[0]);
+      let searchResults: TMDBTVResult[] = [];
       try {
-        searchResults = await tmdbService.searchTV(extractedSeriesName);
+        searchResults = await chain.searchSeries({
+          title: extractedSeriesName,
+          filePath: files[0],
+        });
         console.log(`Found ${searchResults.length} TMDB matches for: "${extractedSeriesName}"`);
 
         // If no results, try with cleaned name (remove year, quality info, etc.)
@@ -464,7 +1467,7 @@ class ScannerService {
           const cleanedName = this.cleanSeriesNameForSearch(extractedSeriesName);
           if (cleanedName !== extractedSeriesName) {
             console.log(`Retrying search with cleaned name: "${cleanedName}"`);
-            searchResults = await tmdbService.searchTV(cleanedName);
+            searchResults = await chain.searchSeries({ title: cleanedName, filePath: files[0] });
             console.log(`Found ${searchResults.length} TMDB matches for cleaned name`);
           }
         }
@@ -472,13 +1475,14 @@ class ScannerService {
         console.error(`Error searching TMDB for series: ${extractedSeriesName}`, error);
       }
 
-      // Create conflict with search results
+      // Create conflict with the scored search results
       await this.createScanningConflict(
         'series',
         `${seriesFolderName} (${files.length} episodes)`,
         files[0]!, // Use first file as primary path
-        searchResults
+        await matchScoringService.scoreSeries({ title: extractedSeriesName }, searchResults)
       );
+      folder.conflicts++;
     }
   }
 
@@ -494,10 +1498,7 @@ class ScannerService {
 
       if (item.isDirectory()) {
         files.push(...(await this.getMediaFiles(fullPath)));
-      } else if (
-        item.isFile() &&
-        this.supportedExtensions.includes(path.extname(item.name).toLowerCase())
-      ) {
+      } else if (item.isFile() && this.isMediaFile(item.name)) {
         files.push(fullPath);
       }
     }
@@ -509,10 +1510,10 @@ class ScannerService {
     mediaType: 'movie' | 'series',
     fileName: string,
     filePath: string,
-    possibleMatches: (TMDBMovieResult | TMDBTVResult)[]
+    possibleMatches: ScoredMatch<TMDBMovieResult | TMDBTVResult>[]
   ): Promise<void> {
     // Convert matches to a plain object array for Prisma JSON compatibility
-    const matchesForDb = possibleMatches.map((match) => ({ ...match }));
+    const matchesForDb = possibleMatches.map((match) => ({ ...match })) as object[];
     try {
       // First try to find if there's an existing conflict with the same filePath
       const existingConflict = await prisma.scanningConflict.findFirst({
@@ -566,6 +1567,9 @@ class ScannerService {
         throw new Error('Conflict not found');
       }
 
+      await parsingRuleService.loadRules();
+      await metadataProviderService.loadFolders();
+
       // Update the conflict as resolved
       const conflict = await prisma.scanningConflict.update({
         where: { id: conflictId },
@@ -577,8 +1581,10 @@ class ScannerService {
 
       // Add the media to the database based on the conflict type
       if (conflictDetails.mediaType === 'movie') {
-        // Get movie details from TMDB
-        const movieDetails = await tmdbService.getMovieDetails(selectedId);
+        // Get movie details from the folder's providers
+        const movieDetails = await metadataProviderService
+          .chainFor(conflictDetails.filePath)
+          .getMovieDetails(selectedId, { filePath: conflictDetails.filePath });
 
         // Parse the file to get quality information
         const parsedMovie = parserService.parseMovie(conflictDetails.filePath);
@@ -597,41 +1603,39 @@ class ScannerService {
               genres: movieDetails.genres.map((g) => g.name),
               runtime: movieDetails.runtime,
               rating: movieDetails.vote_average,
-              filePath: parsedMovie.filePath,
-              fileName: parsedMovie.fileName,
-              resolution: parsedMovie.resolution,
-              quality: parsedMovie.quality,
-              rip: parsedMovie.rip,
-              sound: parsedMovie.sound,
-              provider: parsedMovie.provider,
+              ...this.fileData(parsedMovie),
+              part: parsedMovie.part ?? null,
               releaseDate: new Date(movieDetails.release_date),
+              metadataProvider: movieDetails.provider,
+              externalId: movieDetails.externalId,
             },
             update: {
-              filePath: parsedMovie.filePath,
-              fileName: parsedMovie.fileName,
-              resolution: parsedMovie.resolution,
-              quality: parsedMovie.quality,
-              rip: parsedMovie.rip,
-              sound: parsedMovie.sound,
-              provider: parsedMovie.provider,
+              ...this.fileData(parsedMovie),
+              part: parsedMovie.part ?? null,
               releaseDate: new Date(movieDetails.release_date),
             },
           });
+          await this.applyLocalMovieMetadata(
+            conflictDetails.filePath,
+            await nfoService.readMovieNfo(conflictDetails.filePath)
+          );
         }
       } else if (conflictDetails.mediaType === 'series') {
-        // Get series details from TMDB
-        const seriesDetails = await tmdbService.getTVDetails(selectedId);
+        // Get series details from the folder's providers
+        const chain = metadataProviderService.chainFor(conflictDetails.filePath);
+        const seriesDetails = await chain.getSeriesDetails(selectedId, {
+          filePath: conflictDetails.filePath,
+        });
 
         // Parse the file to get episode information
         const parsedEpisode = parserService.parseEpisode(conflictDetails.filePath);
 
         if (parsedEpisode && seriesDetails) {
-          // Get episode details
-          const episodeDetails = await tmdbService.getEpisodeDetails(
-            selectedId,
-            parsedEpisode.seasonNumber,
-            parsedEpisode.episodeNumber
-          );
+          // Get the details of every episode in the file
+          const episodeDetails = await this.getFileEpisodeDetails(selectedId, parsedEpisode, chain);
+          if (!episodeDetails) {
+            throw new Error('Invalid match: episode not found in the selected series');
+          }
 
           // Add the series to the database
           const series = await prisma.tvSeries.upsert({
@@ -643,65 +1647,27 @@ class ScannerService {
               posterPath: seriesDetails.poster_path,
               backdropPath: seriesDetails.backdrop_path,
               genres: seriesDetails.genres.map((g) => g.name),
+              rating: seriesDetails.vote_average ?? null,
               firstAirDate: new Date(seriesDetails.first_air_date),
               lastAirDate: new Date(seriesDetails.last_air_date),
               status: seriesDetails.status,
+              metadataProvider: seriesDetails.provider,
+              externalId: seriesDetails.externalId,
             },
             update: {},
           });
 
-          // Add the episode to the database
-          if (episodeDetails) {
-            const episodeData = {
-              tmdbId: episodeDetails.id,
-              title: episodeDetails.name,
-              overview: episodeDetails.overview,
-              filePath: parsedEpisode.filePath,
-              fileName: parsedEpisode.fileName,
-              resolution: parsedEpisode.resolution,
-              quality: parsedEpisode.quality,
-              rip: parsedEpisode.rip,
-              sound: parsedEpisode.sound,
-              provider: parsedEpisode.provider,
-              seasonNumber: episodeDetails.season_number,
-              episodeNumber: episodeDetails.episode_number,
-              airDate: episodeDetails.air_date ? new Date(episodeDetails.air_date) : null,
-              seriesId: series.id,
-            };
-
-            // Check if episode already exists
-            const existingEpisode = await prisma.episode.findFirst({
-              where: {
-                tmdbId: episodeDetails.id,
-                seasonNumber: episodeDetails.season_number,
-                episodeNumber: episodeDetails.episode_number,
-              },
-            });
-
-            if (existingEpisode) {
-              // Update existing episode
-              await prisma.episode.update({
-                where: { id: existingEpisode.id },
-                data: {
-                  filePath: parsedEpisode.filePath,
-                  fileName: parsedEpisode.fileName,
-                  resolution: parsedEpisode.resolution,
-                  quality: parsedEpisode.quality,
-                  rip: parsedEpisode.rip,
-                  sound: parsedEpisode.sound,
-                  provider: parsedEpisode.provider,
-                },
-              });
-            } else {
-              // Create new episode
-              await prisma.episode.create({
-                data: episodeData,
-              });
-            }
-          }
+          // Add the episodes to the database
+          await this.saveFileEpisodes(parsedEpisode, episodeDetails, series.id);
+          await this.applyLocalEpisodeMetadata(
+            conflictDetails.filePath,
+            await nfoService.readSeriesNfo(conflictDetails.filePath),
+            await nfoService.readEpisodeNfo(conflictDetails.filePath)
+          );
         }
       }
 
+      await this.enrichMissing();
       return conflict;
     } catch (error) {
       console.error('Error resolving conflict:', error);
@@ -781,8 +1747,13 @@ class ScannerService {
    * Checks for and removes all orphaned media entries from the database
    * (entries that exist in the database but the files no longer exist on disk)
    * @param progressCallback Optional callback function to report progress
+   * @param skippedFolders Folders whose entries are kept whatever the disk says
+   * @returns The number of movies, episodes and series removed
    */
-  private async cleanupOrphanedEntries(progressCallback?: ProgressCallback): Promise<void> {
+  private async cleanupOrphanedEntries(
+    progressCallback?: ProgressCallback,
+    skippedFolders: string[] = []
+  ): Promise<{ removedMovies: number; removedEpisodes: number; removedSeries: number }> {
     try {
       const reportProgress = (status: string, progress: number, details?: any): void => {
         console.log(`${status}: ${progress}%${details ? ` - ${JSON.stringify(details)}` : ''}`);
@@ -791,9 +1762,11 @@ class ScannerService {
         }
       };
 
+      const results = { removedMovies: 0, removedEpisodes: 0, removedSeries: 0 };
+
       // Check for deleted movies
       reportProgress('Checking for deleted movies', 80);
-      const missingMovies = await this.checkForDeletedMovies();
+      const missingMovies = await this.checkForDeletedMovies(skippedFolders);
       console.log(`Found ${missingMovies.length} missing movie files`);
 
       // Remove each missing movie
@@ -807,6 +1780,7 @@ class ScannerService {
           );
 
           await this.removeDeletedMovie(movie.id);
+          results.removedMovies++;
           console.log(`Removed orphaned movie: ${movie.title} (${movie.year})`);
         } catch (error) {
           console.error(`Failed to remove orphaned movie ${movie.id}:`, error);
@@ -815,7 +1789,7 @@ class ScannerService {
 
       // Check for deleted episodes
       reportProgress('Checking for deleted episodes', 85);
-      const missingEpisodes = await this.checkForDeletedEpisodes();
+      const missingEpisodes = await this.checkForDeletedEpisodes(skippedFolders);
       console.log(`Found ${missingEpisodes.length} missing episode files`);
 
       // Remove each missing episode
@@ -833,6 +1807,7 @@ class ScannerService {
           );
 
           await this.removeDeletedEpisode(episode.id);
+          results.removedEpisodes++;
           console.log(
             `Removed orphaned episode: ${episode.title} (S${episode.seasonNumber}E${episode.episodeNumber})`
           );
@@ -868,6 +1843,7 @@ class ScannerService {
           await prisma.tvSeries.delete({
             where: { id: series.id },
           });
+          results.removedSeries++;
           console.log(`Removed empty TV series: ${series.title}`);
         } catch (error) {
           console.error(`Failed to remove empty TV series ${series.id}:`, error);
@@ -875,6 +1851,7 @@ class ScannerService {
       }
 
       reportProgress('Cleanup completed', 100);
+      return results;
     } catch (error) {
       console.error('Error cleaning up orphaned entries:', error);
       throw error;
@@ -895,11 +1872,21 @@ class ScannerService {
     }
   }
 
+  /**
+   * Whether a file is inside one of the given folders
+   */
+  private isInFolders(filePath: string, folders: string[]): boolean {
+    return folders.some((folder) =>
+      filePath.startsWith(folder.endsWith(path.sep) ? folder : `${folder}${path.sep}`)
+    );
+  }
+
   /**
    * Checks for movies that are in the database but no longer exist on disk
+   * @param skippedFolders Folders whose movies are left out, e.g. ones that couldn't be read
    * @returns An array of movies that are missing from disk
    */
-  private async checkForDeletedMovies(): Promise<any[]> {
+  private async checkForDeletedMovies(skippedFolders: string[] = []): Promise<any[]> {
     try {
       // Get all movies from the database
       const movies = await prisma.movie.findMany({
@@ -916,7 +1903,11 @@ class ScannerService {
 
       // Check each movie to see if the file still exists
       for (const movie of movies) {
-        if (movie.filePath && !(await this.isFileExistsOnDisk(movie.filePath))) {
+        if (
+          movie.filePath &&
+          !this.isInFolders(movie.filePath, skippedFolders) &&
+          !(await this.isFileExistsOnDisk(movie.filePath))
+        ) {
           missingMovies.push(movie);
         }
       }
@@ -930,9 +1921,10 @@ class ScannerService {
 
   /**
    * Checks for episodes that are in the database but no longer exist on disk
+   * @param skippedFolders Folders whose episodes are left out, e.g. ones that couldn't be read
    * @returns An array of episodes that are missing from disk
    */
-  private async checkForDeletedEpisodes(): Promise<any[]> {
+  private async checkForDeletedEpisodes(skippedFolders: string[] = []): Promise<any[]> {
     try {
       // Get all episodes from the database
       const episodes = await prisma.episode.findMany({
@@ -956,7 +1948,11 @@ class ScannerService {
 
       // Check each episode to see if the file still exists
       for (const episode of episodes) {
-        if (episode.filePath && !(await this.isFileExistsOnDisk(episode.filePath))) {
+        if (
+          episode.filePath &&
+          !this.isInFolders(episode.filePath, skippedFolders) &&
+          !(await this.isFileExistsOnDisk(episode.filePath))
+        ) {
           missingEpisodes.push(episode);
         }
       }
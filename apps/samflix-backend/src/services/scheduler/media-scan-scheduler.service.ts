@@ -1,5 +1,3 @@
-import { prisma } from '../../app';
-
 /**
  * Service for handling scheduled media scans
  */
@@ -12,47 +10,41 @@ export class MediaScanSchedulerService {
     console.log('🔍 Starting scheduled media scan...');
 
     try {
-      // Import scanner service
-      const { scannerService } = await import('../scanner/scanner.service');
-
-      // Get active media folders from database
-      const folders = await prisma.mediaFolder.findMany({
-        select: { id: true, path: true, type: true, active: true },
-        where: { active: true },
-      });
+      // Import scan job service
+      const { scanJobService } = await import('../scanner/scan-job.service');
 
-      // Build scanner configuration
-      const config = {
-        moviePaths: folders.filter((f) => f.type === 'movies').map((f) => f.path),
-        seriesPaths: folders.filter((f) => f.type === 'series').map((f) => f.path),
-        fileExtensions: ['.mp4', '.mkv', '.avi'],
-      };
-
-      // Check if there are any configured paths
-      if (config.moviePaths.length === 0 && config.seriesPaths.length === 0) {
-        console.log('⚠️  No active media folders configured. Skipping scan.');
+      // Never run alongside a manual scan that is still in progress
+      const activeJob = await scanJobService.getActiveJob();
+      if (activeJob) {
+        console.log(`⚠️  Scan job ${activeJob.id} is already running. Skipping scheduled scan.`);
         return;
       }
 
-      console.log(
-        `📁 Scanning ${config.moviePaths.length} movie folders and ${config.seriesPaths.length} series folders`
-      );
-
-      // Define progress callback for logging
-      const progressCallback = (status: string, progress: number, details?: any): void => {
-        console.log(`📊 ${status}: ${progress}%${details ? ` - ${JSON.stringify(details)}` : ''}`);
-      };
+      // Run the scan as a job so its progress is recorded like a manual scan
+      const job = await scanJobService.runJob('scheduled');
 
-      // Start the scan
-      const results = await scannerService.scanAll(config, progressCallback);
+      if (job.status !== 'COMPLETED') {
+        console.error(`❌ Scheduled media scan ended with status ${job.status}: ${job.message}`);
+        return;
+      }
 
       console.log('✅ Scheduled media scan completed successfully!');
       console.log('📈 Scan Results:', {
-        removedMovies: results.removedMovies || 0,
-        removedEpisodes: results.removedEpisodes || 0,
-        removedSeries: results.removedSeries || 0,
+        jobId: job.id,
+        filesScanned: job.filesScanned,
+        moviesAdded: job.moviesAdded,
+        episodesAdded: job.episodesAdded,
+        conflicts: job.conflicts,
+        removedMovies: job.removedMovies,
+        removedEpisodes: job.removedEpisodes,
+        removedSeries: job.removedSeries,
       });
     } catch (error) {
+      if (error instanceof Error && error.message === 'No active media folders configured') {
+        console.log('⚠️  No active media folders configured. Skipping scan.');
+        return;
+      }
+
       console.error('❌ Error during scheduled media scan:', error);
 
       // Log additional error details for debugging
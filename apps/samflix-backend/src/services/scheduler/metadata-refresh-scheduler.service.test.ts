@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DetailOptions } from '../tmdb/tmdb.service';
+
+const mocks = vi.hoisted(() => ({
+  // When each request reached TMDB
+  requests: [] as number[],
+  tvSeries: { findMany: vi.fn(), update: vi.fn() },
+  movie: { findMany: vi.fn(), update: vi.fn() },
+  episode: { update: vi.fn() },
+}));
+
+/**
+ * A TMDB request as tmdbService sends it: through the limiter its options carry
+ */
+const tmdbRequest = vi.hoisted(() => async (options: DetailOptions = {}): Promise<void> => {
+  const send = async (): Promise<void> => {
+    mocks.requests.push(Date.now());
+  };
+  await (options.limiter ? options.limiter.run(send) : send());
+});
+
+/**
+ * A metadata service method that makes several TMDB requests for one item
+ */
+const fanOut = vi.hoisted(() => (count: number) => async (_id: string, options?: DetailOptions) => {
+  for (let i = 0; i < count; i++) {
+    await tmdbRequest(options);
+  }
+});
+
+vi.mock('../../app', () => ({
+  prisma: { tvSeries: mocks.tvSeries, movie: mocks.movie, episode: mocks.episode },
+}));
+vi.mock('../tmdb/tmdb.service', () => ({
+  tmdbService: {
+    getMovieDetails: async (_id: number, _append: string[], options?: DetailOptions) => {
+      await tmdbRequest(options);
+      return { title: 'Heat', overview: '', vote_average: 8, genres: [], runtime: 170 };
+    },
+    getTVDetails: async (_id: number, _append: string[], options?: DetailOptions) => {
+      await tmdbRequest(options);
+      return { name: 'The Wire', overview: '', status: 'Ended', genres: [] };
+    },
+    getSeasonDetails: async (_id: number, _season: number, options?: DetailOptions) => {
+      await tmdbRequest(options);
+      return { episodes: [] };
+    },
+  },
+}));
+vi.mock('../scanner/nfo.service', () => ({
+  nfoService: { readMovieNfo: async () => null, readSeriesNfo: async () => null },
+}));
+vi.mock('../metadata/localization.service', () => ({
+  localizationService: { localizeMovie: fanOut(3), localizeSeries: fanOut(6) },
+}));
+vi.mock('../metadata/credit.service', () => ({
+  creditService: { syncMovieCredits: fanOut(1), syncSeriesCredits: fanOut(1) },
+}));
+vi.mock('../metadata/certification.service', () => ({
+  certificationService: {
+    syncMovieCertifications: fanOut(1),
+    syncSeriesCertifications: fanOut(1),
+  },
+}));
+vi.mock('../metadata/collection.service', () => ({
+  collectionService: { syncMovieCollection: fanOut(2) },
+}));
+vi.mock('../metadata/season.service', () => ({
+  seasonService: { syncSeries: fanOut(4) },
+}));
+vi.mock('../metadata/episode-guide.service', () => ({
+  episodeGuideService: { syncSeries: fanOut(5) },
+}));
+vi.mock('../../api/middleware/cache-invalidation', () => ({
+  CacheInvalidationService: { clearPattern: vi.fn() },
+}));
+
+import { MetadataRefreshSchedulerService } from './metadata-refresh-scheduler.service';
+
+const series = {
+  id: 'series',
+  tmdbId: 1438,
+  title: 'The Wire',
+  posterPath: null,
+  backdropPath: null,
+  episodes: [
+    { id: 'e1', seasonNumber: 1, episodeNumber: 1, filePath: '/tv/e1.mkv' },
+    { id: 'e2', seasonNumber: 2, episodeNumber: 1, filePath: '/tv/e2.mkv' },
+  ],
+};
+const movie = { id: 'movie', tmdbId: 949, title: 'Heat', filePath: '/movies/heat.mkv' };
+
+describe('MetadataRefreshSchedulerService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mocks.requests.length = 0;
+    mocks.tvSeries.findMany.mockResolvedValue([series]);
+    mocks.movie.findMany.mockResolvedValue([movie]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('holds every TMDB request of the refresh to the configured rate', async () => {
+    const start = Date.now();
+    const refresh = MetadataRefreshSchedulerService.executeScheduledRefresh();
+    await vi.runAllTimersAsync();
+    await refresh;
+
+    // Series: details, 2 seasons, then 6 + 1 + 1 + 4 + 5 from the metadata services;
+    // movie: details, then 3 + 1 + 1 + 2
+    expect(mocks.requests).toHaveLength(20 + 8);
+    // 40 a minute by default: one right away, then one every 1.5s
+    expect(mocks.requests.map((time) => time - start)).toEqual(
+      mocks.requests.map((_, index) => index * 1500)
+    );
+    expect(mocks.tvSeries.update).toHaveBeenCalledTimes(1);
+    expect(mocks.movie.update).toHaveBeenCalledTimes(1);
+  });
+});
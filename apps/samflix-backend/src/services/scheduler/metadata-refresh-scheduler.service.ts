@@ -0,0 +1,303 @@
+import type { Episode, Movie, TvSeries } from '@samflix/prisma-client';
+import { prisma } from '../../app';
+import { DetailOptions, tmdbService } from '../tmdb/tmdb.service';
+import { RequestQueue } from '../tmdb/request-queue';
+import { nfoService } from '../scanner/nfo.service';
+import { localizationService } from '../metadata/localization.service';
+import { creditService } from '../metadata/credit.service';
+import { certificationService } from '../metadata/certification.service';
+import { collectionService } from '../metadata/collection.service';
+import { episodeGuideService } from '../metadata/episode-guide.service';
+import { seasonService } from '../metadata/season.service';
+import { CacheInvalidationService } from '../../api/middleware/cache-invalidation';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Series TMDB still lists as airing keep changing; anything else only while it is new
+const ONGOING_STATUSES = ['Returning Series'];
+const RECENT_DAYS = parseInt(process.env.METADATA_REFRESH_RECENT_DAYS || '14', 10);
+// Items refreshed more recently than this are left alone
+const MIN_AGE_HOURS = parseInt(process.env.METADATA_REFRESH_MIN_AGE_HOURS || '20', 10);
+const REQUESTS_PER_MINUTE = parseInt(process.env.METADATA_REFRESH_REQUESTS_PER_MINUTE || '40', 10);
+
+// Artwork found next to the media takes priority over TMDB's
+const LOCAL_ARTWORK_PREFIX = '/api/artwork/';
+
+interface RefreshSummary {
+  movies: number;
+  series: number;
+  episodes: number;
+  unchanged: number;
+  errors: number;
+}
+
+/**
+ * Service for the scheduled refresh of TMDB metadata captured at ingest
+ * Covers series that are still airing and recently added movies and series
+ */
+export class MetadataRefreshSchedulerService {
+  private static running = false;
+  // Every TMDB request of the refresh passes this queue too, including the many the metadata
+  // services make for one item, so the refresh leaves room for scans
+  private static readonly tmdbOptions: DetailOptions = {
+    fresh: true,
+    limiter: new RequestQueue({
+      concurrency: 1,
+      requestsPerSecond: REQUESTS_PER_MINUTE / 60,
+      burst: 1,
+    }),
+  };
+
+  /**
+   * Executes a scheduled metadata refresh
+   * This function is designed to be called by cron jobs
+   */
+  static async executeScheduledRefresh(): Promise<void> {
+    if (this.running) {
+      console.log('⚠️  Metadata refresh is already running. Skipping scheduled refresh.');
+      return;
+    }
+
+    console.log('🔄 Starting scheduled metadata refresh...');
+    this.running = true;
+
+    try {
+      const summary = await this.refreshAll();
+      console.log('✅ Scheduled metadata refresh completed successfully!');
+      console.log('📈 Refresh Results:', summary);
+    } catch (error) {
+      console.error('❌ Error during scheduled metadata refresh:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Refreshes every movie and series due for it, least recently refreshed first
+   */
+  private static async refreshAll(): Promise<RefreshSummary> {
+    const summary: RefreshSummary = { movies: 0, series: 0, episodes: 0, unchanged: 0, errors: 0 };
+    const recentSince = new Date(Date.now() - RECENT_DAYS * 24 * HOUR_MS);
+    const due = {
+      OR: [
+        { metadataRefreshedAt: { isSet: false } },
+        { metadataRefreshedAt: null },
+        { metadataRefreshedAt: { lt: new Date(Date.now() - MIN_AGE_HOURS * HOUR_MS) } },
+      ],
+    };
+    // Metadata from another provider isn't TMDB's to overwrite
+    const fromTmdb = {
+      OR: [
+        { metadataProvider: { isSet: false } },
+        { metadataProvider: null },
+        { metadataProvider: 'tmdb' },
+      ],
+    };
+
+    const series = await prisma.tvSeries.findMany({
+      where: {
+        AND: [
+          due,
+          fromTmdb,
+          { OR: [{ status: { in: ONGOING_STATUSES } }, { createdAt: { gte: recentSince } }] },
+        ],
+      },
+      include: { episodes: true },
+      orderBy: { metadataRefreshedAt: 'asc' },
+    });
+    const movies = await prisma.movie.findMany({
+      where: { AND: [due, fromTmdb, { createdAt: { gte: recentSince } }] },
+      orderBy: { metadataRefreshedAt: 'asc' },
+    });
+
+    console.log(`📋 ${series.length} series and ${movies.length} movies are due for a refresh`);
+
+    for (const item of series) {
+      try {
+        const { changed, episodes } = await this.refreshSeries(item);
+        summary.episodes += episodes;
+        if (changed) {
+          summary.series++;
+        } else if (episodes === 0) {
+          summary.unchanged++;
+        }
+      } catch (error) {
+        console.error(`Error refreshing series ${item.title} (TMDB ${item.tmdbId}):`, error);
+        summary.errors++;
+      }
+    }
+
+    for (const movie of movies) {
+      try {
+        if (await this.refreshMovie(movie)) {
+          summary.movies++;
+        } else {
+          summary.unchanged++;
+        }
+      } catch (error) {
+        console.error(`Error refreshing movie ${movie.title} (TMDB ${movie.tmdbId}):`, error);
+        summary.errors++;
+      }
+    }
+
+    if (summary.movies + summary.series + summary.episodes > 0) {
+      await CacheInvalidationService.clearPattern('cache:/api/movies*');
+      await CacheInvalidationService.clearPattern('cache:/api/series*');
+      await CacheInvalidationService.clearPattern('cache:/api/people*');
+      await CacheInvalidationService.clearPattern('cache:/api/collections*');
+    }
+
+    return summary;
+  }
+
+  /**
+   * Pulls a movie's TMDB details again and stores what changed
+   * Fields its NFO or local artwork provide are kept; its localizations, credits,
+   * certifications and collection are pulled again too, so newly announced parts show up
+   * @returns Whether anything changed
+   */
+  private static async refreshMovie(movie: Movie): Promise<boolean> {
+    const details = await tmdbService.getMovieDetails(movie.tmdbId, [], this.tmdbOptions);
+    const nfo = await nfoService.readMovieNfo(movie.filePath);
+    const releaseDate = this.date(details.release_date);
+
+    const changes = this.changedFields(movie, {
+      ...(!nfo?.title && { title: details.title }),
+      ...(!nfo?.plot && { overview: details.overview }),
+      ...(nfo?.rating === undefined && { rating: details.vote_average }),
+      ...(!nfo?.year && releaseDate && { year: releaseDate.getFullYear() }),
+      ...(releaseDate && { releaseDate }),
+      genres: details.genres.map((g) => g.name),
+      runtime: details.runtime,
+      ...this.artworkFields(movie, details),
+    });
+
+    await prisma.movie.update({
+      where: { id: movie.id },
+      data: { ...changes, metadataRefreshedAt: new Date() },
+    });
+    await localizationService.localizeMovie(movie.id, this.tmdbOptions);
+    await creditService.syncMovieCredits(movie.id, this.tmdbOptions);
+    await certificationService.syncMovieCertifications(movie.id, this.tmdbOptions);
+    await collectionService.syncMovieCollection(movie.id, this.tmdbOptions);
+    return Object.keys(changes).length > 0;
+  }
+
+  /**
+   * Pulls a series' TMDB details and the seasons of its episodes again and stores what
+   * changed, including episode titles, overviews and air dates, their localizations, the
+   * series' credits and certifications, its seasons and its episode guide
+   * @returns Whether the series changed and how many of its episodes did
+   */
+  private static async refreshSeries(
+    series: TvSeries & { episodes: Episode[] }
+  ): Promise<{ changed: boolean; episodes: number }> {
+    const details = await tmdbService.getTVDetails(series.tmdbId, [], this.tmdbOptions);
+    const nfo = series.episodes[0]
+      ? await nfoService.readSeriesNfo(series.episodes[0].filePath)
+      : null;
+    const firstAirDate = this.date(details.first_air_date);
+    const lastAirDate = this.date(details.last_air_date);
+
+    const changes = this.changedFields(series, {
+      ...(!nfo?.title && { title: details.name }),
+      ...(!nfo?.plot && { overview: details.overview }),
+      ...(nfo?.rating === undefined && { rating: details.vote_average ?? null }),
+      status: details.status,
+      ...(firstAirDate && { firstAirDate }),
+      ...(lastAirDate && { lastAirDate }),
+      genres: details.genres.map((g) => g.name),
+      ...this.artworkFields(series, details),
+    });
+
+    let episodes = 0;
+    const tmdbEpisodes = series.episodes.filter(
+      (episode) => !episode.metadataProvider || episode.metadataProvider === 'tmdb'
+    );
+    const seasonNumbers = [...new Set(tmdbEpisodes.map((episode) => episode.seasonNumber))];
+
+    for (const seasonNumber of seasonNumbers) {
+      let season;
+      try {
+        season = await tmdbService.getSeasonDetails(series.tmdbId, seasonNumber, this.tmdbOptions);
+      } catch (error) {
+        console.warn(`⚠️  Unable to refresh season ${seasonNumber} of ${series.title}:`, error);
+        continue;
+      }
+
+      for (const episode of tmdbEpisodes.filter((e) => e.seasonNumber === seasonNumber)) {
+        const tmdbEpisode = season.episodes.find((e) => e.episode_number === episode.episodeNumber);
+        if (!tmdbEpisode) {
+          continue;
+        }
+
+        // An episode NFO only describes files holding a single episode
+        const isSingleEpisodeFile =
+          series.episodes.filter((e) => e.filePath === episode.filePath).length === 1;
+        const episodeNfo = isSingleEpisodeFile
+          ? await nfoService.readEpisodeNfo(episode.filePath)
+          : null;
+        const airDate = this.date(tmdbEpisode.air_date);
+
+        const episodeChanges = this.changedFields(episode, {
+          ...(!episodeNfo?.title && { title: tmdbEpisode.name }),
+          ...(!episodeNfo?.plot && { overview: tmdbEpisode.overview }),
+          ...(airDate && { airDate }),
+        });
+
+        if (Object.keys(episodeChanges).length > 0) {
+          await prisma.episode.update({ where: { id: episode.id }, data: episodeChanges });
+          episodes++;
+        }
+      }
+    }
+
+    await prisma.tvSeries.update({
+      where: { id: series.id },
+      data: { ...changes, metadataRefreshedAt: new Date() },
+    });
+    await localizationService.localizeSeries(series.id, this.tmdbOptions);
+    await creditService.syncSeriesCredits(series.id, this.tmdbOptions);
+    await certificationService.syncSeriesCertifications(series.id, this.tmdbOptions);
+    await seasonService.syncSeries(series.id, this.tmdbOptions);
+    await episodeGuideService.syncSeries(series.id, this.tmdbOptions);
+    return { changed: Object.keys(changes).length > 0, episodes };
+  }
+
+  /**
+   * TMDB artwork, unless the item uses artwork found next to its files
+   */
+  private static artworkFields(
+    current: { posterPath: string | null; backdropPath: string | null },
+    details: { poster_path: string | null; backdrop_path: string | null }
+  ): { posterPath?: string | null; backdropPath?: string | null } {
+    return {
+      ...(!current.posterPath?.startsWith(LOCAL_ARTWORK_PREFIX) && {
+        posterPath: details.poster_path,
+      }),
+      ...(!current.backdropPath?.startsWith(LOCAL_ARTWORK_PREFIX) && {
+        backdropPath: details.backdrop_path,
+      }),
+    };
+  }
+
+  /**
+   * The fields of an update whose values differ from the stored ones
+   */
+  private static changedFields<T extends Record<string, unknown>>(
+    current: Record<string, unknown>,
+    update: T
+  ): Partial<T> {
+    const serialize = (value: unknown): string =>
+      value instanceof Date ? value.toISOString() : JSON.stringify(value ?? null);
+
+    return Object.fromEntries(
+      Object.entries(update).filter(([key, value]) => serialize(current[key]) !== serialize(value))
+    ) as Partial<T>;
+  }
+
+  private static date(value: string | null | undefined): Date | null {
+    const date = value ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) ? date : null;
+  }
+}
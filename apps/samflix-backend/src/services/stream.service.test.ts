@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  movie: { findUnique: vi.fn() },
+}));
+
+vi.mock('../app', () => ({ prisma: { movie: mocks.movie } }));
+vi.mock('./metadata/certification.service', () => ({
+  certificationService: {
+    isAllowed: (title: { minimumAge: number }, limit: number | null) =>
+      limit === null || title.minimumAge <= limit,
+  },
+}));
+
+import { streamService } from './stream.service';
+
+const movie = {
+  id: 'movie',
+  minimumAge: 13,
+  transcodeStatus: 'COMPLETED',
+  playPath: '/media/movies/Heat (1995)/HLS Heat/master.m3u8',
+};
+
+/**
+ * The signed path of the movie's folder with another file name, as /media middleware sees it
+ */
+const sibling = (url: string, file: string): string =>
+  url.slice('/media'.length).replace(/master\.m3u8$/, file);
+
+describe('streamService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mocks.movie.findUnique.mockResolvedValue(movie);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('signs the folder of the playlist, so its variant playlists and segments load', async () => {
+    const url = await streamService.getMovieUrl('movie', null);
+
+    expect(url).toMatch(/^\/media\/\d+\/[\w-]+\/movies\/Heat%20\(1995\)\/HLS%20Heat\/master.m3u8$/);
+    expect(streamService.verify(sibling(url, 'master.m3u8'))).toBe(
+      '/movies/Heat (1995)/HLS Heat/master.m3u8'
+    );
+    expect(streamService.verify(sibling(url, '720p/segment_001.ts'))).toBe(
+      '/movies/Heat (1995)/HLS Heat/720p/segment_001.ts'
+    );
+  });
+
+  it('rejects files outside the signed folder', async () => {
+    const url = await streamService.getMovieUrl('movie', null);
+
+    expect(streamService.verify(sibling(url, '../Heat.mkv'))).toBeNull();
+    expect(streamService.verify(sibling(url, '%2E%2E/Heat.mkv'))).toBeNull();
+  });
+
+  it('rejects paths without a valid signature', async () => {
+    const url = await streamService.getMovieUrl('movie', null);
+    const [, expires] = url.split('/').slice(1);
+
+    expect(streamService.verify('/movies/Heat (1995)/HLS Heat/master.m3u8')).toBeNull();
+    expect(
+      streamService.verify(`/${expires}/forged/movies/Heat%20(1995)/HLS%20Heat/master.m3u8`)
+    ).toBeNull();
+  });
+
+  it('rejects URLs once they expire', async () => {
+    const url = await streamService.getMovieUrl('movie', null);
+
+    vi.advanceTimersByTime(7 * 60 * 60 * 1000);
+    expect(streamService.verify(sibling(url, 'master.m3u8'))).toBeNull();
+  });
+
+  it('refuses movies above the viewer maturity limit', async () => {
+    await expect(streamService.getMovieUrl('movie', 12)).rejects.toThrow(
+      'Blocked by parental controls'
+    );
+  });
+
+  it('refuses movies that are not transcoded yet', async () => {
+    mocks.movie.findUnique.mockResolvedValue({ ...movie, transcodeStatus: 'PENDING' });
+
+    await expect(streamService.getMovieUrl('movie', null)).rejects.toThrow('Video not transcoded');
+  });
+});
@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import path from 'path';
+import { prisma } from '../app';
+import { certificationService } from './metadata/certification.service';
+
+// Where transcoded videos are served from; play paths are absolute paths under it
+export const MEDIA_ROOT = '/media';
+
+// Signs stream URLs; a key made up on start only makes the URLs handed out before a restart
+// stop working
+const MEDIA_URL_SECRET = process.env.MEDIA_URL_SECRET || crypto.randomBytes(32).toString('hex');
+
+// How long a stream URL works, in seconds; long enough to watch a movie with breaks
+const MEDIA_URL_TTL = parseInt(process.env.MEDIA_URL_TTL || '21600', 10);
+
+// /<expires>/<signature>/<path under MEDIA_ROOT>
+const SIGNED_PATH = /^\/(\d+)\/([A-Za-z0-9_-]+)(\/.*)$/;
+
+/**
+ * Service handing out signed URLs for transcoded videos, so only viewers allowed to watch a
+ * movie or episode can load its playlists and segments
+ * A URL is signed for the folder of the video's HLS playlist rather than the playlist alone, so
+ * the relative URLs of the variant playlists and segments in it carry the signature along
+ */
+class StreamService {
+  /**
+   * The signed URL of a movie's master playlist
+   * @param movieId The ID of the movie
+   * @param maturityLimit The viewer's limit; null for none
+   */
+  async getMovieUrl(movieId: string, maturityLimit: number | null): Promise<string> {
+    const movie = await prisma.movie.findUnique({ where: { id: movieId } });
+    if (!movie) {
+      throw new Error('Movie not found');
+    }
+    if (!certificationService.isAllowed(movie, maturityLimit)) {
+      throw new Error('Blocked by parental controls');
+    }
+    if (movie.transcodeStatus !== 'COMPLETED' || !movie.playPath) {
+      throw new Error('Video not transcoded');
+    }
+
+    return this.sign(movie.playPath);
+  }
+
+  /**
+   * The signed URL of an episode's master playlist
+   * @param episodeId The ID of the episode
+   * @param maturityLimit The viewer's limit; null for none
+   */
+  async getEpisodeUrl(episodeId: string, maturityLimit: number | null): Promise<string> {
+    const episode = await prisma.episode.findUnique({
+      where: { id: episodeId },
+      include: { series: { select: { certifications: true } } },
+    });
+    if (!episode) {
+      throw new Error('Episode not found');
+    }
+    if (!certificationService.isAllowed(episode.series, maturityLimit)) {
+      throw new Error('Blocked by parental controls');
+    }
+    if (episode.transcodeStatus !== 'COMPLETED' || !episode.playPath) {
+      throw new Error('Video not transcoded');
+    }
+
+    return this.sign(episode.playPath);
+  }
+
+  /**
+   * Checks the signature of a signed media path and resolves the file it asks for
+   * @param signedPath The request path under /media, still URL-encoded
+   * @returns The path of the file under MEDIA_ROOT, or null when the signature doesn't cover it
+   * or has expired
+   */
+  verify(signedPath: string): string | null {
+    const match = signedPath.match(SIGNED_PATH);
+    if (!match) {
+      return null;
+    }
+    const [, expires = '', signature = '', encodedPath = ''] = match;
+    if (parseInt(expires, 10) * 1000 < Date.now()) {
+      return null;
+    }
+
+    let filePath: string;
+    try {
+      filePath = path.posix.normalize(decodeURIComponent(encodedPath));
+    } catch {
+      return null;
+    }
+
+    // Any folder above the file may be the one signed; the playlist's is usually the parent
+    for (let folder = path.posix.dirname(filePath); folder !== '/'; ) {
+      if (this.matches(signature, this.signature(expires, folder))) {
+        return filePath;
+      }
+      folder = path.posix.dirname(folder);
+    }
+    return null;
+  }
+
+  private sign(playPath: string): string {
+    if (!playPath.startsWith(`${MEDIA_ROOT}/`)) {
+      throw new Error('Video not transcoded');
+    }
+
+    const relativePath = playPath.slice(MEDIA_ROOT.length);
+    const expires = String(Math.floor(Date.now() / 1000) + MEDIA_URL_TTL);
+    const signature = this.signature(expires, path.posix.dirname(relativePath));
+    const encodedPath = relativePath.split('/').map(encodeURIComponent).join('/');
+    return `${MEDIA_ROOT}/${expires}/${signature}${encodedPath}`;
+  }
+
+  private signature(expires: string, folder: string): string {
+    return crypto
+      .createHmac('sha256', MEDIA_URL_SECRET)
+      .update(`${expires}:${folder}`)
+      .digest('base64url');
+  }
+
+  private matches(actual: string, expected: string): boolean {
+    return (
+      actual.length === expected.length &&
+      crypto.timingSafeEqual(Buffer.from(actual), Buffer.from(expected))
+    );
+  }
+}
+
+export const streamService = new StreamService();
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RequestQueue } from './request-queue';
+
+/**
+ * A task that records when it started and finishes when resolved
+ */
+const deferredTask = (started: number[]): { task: () => Promise<void>; resolve: () => void } => {
+  let resolve: () => void = () => {};
+  const done = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return {
+    task: async () => {
+      started.push(Date.now());
+      await done;
+    },
+    resolve: () => resolve(),
+  };
+};
+
+describe('RequestQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs a burst of up to requestsPerSecond requests right away', async () => {
+    const queue = new RequestQueue({ concurrency: 10, requestsPerSecond: 4 });
+    const started: number[] = [];
+    const start = Date.now();
+
+    const runs = Array.from({ length: 4 }, () => queue.run(async () => started.push(Date.now())));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(started).toEqual([start, start, start, start]);
+    await Promise.all(runs);
+  });
+
+  it('spaces out requests beyond the burst at the sustained rate', async () => {
+    const queue = new RequestQueue({ concurrency: 10, requestsPerSecond: 4 });
+    const started: number[] = [];
+    const start = Date.now();
+
+    const runs = Array.from({ length: 7 }, () => queue.run(async () => started.push(Date.now())));
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all(runs);
+
+    expect(started).toHaveLength(7);
+    expect(started.slice(0, 4).every((time) => time === start)).toBe(true);
+    // One token every 250ms once the bucket is empty
+    expect(started.slice(4).map((time) => time - start)).toEqual([250, 500, 750]);
+  });
+
+  it('paces rates below one request per second', async () => {
+    const queue = new RequestQueue({ concurrency: 10, requestsPerSecond: 0.5, burst: 1 });
+    const started: number[] = [];
+    const start = Date.now();
+
+    const runs = Array.from({ length: 3 }, () => queue.run(async () => started.push(Date.now())));
+    await vi.advanceTimersByTimeAsync(4000);
+    await Promise.all(runs);
+
+    expect(started.map((time) => time - start)).toEqual([0, 2000, 4000]);
+  });
+
+  it('keeps at most concurrency requests in flight, starting waiting ones in order', async () => {
+    const queue = new RequestQueue({ concurrency: 2, requestsPerSecond: 100 });
+    const started: number[] = [];
+    const tasks = Array.from({ length: 3 }, () => deferredTask(started));
+
+    const runs = tasks.map(({ task }) => queue.run(task));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toHaveLength(2);
+
+    tasks[0]!.resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toHaveLength(3);
+
+    tasks[1]!.resolve();
+    tasks[2]!.resolve();
+    await Promise.all(runs);
+  });
+
+  it('frees the slot of a request that fails', async () => {
+    const queue = new RequestQueue({ concurrency: 1, requestsPerSecond: 100 });
+
+    await expect(queue.run(() => Promise.reject(new Error('failed')))).rejects.toThrow('failed');
+    const next = queue.run(async () => 'next');
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(next).resolves.toBe('next');
+  });
+
+  it('holds back every request while paused', async () => {
+    const queue = new RequestQueue({ concurrency: 10, requestsPerSecond: 10 });
+    const started: number[] = [];
+    const start = Date.now();
+
+    queue.pause(2000);
+    const runs = Array.from({ length: 2 }, () => queue.run(async () => started.push(Date.now())));
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(started).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await Promise.all(runs);
+    expect(started).toEqual([start + 2000, start + 2000]);
+  });
+});
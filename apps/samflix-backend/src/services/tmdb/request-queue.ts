@@ -0,0 +1,89 @@
+export interface RequestQueueOptions {
+  /** Requests allowed in flight at once */
+  concurrency: number;
+  /** Sustained request rate; may be below one */
+  requestsPerSecond: number;
+  /** Requests the token bucket lets through at once; requestsPerSecond by default */
+  burst?: number;
+}
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs requests with a concurrency cap and token-bucket rate limiting
+ * Callers beyond the cap wait in FIFO order
+ */
+export class RequestQueue {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+
+  private burst: number;
+
+  constructor(private options: RequestQueueOptions) {
+    // At least one, or a bucket slower than a request per second would never fill up to one
+    this.burst = Math.max(1, options.burst ?? options.requestsPerSecond);
+    this.tokens = this.burst;
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquireSlot();
+    try {
+      await this.takeToken();
+      return await task();
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  /**
+   * Holds back every queued request, e.g. when the API answered with Retry-After
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private acquireSlot(): Promise<void> {
+    if (this.active < this.options.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    // The slot is handed over directly on release, so active stays the same
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private async takeToken(): Promise<void> {
+    const { requestsPerSecond } = this.options;
+
+    for (;;) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+
+      this.tokens = Math.min(
+        this.burst,
+        this.tokens + ((now - this.lastRefill) * requestsPerSecond) / 1000
+      );
+      this.lastRefill = now;
+
+      if (this.tokens >= 1) {
+        this.tokens--;
+        return;
+      }
+      await sleep(((1 - this.tokens) * 1000) / requestsPerSecond);
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+interface StubResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+const mocks = vi.hoisted(() => ({
+  store: new Map<string, string>(),
+}));
+
+vi.mock('../redis.service', () => ({
+  default: {
+    get: vi.fn(async (key: string) => mocks.store.get(key) ?? null),
+    setex: vi.fn(async (key: string, _ttl: number, value: string) => {
+      mocks.store.set(key, value);
+      return 'OK';
+    }),
+  },
+}));
+
+// Responses the stub gives each path in turn; the last one repeats
+const responses = new Map<string, StubResponse[]>();
+// Requests the stub got per path
+const hits = new Map<string, number>();
+
+const server = http.createServer((req, res) => {
+  const path = new URL(req.url ?? '/', 'http://stub').pathname;
+  const count = hits.get(path) ?? 0;
+  hits.set(path, count + 1);
+
+  const queued = responses.get(path) ?? [{ status: 404, body: { status_message: 'Not found' } }];
+  const response = queued[Math.min(count, queued.length - 1)]!;
+  // Answered a little later, so identical requests overlap
+  setTimeout(() => {
+    res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+    res.end(JSON.stringify(response.body ?? {}));
+  }, 20);
+});
+
+let tmdbService: typeof import('./tmdb.service').tmdbService;
+
+describe('tmdbService', () => {
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    process.env.TMDB_API_KEY = 'test';
+    process.env.TMDB_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env.TMDB_RETRY_BASE_DELAY_MS = '10';
+    ({ tmdbService } = await import('./tmdb.service'));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    mocks.store.clear();
+    responses.clear();
+    hits.clear();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('waits as long as Retry-After asks after a 429, then succeeds', async () => {
+    responses.set('/movie/1', [
+      { status: 429, headers: { 'Retry-After': '1' } },
+      { status: 200, body: { id: 1, title: 'Heat' } },
+    ]);
+
+    const start = Date.now();
+    const movie = await tmdbService.getMovieDetails(1);
+
+    expect(movie).toMatchObject({ id: 1, title: 'Heat' });
+    expect(hits.get('/movie/1')).toBe(2);
+    // Far longer than the 10ms backoff
+    expect(Date.now() - start).toBeGreaterThanOrEqual(900);
+  });
+
+  it('gives up on server errors once the retries are used up', async () => {
+    responses.set('/movie/2', [{ status: 503 }]);
+
+    await expect(tmdbService.getMovieDetails(2)).rejects.toMatchObject({
+      response: { status: 503 },
+    });
+    // The first attempt and 3 retries
+    expect(hits.get('/movie/2')).toBe(4);
+  });
+
+  it('does not retry other errors', async () => {
+    await expect(tmdbService.getMovieDetails(3)).rejects.toMatchObject({
+      response: { status: 404 },
+    });
+    expect(hits.get('/movie/3')).toBe(1);
+  });
+
+  it('serves a second call from the cache', async () => {
+    responses.set('/movie/4', [{ status: 200, body: { id: 4, title: 'Ronin' } }]);
+
+    await tmdbService.getMovieDetails(4);
+    const cached = await tmdbService.getMovieDetails(4);
+
+    expect(cached).toMatchObject({ id: 4, title: 'Ronin' });
+    expect(hits.get('/movie/4')).toBe(1);
+
+    await tmdbService.getMovieDetails(4, [], { fresh: true });
+    expect(hits.get('/movie/4')).toBe(2);
+  });
+
+  it('sends concurrent identical calls upstream once', async () => {
+    responses.set('/tv/5', [{ status: 200, body: { id: 5, name: 'The Wire' } }]);
+
+    const results = await Promise.all([
+      tmdbService.getTVDetails(5),
+      tmdbService.getTVDetails(5),
+      tmdbService.getTVDetails(5),
+    ]);
+
+    expect(results.map((series) => series.name)).toEqual(['The Wire', 'The Wire', 'The Wire']);
+    expect(hits.get('/tv/5')).toBe(1);
+  });
+});
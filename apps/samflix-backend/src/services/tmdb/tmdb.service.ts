@@ -1,9 +1,50 @@
-import axios from 'axios';
-import { TMDBMovieResult, TMDBTVResult, TMDBEpisodeResult } from '../../types/media.types';
+import axios, { AxiosError, AxiosResponse } from 'axios';
+import {
+  TMDBMovieResult,
+  TMDBTVResult,
+  TMDBEpisodeResult,
+  TMDBSeasonResult,
+  TMDBEpisodeGroupSummary,
+  TMDBEpisodeGroupDetails,
+  TMDBFindResult,
+  TMDBCollectionResult,
+  TMDBPersonResult,
+} from '../../types/media.types';
+import redisClient from '../redis.service';
+import { RequestQueue } from './request-queue';
+
+const REQUEST_TIMEOUT_MS = 15000;
+const MAX_RETRIES = parseInt(process.env.TMDB_MAX_RETRIES || '3', 10);
+const RETRY_BASE_DELAY_MS = parseInt(process.env.TMDB_RETRY_BASE_DELAY_MS || '1000', 10);
+const MAX_RETRY_DELAY_MS = 60000;
+// Seconds detail responses are cached for; 0 disables the cache
+const CACHE_TTL = parseInt(process.env.TMDB_CACHE_TTL || '86400', 10);
+const CACHE_PREFIX = 'tmdb:';
+
+export interface DetailOptions {
+  /** Skip the cached response and cache the new one */
+  fresh?: boolean;
+  /** TMDB language code to translate titles and overviews into; TMDB's default when unset */
+  language?: string;
+  /** Queue every request sent to TMDB goes through as well, e.g. to hold a job to a lower rate */
+  limiter?: RequestQueue;
+}
+
+interface RequestOptions extends DetailOptions {
+  cache?: boolean;
+}
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
 
 class TMDBService {
   private apiKey: string;
   private baseUrl: string;
+  private queue = new RequestQueue({
+    concurrency: parseInt(process.env.TMDB_MAX_CONCURRENCY || '8', 10),
+    requestsPerSecond: parseInt(process.env.TMDB_REQUESTS_PER_SECOND || '20', 10),
+  });
+  // Identical detail requests in flight share one response
+  private pending = new Map<string, Promise<unknown>>();
 
   constructor() {
     this.apiKey = process.env.TMDB_API_KEY || '';
@@ -14,21 +55,122 @@ class TMDBService {
     }
   }
 
-  private async request<T>(endpoint: string, params: Record<string, any> = {}): Promise<T> {
-    try {
-      const response = await axios.get(`${this.baseUrl}${endpoint}`, {
-        params: {
-          ...params,
-          api_key: this.apiKey,
-        },
+  private async request<T>(
+    endpoint: string,
+    params: Record<string, any> = {},
+    options: RequestOptions = {}
+  ): Promise<T> {
+    if (options.language) {
+      params = { ...params, language: options.language };
+    }
+    if (!options.cache || CACHE_TTL <= 0) {
+      return this.fetch<T>(endpoint, params, options.limiter);
+    }
+
+    const query = new URLSearchParams(
+      Object.entries(params)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, value]): [string, string] => [key, String(value)])
+    ).toString();
+    const cacheKey = `${CACHE_PREFIX}${endpoint}${query ? `?${query}` : ''}`;
+
+    if (!options.fresh) {
+      const cached = await redisClient.get(cacheKey).catch((error) => {
+        console.error(`Error reading TMDB cache: ${error}`);
+        return null;
       });
-      return response.data;
-    } catch (error) {
-      console.error('TMDB API Error:', error);
-      throw error;
+      if (cached) {
+        return JSON.parse(cached) as T;
+      }
+    }
+
+    const inFlight = this.pending.get(cacheKey);
+    if (inFlight) {
+      return inFlight as Promise<T>;
+    }
+
+    const promise = this.fetch<T>(endpoint, params, options.limiter)
+      .then(async (data) => {
+        await redisClient
+          .setex(cacheKey, CACHE_TTL, JSON.stringify(data))
+          .catch((error) => console.error(`Error writing TMDB cache: ${error}`));
+        return data;
+      })
+      .finally(() => this.pending.delete(cacheKey));
+    this.pending.set(cacheKey, promise);
+    return promise;
+  }
+
+  /**
+   * Requests an endpoint through the rate-limited queue
+   * Rate limits (429), server errors and network failures are retried with exponential
+   * backoff, honoring Retry-After; other errors are thrown as is
+   * @param limiter Another queue each attempt has to pass as well
+   */
+  private async fetch<T>(
+    endpoint: string,
+    params: Record<string, unknown>,
+    limiter?: RequestQueue
+  ): Promise<T> {
+    const send = (): Promise<AxiosResponse<T>> =>
+      this.queue.run(() =>
+        axios.get(`${this.baseUrl}${endpoint}`, {
+          params: {
+            ...params,
+            api_key: this.apiKey,
+          },
+          timeout: REQUEST_TIMEOUT_MS,
+        })
+      );
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await (limiter ? limiter.run(send) : send());
+        return response.data;
+      } catch (error) {
+        const status = (error as AxiosError).response?.status;
+        const retryable = axios.isAxiosError(error) && (!status || status === 429 || status >= 500);
+
+        if (!retryable || attempt >= MAX_RETRIES) {
+          console.error(
+            `TMDB API Error (${endpoint}):`,
+            status ? `${status} ${(error as AxiosError).message}` : error
+          );
+          throw error;
+        }
+
+        const retryAfter = this.retryAfterMs(
+          (error as AxiosError).response?.headers?.['retry-after']
+        );
+        const delay = Math.min(
+          retryAfter ?? RETRY_BASE_DELAY_MS * 2 ** attempt * (1 + Math.random() * 0.25),
+          MAX_RETRY_DELAY_MS
+        );
+        if (status === 429) {
+          // Every queued request would be rejected as well
+          this.queue.pause(delay);
+        }
+        console.warn(
+          `⚠️  TMDB request ${endpoint} failed (${status ?? (error as AxiosError).code}), retrying in ${Math.round(delay)}ms (${attempt + 1}/${MAX_RETRIES})`
+        );
+        await sleep(delay);
+      }
     }
   }
 
+  // Retry-After holds either seconds or an HTTP date
+  private retryAfterMs(header: unknown): number | null {
+    if (typeof header !== 'string' || !header.trim()) {
+      return null;
+    }
+    const seconds = Number(header);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(header);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
   async searchMovie(query: string, year?: number): Promise<TMDBMovieResult[]> {
     const params: Record<string, any> = { query };
     if (year) {
@@ -43,16 +185,95 @@ class TMDBService {
     return response.results;
   }
 
-  async getMovieDetails(movieId: number): Promise<TMDBMovieResult> {
-    return this.request<TMDBMovieResult>(`/movie/${movieId}`);
+  async findByImdbId(imdbId: string): Promise<TMDBFindResult> {
+    return this.request<TMDBFindResult>(
+      `/find/${imdbId}`,
+      { external_source: 'imdb_id' },
+      { cache: true }
+    );
+  }
+
+  async getMovieDetails(
+    movieId: number,
+    append: string[] = [],
+    options: DetailOptions = {}
+  ): Promise<TMDBMovieResult> {
+    return this.request<TMDBMovieResult>(`/movie/${movieId}`, this.appendParams(append), {
+      ...options,
+      cache: true,
+    });
+  }
+
+  async getTVDetails(
+    tvId: number,
+    append: string[] = [],
+    options: DetailOptions = {}
+  ): Promise<TMDBTVResult> {
+    return this.request<TMDBTVResult>(`/tv/${tvId}`, this.appendParams(append), {
+      ...options,
+      cache: true,
+    });
+  }
+
+  async getEpisodeDetails(
+    tvId: number,
+    seasonNumber: number,
+    episodeNumber: number
+  ): Promise<TMDBEpisodeResult> {
+    return this.request<TMDBEpisodeResult>(
+      `/tv/${tvId}/season/${seasonNumber}/episode/${episodeNumber}`,
+      {},
+      { cache: true }
+    );
+  }
+
+  async getSeasonDetails(
+    tvId: number,
+    seasonNumber: number,
+    options: DetailOptions = {}
+  ): Promise<TMDBSeasonResult> {
+    return this.request<TMDBSeasonResult>(
+      `/tv/${tvId}/season/${seasonNumber}`,
+      {},
+      { ...options, cache: true }
+    );
+  }
+
+  async getEpisodeGroups(tvId: number): Promise<TMDBEpisodeGroupSummary[]> {
+    const response = await this.request<{ results: TMDBEpisodeGroupSummary[] }>(
+      `/tv/${tvId}/episode_groups`,
+      {},
+      { cache: true }
+    );
+    return response.results;
+  }
+
+  async getEpisodeGroup(groupId: string): Promise<TMDBEpisodeGroupDetails> {
+    return this.request<TMDBEpisodeGroupDetails>(
+      `/tv/episode_group/${groupId}`,
+      {},
+      { cache: true }
+    );
+  }
+
+  async getCollectionDetails(
+    collectionId: number,
+    options: DetailOptions = {}
+  ): Promise<TMDBCollectionResult> {
+    return this.request<TMDBCollectionResult>(
+      `/collection/${collectionId}`,
+      {},
+      { ...options, cache: true }
+    );
   }
 
-  async getTVDetails(tvId: number): Promise<TMDBTVResult> {
-    return this.request<TMDBTVResult>(`/tv/${tvId}`);
+  async getPersonDetails(personId: number): Promise<TMDBPersonResult> {
+    return this.request<TMDBPersonResult>(`/person/${personId}`, {}, { cache: true });
   }
 
-  async getEpisodeDetails(tvId: number, seasonNumber: number, episodeNumber: number): Promise<TMDBEpisodeResult> {
-    return this.request<TMDBEpisodeResult>(`/tv/${tvId}/season/${seasonNumber}/episode/${episodeNumber}`);
+  // Extra resources (e.g. alternative_titles) fetched along with details in one request
+  private appendParams(append: string[]): Record<string, any> {
+    return append.length > 0 ? { append_to_response: append.join(',') } : {};
   }
 }
 
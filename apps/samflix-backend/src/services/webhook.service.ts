@@ -1,4 +1,7 @@
-import { PrismaClient } from '@samflix/prisma-client';
+import { PrismaClient, Role } from '@samflix/prisma-client';
+
+// Roles are set in Clerk as the "role" public metadata of a user; anyone else is a USER
+const CLERK_ROLES: Record<string, Role> = { admin: 'ADMIN', tester: 'TESTER' };
 
 export class WebhookService {
   private prisma: PrismaClient;
@@ -17,13 +20,14 @@ export class WebhookService {
     const email = data.email_addresses?.[0]?.email_address;
     const name = [data.first_name, data.last_name].filter(Boolean).join(' ') || null;
     const imageUrl = data.image_url || null;
+    const role = CLERK_ROLES[String(data.public_metadata?.role).toLowerCase()] ?? 'USER';
 
     switch (type) {
       case 'user.created':
-        await this.createUser(clerkId, email, name, imageUrl);
+        await this.createUser(clerkId, email, name, imageUrl, role);
         break;
       case 'user.updated':
-        await this.updateUser(clerkId, email, name, imageUrl);
+        await this.updateUser(clerkId, email, name, imageUrl, role);
         break;
       default:
         console.log(`Unhandled event type: ${type}`);
@@ -37,7 +41,8 @@ export class WebhookService {
     clerkId: string,
     email: string,
     name: string | null,
-    imageUrl: string | null
+    imageUrl: string | null,
+    role: Role
   ): Promise<void> {
     // Create user with nested userStats creation
     await this.prisma.user.create({
@@ -46,6 +51,7 @@ export class WebhookService {
         email,
         name,
         imageUrl,
+        role,
         // Create UserStats for this user in the same transaction
         userStats: {
           create: {
@@ -66,7 +72,8 @@ export class WebhookService {
     clerkId: string,
     email: string,
     name: string | null,
-    imageUrl: string | null
+    imageUrl: string | null,
+    role: Role
   ): Promise<void> {
     await this.prisma.user.update({
       where: { clerkId },
@@ -74,6 +81,7 @@ export class WebhookService {
         email,
         name,
         imageUrl,
+        role,
       },
     });
   }
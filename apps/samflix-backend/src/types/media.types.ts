@@ -1,30 +1,76 @@
 import { TranscodeStatus } from '@samflix/prisma-client';
 
 export type TranscodeStatusType = TranscodeStatus;
-export interface MediaFile {
+
+/**
+ * IDs named explicitly in a file or folder name, e.g. {tmdb-438631} or [imdbid=tt1160419]
+ */
+export interface IdHints {
+  /** TMDB ID; skips the title search */
+  tmdbId?: number;
+  /** IMDb ID; resolved through TMDB's find endpoint */
+  imdbId?: string;
+}
+
+export interface MediaFile extends IdHints {
   fileName: string;
   filePath: string;
+  /** Vertical resolution, e.g. 2160p */
   resolution?: string;
+  /** Resolution plus HDR formats, e.g. "2160p DV HDR10" */
   quality?: string;
+  /** Release source, e.g. BluRay or WEB-DL */
   rip?: string;
+  /** Audio formats, e.g. "DDP5.1 Atmos" */
   sound?: string;
+  /** Release group */
   provider?: string;
+  /** Video codec, e.g. HEVC */
+  videoCodec?: string;
+  /** HDR formats, e.g. ["DV", "HDR10"] */
+  hdr?: string[];
+  /** Edition, e.g. "Director's Cut" */
+  edition?: string;
+  /** Part number of a movie split across several files (CD1, Part 2) */
+  part?: number;
 }
 
+export type ReleaseAttributes = Omit<MediaFile, 'fileName' | 'filePath' | keyof IdHints>;
+
 export interface ParsedMovie extends MediaFile {
   title: string;
-  year: number;
+  year?: number;
 }
 
 export interface ParsedEpisode extends MediaFile {
   seriesName: string;
   seasonNumber: number;
   episodeNumber: number;
+  /** Last episode of a multi-episode file (S01E01-E02); unset when the file holds one episode */
+  endEpisodeNumber?: number;
+  /** Set when the file carries no season, so episodeNumber counts from the start of the series */
+  absoluteNumbering?: boolean;
+}
+
+/**
+ * A parsed file name together with the pattern that produced it
+ */
+export interface ParseMatch<T extends MediaFile> {
+  source: 'rule' | 'builtin';
+  /** Set when a parsing rule from the database matched */
+  ruleId?: string;
+  ruleName?: string;
+  /** Index into the built-in patterns when no rule matched */
+  patternIndex?: number;
+  /** Raw capture groups of the matching pattern */
+  groups: Record<string, string>;
+  result: T;
 }
 
 export interface TMDBMovieResult {
   id: number;
   title: string;
+  original_title?: string;
   overview: string;
   release_date: string;
   poster_path: string | null;
@@ -32,11 +78,18 @@ export interface TMDBMovieResult {
   genres: Array<{ id: number; name: string }>;
   runtime: number;
   vote_average: number;
+  popularity?: number;
+  belongs_to_collection?: TMDBCollectionSummary | null;
+  /** Only present when requested with append_to_response */
+  alternative_titles?: { titles: TMDBAlternativeTitle[] };
+  credits?: TMDBCredits;
+  release_dates?: { results: TMDBReleaseDates[] };
 }
 
 export interface TMDBTVResult {
   id: number;
   name: string;
+  original_name?: string;
   overview: string;
   first_air_date: string;
   last_air_date: string;
@@ -44,6 +97,89 @@ export interface TMDBTVResult {
   backdrop_path: string | null;
   genres: Array<{ id: number; name: string }>;
   status: string;
+  vote_average?: number;
+  popularity?: number;
+  episode_run_time?: number[];
+  seasons?: Array<{ season_number: number; episode_count: number }>;
+  created_by?: Array<{ id: number; name: string; profile_path: string | null }>;
+  /** Only present when requested with append_to_response */
+  alternative_titles?: { results: TMDBAlternativeTitle[] };
+  credits?: TMDBCredits;
+  content_ratings?: { results: TMDBContentRating[] };
+}
+
+export interface TMDBAlternativeTitle {
+  iso_3166_1: string;
+  title: string;
+  type?: string;
+}
+
+/**
+ * A movie's releases in a country, each with the certification it was released under
+ */
+export interface TMDBReleaseDates {
+  iso_3166_1: string;
+  release_dates: Array<{ certification: string; release_date: string; type: number }>;
+}
+
+/**
+ * A series' content rating in a country
+ */
+export interface TMDBContentRating {
+  iso_3166_1: string;
+  rating: string;
+}
+
+export interface TMDBCastMember {
+  id: number;
+  name: string;
+  character: string;
+  order: number;
+  profile_path: string | null;
+  known_for_department?: string;
+}
+
+export interface TMDBCrewMember {
+  id: number;
+  name: string;
+  job: string;
+  department: string;
+  profile_path: string | null;
+  known_for_department?: string;
+}
+
+export interface TMDBCredits {
+  cast: TMDBCastMember[];
+  crew: TMDBCrewMember[];
+}
+
+export interface TMDBCollectionSummary {
+  id: number;
+  name: string;
+  poster_path: string | null;
+  backdrop_path: string | null;
+}
+
+export interface TMDBCollectionResult extends TMDBCollectionSummary {
+  overview: string;
+  parts: Array<{
+    id: number;
+    title: string;
+    overview: string;
+    poster_path: string | null;
+    release_date?: string;
+  }>;
+}
+
+export interface TMDBPersonResult {
+  id: number;
+  name: string;
+  biography: string;
+  birthday: string | null;
+  deathday: string | null;
+  place_of_birth: string | null;
+  profile_path: string | null;
+  known_for_department: string;
 }
 
 export interface TMDBEpisodeResult {
@@ -53,6 +189,47 @@ export interface TMDBEpisodeResult {
   air_date: string;
   episode_number: number;
   season_number: number;
+  runtime: number | null;
+}
+
+export interface TMDBSeasonResult {
+  id: number;
+  season_number: number;
+  name: string;
+  overview: string;
+  poster_path: string | null;
+  air_date: string | null;
+  episodes: TMDBEpisodeResult[];
+}
+
+/**
+ * Movies, series and episodes matching an external ID
+ */
+export interface TMDBFindResult {
+  movie_results: TMDBMovieResult[];
+  tv_results: TMDBTVResult[];
+  tv_episode_results: Array<TMDBEpisodeResult & { show_id: number }>;
+}
+
+/**
+ * An alternative ordering of a series' episodes (absolute, DVD, story arc, ...)
+ */
+export interface TMDBEpisodeGroupSummary {
+  id: string;
+  name: string;
+  description: string;
+  type: number;
+  episode_count: number;
+  group_count: number;
+}
+
+export interface TMDBEpisodeGroupDetails extends TMDBEpisodeGroupSummary {
+  groups: Array<{
+    id: string;
+    name: string;
+    order: number;
+    episodes: Array<{ season_number: number; episode_number: number; order: number }>;
+  }>;
 }
 
 export interface ScannerConfig {
@@ -60,3 +237,46 @@ export interface ScannerConfig {
   seriesPaths: string[];
   fileExtensions: string[];
 }
+
+export type ScanFolderStatus = 'pending' | 'scanning' | 'completed' | 'failed';
+
+export interface FolderScanProgress {
+  path: string;
+  type: 'movies' | 'series';
+  status: ScanFolderStatus;
+  filesTotal: number;
+  filesProcessed: number;
+  /** Files skipped because their fingerprint was unchanged */
+  skipped: number;
+  added: number;
+  conflicts: number;
+  errors: number;
+}
+
+export interface ScanError {
+  path: string;
+  message: string;
+  at: string;
+}
+
+export interface ScanSummary {
+  folders: FolderScanProgress[];
+  filesScanned: number;
+  filesSkipped: number;
+  moviesAdded: number;
+  episodesAdded: number;
+  conflicts: number;
+  removedMovies: number;
+  removedEpisodes: number;
+  removedSeries: number;
+  errors: ScanError[];
+}
+
+export interface ScanRunOptions {
+  /** Ignore stored file fingerprints and process every file again */
+  fullRescan?: boolean;
+  /** Polled before each file; returning true stops the scan */
+  isCancelled?: () => boolean;
+  /** Called whenever folder progress or counts change */
+  onSummary?: (summary: ScanSummary) => void;
+}
@@ -7,70 +7,73 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Loader2, AlertCircle, CheckCircle, XCircle } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
-
-// Define the structure of SSE messages
-interface ScanProgressMessage {
-  status: string
-  progress: number
-  details?: {
-    path?: string
-    current?: number
-    total?: number
-    title?: string
-    [key: string]: any
-  }
-  complete?: boolean
-}
+import { api, ApiError } from "@/lib/api"
+import { useApiUrl } from "@/contexts/api-url-context"
+import type { ScanJob, ScanJobEvent } from "@/lib/types"
 
 interface ScanProgressProps {
+  // Attach to this running job on mount instead of waiting for "Start Scan"
+  jobId?: string
   onComplete: () => void
   onCancel?: () => void
 }
 
-export function ScanProgress({ onComplete, onCancel }: ScanProgressProps) {
+export function ScanProgress({ jobId, onComplete, onCancel }: ScanProgressProps) {
+  const { apiBaseUrl } = useApiUrl()
   const [isScanning, setIsScanning] = useState(false)
+  const [activeJobId, setActiveJobId] = useState<string | null>(null)
   const [progress, setProgress] = useState(0)
   const [status, setStatus] = useState("")
-  const [details, setDetails] = useState<ScanProgressMessage["details"]>({})
+  const [details, setDetails] = useState<ScanJobEvent["details"]>({})
+  const [summary, setSummary] = useState<ScanJobEvent["summary"]>()
   const [error, setError] = useState<string | null>(null)
   const [scanSummary, setScanSummary] = useState<string | null>(null)
   const eventSourceRef = useRef<EventSource | null>(null)
+  // Job whose stream is being opened, cleared when the stream is closed in the meantime
+  const attachingJobRef = useRef<string | null>(null)
   const { toast } = useToast()
 
-  // Function to start the scan
-  const startScan = () => {
+  // Follow a scan job's event stream; the scan keeps running if this page closes
+  const attachToJob = async (id: string) => {
+    closeEventSource()
+    attachingJobRef.current = id
     setIsScanning(true)
-    setProgress(0)
-    setStatus("Initializing scan...")
-    setDetails({})
+    setActiveJobId(id)
     setError(null)
     setScanSummary(null)
 
-    // Create EventSource for SSE connection
-    const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL
-    if (!API_BASE_URL) {
-      console.error("API_BASE_URL is not configured")
+    const url = await api.client.scanner.getScanJobEventsUrl(apiBaseUrl, id)
+    if (attachingJobRef.current !== id) {
       return
     }
-    const eventSource = new EventSource(`${API_BASE_URL}/api/scanner/scan`)
+    const eventSource = new EventSource(url)
     eventSourceRef.current = eventSource
 
     // Handle incoming messages
     eventSource.onmessage = (event) => {
       try {
-        const data: ScanProgressMessage = JSON.parse(event.data)
-        
+        const data: ScanJobEvent = JSON.parse(event.data)
+
         setProgress(data.progress)
-        setStatus(data.status)
+        setStatus(data.message || data.status)
         if (data.details) {
           setDetails(data.details)
         }
+        if (data.summary) {
+          setSummary(data.summary)
+        }
 
         // Handle scan completion
         if (data.complete) {
-          setScanSummary(`Scan completed successfully. Progress: ${data.progress}%`)
           closeEventSource()
-          onComplete()
+          if (data.status === "COMPLETED") {
+            setScanSummary("Scan completed successfully")
+            onComplete()
+          } else if (data.status === "CANCELLED") {
+            setStatus("Scan cancelled")
+          } else {
+            setError(data.message || "Scan failed")
+          }
         }
       } catch (err) {
         console.error("Error parsing SSE message:", err)
@@ -83,16 +86,58 @@ export function ScanProgress({ onComplete, onCancel }: ScanProgressProps) {
       console.log("SSE connection opened")
     }
 
-    // Handle errors
+    // EventSource reconnects by itself; only give up once the browser does
     eventSource.onerror = (err) => {
-      console.error("SSE connection error:", err)
-      setError("Connection to scan service failed")
-      closeEventSource()
+      if (eventSource.readyState === EventSource.CLOSED) {
+        console.error("SSE connection error:", err)
+        setError("Connection to scan service failed")
+        closeEventSource()
+      } else {
+        setStatus("Reconnecting to scan...")
+      }
+    }
+  }
+
+  // Function to start the scan; a full rescan ignores the stored file fingerprints
+  const startScan = async (fullRescan = false) => {
+    setIsScanning(true)
+    setProgress(0)
+    setStatus(fullRescan ? "Initializing full rescan..." : "Initializing scan...")
+    setDetails({})
+    setSummary(undefined)
+    setError(null)
+    setScanSummary(null)
+
+    if (!apiBaseUrl) {
+      console.error("API_BASE_URL is not configured")
+      return
+    }
+
+    try {
+      const job = await api.client.scanner.startScan(apiBaseUrl, { fullRescan })
+      attachToJob(job.id)
+    } catch (err) {
+      // Another scan is already running: follow that one instead
+      const runningJob: ScanJob | undefined =
+        err instanceof ApiError && err.status === 409 ? err.response?.job : undefined
+      if (runningJob) {
+        toast({
+          title: "Scan Already Running",
+          description: "Showing progress of the scan that is already running",
+        })
+        attachToJob(runningJob.id)
+        return
+      }
+
+      console.error("Failed to start scan:", err)
+      setError(err instanceof ApiError ? err.response?.error || err.message : "Failed to start scan")
+      setIsScanning(false)
     }
   }
 
   // Function to close the EventSource connection
   const closeEventSource = () => {
+    attachingJobRef.current = null
     if (eventSourceRef.current) {
       eventSourceRef.current.close()
       eventSourceRef.current = null
@@ -100,24 +145,38 @@ export function ScanProgress({ onComplete, onCancel }: ScanProgressProps) {
     setIsScanning(false)
   }
 
-  // Handle component unmount
+  // Re-attach to a running job, and close the stream on unmount
   useEffect(() => {
+    if (jobId && apiBaseUrl) {
+      attachToJob(jobId)
+    }
     return () => {
       closeEventSource()
     }
-  }, [])
+  }, [jobId, apiBaseUrl])
 
   // Handle cancel button click
-  const handleCancel = () => {
-    closeEventSource()
-    setStatus("Scan cancelled")
-    toast({
-      title: "Scan Cancelled",
-      description: "The media scan was cancelled",
-      variant: "default",
-    })
-    if (onCancel) {
-      onCancel()
+  const handleCancel = async () => {
+    if (!activeJobId) return
+
+    try {
+      await api.client.scanner.cancelScanJob(apiBaseUrl, activeJobId)
+      setStatus("Cancelling scan...")
+      toast({
+        title: "Scan Cancelled",
+        description: "The media scan will stop after the current file",
+        variant: "default",
+      })
+      if (onCancel) {
+        onCancel()
+      }
+    } catch (err) {
+      console.error("Failed to cancel scan:", err)
+      toast({
+        title: "Error",
+        description: "Failed to cancel the scan",
+        variant: "destructive",
+      })
     }
   }
 
@@ -158,6 +217,25 @@ export function ScanProgress({ onComplete, onCancel }: ScanProgressProps) {
             </span>
           </div>
         )}
+
+        {summary && (
+          <div className="mt-3 space-y-1">
+            {summary.folders.map((folder) => (
+              <div key={folder.path} className="flex justify-between text-xs">
+                <code className="text-gray-400 truncate mr-2">{folder.path}</code>
+                <span className={folder.status === "failed" ? "text-red-400" : "text-gray-300"}>
+                  {folder.filesProcessed}/{folder.filesTotal} files · {folder.skipped} unchanged ·{" "}
+                  {folder.added} added · {folder.conflicts} conflicts
+                </span>
+              </div>
+            ))}
+            <div className="text-gray-400 text-xs pt-1">
+              {summary.filesScanned} files scanned ({summary.filesSkipped} unchanged) ·{" "}
+              {summary.moviesAdded} movies and{" "}
+              {summary.episodesAdded} episodes added · {summary.errors.length} errors
+            </div>
+          </div>
+        )}
       </div>
     )
   }
@@ -171,13 +249,23 @@ export function ScanProgress({ onComplete, onCancel }: ScanProgressProps) {
             <p className="text-gray-400 mb-6">
               Start a scan to discover and organize your media files
             </p>
-            <Button 
-              size="lg" 
-              className="bg-red-600 hover:bg-red-700"
-              onClick={startScan}
-            >
-              Start Scan
-            </Button>
+            <div className="flex justify-center gap-3">
+              <Button 
+                size="lg" 
+                className="bg-red-600 hover:bg-red-700"
+                onClick={() => startScan()}
+              >
+                Start Scan
+              </Button>
+              <Button
+                size="lg"
+                variant="outline"
+                className="border-gray-700 text-gray-300 hover:bg-gray-800"
+                onClick={() => startScan(true)}
+              >
+                Full Rescan
+              </Button>
+            </div>
           </div>
         ) : (
           <>
@@ -246,12 +334,21 @@ export function ScanProgress({ onComplete, onCancel }: ScanProgressProps) {
                   Cancel Scan
                 </Button>
               ) : (
-                <Button 
-                  className="bg-red-600 hover:bg-red-700"
-                  onClick={startScan}
-                >
-                  Scan Again
-                </Button>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    className="border-gray-700 text-gray-300 hover:bg-gray-800"
+                    onClick={() => startScan(true)}
+                  >
+                    Full Rescan
+                  </Button>
+                  <Button 
+                    className="bg-red-600 hover:bg-red-700"
+                    onClick={() => startScan()}
+                  >
+                    Scan Again
+                  </Button>
+                </div>
               )}
             </div>
           </>
@@ -36,8 +36,11 @@ import {
   Settings,
   Activity,
   Star,
+  Eye,
+  EyeOff,
 } from "lucide-react";
 import { api } from "@/lib/api";
+import { ScanJobStatus } from "@/lib/types";
 import type { MediaFolder, ScanningConflict } from "@/lib/types";
 import { ScanProgress } from "./components/ScanProgress";
 import {
@@ -45,10 +48,22 @@ import {
   useMutationWithContext,
 } from "@/hooks/use-api-with-context";
 
+// Metadata provider chains offered for new folders
+interface ProviderChainOption {
+  label: string;
+  providers: string[];
+}
+
+const PROVIDER_CHAINS: Record<string, ProviderChainOption> = {
+  tmdb: { label: "TMDB", providers: [] },
+  "nfo,tmdb": { label: "NFO files, then TMDB", providers: ["nfo", "tmdb"] },
+};
+
 function AddFolderDialog({ onSuccess }: { onSuccess: () => void }) {
   const [open, setOpen] = useState(false);
   const [folderPath, setFolderPath] = useState("");
   const [folderType, setFolderType] = useState("");
+  const [providerChain, setProviderChain] = useState("tmdb");
   const { toast } = useToast();
 
   const { mutate: addFolder, loading } = useMutationWithContext(
@@ -56,6 +71,7 @@ function AddFolderDialog({ onSuccess }: { onSuccess: () => void }) {
       api.client.scanner.addFolder(baseUrl, {
         path: folderPath,
         type: folderType as "movies" | "series",
+        metadataProviders: PROVIDER_CHAINS[providerChain]?.providers,
       })
   );
 
@@ -83,6 +99,7 @@ function AddFolderDialog({ onSuccess }: { onSuccess: () => void }) {
       setOpen(false);
       setFolderPath("");
       setFolderType("");
+      setProviderChain("tmdb");
       onSuccess();
     } catch (error) {
       toast({
@@ -129,6 +146,21 @@ function AddFolderDialog({ onSuccess }: { onSuccess: () => void }) {
               </SelectContent>
             </Select>
           </div>
+          <div>
+            <Label htmlFor="providers">Metadata</Label>
+            <Select value={providerChain} onValueChange={setProviderChain}>
+              <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-800 border-gray-700">
+                {Object.entries(PROVIDER_CHAINS).map(([value, chain]) => (
+                  <SelectItem key={value} value={value}>
+                    {chain.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           <div className="flex gap-2 pt-4">
             <Button
               type="submit"
@@ -258,7 +290,7 @@ function ConflictResolutionDialog({
                       <div className="w-full md:w-1/3 relative">
                         {match.poster_path ? (
                           <img
-                            src={`https://image.tmdb.org/t/p/w300${match.poster_path}`}
+                            src={api.utils.getImageUrl(match.poster_path, 300)}
                             alt={match.title}
                             className="h-[200px] md:h-full w-full object-cover rounded-t-lg md:rounded-l-lg md:rounded-t-none"
                           />
@@ -277,23 +309,48 @@ function ConflictResolutionDialog({
                         <div className="flex justify-between items-start mb-2">
                           <div>
                             <h4 className="font-semibold text-white text-lg">
-                              {match.title}
+                              {match.title || match.name}
                             </h4>
                             <p className="text-sm text-gray-400">
                               Released:{" "}
-                              {match.release_date || match.year || "Unknown"}
+                              {match.release_date ||
+                                match.first_air_date ||
+                                match.year ||
+                                "Unknown"}
                             </p>
                           </div>
-                          <Badge
-                            variant="outline"
-                            className="border-gray-600 text-gray-300"
-                          >
-                            ID: {match.id}
-                          </Badge>
+                          <div className="flex flex-col items-end gap-1">
+                            <Badge
+                              variant="outline"
+                              className="border-gray-600 text-gray-300"
+                            >
+                              ID: {match.id}
+                            </Badge>
+                            {typeof match.score === "number" && (
+                              <Badge
+                                className={
+                                  match.score >= 0.8
+                                    ? "bg-green-600"
+                                    : match.score >= 0.5
+                                      ? "bg-yellow-600"
+                                      : "bg-gray-600"
+                                }
+                              >
+                                {Math.round(match.score * 100)}% match
+                              </Badge>
+                            )}
+                          </div>
                         </div>
                         <p className="text-sm text-gray-300 mt-1 flex-grow line-clamp-4 md:line-clamp-6">
                           {match.overview}
                         </p>
+                        {match.reasons?.length > 0 && (
+                          <ul className="mt-2 text-xs text-gray-400 list-disc list-inside space-y-0.5">
+                            {match.reasons.map((reason: string) => (
+                              <li key={reason}>{reason}</li>
+                            ))}
+                          </ul>
+                        )}
                         <div className="mt-2 pt-2 border-t border-gray-700">
                           {match.vote_average && (
                             <div className="flex items-center gap-1">
@@ -355,6 +412,16 @@ export default function ScannerPage() {
     (baseUrl: string) => () => api.client.scanner.getConflicts(baseUrl),
     []
   );
+  // A scan started elsewhere (another tab, the scheduler) keeps running; re-attach to it
+  const { data: runningJobs } = useApiWithContext(
+    (baseUrl: string) => () =>
+      api.client.scanner.getScanJobs(baseUrl, {
+        status: ScanJobStatus.RUNNING,
+        limit: 1,
+      }),
+    []
+  );
+  const runningJobId = runningJobs?.[0]?.id;
   const { data: healthData } = useApiWithContext(
     (baseUrl: string) => () => api.client.system.healthCheck(baseUrl),
     []
@@ -432,6 +499,28 @@ export default function ScannerPage() {
     }
   };
 
+  const handleToggleWatch = async (folder: MediaFolder) => {
+    try {
+      await updateFolder({
+        id: folder.id,
+        updates: { watch: !folder.watch },
+      });
+      toast({
+        title: "Success",
+        description: folder.watch
+          ? "Stopped watching folder for changes"
+          : "New files in this folder will be added automatically",
+      });
+      refetchFolders();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update folder",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleDeleteConflict = async (id: string) => {
     if (!confirm("Are you sure you want to delete this conflict?")) return;
 
@@ -489,7 +578,7 @@ export default function ScannerPage() {
 
         {/* Quick Actions */}
         <div className="mb-8 flex gap-4">
-          {!showScanProgress ? (
+          {!showScanProgress && !runningJobId ? (
             <Button
               size="lg"
               className="bg-red-600 hover:bg-red-700"
@@ -503,9 +592,12 @@ export default function ScannerPage() {
         </div>
 
         {/* Scan Progress */}
-        {showScanProgress && (
+        {(showScanProgress || runningJobId) && (
           <div className="mb-8">
-            <ScanProgress onComplete={handleScanComplete} />
+            <ScanProgress
+              jobId={runningJobId}
+              onComplete={handleScanComplete}
+            />
           </div>
         )}
 
@@ -617,10 +709,22 @@ export default function ScannerPage() {
                               >
                                 {folder.type}
                               </Badge>
+                              {folder.active && folder.watch && (
+                                <Badge
+                                  variant="outline"
+                                  className="border-blue-500 text-blue-400"
+                                >
+                                  Watching
+                                </Badge>
+                              )}
                             </div>
                             <div className="text-sm text-gray-400">
                               Added:{" "}
                               {new Date(folder.createdAt).toLocaleDateString()}
+                              {" • "}Metadata:{" "}
+                              {folder.metadataProviders?.length
+                                ? folder.metadataProviders.join(" → ")
+                                : "tmdb"}
                             </div>
                           </div>
                         </div>
@@ -634,6 +738,19 @@ export default function ScannerPage() {
                             <Settings className="w-4 h-4 mr-1" />
                             {folder.active ? "Deactivate" : "Activate"}
                           </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="border-gray-600 text-gray-300 hover:bg-white/10"
+                            onClick={() => handleToggleWatch(folder)}
+                          >
+                            {folder.watch ? (
+                              <EyeOff className="w-4 h-4 mr-1" />
+                            ) : (
+                              <Eye className="w-4 h-4 mr-1" />
+                            )}
+                            {folder.watch ? "Stop Watching" : "Watch"}
+                          </Button>
                           <Button
                             size="sm"
                             variant="outline"
@@ -0,0 +1,152 @@
+'use client';
+
+import Link from 'next/link';
+import Image from 'next/image';
+import { useParams } from 'next/navigation';
+import { ArrowLeft, Check, Film } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { api, clientApi } from '@/lib/api';
+import type { CollectionPart } from '@/lib/types';
+import { useApiWithContext } from '@/hooks/use-api-with-context';
+import { cn } from '@/lib/utils';
+
+function PartCard({ part }: { part: CollectionPart }) {
+  const owned = part.movie !== null;
+  const year = part.releaseDate ? new Date(part.releaseDate).getFullYear() : 'TBA';
+
+  const card = (
+    <Card
+      className={cn(
+        'group bg-gray-900/50 border-gray-800 overflow-hidden h-full',
+        owned ? 'hover:border-red-500/50 transition-all duration-300 hover:scale-105' : 'opacity-50'
+      )}
+    >
+      <div className="relative aspect-[2/3]">
+        <Image
+          src={api.utils.getImageUrl(part.movie?.posterPath || part.posterPath || '', 500)}
+          alt={part.movie?.title ?? part.title}
+          fill
+          className={cn('object-cover', !owned && 'grayscale')}
+          sizes="(max-width: 640px) 50vw, (max-width: 768px) 33vw, (max-width: 1024px) 25vw, 16.666vw"
+        />
+        <Badge
+          className={cn(
+            'absolute top-2 left-2 border-gray-600',
+            owned ? 'bg-green-600 text-white' : 'bg-black/70 text-gray-300'
+          )}
+        >
+          {owned ? (
+            <>
+              <Check className="w-3 h-3 mr-1" />
+              In Library
+            </>
+          ) : (
+            'Missing'
+          )}
+        </Badge>
+      </div>
+      <CardContent className="p-3 space-y-1">
+        <div className="text-sm font-semibold text-white line-clamp-2">
+          {part.movie?.title ?? part.title}
+        </div>
+        <div className="text-xs text-gray-400">{year}</div>
+      </CardContent>
+    </Card>
+  );
+
+  return owned ? <Link href={`/movies/${part.movie!.id}`}>{card}</Link> : card;
+}
+
+export default function CollectionDetailPage() {
+  const { id } = useParams<{ id: string }>();
+
+  const { data: collection, loading } = useApiWithContext(
+    (baseUrl) => () => clientApi.collections.getById(baseUrl, id),
+    [id]
+  );
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-16 space-y-4">
+        <div className="h-8 md:h-12 bg-gray-800 rounded w-1/2 animate-pulse" />
+        <div className="h-4 bg-gray-800 rounded w-2/3 animate-pulse" />
+      </div>
+    );
+  }
+
+  if (!collection) {
+    return (
+      <div className="container mx-auto px-4 py-16">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-4">Collection Not Found</h1>
+          <p className="text-gray-400 mb-6">
+            The collection you&apos;re looking for doesn&apos;t exist.
+          </p>
+          <Link href="/collections">
+            <Button className="bg-red-600 hover:bg-red-700">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Collections
+            </Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const ownedCount = collection.parts.filter((part) => part.movie).length;
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <div className="relative h-[40vh] md:h-[50vh] overflow-hidden">
+        {collection.backdropPath ? (
+          <Image
+            src={api.utils.getImageUrl(collection.backdropPath)}
+            alt={collection.name}
+            fill
+            className="object-cover"
+            priority
+          />
+        ) : (
+          <div className="w-full h-full bg-gray-800" />
+        )}
+        <div className="absolute inset-0 bg-gradient-to-r from-black via-black/60 to-transparent" />
+        <div className="absolute inset-0 bg-gradient-to-t from-black to-transparent" />
+        <div className="absolute top-6 left-6 z-10">
+          <Link href="/collections">
+            <Button
+              variant="outline"
+              size="sm"
+              className="bg-black/50 border-gray-600 text-white hover:bg-black/70 backdrop-blur-sm"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Collections
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 -mt-24 md:-mt-32 relative z-10 pb-8 space-y-8">
+        <div className="space-y-3 max-w-3xl">
+          <h1 className="text-3xl md:text-4xl font-bold">{collection.name}</h1>
+          <div className="flex items-center gap-2 text-sm text-gray-300">
+            <Film className="w-4 h-4" />
+            {ownedCount} of {collection.parts.length} movies in the library
+          </div>
+          {collection.overview && (
+            <p className="text-gray-300 text-base md:text-lg leading-relaxed">
+              {collection.overview}
+            </p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-3 md:gap-4">
+          {collection.parts.map((part) => (
+            <PartCard key={part.tmdbId} part={part} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
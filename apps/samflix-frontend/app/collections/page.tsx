@@ -0,0 +1,63 @@
+'use client';
+
+import Link from 'next/link';
+import Image from 'next/image';
+import { Layers } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { api, clientApi } from '@/lib/api';
+import { useApiWithContext } from '@/hooks/use-api-with-context';
+
+export default function CollectionsPage() {
+  const { data: collections, loading } = useApiWithContext(
+    (baseUrl) => () => clientApi.collections.getAll(baseUrl),
+    []
+  );
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center gap-3">
+          <Layers className="w-8 h-8 text-red-500" />
+          <h1 className="text-3xl md:text-4xl font-bold">Collections</h1>
+        </div>
+
+        {loading ? (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-3 md:gap-4">
+            {Array.from({ length: 6 }).map((_, i) => (
+              <div key={i} className="aspect-[2/3] bg-gray-800 rounded-lg animate-pulse" />
+            ))}
+          </div>
+        ) : !collections || collections.length === 0 ? (
+          <p className="text-gray-400">
+            No collections yet. Movies join their collection after the next scan.
+          </p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-3 md:gap-4">
+            {collections.map((collection) => (
+              <Link key={collection.id} href={`/collections/${collection.id}`}>
+                <Card className="group bg-gray-900/50 border-gray-800 hover:border-red-500/50 transition-all duration-300 hover:scale-105 overflow-hidden">
+                  <div className="relative aspect-[2/3]">
+                    <Image
+                      src={api.utils.getImageUrl(collection.posterPath || '', 500)}
+                      alt={collection.name}
+                      fill
+                      className="object-cover"
+                      sizes="(max-width: 640px) 50vw, (max-width: 768px) 33vw, (max-width: 1024px) 25vw, 16.666vw"
+                    />
+                    <Badge className="absolute top-2 right-2 bg-black/70 text-white border-gray-600">
+                      {collection.ownedCount}/{collection.partCount}
+                    </Badge>
+                  </div>
+                  <div className="p-3 text-sm font-semibold text-white line-clamp-2 group-hover:text-red-400 transition-colors">
+                    {collection.name}
+                  </div>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
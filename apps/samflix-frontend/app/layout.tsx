@@ -7,6 +7,7 @@ import { PWAInstallPrompt } from "@/components/ui/pwa-install-prompt";
 import { ServiceWorkerRegistration } from "@/components/ui/service-worker-registration";
 import { ApiUrlProviderWrapper } from "@/components/providers/api-url-provider-wrapper";
 import { AuthProviderWrapper } from "@/components/providers/auth-provider-wrapper";
+import { ProfileProvider } from "@/contexts/profile-context";
 import ErrorBoundary from "@/components/error-boundary";
 import { Toaster } from "sonner";
 
@@ -98,10 +99,12 @@ export default function RootLayout({
           <ErrorBoundary>
             <ApiUrlProviderWrapper>
               <ServiceWorkerRegistration />
-              <Navbar />
-              <ErrorBoundary>
-                {children}
-              </ErrorBoundary>
+              <ProfileProvider>
+                <Navbar />
+                <ErrorBoundary>
+                  {children}
+                </ErrorBoundary>
+              </ProfileProvider>
               <PWAInstallPrompt />
               <Toaster 
                 theme="dark" 
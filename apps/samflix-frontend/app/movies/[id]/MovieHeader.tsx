@@ -3,8 +3,11 @@
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { HLSPlayer } from '@/components/hls-player';
-import { Play, Star, Clock, RotateCcw } from 'lucide-react';
+import { IdentifyDialog } from '@/components/identify-dialog';
+import { CastRow } from '@/components/cast-row';
+import { Play, Star, Clock, RotateCcw, Layers } from 'lucide-react';
 import Image from 'next/image';
+import Link from 'next/link';
 import { useState, useEffect, useCallback } from 'react';
 import { api, clientApi } from '@/lib/api';
 import { TranscodeStatus, type Movie } from '@/lib/types';
@@ -12,6 +15,7 @@ import { runtimeFormat } from '@/lib/utils';
 import { useAuth } from '@/hooks/use-auth';
 import { SignInButton, useUser } from '@clerk/nextjs';
 import { useApiUrl } from '@/contexts/api-url-context';
+import { useStreamUrl } from '@/hooks/use-stream-url';
 import { toast } from 'sonner';
 
 interface MovieHeaderProps {
@@ -19,6 +23,7 @@ interface MovieHeaderProps {
   onPlayerOpen?: () => void;
   onPlayerClose?: () => void;
   isPlayerOpen?: boolean;
+  onIdentified?: () => void;
 }
 
 export function MovieHeader({
@@ -26,6 +31,7 @@ export function MovieHeader({
   onPlayerOpen,
   onPlayerClose,
   isPlayerOpen: externalIsPlayerOpen,
+  onIdentified,
 }: MovieHeaderProps) {
   const [internalIsPlayerOpen, setInternalIsPlayerOpen] = useState(false);
   const isPlayerOpen =
@@ -45,6 +51,7 @@ export function MovieHeader({
   const { isAuthenticated } = useAuth();
   const { user } = useUser();
   const { apiBaseUrl } = useApiUrl();
+  const streamUrl = useStreamUrl('movie', isPlayerOpen ? movie.id.toString() : null);
 
   // Fetch playback progress when component mounts and when player closes
   const fetchProgress = useCallback(async () => {
@@ -58,12 +65,9 @@ export function MovieHeader({
       setIsLoading(true);
       // Fetch user's progress for this movie
       // Note: 404 responses are normal for unwatched movies and are handled gracefully
-      const progress = await clientApi.progress.getProgress(
-        apiBaseUrl,
-        user.id,
-        movie.id.toString()
-      );
-      if (progress && progress.currentTime > 0) {
+      const progress = await clientApi.progress.getProgress(apiBaseUrl, movie.id.toString());
+      // A finished movie plays from the start again
+      if (progress && progress.currentTime > 0 && !progress.completed) {
         setPlaybackProgress(progress.currentTime);
       } else {
         setPlaybackProgress(0);
@@ -90,7 +94,7 @@ export function MovieHeader({
 
   // Handle saving playback progress
   const handleTimeUpdate = useCallback(
-    async (currentTime: number) => {
+    async (currentTime: number, duration: number) => {
       if (!isAuthenticated || !user || !movie.id) return;
 
       try {
@@ -100,9 +104,9 @@ export function MovieHeader({
         }
         await clientApi.progress.saveProgress(
           apiBaseUrl,
-          user.id,
           movie.id.toString(),
-          currentTime
+          currentTime,
+          duration || undefined
         );
       } catch (error) {
         // Suppress network errors - progress saves successfully despite false positives
@@ -120,7 +124,7 @@ export function MovieHeader({
         console.error('API base URL is not configured');
         return;
       }
-      await clientApi.progress.deleteProgress(apiBaseUrl, user.id, movie.id.toString());
+      await clientApi.progress.deleteProgress(apiBaseUrl, movie.id.toString());
       setPlaybackProgress(null);
       toast.success('Playback progress reset');
     } catch (error) {
@@ -152,11 +156,11 @@ export function MovieHeader({
         <div className="w-full bg-black">
           <div className="container mx-auto px-4 py-6 max-w-7xl">
             <HLSPlayer
-              src={apiBaseUrl ? new URL(apiBaseUrl + movie.playPath).toString() : ''}
+              src={streamUrl}
               title={movie.title}
               poster={
                 movie.backdropPath
-                  ? api.utils.getTmdbImageUrl(movie.backdropPath, 'original')
+                  ? api.utils.getImageUrl(movie.backdropPath)
                   : undefined
               }
               onBack={() => setIsPlayerOpen(false)}
@@ -195,7 +199,7 @@ export function MovieHeader({
             {movie.backdropPath ? (
               <Image
                 src={
-                  api.utils.getTmdbImageUrl(movie.backdropPath, 'original') || '/placeholder.svg'
+                  api.utils.getImageUrl(movie.backdropPath) || '/placeholder.svg'
                 }
                 alt={movie.title}
                 fill
@@ -217,7 +221,7 @@ export function MovieHeader({
                   <Image
                     src={
                       movie.posterPath
-                        ? api.utils.getTmdbImageUrl(movie.posterPath, 'w300')
+                        ? api.utils.getImageUrl(movie.posterPath, 300)
                         : '/placeholder.svg'
                     }
                     alt={movie.title}
@@ -326,10 +330,32 @@ export function MovieHeader({
                         UPLOADING
                       </Button>
                     )}
+                    <IdentifyDialog
+                      mediaType="movie"
+                      id={movie.id}
+                      title={movie.title}
+                      tmdbId={movie.tmdbId}
+                      onIdentified={onIdentified}
+                    />
+                    {movie.collectionId && (
+                      <Link href={`/collections/${movie.collectionId}`}>
+                        <Button
+                          variant="outline"
+                          className="text-gray-300 border-gray-700 hover:bg-gray-800 w-full sm:w-auto"
+                        >
+                          <Layers className="w-4 h-4 mr-2" />
+                          View Collection
+                        </Button>
+                      </Link>
+                    )}
                   </div>
                 </div>
               </div>
             </div>
+
+            <div className="mt-8">
+              <CastRow cast={movie.cast} crew={movie.crew} />
+            </div>
           </div>
         </>
       )}
@@ -85,10 +85,11 @@ function RecommendationCarousel({ movie }: { movie: Movie }) {
 export default function MovieDetailPage() {
   const { id } = useParams<{ id: string }>();
 
-  const { data: movie, loading: moviesLoading } = useApiWithContext(
-    (baseUrl) => () => api.client.movies.getById(id, baseUrl),
-    [id]
-  );
+  const {
+    data: movie,
+    loading: moviesLoading,
+    refetch,
+  } = useApiWithContext((baseUrl) => () => api.client.movies.getById(id, baseUrl), [id]);
 
   // All hooks must be called before any conditional returns
   const [isPlayerOpen, setIsPlayerOpen] = useState(false);
@@ -148,6 +149,7 @@ export default function MovieDetailPage() {
         onPlayerOpen={handlePlayerOpen}
         onPlayerClose={handlePlayerClose}
         isPlayerOpen={isPlayerOpen}
+        onIdentified={refetch}
       />
 
       {/* Movie Stats Section - Hidden when player is open */}
@@ -174,6 +176,22 @@ export default function MovieDetailPage() {
                 <div className="text-xs text-gray-400">Audio</div>
               </div>
             )}
+            {movie.videoCodec && (
+              <div className="bg-gray-900/60 border border-gray-700 rounded-lg px-3 py-2 md:px-4 md:py-3 text-center hover:border-red-500/30 transition-colors">
+                <div className="text-sm md:text-base font-semibold text-red-400">
+                  {movie.videoCodec}
+                </div>
+                <div className="text-xs text-gray-400">Video</div>
+              </div>
+            )}
+            {movie.edition && (
+              <div className="bg-gray-900/60 border border-gray-700 rounded-lg px-3 py-2 md:px-4 md:py-3 text-center hover:border-red-500/30 transition-colors">
+                <div className="text-sm md:text-base font-semibold text-red-400">
+                  {movie.edition}
+                </div>
+                <div className="text-xs text-gray-400">Edition</div>
+              </div>
+            )}
           </div>
 
           {/* Recommendations Section */}
@@ -47,7 +47,7 @@ function MovieCard({
           <div className="flex gap-4">
             <div className="relative w-24 h-36 flex-shrink-0">
               <Image
-                src={api.utils.getTmdbImageUrl(movie.posterPath || "", "w300")}
+                src={api.utils.getImageUrl(movie.posterPath || "", 300)}
                 alt={movie.title}
                 fill
                 className="object-cover rounded-l-lg"
@@ -120,7 +120,7 @@ function MovieCard({
       <Card className="group bg-gray-900/50 border-gray-800 hover:border-red-500/50 transition-all duration-300 hover:scale-105 cursor-pointer">
         <div className="relative aspect-[2/3] overflow-hidden rounded-t-lg">
           <Image
-            src={api.utils.getTmdbImageUrl(movie.posterPath || "")}
+            src={api.utils.getImageUrl(movie.posterPath || "", 500)}
             alt={movie.title}
             fill
             className="object-cover transition-transform duration-300 group-hover:scale-110"
@@ -11,6 +11,7 @@ import { TranscodeStatus, type Movie, type TvSeries } from '@/lib/types';
 import { useApiWithContext } from '@/hooks/use-api-with-context';
 import { useApiUrl } from '@/contexts/api-url-context';
 import { ContinueWatching } from '@/components/continue-watching';
+import { ContinueFranchise } from '@/components/continue-franchise';
 import { FeaturedCarousel } from '@/components/featured-carousel';
 import { MixedHeroCarousel } from '@/components/mixed-hero-carousel';
 import { MediaCard } from '@/components/media-card';
@@ -170,6 +171,9 @@ export default function HomePage() {
         {/* Continue Watching (only for authenticated users) */}
         <ContinueWatching />
 
+        {/* Next movies of collections the user has started (only for authenticated users) */}
+        <ContinueFranchise />
+
         {/* Featured Movies Carousel */}
         <FeaturedCarousel
           items={featuredMovies}
@@ -0,0 +1,165 @@
+'use client';
+
+import Image from 'next/image';
+import { useParams, useRouter } from 'next/navigation';
+import { ArrowLeft, Cake, MapPin, User } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { MediaCard } from '@/components/media-card';
+import { SwipeableCarousel } from '@/components/swipeable-carousel';
+import { clientApi, api } from '@/lib/api';
+import type { PersonCredit } from '@/lib/types';
+import { useApiWithContext } from '@/hooks/use-api-with-context';
+
+function LoadingSkeleton() {
+  return (
+    <div className="container mx-auto px-4 py-16">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-8">
+        <div className="md:col-span-1">
+          <div className="aspect-[2/3] bg-gray-800 rounded-lg animate-pulse max-w-[300px] mx-auto" />
+        </div>
+        <div className="md:col-span-3 space-y-4">
+          <div className="h-8 md:h-12 bg-gray-800 rounded w-1/2 animate-pulse" />
+          <div className="h-4 bg-gray-800 rounded w-1/3 animate-pulse" />
+          <div className="space-y-2">
+            <div className="h-3 md:h-4 bg-gray-800 rounded animate-pulse" />
+            <div className="h-3 md:h-4 bg-gray-800 rounded w-5/6 animate-pulse" />
+            <div className="h-3 md:h-4 bg-gray-800 rounded w-4/6 animate-pulse" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CreditCarousel({ title, credits }: { title: string; credits: PersonCredit[] }) {
+  if (credits.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl md:text-2xl font-bold text-white">{title}</h2>
+      <SwipeableCarousel>
+        {credits.map((credit) => {
+          const item = credit.movie ?? credit.series!;
+          return (
+            <div key={`${item.id}-${credit.character ?? credit.job}`} className="space-y-2">
+              <MediaCard item={item} type={credit.movie ? 'movie' : 'series'} />
+              <div className="text-xs text-gray-400 line-clamp-1 px-1">
+                {credit.character ?? credit.job}
+              </div>
+            </div>
+          );
+        })}
+      </SwipeableCarousel>
+    </div>
+  );
+}
+
+export default function PersonDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+
+  const { data: person, loading: personLoading } = useApiWithContext(
+    (baseUrl) => () => clientApi.people.get(baseUrl, id),
+    [id]
+  );
+  const { data: credits } = useApiWithContext(
+    (baseUrl) => () => clientApi.people.getCredits(baseUrl, id),
+    [id]
+  );
+
+  if (personLoading) {
+    return <LoadingSkeleton />;
+  }
+
+  if (!person) {
+    return (
+      <div className="container mx-auto px-4 py-16">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-4">Person Not Found</h1>
+          <p className="text-gray-400 mb-6">
+            The person you&apos;re looking for doesn&apos;t exist.
+          </p>
+          <Button className="bg-red-600 hover:bg-red-700" onClick={() => router.back()}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Go Back
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <div className="container mx-auto px-4 py-8 space-y-8">
+        <Button
+          variant="outline"
+          size="sm"
+          className="bg-black/50 border-gray-600 text-white hover:bg-black/70"
+          onClick={() => router.back()}
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </Button>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-8">
+          <div className="md:col-span-1">
+            <div className="aspect-[2/3] relative rounded-lg overflow-hidden shadow-2xl bg-gray-800 max-w-[300px] mx-auto">
+              {person.profilePath ? (
+                <Image
+                  src={api.utils.getImageUrl(person.profilePath)}
+                  alt={person.name}
+                  fill
+                  className="object-cover"
+                  priority
+                />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center">
+                  <User className="w-16 h-16 text-gray-600" />
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="md:col-span-3 space-y-4">
+            <h1 className="text-3xl md:text-4xl font-bold text-white">{person.name}</h1>
+
+            <div className="flex flex-wrap items-center gap-3 text-sm text-gray-300">
+              {person.knownForDepartment && (
+                <Badge variant="secondary" className="bg-red-600 text-white">
+                  {person.knownForDepartment}
+                </Badge>
+              )}
+              {person.birthday && (
+                <span className="flex items-center gap-1">
+                  <Cake className="w-4 h-4" />
+                  {new Date(person.birthday).toLocaleDateString()}
+                  {person.deathday && ` – ${new Date(person.deathday).toLocaleDateString()}`}
+                </span>
+              )}
+              {person.placeOfBirth && (
+                <span className="flex items-center gap-1">
+                  <MapPin className="w-4 h-4" />
+                  {person.placeOfBirth}
+                </span>
+              )}
+            </div>
+
+            {person.biography && (
+              <p className="text-gray-300 text-base md:text-lg leading-relaxed whitespace-pre-line">
+                {person.biography}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {credits && (
+          <>
+            <CreditCarousel title="Acting" credits={credits.cast} />
+            <CreditCarousel title="Crew" credits={credits.crew} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,8 +4,8 @@ import React from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Play, Clock } from 'lucide-react';
-import { TranscodeStatus } from '@/lib/types';
+import { Play, Clock, CalendarX } from 'lucide-react';
+import { TranscodeStatus, type GuideEpisode } from '@/lib/types';
 import { useAuth } from '@/hooks/use-auth';
 import { SignInButton } from '@clerk/nextjs';
 
@@ -91,3 +91,36 @@ export function EpisodeCard({
     </>
   );
 }
+
+// Placeholder for an aired episode TMDB lists that isn't in the library
+export function MissingEpisodeCard({ episode }: { episode: GuideEpisode }) {
+  return (
+    <Card className="bg-gray-900/30 border-gray-800 border-dashed opacity-60 h-full">
+      <CardContent className="p-3 h-full flex flex-col">
+        <div className="flex items-center gap-2 mb-2">
+          <div className="w-8 h-8 bg-gray-800 border border-gray-700 rounded-md flex items-center justify-center flex-shrink-0">
+            <span className="text-xs font-bold text-gray-500">
+              {episode.episodeNumber.toString().padStart(2, '0')}
+            </span>
+          </div>
+          <h4 className="font-medium text-gray-400 text-sm line-clamp-1 flex-1">
+            {episode.title ?? `Episode ${episode.episodeNumber}`}
+          </h4>
+        </div>
+
+        <div className="flex items-center justify-end text-xs text-gray-500 mb-2">
+          <Badge variant="outline" className="border-gray-700 text-gray-500 text-xs px-1 py-0">
+            Missing
+          </Badge>
+        </div>
+
+        {episode.airDate && (
+          <p className="text-gray-600 text-xs mt-auto flex items-center gap-1">
+            <CalendarX className="w-3 h-3" />
+            Aired {new Date(episode.airDate).toLocaleDateString()}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
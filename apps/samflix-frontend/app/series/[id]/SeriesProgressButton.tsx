@@ -10,6 +10,7 @@ import { TranscodeStatus } from '@/lib/types';
 import { useAuth } from '@/hooks/use-auth';
 import { SignInButton, useUser } from '@clerk/nextjs';
 import { useApiUrl } from '@/contexts/api-url-context';
+import { useStreamUrl } from '@/hooks/use-stream-url';
 import { toast } from 'sonner';
 import { api } from '@/lib/api';
 
@@ -24,11 +25,20 @@ interface SeriesPlayerProps {
   episode: Episode | null;
   onBack: () => void;
   initialTime?: number;
-  onTimeUpdate?: (currentTime: number) => void;
+  onTimeUpdate?: (currentTime: number, episode: Episode, duration?: number) => void;
   nextEpisode?: Episode | null;
   onPlayNext?: () => void;
 }
 
+// Episodes that share the episode's transcoded file (more than one for multi-episode files)
+export function getFileEpisodes(series: TvSeries, episode: Episode): Episode[] {
+  if (!episode.playPath) return [episode];
+
+  return series.episodes
+    .filter((ep) => ep.playPath === episode.playPath)
+    .sort((a, b) => a.episodeNumber - b.episodeNumber);
+}
+
 export function SeriesPlayer({
   series,
   episode,
@@ -39,29 +49,48 @@ export function SeriesPlayer({
   onPlayNext,
 }: SeriesPlayerProps) {
   const { user } = useUser();
-  const { apiBaseUrl } = useApiUrl();
+  const streamUrl = useStreamUrl('episode', episode?.id ?? null);
 
   if (!episode) return null;
 
+  const fileEpisodes = getFileEpisodes(series, episode);
+  const lastFileEpisode = fileEpisodes[fileEpisodes.length - 1];
+  const episodeLabel =
+    fileEpisodes.length > 1 && lastFileEpisode
+      ? `S${episode.seasonNumber}E${fileEpisodes[0]?.episodeNumber}-E${lastFileEpisode.episodeNumber}`
+      : `S${episode.seasonNumber}E${episode.episodeNumber}`;
+
+  // The episode playing at a point in the shared file
+  const getEpisodeAt = (currentTime: number) =>
+    fileEpisodes.filter((ep) => (ep.startOffset ?? Infinity) <= currentTime).pop() ?? episode;
+
   return (
     <div className="w-full bg-black">
       <div className="container mx-auto px-4 py-6 max-w-7xl">
         <HLSPlayer
-          src={
-            apiBaseUrl && episode.playPath ? new URL(apiBaseUrl + episode.playPath).toString() : ''
-          }
-          title={`${episode.title} - S${episode.seasonNumber}E${episode.episodeNumber}`}
+          src={streamUrl}
+          title={`${episode.title} - ${episodeLabel}`}
           poster={
             series.backdropPath
-              ? api.utils.getTmdbImageUrl(series.backdropPath, 'original')
+              ? api.utils.getImageUrl(series.backdropPath)
               : undefined
           }
           onBack={onBack}
           autoPlay={true}
           tmdbId={episode.id?.toString()}
           clerkId={user?.id}
-          initialTime={initialTime}
-          onTimeUpdate={onTimeUpdate}
+          initialTime={initialTime > 0 ? initialTime : (episode.startOffset ?? 0)}
+          onTimeUpdate={
+            onTimeUpdate
+              ? // The file's duration is only the episode's when it holds one episode
+                (currentTime, duration) =>
+                  onTimeUpdate(
+                    currentTime,
+                    getEpisodeAt(currentTime),
+                    fileEpisodes.length > 1 ? undefined : duration
+                  )
+              : undefined
+          }
           nextEpisode={
             nextEpisode
               ? {
@@ -146,7 +175,7 @@ export function SeriesProgressButton({
 
     try {
       setIsLoading(true);
-      const progress = await clientApi.progress.getSeriesProgress(apiBaseUrl, user.id, series.id);
+      const progress = await clientApi.progress.getSeriesProgress(apiBaseUrl, series.id);
 
       if (progress) {
         setSeriesProgress(progress);
@@ -184,7 +213,6 @@ export function SeriesProgressButton({
         }
         await clientApi.progress.saveSeriesProgress(
           apiBaseUrl,
-          user.id,
           series.id,
           currentEpisode.id.toString(),
           currentTime
@@ -205,7 +233,7 @@ export function SeriesProgressButton({
         console.error('API base URL is not configured');
         return;
       }
-      await clientApi.progress.deleteSeriesProgress(apiBaseUrl, user.id, series.id);
+      await clientApi.progress.deleteSeriesProgress(apiBaseUrl, series.id);
       setSeriesProgress(null);
       setCurrentEpisode(null);
       toast.success('Series progress reset');
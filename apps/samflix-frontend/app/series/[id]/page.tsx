@@ -9,15 +9,17 @@ import { ArrowLeft, Calendar, Tv } from 'lucide-react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { api, clientApi } from '@/lib/api';
-import type { TvSeries, Episode } from '@/lib/types';
+import type { TvSeries, Episode, GuideEpisode } from '@/lib/types';
 import { TranscodeStatus } from '@/lib/types';
 import SeasonSection from './seasonSection';
-import { SeriesProgressButton, SeriesPlayer } from './SeriesProgressButton';
-import { useParams } from 'next/navigation';
+import { SeriesProgressButton, SeriesPlayer, getFileEpisodes } from './SeriesProgressButton';
+import { useParams, useRouter } from 'next/navigation';
 import { useApiUrl } from '@/contexts/api-url-context';
 import { useUser } from '@clerk/nextjs';
 import { SwipeableCarousel } from '@/components/swipeable-carousel';
 import { MediaCard } from '@/components/media-card';
+import { IdentifyDialog } from '@/components/identify-dialog';
+import { CastRow } from '@/components/cast-row';
 import { useApiWithContext } from '@/hooks/use-api-with-context';
 
 function RecommendationCarousel({ series }: { series: TvSeries }) {
@@ -69,9 +71,11 @@ function RecommendationCarousel({ series }: { series: TvSeries }) {
 export default function SeriesDetailPage() {
   const params = useParams();
   const id = params.id as string;
+  const router = useRouter();
   const [series, setSeries] = useState<TvSeries | null>(null);
   const [isPlayerOpen, setIsPlayerOpen] = useState(false);
   const [currentEpisode, setCurrentEpisode] = useState<Episode | null>(null);
+  const [missingEpisodes, setMissingEpisodes] = useState<GuideEpisode[]>([]);
   const [seriesProgress, setSeriesProgress] = useState<{
     tmdbId: string;
     currentTime: number;
@@ -80,21 +84,43 @@ export default function SeriesDetailPage() {
   const { user } = useUser();
 
   // Fetch series data
+  const fetchSeries = useCallback(async () => {
+    if (!apiBaseUrl) return;
+    const data = await api.client.series.getById(id, apiBaseUrl);
+    setSeries(data);
+  }, [id, apiBaseUrl]);
+
   useEffect(() => {
-    const fetchSeries = async () => {
-      if (!apiBaseUrl) return;
-      const data = await api.client.series.getById(id, apiBaseUrl);
-      setSeries(data);
-    };
     fetchSeries();
-  }, [id, apiBaseUrl]);
+  }, [fetchSeries]);
+
+  // Fetch the aired episodes TMDB lists that aren't in the library
+  useEffect(() => {
+    if (!apiBaseUrl || !series?.id) return;
+    clientApi.series
+      .getEpisodeGuide(apiBaseUrl, series.id)
+      .then(({ missing }) => setMissingEpisodes(missing))
+      .catch((error) => console.error('Error fetching missing episodes:', error));
+  }, [apiBaseUrl, series?.id, series?.episodes.length]);
+
+  // A series fixed to a match already in the library is merged into that one
+  const handleIdentified = useCallback(
+    (seriesId: string) => {
+      if (seriesId !== id) {
+        router.replace(`/series/${seriesId}`);
+      } else {
+        fetchSeries();
+      }
+    },
+    [id, router, fetchSeries]
+  );
 
   // Fetch series progress
   useEffect(() => {
     const fetchProgress = async () => {
       if (!user || !series?.id || !apiBaseUrl) return;
       try {
-        const progress = await clientApi.progress.getSeriesProgress(apiBaseUrl, user.id, series.id);
+        const progress = await clientApi.progress.getSeriesProgress(apiBaseUrl, series.id);
         if (progress) {
           setSeriesProgress(progress);
         }
@@ -128,7 +154,10 @@ export default function SeriesDetailPage() {
         return a.episodeNumber - b.episodeNumber;
       });
 
-    const currentIndex = allEpisodes.findIndex((ep) => ep.id === currentEpisode.id);
+    // Episodes in the same file play on their own, so skip to the end of the file
+    const fileEpisodes = getFileEpisodes(series, currentEpisode);
+    const lastFileEpisode = fileEpisodes[fileEpisodes.length - 1] ?? currentEpisode;
+    const currentIndex = allEpisodes.findIndex((ep) => ep.id === lastFileEpisode.id);
 
     if (currentIndex === -1 || currentIndex === allEpisodes.length - 1) {
       return null;
@@ -146,21 +175,22 @@ export default function SeriesDetailPage() {
   }, [getNextEpisode]);
 
   const handleTimeUpdate = useCallback(
-    async (currentTime: number) => {
-      if (!user || !currentEpisode || !series?.id || !apiBaseUrl) return;
+    async (currentTime: number, playingEpisode: Episode, duration?: number) => {
+      if (!user || !series?.id || !apiBaseUrl) return;
       try {
+        // Multi-episode files report whichever of their episodes is playing
         await clientApi.progress.saveSeriesProgress(
           apiBaseUrl,
-          user.id,
           series.id,
-          currentEpisode.id.toString(),
-          currentTime
+          playingEpisode.id.toString(),
+          currentTime,
+          duration
         );
       } catch (error) {
         console.error('Error saving series progress:', error);
       }
     },
-    [user, currentEpisode, series?.id, apiBaseUrl]
+    [user, series?.id, apiBaseUrl]
   );
 
   if (!series) {
@@ -192,13 +222,21 @@ export default function SeriesDetailPage() {
 
   const totalEpisodes = series.episodes.length;
 
-  // Calculate seasons from episodes
-  const seasons = Array.from(new Set(series.episodes.map((ep) => ep.seasonNumber)))
+  // Seasons come grouped with their metadata from the API
+  const seasons = series.seasons ?? [];
+
+  // Seasons with missing episodes, including ones none of the episodes are in the library of
+  const guideSeasons = Array.from(
+    new Set([...seasons.map((s) => s.seasonNumber), ...missingEpisodes.map((e) => e.seasonNumber)])
+  )
     .sort((a, b) => a - b)
-    .map((seasonNumber) => ({
-      seasonNumber,
-      episodes: series.episodes.filter((ep) => ep.seasonNumber === seasonNumber),
-    }));
+    .map(
+      (seasonNumber) =>
+        seasons.find((season) => season.seasonNumber === seasonNumber) ?? {
+          seasonNumber,
+          episodes: [],
+        }
+    );
 
   return (
     <div className="min-h-screen bg-black text-white">
@@ -220,7 +258,7 @@ export default function SeriesDetailPage() {
         <>
           <div className="relative h-[50vh] md:h-[60vh] overflow-hidden">
             <Image
-              src={api.utils.getTmdbImageUrl(series.backdropPath || '', 'original')}
+              src={api.utils.getImageUrl(series.backdropPath || '')}
               alt={series.title}
               fill
               className="object-cover"
@@ -252,7 +290,7 @@ export default function SeriesDetailPage() {
                   <Image
                     src={
                       series.posterPath
-                        ? api.utils.getTmdbImageUrl(series.posterPath, 'w300')
+                        ? api.utils.getImageUrl(series.posterPath, 300)
                         : '/placeholder.svg'
                     }
                     alt={series.title}
@@ -315,7 +353,16 @@ export default function SeriesDetailPage() {
                     {series.overview}
                   </p>
 
-                  <SeriesProgressButton series={series} onPlayerOpen={handlePlayerOpen} />
+                  <div className="flex flex-wrap items-center gap-3">
+                    <SeriesProgressButton series={series} onPlayerOpen={handlePlayerOpen} />
+                    <IdentifyDialog
+                      mediaType="series"
+                      id={series.id}
+                      title={series.title}
+                      tmdbId={series.tmdbId}
+                      onIdentified={handleIdentified}
+                    />
+                  </div>
                 </div>
 
                 {/* Series Stats */}
@@ -348,6 +395,11 @@ export default function SeriesDetailPage() {
               </div>
             </div>
 
+            {/* Cast Section */}
+            <div className="mt-8 md:mt-12">
+              <CastRow cast={series.cast} crew={series.crew} />
+            </div>
+
             {/* Episodes Section */}
             <div className="mt-8 md:mt-12">
               <Tabs defaultValue="episodes" className="w-full">
@@ -370,10 +422,13 @@ export default function SeriesDetailPage() {
                   <div className="space-y-6 mb-10">
                     <h2 className="text-2xl font-bold text-white">Episodes</h2>
                     <div className="space-y-4">
-                      {seasons.map((season) => (
+                      {guideSeasons.map((season) => (
                         <SeasonSection
                           key={season.seasonNumber}
                           season={season}
+                          missingEpisodes={missingEpisodes.filter(
+                            (episode) => episode.seasonNumber === season.seasonNumber
+                          )}
                           onPlayClick={handlePlayerOpen}
                         />
                       ))}
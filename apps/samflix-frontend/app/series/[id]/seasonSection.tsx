@@ -1,19 +1,23 @@
 'use client';
 
 import React, { useState, useRef, useEffect } from 'react';
+import Image from 'next/image';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import type { Season } from '@/lib/types';
+import type { GuideEpisode, Season } from '@/lib/types';
 import { ChevronDown, ChevronRight, ChevronLeft, Play } from 'lucide-react';
-import { EpisodeCard } from './EpisodeCard';
+import { EpisodeCard, MissingEpisodeCard } from './EpisodeCard';
+import { api } from '@/lib/api';
 import { cn } from '@/lib/utils';
 
 export default function SeasonSection({
   season,
+  missingEpisodes = [],
   onPlayClick,
 }: {
   season: Season;
+  missingEpisodes?: GuideEpisode[]; // Aired episodes of the season that aren't in the library
   onPlayClick?: (episode: any) => void;
 }) {
   const [isOpen, setIsOpen] = useState(false);
@@ -21,7 +25,12 @@ export default function SeasonSection({
   const [contentHeight, setContentHeight] = useState(0);
   const contentRef = useRef<HTMLDivElement>(null);
   const episodesPerPage = 4; // Show 4 episodes at a time
-  const totalPages = Math.ceil(season.episodes.length / episodesPerPage);
+  // Missing episodes are shown in their place among the ones in the library
+  const items = [
+    ...season.episodes.map((episode) => ({ episode, missing: false as const })),
+    ...missingEpisodes.map((episode) => ({ episode, missing: true as const })),
+  ].sort((a, b) => a.episode.episodeNumber - b.episode.episodeNumber);
+  const totalPages = Math.ceil(items.length / episodesPerPage);
 
   const nextPage = () => {
     setCurrentIndex((prev) => (prev + 1) % totalPages);
@@ -31,7 +40,7 @@ export default function SeasonSection({
     setCurrentIndex((prev) => (prev - 1 + totalPages) % totalPages);
   };
 
-  const currentEpisodes = season.episodes.slice(
+  const currentEpisodes = items.slice(
     currentIndex * episodesPerPage,
     (currentIndex + 1) * episodesPerPage
   );
@@ -55,14 +64,36 @@ export default function SeasonSection({
       <CardContent className="p-6 cursor-pointer" onClick={toggleOpen}>
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-4">
-            <div className="w-14 h-14 bg-gradient-to-br from-red-600 to-red-800 rounded-xl flex items-center justify-center shadow-lg">
-              <span className="font-bold text-white text-lg">S{season.seasonNumber}</span>
-            </div>
+            {season.posterPath ? (
+              <div className="relative w-14 h-20 rounded-lg overflow-hidden shadow-lg flex-shrink-0">
+                <Image
+                  src={api.utils.getImageUrl(season.posterPath, 185)}
+                  alt={season.name ?? `Season ${season.seasonNumber}`}
+                  fill
+                  className="object-cover"
+                  sizes="56px"
+                />
+              </div>
+            ) : (
+              <div className="w-14 h-14 bg-gradient-to-br from-red-600 to-red-800 rounded-xl flex items-center justify-center shadow-lg flex-shrink-0">
+                <span className="font-bold text-white text-lg">S{season.seasonNumber}</span>
+              </div>
+            )}
             <div>
-              <h3 className="text-xl font-bold text-white mb-1">Season {season.seasonNumber}</h3>
+              <h3 className="text-xl font-bold text-white mb-1">
+                {season.name ?? `Season ${season.seasonNumber}`}
+              </h3>
+              {season.airDate && (
+                <p className="text-gray-500 text-xs mb-1">
+                  {new Date(season.airDate).getFullYear()}
+                </p>
+              )}
               <p className="text-gray-400 flex items-center gap-2 text-sm">
                 <Play className="w-3 h-3" />
                 {season.episodes.length} episodes
+                {missingEpisodes.length > 0 && (
+                  <span className="text-gray-500">· {missingEpisodes.length} missing</span>
+                )}
               </p>
             </div>
           </div>
@@ -91,6 +122,12 @@ export default function SeasonSection({
         <div ref={contentRef}>
           <CardContent className="px-6 pb-6 pt-0">
             <div className="border-t border-gray-700 pt-4">
+              {season.overview && (
+                <p className="text-gray-400 text-sm leading-relaxed mb-4 line-clamp-3">
+                  {season.overview}
+                </p>
+              )}
+
               {/* Carousel Navigation */}
               {totalPages > 1 && (
                 <div className="flex items-center justify-between mb-4 animate-in fade-in duration-300">
@@ -128,13 +165,17 @@ export default function SeasonSection({
 
               {/* Episodes Grid */}
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
-                {currentEpisodes.map((episode: any, index) => (
+                {currentEpisodes.map((item, index) => (
                   <div
-                    key={episode.episodeNumber}
+                    key={`${item.missing ? 'missing' : 'owned'}-${item.episode.episodeNumber}`}
                     className="animate-in fade-in slide-in-from-bottom-2 duration-300"
                     style={{ animationDelay: `${index * 50}ms` }}
                   >
-                    <EpisodeCard episode={episode} onPlayClick={onPlayClick} />
+                    {item.missing ? (
+                      <MissingEpisodeCard episode={item.episode} />
+                    ) : (
+                      <EpisodeCard episode={item.episode} onPlayClick={onPlayClick} />
+                    )}
                   </div>
                 ))}
               </div>
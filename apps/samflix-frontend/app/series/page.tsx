@@ -60,7 +60,7 @@ function SeriesCard({
           <div className="flex gap-4">
             <div className="relative w-24 h-36 flex-shrink-0">
               <Image
-                src={api.utils.getTmdbImageUrl(series.posterPath || "", "w300")}
+                src={api.utils.getImageUrl(series.posterPath || "", 300)}
                 alt={series.title}
                 fill
                 className="object-cover rounded-l-lg"
@@ -123,7 +123,7 @@ function SeriesCard({
       <Card className="group bg-gray-900/50 border-gray-800 hover:border-red-500/50 transition-all duration-300 hover:scale-105 cursor-pointer">
         <div className="relative aspect-[2/3] overflow-hidden rounded-t-lg">
           <Image
-            src={api.utils.getTmdbImageUrl(series.posterPath || "")}
+            src={api.utils.getImageUrl(series.posterPath || "", 500)}
             alt={series.title}
             fill
             className="object-cover transition-transform duration-300 group-hover:scale-110"
@@ -0,0 +1,59 @@
+'use client';
+
+import Link from 'next/link';
+import Image from 'next/image';
+import { User } from 'lucide-react';
+import { SwipeableCarousel } from '@/components/swipeable-carousel';
+import { api } from '@/lib/api';
+import type { CreditSummary } from '@/lib/types';
+
+interface CastRowProps {
+  cast?: CreditSummary[];
+  crew?: CreditSummary[];
+}
+
+/**
+ * The cast of a movie or series, each linking to their person page, followed by the crew
+ * Hidden until the title's credits have been pulled from TMDB
+ */
+export function CastRow({ cast = [], crew = [] }: CastRowProps) {
+  const credits = [...cast, ...crew];
+  if (credits.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl md:text-2xl font-bold text-white">Cast &amp; Crew</h2>
+      <SwipeableCarousel showDots={false}>
+        {credits.map((credit) => (
+          <Link
+            key={`${credit.personId}-${credit.character ?? credit.job}`}
+            href={`/people/${credit.personId}`}
+            className="group block w-[120px] md:w-[140px] flex-shrink-0"
+          >
+            <div className="relative aspect-[2/3] rounded-lg overflow-hidden bg-gray-800 border border-gray-800 group-hover:border-red-500/50 transition-colors">
+              {credit.profilePath ? (
+                <Image
+                  src={api.utils.getImageUrl(credit.profilePath, 185)}
+                  alt={credit.name}
+                  fill
+                  className="object-cover"
+                  sizes="140px"
+                />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center">
+                  <User className="w-10 h-10 text-gray-600" />
+                </div>
+              )}
+            </div>
+            <div className="mt-2 text-sm font-semibold text-white line-clamp-1 group-hover:text-red-400 transition-colors">
+              {credit.name}
+            </div>
+            <div className="text-xs text-gray-400 line-clamp-1">
+              {credit.character ?? credit.job}
+            </div>
+          </Link>
+        ))}
+      </SwipeableCarousel>
+    </div>
+  );
+}
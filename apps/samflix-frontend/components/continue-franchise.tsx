@@ -0,0 +1,54 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useUser } from '@clerk/nextjs';
+import { clientApi } from '@/lib/api';
+import { useApiUrl } from '@/contexts/api-url-context';
+import type { CollectionContinuation } from '@/lib/types';
+import { MediaCard } from '@/components/media-card';
+import { SwipeableCarousel } from '@/components/swipeable-carousel';
+
+/**
+ * The next movie of each collection the user has watched part of
+ * Hidden for signed-out users and when there is nothing to continue
+ */
+export function ContinueFranchise() {
+  const [items, setItems] = useState<CollectionContinuation[]>([]);
+  const { user, isSignedIn } = useUser();
+  const { apiBaseUrl } = useApiUrl();
+
+  useEffect(() => {
+    if (!isSignedIn || !user || !apiBaseUrl) return;
+
+    clientApi.collections
+      .getContinuations(apiBaseUrl)
+      .then(setItems)
+      .catch((error) => {
+        console.error('Error fetching collections to continue:', error);
+      });
+  }, [isSignedIn, user, apiBaseUrl]);
+
+  if (!isSignedIn || items.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="space-y-4">
+      <h2 className="text-2xl md:text-3xl font-bold">Continue the Franchise</h2>
+      <SwipeableCarousel showArrows={true} showDots={false}>
+        {items.map(({ collection, movie }) => (
+          <div key={collection.id} className="space-y-2">
+            <MediaCard item={movie} type="movie" />
+            <Link
+              href={`/collections/${collection.id}`}
+              className="block text-xs text-gray-400 hover:text-red-400 line-clamp-1 px-1"
+            >
+              Next in {collection.name}
+            </Link>
+          </div>
+        ))}
+      </SwipeableCarousel>
+    </section>
+  );
+}
@@ -24,6 +24,8 @@ import { cn } from '@/lib/utils';
 type MovieProgressItem = {
   tmdbId: string;
   currentTime: number;
+  duration: number | null;
+  completed: boolean;
   updatedAt: string;
   type: 'movie';
   movie: Movie;
@@ -33,6 +35,8 @@ type SeriesProgressItem = {
   seriesId: string;
   tmdbId: string;
   currentTime: number;
+  duration: number | null;
+  completed: boolean;
   updatedAt: string;
   episodeTitle?: string;
   seasonNumber?: number;
@@ -61,18 +65,16 @@ export function ContinueWatching() {
         setIsLoading(true);
 
         // Fetch movie progress
-        const movieProgress = await clientApi.progress
-          .getAllProgress(apiBaseUrl, user.id)
-          .catch((error) => {
-            console.error('Error fetching movie progress:', error);
-            return [];
-          });
+        const movieProgress = await clientApi.progress.getAllProgress(apiBaseUrl).catch((error) => {
+          console.error('Error fetching movie progress:', error);
+          return [];
+        });
 
         // Try to fetch series progress (may not be implemented yet)
         let seriesProgress: any[] = [];
         try {
           if (clientApi.progress.getAllSeriesProgress) {
-            seriesProgress = await clientApi.progress.getAllSeriesProgress(apiBaseUrl, user.id);
+            seriesProgress = await clientApi.progress.getAllSeriesProgress(apiBaseUrl);
           }
         } catch (error) {
           console.error('Series progress API not available or failed:', error);
@@ -88,21 +90,23 @@ export function ContinueWatching() {
           return;
         }
 
-        // Process movie progress items
+        // Process movie progress items, leaving out movies that were finished
         const movieItems = await Promise.all(
-          safeMovieProgress.map(async (item) => {
-            try {
-              const movie = await clientApi.movies.getById(item.tmdbId, apiBaseUrl);
-              return {
-                ...item,
-                type: 'movie' as const,
-                movie,
-              } as MovieProgressItem;
-            } catch (error) {
-              console.error(`Error fetching movie ${item.tmdbId}:`, error);
-              return null;
-            }
-          })
+          safeMovieProgress
+            .filter((item) => !item.completed)
+            .map(async (item) => {
+              try {
+                const movie = await clientApi.movies.getById(item.tmdbId, apiBaseUrl);
+                return {
+                  ...item,
+                  type: 'movie' as const,
+                  movie,
+                } as MovieProgressItem;
+              } catch (error) {
+                console.error(`Error fetching movie ${item.tmdbId}:`, error);
+                return null;
+              }
+            })
         );
 
         // Process series progress items
@@ -147,9 +151,9 @@ export function ContinueWatching() {
 
     try {
       if (item.type === 'movie') {
-        await clientApi.progress.deleteProgress(apiBaseUrl, user.id, item.tmdbId);
+        await clientApi.progress.deleteProgress(apiBaseUrl, item.tmdbId);
       } else {
-        await clientApi.progress.deleteSeriesProgress(apiBaseUrl, user.id, item.seriesId);
+        await clientApi.progress.deleteSeriesProgress(apiBaseUrl, item.seriesId);
       }
 
       // Remove the item from the local state
@@ -236,8 +240,9 @@ function ContinueWatchingCard({
   // Get common properties based on item type
   const getItemData = () => {
     if (item.type === 'movie') {
-      const runtime = item.movie.runtime || 120;
-      const progressPercent = Math.min(Math.round((item.currentTime / (runtime * 60)) * 100), 100);
+      // The duration the player reported, else the runtime from TMDB
+      const length = item.duration || (item.movie.runtime || 120) * 60;
+      const progressPercent = Math.min(Math.round((item.currentTime / length) * 100), 100);
 
       return {
         title: item.movie.title,
@@ -248,9 +253,8 @@ function ContinueWatchingCard({
         badge: { icon: Film, text: 'Movie' },
       };
     } else {
-      // For series, we don't have episode runtime, so we'll estimate progress differently
-      // Assume 45 minutes per episode as default
-      const estimatedEpisodeRuntime = 45 * 60; // 45 minutes in seconds
+      // Episodes have no runtime, so without a duration from the player assume 45 minutes
+      const estimatedEpisodeRuntime = item.duration || 45 * 60; // 45 minutes in seconds
       const progressPercent = Math.min(
         Math.round((item.currentTime / estimatedEpisodeRuntime) * 100),
         100
@@ -277,7 +281,7 @@ function ContinueWatchingCard({
         <Card className="overflow-hidden bg-gray-900 border-gray-800 transition-all hover:scale-105 hover:border-gray-700">
           <div className="relative aspect-[2/3]">
             <Image
-              src={api.utils.getTmdbImageUrl(itemData.posterPath || '', 'w500')}
+              src={api.utils.getImageUrl(itemData.posterPath || '', 500)}
               alt={itemData.title}
               fill
               className="object-cover"
@@ -178,10 +178,7 @@ export function GenreCarousel({ genre, type, className }: GenreCarouselProps) {
               <Card className="bg-gray-900/50 border-gray-800 hover:border-red-500/50 transition-all duration-300 group-hover:scale-105">
                 <div className="relative aspect-[2/3] overflow-hidden rounded-t-lg">
                   <Image
-                    src={api.utils.getTmdbImageUrl(
-                      item.posterPath || "",
-                      "w500"
-                    )}
+                    src={api.utils.getImageUrl(item.posterPath || "", 500)}
                     alt={item.title}
                     fill
                     className="object-cover transition-transform duration-300 group-hover:scale-110"
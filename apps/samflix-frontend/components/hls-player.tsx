@@ -70,7 +70,7 @@ interface HLSPlayerProps {
   tmdbId?: string;
   clerkId?: string;
   initialTime?: number;
-  onTimeUpdate?: (currentTime: number) => void;
+  onTimeUpdate?: (currentTime: number, duration: number) => void;
   nextEpisode?: NextEpisodeInfo;
 }
 
@@ -424,7 +424,7 @@ export function HLSPlayer({
 
       // Call the onTimeUpdate callback if provided
       if (onTimeUpdate) {
-        onTimeUpdate(time);
+        onTimeUpdate(time, duration);
       }
 
       // We don't need to save progress for very short watches (less than 10 seconds)
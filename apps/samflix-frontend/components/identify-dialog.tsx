@@ -0,0 +1,220 @@
+'use client';
+
+import { useState } from 'react';
+import { Search, Wand2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { ApiError, clientApi } from '@/lib/api';
+import type { MatchCandidate } from '@/lib/types';
+import { useApiUrl } from '@/contexts/api-url-context';
+import { useAuthContext } from '@/contexts/auth-context';
+
+interface IdentifyDialogProps {
+  mediaType: 'movie' | 'series';
+  id: string;
+  title: string;
+  tmdbId: number;
+  onIdentified?: (id: string) => void; // The ID changes when a series merges into another
+}
+
+/**
+ * Admin dialog to search TMDB and re-bind a movie or series that was matched wrongly
+ */
+export function IdentifyDialog({
+  mediaType,
+  id,
+  title,
+  tmdbId,
+  onIdentified,
+}: IdentifyDialogProps) {
+  const { isAdmin } = useAuthContext();
+  const { apiBaseUrl } = useApiUrl();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState(title);
+  const [year, setYear] = useState('');
+  const [candidates, setCandidates] = useState<MatchCandidate[] | null>(null);
+  const [selected, setSelected] = useState<MatchCandidate | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const api = mediaType === 'movie' ? clientApi.movies : clientApi.series;
+
+  const handleSearch = async () => {
+    if (!apiBaseUrl) return;
+    setSearching(true);
+    setSelected(null);
+    try {
+      setCandidates(
+        await api.searchMatches(apiBaseUrl, id, {
+          query: query.trim() || undefined,
+          year: year ? parseInt(year) : undefined,
+        })
+      );
+    } catch (error) {
+      console.error('Error searching TMDB:', error);
+      toast.error('Failed to search TMDB');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleIdentify = async () => {
+    if (!apiBaseUrl || !selected) return;
+    setSaving(true);
+    try {
+      const result = await api.identify(apiBaseUrl, id, selected.id);
+      toast.success(`Matched to ${selected.title ?? selected.name}`);
+      setOpen(false);
+      setCandidates(null);
+      onIdentified?.('series' in result ? result.series.id : result.id);
+    } catch (error) {
+      console.error('Error identifying media:', error);
+      toast.error(
+        error instanceof ApiError && error.response?.error
+          ? error.response.error
+          : 'Failed to fix the match'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isAdmin) {
+    return null;
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (value && !candidates) handleSearch();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="border-gray-600 text-gray-300 hover:bg-white/10"
+        >
+          <Wand2 className="w-4 h-4 mr-2" />
+          Fix Match
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-gray-900 border-gray-800 text-white max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Fix Match</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Currently matched to TMDB {tmdbId}. Search for the correct{' '}
+            {mediaType === 'movie' ? 'movie' : 'series'}; watch progress is kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSearch();
+          }}
+        >
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Title"
+            className="bg-gray-800 border-gray-700 text-white flex-1"
+          />
+          <Input
+            value={year}
+            onChange={(e) => setYear(e.target.value.replace(/\D/g, '').slice(0, 4))}
+            placeholder="Year"
+            className="bg-gray-800 border-gray-700 text-white w-24"
+          />
+          <Button type="submit" disabled={searching} className="bg-red-600 hover:bg-red-700">
+            <Search className="w-4 h-4 mr-2" />
+            {searching ? 'Searching...' : 'Search'}
+          </Button>
+        </form>
+
+        <div className="overflow-y-auto flex-1 space-y-3 pr-1">
+          {candidates?.length === 0 && (
+            <p className="text-sm text-gray-400 py-8 text-center">No TMDB results</p>
+          )}
+          {candidates?.map((candidate) => (
+            <div
+              key={candidate.id}
+              onClick={() => setSelected(candidate)}
+              className={`flex gap-4 p-3 rounded-lg border cursor-pointer transition-colors ${
+                selected?.id === candidate.id
+                  ? 'bg-red-600/20 border-red-500'
+                  : 'bg-gray-800 border-gray-700 hover:border-gray-600'
+              }`}
+            >
+              {candidate.poster_path ? (
+                <img
+                  src={clientApi.utils.getImageUrl(candidate.poster_path, 154)}
+                  alt={candidate.title ?? candidate.name}
+                  className="w-16 h-24 object-cover rounded"
+                />
+              ) : (
+                <div className="w-16 h-24 bg-gray-700 rounded flex-shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <h4 className="font-semibold">{candidate.title ?? candidate.name}</h4>
+                    <p className="text-xs text-gray-400">
+                      {(candidate.release_date ?? candidate.first_air_date)?.slice(0, 4) ||
+                        'Unknown year'}{' '}
+                      • TMDB {candidate.id}
+                      {candidate.id === tmdbId && ' • current match'}
+                    </p>
+                  </div>
+                  <Badge
+                    className={
+                      candidate.score >= 0.8
+                        ? 'bg-green-600'
+                        : candidate.score >= 0.5
+                          ? 'bg-yellow-600'
+                          : 'bg-gray-600'
+                    }
+                  >
+                    {Math.round(candidate.score * 100)}% match
+                  </Badge>
+                </div>
+                <p className="text-sm text-gray-300 mt-1 line-clamp-2">{candidate.overview}</p>
+                <p className="text-xs text-gray-500 mt-1">{candidate.reasons.join(' • ')}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2 pt-2 border-t border-gray-800">
+          <Button
+            onClick={handleIdentify}
+            disabled={!selected || selected.id === tmdbId || saving}
+            className="flex-1 bg-green-600 hover:bg-green-700 disabled:opacity-50"
+          >
+            {saving ? 'Updating...' : 'Use Selected Match'}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setOpen(false)}
+            className="flex-1 border-gray-600 text-gray-300 hover:bg-white/10"
+          >
+            Cancel
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Languages } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ApiError, clientApi, getPreferredLanguage, setPreferredLanguage } from '@/lib/api';
+import { useApiUrl } from '@/contexts/api-url-context';
+import { useAuthContext } from '@/contexts/auth-context';
+
+// Select items can't have an empty value, so this one stands for the browser's language
+const BROWSER_LANGUAGE = 'browser';
+
+function languageName(language: string): string {
+  try {
+    return new Intl.DisplayNames([language], { type: 'language' }).of(language) ?? language;
+  } catch {
+    return language;
+  }
+}
+
+/**
+ * Lets a signed-in user, or their profile, pick the language titles and overviews are shown in
+ * Hidden when the server only has English metadata
+ */
+export function LanguageSelect() {
+  const { userId } = useAuthContext();
+  const { apiBaseUrl } = useApiUrl();
+  const [languages, setLanguages] = useState<string[]>([]);
+  const [language, setLanguage] = useState<string | null>(getPreferredLanguage());
+
+  useEffect(() => {
+    if (!apiBaseUrl || !userId) return;
+
+    const loadPreference = async () => {
+      setLanguages(await clientApi.preferences.getLanguages(apiBaseUrl));
+      // The saved preference wins over what another account or profile left in this browser
+      const { preferredLanguage } = await clientApi.preferences.get(apiBaseUrl);
+      if (preferredLanguage !== getPreferredLanguage()) {
+        setPreferredLanguage(preferredLanguage);
+        window.location.reload();
+      }
+    };
+
+    loadPreference().catch((error) => {
+      // Users the webhook hasn't created yet have no preferences
+      if (!(error instanceof ApiError && error.status === 404)) {
+        console.error('Error loading language preference:', error);
+      }
+    });
+  }, [apiBaseUrl, userId]);
+
+  if (languages.length < 2) return null;
+
+  const handleChange = async (value: string) => {
+    if (!apiBaseUrl || !userId) return;
+    const preferredLanguage = value === BROWSER_LANGUAGE ? null : value;
+    try {
+      await clientApi.preferences.update(apiBaseUrl, { preferredLanguage });
+      setLanguage(preferredLanguage);
+      setPreferredLanguage(preferredLanguage);
+      // Pages fetched their titles already; reload them in the new language
+      window.location.reload();
+    } catch (error) {
+      console.error('Error saving language preference:', error);
+      toast.error('Failed to change the language');
+    }
+  };
+
+  return (
+    <Select value={language ?? BROWSER_LANGUAGE} onValueChange={handleChange}>
+      <SelectTrigger className="w-auto gap-2 border-gray-700 bg-transparent" aria-label="Language">
+        <Languages className="w-4 h-4" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={BROWSER_LANGUAGE}>Browser language</SelectItem>
+        {languages.map((code) => (
+          <SelectItem key={code} value={code}>
+            {languageName(code)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
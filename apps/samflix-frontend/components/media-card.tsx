@@ -48,7 +48,7 @@ export function MediaCard({ item, type, className, showPlayOverlay = true }: Med
         {/* Poster Image - Fixed aspect ratio */}
         <div className="relative aspect-[2/3] overflow-hidden rounded-t-lg flex-shrink-0">
           <Image
-            src={api.utils.getTmdbImageUrl(item.posterPath || '', 'w500')}
+            src={api.utils.getImageUrl(item.posterPath || '', 500)}
             alt={item.title}
             fill
             className="object-cover transition-transform duration-300 group-hover:scale-110"
@@ -79,7 +79,7 @@ export function MixedHeroCarousel({ items, loading = false }: MixedHeroCarouselP
           {items.map((item, index) => (
             <div key={item.id} className="flex-[0_0_100%] min-w-0 relative h-full">
               <Image
-                src={api.utils.getTmdbImageUrl(item.backdropPath || '', 'original')}
+                src={api.utils.getImageUrl(item.backdropPath || '')}
                 alt={item.title}
                 fill
                 className="object-cover"
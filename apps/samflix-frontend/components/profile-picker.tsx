@@ -0,0 +1,598 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Lock, Pencil, Plus, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ApiError, clientApi } from '@/lib/api';
+import type { ParentalControls, Profile, ProfileInput } from '@/lib/types';
+import { useApiUrl } from '@/contexts/api-url-context';
+import { useProfiles } from '@/contexts/profile-context';
+
+// Profiles an account can have, as enforced by the server
+const MAX_PROFILES = 5;
+
+// Avatar keys saved on profiles, and the colors they are drawn in
+export const PROFILE_AVATARS: Record<string, string> = {
+  red: 'bg-red-600',
+  blue: 'bg-blue-600',
+  green: 'bg-green-600',
+  yellow: 'bg-yellow-500',
+  purple: 'bg-purple-600',
+  pink: 'bg-pink-500',
+};
+
+// Select items can't have an empty value, so this one stands for no maturity limit
+const NO_LIMIT = 'none';
+
+// Maturity limits a profile can have: the highest minimum age of content it may watch
+export const MATURITY_LIMITS: { value: number | null; label: string }[] = [
+  { value: null, label: 'All maturity ratings' },
+  { value: 16, label: 'Up to 16+' },
+  { value: 13, label: 'Up to 13+' },
+  { value: 7, label: 'Up to 7+' },
+  { value: 0, label: 'All ages only' },
+];
+
+const EMPTY_PROFILE: ProfileInput = {
+  name: '',
+  avatar: 'red',
+  maturityLimit: null,
+  preferredLanguage: null,
+};
+
+// Message of a failed request, for toasts
+const errorMessage = (error: unknown, fallback: string): string =>
+  error instanceof ApiError && error.response?.error ? error.response.error : fallback;
+
+/**
+ * The colored initial standing for a profile
+ */
+export function ProfileAvatar({
+  profile,
+  className = 'w-8 h-8 text-sm',
+}: {
+  profile: Pick<Profile, 'name' | 'avatar'>;
+  className?: string;
+}) {
+  const color = PROFILE_AVATARS[profile.avatar ?? ''] ?? PROFILE_AVATARS.red;
+  return (
+    <div
+      className={`${color} ${className} rounded-md flex items-center justify-center font-bold uppercase select-none`}
+    >
+      {profile.name.trim().charAt(0) || '?'}
+    </div>
+  );
+}
+
+/**
+ * Input for a PIN of 4 to 8 digits
+ */
+function PinInput({
+  value,
+  onChange,
+  placeholder,
+  autoFocus,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder: string;
+  autoFocus?: boolean;
+}) {
+  return (
+    <Input
+      type="password"
+      inputMode="numeric"
+      autoComplete="off"
+      value={value}
+      onChange={(e) => onChange(e.target.value.replace(/\D/g, '').slice(0, 8))}
+      placeholder={placeholder}
+      className="bg-gray-800 border-gray-700 text-white"
+      autoFocus={autoFocus}
+    />
+  );
+}
+
+const isValidPin = (pin: string): boolean => /^\d{4,8}$/.test(pin);
+
+/**
+ * Select for one of the maturity limits
+ */
+function MaturitySelect({
+  value,
+  onChange,
+}: {
+  value: number | null;
+  onChange: (value: number | null) => void;
+}) {
+  return (
+    <Select
+      value={value === null ? NO_LIMIT : String(value)}
+      onValueChange={(selected) => onChange(selected === NO_LIMIT ? null : Number(selected))}
+    >
+      <SelectTrigger className="bg-gray-800 border-gray-700" aria-label="Maturity limit">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {MATURITY_LIMITS.map(({ value, label }) => (
+          <SelectItem key={label} value={value === null ? NO_LIMIT : String(value)}>
+            {label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface ProfileDialogProps {
+  profile: Profile | null; // null adds a profile
+  parentalPinSet: boolean; // Changes to limits and PINs take the parental PIN
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Dialog to add a profile, or to change or delete one
+ */
+function ProfileDialog({ profile, parentalPinSet, open, onOpenChange }: ProfileDialogProps) {
+  const { apiBaseUrl } = useApiUrl();
+  const { refreshProfiles } = useProfiles();
+  const [form, setForm] = useState<ProfileInput>(profile ?? EMPTY_PROFILE);
+  const [pin, setPin] = useState('');
+  const [removePin, setRemovePin] = useState(false);
+  const [parentalPin, setParentalPin] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    if (!apiBaseUrl) return;
+    setSaving(true);
+    try {
+      await action();
+      await refreshProfiles();
+      onOpenChange(false);
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast.error(errorMessage(error, failure));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    // Only what changed is sent, so renaming a profile doesn't take the parental PIN
+    const input: Partial<ProfileInput> = { name: form.name.trim(), avatar: form.avatar };
+    if (!profile || form.maturityLimit !== profile.maturityLimit) {
+      input.maturityLimit = form.maturityLimit;
+    }
+    if (pin) {
+      input.pin = pin;
+    } else if (removePin) {
+      input.pin = null;
+    }
+
+    run(
+      () =>
+        profile
+          ? clientApi.profiles.update(apiBaseUrl, profile.id, input, parentalPin)
+          : clientApi.profiles.create(
+              apiBaseUrl,
+              { ...EMPTY_PROFILE, ...input } as ProfileInput,
+              parentalPin
+            ),
+      'Failed to save the profile'
+    );
+  };
+
+  const handleDelete = () => {
+    if (!profile || !confirm(`Delete ${profile.name}? Their progress is deleted too.`)) return;
+    run(
+      () => clientApi.profiles.delete(apiBaseUrl, profile.id, parentalPin),
+      'Failed to delete the profile'
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 border-gray-800 text-white max-w-md">
+        <DialogHeader>
+          <DialogTitle>{profile ? 'Edit Profile' : 'Add Profile'}</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Each profile keeps its own progress, language and maturity limit.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave();
+          }}
+        >
+          <div className="flex items-center gap-4">
+            <ProfileAvatar profile={form} className="w-16 h-16 text-2xl flex-shrink-0" />
+            <Input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value.slice(0, 50) })}
+              placeholder="Name"
+              className="bg-gray-800 border-gray-700 text-white"
+              autoFocus
+            />
+          </div>
+
+          <div className="flex gap-2">
+            {Object.entries(PROFILE_AVATARS).map(([key, color]) => (
+              <button
+                key={key}
+                type="button"
+                aria-label={key}
+                onClick={() => setForm({ ...form, avatar: key })}
+                className={`${color} w-8 h-8 rounded-md transition-transform ${
+                  form.avatar === key
+                    ? 'ring-2 ring-white scale-110'
+                    : 'opacity-70 hover:opacity-100'
+                }`}
+              />
+            ))}
+          </div>
+
+          <MaturitySelect
+            value={form.maturityLimit}
+            onChange={(maturityLimit) => setForm({ ...form, maturityLimit })}
+          />
+
+          <div className="space-y-2">
+            <PinInput
+              value={pin}
+              onChange={(value) => {
+                setPin(value);
+                setRemovePin(false);
+              }}
+              placeholder={profile?.hasPin ? 'New profile PIN' : 'Profile PIN (optional)'}
+            />
+            {profile?.hasPin && !pin && (
+              <label className="flex items-center gap-2 text-sm text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={removePin}
+                  onChange={(e) => setRemovePin(e.target.checked)}
+                />
+                Remove the profile PIN
+              </label>
+            )}
+          </div>
+
+          {parentalPinSet && (
+            <PinInput
+              value={parentalPin}
+              onChange={setParentalPin}
+              placeholder="Parental PIN (for limits, PINs and adding or deleting)"
+            />
+          )}
+
+          <div className="flex gap-2 pt-2 border-t border-gray-800">
+            <Button
+              type="submit"
+              disabled={!form.name.trim() || (!!pin && !isValidPin(pin)) || saving}
+              className="flex-1 bg-red-600 hover:bg-red-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+            {profile && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleDelete}
+                disabled={saving}
+                className="flex-1 border-gray-600 text-gray-300 hover:bg-white/10"
+              >
+                Delete Profile
+              </Button>
+            )}
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Dialog asking for the PIN of a locked profile before picking it
+ */
+function UnlockDialog({
+  profile,
+  onOpenChange,
+}: {
+  profile: Profile;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { apiBaseUrl } = useApiUrl();
+  const { selectProfile } = useProfiles();
+  const [pin, setPin] = useState('');
+  const [checking, setChecking] = useState(false);
+
+  const handleUnlock = async () => {
+    if (!apiBaseUrl) return;
+    setChecking(true);
+    try {
+      selectProfile(profile, await clientApi.profiles.unlock(apiBaseUrl, profile.id, pin));
+    } catch (error) {
+      console.error('Error unlocking profile:', error);
+      toast.error(errorMessage(error, 'Failed to unlock the profile'));
+      setPin('');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 border-gray-800 text-white max-w-xs">
+        <DialogHeader>
+          <DialogTitle>{profile.name}</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Enter the PIN to open this profile.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleUnlock();
+          }}
+        >
+          <PinInput value={pin} onChange={setPin} placeholder="PIN" autoFocus />
+          <Button
+            type="submit"
+            disabled={!pin || checking}
+            className="w-full bg-red-600 hover:bg-red-700 disabled:opacity-50"
+          >
+            {checking ? 'Checking...' : 'Open Profile'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Dialog for the account's parental controls: the maturity limit applied without a profile and
+ * the parental PIN
+ */
+function ParentalControlsDialog({
+  controls,
+  onSaved,
+  onOpenChange,
+}: {
+  controls: ParentalControls;
+  onSaved: (controls: ParentalControls) => void;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { apiBaseUrl } = useApiUrl();
+  const [maturityLimit, setMaturityLimit] = useState(controls.maturityLimit);
+  const [pin, setPin] = useState('');
+  const [removePin, setRemovePin] = useState(false);
+  const [currentPin, setCurrentPin] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!apiBaseUrl) return;
+    setSaving(true);
+    try {
+      const saved = await clientApi.parentalControls.update(
+        apiBaseUrl,
+        { maturityLimit, ...(pin ? { pin } : removePin && { pin: null }) },
+        currentPin
+      );
+      toast.success('Parental controls saved');
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving parental controls:', error);
+      toast.error(errorMessage(error, 'Failed to save parental controls'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 border-gray-800 text-white max-w-md">
+        <DialogHeader>
+          <DialogTitle>Parental Controls</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            The parental PIN is asked for to change maturity limits and PINs, and to add or delete
+            profiles.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave();
+          }}
+        >
+          <div className="space-y-2">
+            <p className="text-sm text-gray-400">Maturity limit without a profile</p>
+            <MaturitySelect value={maturityLimit} onChange={setMaturityLimit} />
+          </div>
+
+          <div className="space-y-2">
+            <PinInput
+              value={pin}
+              onChange={(value) => {
+                setPin(value);
+                setRemovePin(false);
+              }}
+              placeholder={controls.hasPin ? 'New parental PIN' : 'Parental PIN (4 to 8 digits)'}
+            />
+            {controls.hasPin && !pin && (
+              <label className="flex items-center gap-2 text-sm text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={removePin}
+                  onChange={(e) => setRemovePin(e.target.checked)}
+                />
+                Remove the parental PIN
+              </label>
+            )}
+          </div>
+
+          {controls.hasPin && (
+            <PinInput
+              value={currentPin}
+              onChange={setCurrentPin}
+              placeholder="Current parental PIN"
+            />
+          )}
+
+          <Button
+            type="submit"
+            disabled={(!!pin && !isValidPin(pin)) || saving}
+            className="w-full bg-red-600 hover:bg-red-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * "Who's watching?" screen where a member of the household picks their profile, or adds and
+ * manages profiles
+ */
+export function ProfilePicker() {
+  const { apiBaseUrl } = useApiUrl();
+  const { profiles, selectProfile } = useProfiles();
+  const [managing, setManaging] = useState(false);
+  const [editing, setEditing] = useState<Profile | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [unlocking, setUnlocking] = useState<Profile | null>(null);
+  const [controls, setControls] = useState<ParentalControls | null>(null);
+  const [controlsOpen, setControlsOpen] = useState(false);
+
+  useEffect(() => {
+    if (!apiBaseUrl) return;
+    clientApi.parentalControls
+      .get(apiBaseUrl)
+      .then(setControls)
+      .catch((error) => console.error('Error loading parental controls:', error));
+  }, [apiBaseUrl]);
+
+  const openDialog = (profile: Profile | null) => {
+    setEditing(profile);
+    setDialogOpen(true);
+  };
+
+  const handlePick = (profile: Profile) => {
+    if (managing) {
+      openDialog(profile);
+    } else if (profile.hasPin) {
+      setUnlocking(profile);
+    } else {
+      selectProfile(profile);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center gap-10 px-4">
+      <h1 className="text-3xl md:text-5xl font-bold">
+        {managing ? 'Manage Profiles' : "Who's watching?"}
+      </h1>
+
+      <div className="flex flex-wrap justify-center gap-6">
+        {profiles.map((profile) => (
+          <button
+            key={profile.id}
+            onClick={() => handlePick(profile)}
+            className="group flex flex-col items-center gap-3 w-28"
+          >
+            <div className="relative">
+              <ProfileAvatar
+                profile={profile}
+                className="w-28 h-28 text-5xl group-hover:ring-4 group-hover:ring-white transition-shadow"
+              />
+              {managing && (
+                <div className="absolute inset-0 flex items-center justify-center bg-black/50 rounded-md">
+                  <Pencil className="w-8 h-8" />
+                </div>
+              )}
+            </div>
+            <span className="flex items-center gap-1 text-gray-400 group-hover:text-white truncate max-w-full">
+              {profile.name}
+              {profile.hasPin && <Lock className="w-3 h-3 flex-shrink-0" />}
+            </span>
+          </button>
+        ))}
+
+        {profiles.length < MAX_PROFILES && (
+          <button
+            onClick={() => openDialog(null)}
+            className="group flex flex-col items-center gap-3 w-28"
+          >
+            <div className="w-28 h-28 rounded-md border-2 border-gray-700 flex items-center justify-center group-hover:border-white transition-colors">
+              <Plus className="w-12 h-12 text-gray-500 group-hover:text-white" />
+            </div>
+            <span className="text-gray-400 group-hover:text-white">Add Profile</span>
+          </button>
+        )}
+      </div>
+
+      {profiles.length > 0 && (
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setManaging(!managing)}
+            className="border-gray-600 text-gray-300 hover:bg-white/10"
+          >
+            {managing ? 'Done' : 'Manage Profiles'}
+          </Button>
+          {managing && controls && (
+            <Button
+              variant="outline"
+              onClick={() => setControlsOpen(true)}
+              className="border-gray-600 text-gray-300 hover:bg-white/10"
+            >
+              <ShieldCheck className="w-4 h-4 mr-2" />
+              Parental Controls
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* Mounted on opening so the form starts from the profile's values */}
+      {dialogOpen && (
+        <ProfileDialog
+          profile={editing}
+          parentalPinSet={!!controls?.hasPin}
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+        />
+      )}
+      {unlocking && <UnlockDialog profile={unlocking} onOpenChange={() => setUnlocking(null)} />}
+      {controlsOpen && controls && (
+        <ParentalControlsDialog
+          controls={controls}
+          onSaved={setControls}
+          onOpenChange={setControlsOpen}
+        />
+      )}
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import {
   Film,
   Tv,
   Grid3X3,
+  Layers,
   Search,
   Home,
   Settings,
@@ -19,6 +20,9 @@ import { IconLogin } from "@tabler/icons-react";
 import { Button } from "@/components/ui/button";
 import { Bebas_Neue } from "next/font/google";
 import { useAuthContext } from "@/contexts/auth-context";
+import { useProfiles } from "@/contexts/profile-context";
+import { LanguageSelect } from "@/components/language-select";
+import { ProfileAvatar } from "@/components/profile-picker";
 
 const bebasNeue = Bebas_Neue({
   weight: "400",
@@ -30,18 +34,31 @@ export function Navbar() {
   const [isOpen, setIsOpen] = useState(false);
   const pathname = usePathname();
   const { isAdmin } = useAuthContext();
+  const { activeProfile, switchProfile } = useProfiles();
 
   const navItems = [
     { href: "/", label: "Home", icon: Home },
     { href: "/movies", label: "Movies", icon: Film },
     { href: "/series", label: "TV Series", icon: Tv },
     { href: "/genres", label: "Genres", icon: Grid3X3 },
+    { href: "/collections", label: "Collections", icon: Layers },
   ];
 
   const adminItems = [
     { href: "/admin", label: "Admin", icon: Settings },
   ];
 
+  // Back to "Who's watching?"
+  const profileButton = activeProfile && (
+    <button
+      onClick={switchProfile}
+      title={`${activeProfile.name} - switch profile`}
+      aria-label="Switch profile"
+    >
+      <ProfileAvatar profile={activeProfile} />
+    </button>
+  );
+
   const isActive = (href: string) => {
     if (href === "/") return pathname === "/";
     return pathname.startsWith(href);
@@ -116,6 +133,8 @@ export function Navbar() {
                   </Link>
                 );
               })}
+              <LanguageSelect />
+              {profileButton}
               <UserButton />
             </SignedIn>
           </div>
@@ -123,6 +142,7 @@ export function Navbar() {
           {/* Mobile Menu Button */}
           <div className="md:hidden flex items-center gap-2">
             <SignedIn>
+              {profileButton}
               <UserButton />
             </SignedIn>
             <SignedOut>
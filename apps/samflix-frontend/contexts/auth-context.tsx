@@ -2,6 +2,7 @@
 
 import React, { createContext, useContext, useState, useEffect } from "react";
 import { useAuth as useClerkAuth, useUser } from "@clerk/nextjs";
+import { setAuthTokenGetter } from "@/lib/api";
 
 type AuthContextType = {
   isAuthenticated: boolean;
@@ -14,10 +15,14 @@ type AuthContextType = {
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
-  const { isLoaded: isClerkLoaded, userId } = useClerkAuth();
+  const { isLoaded: isClerkLoaded, userId, getToken } = useClerkAuth();
   const { user, isLoaded: isUserLoaded } = useUser();
   const [isLoading, setIsLoading] = useState(true);
 
+  // API requests send the session token; registered while rendering so the first requests of
+  // child components, made in their effects, already have it. getToken waits for Clerk to load
+  setAuthTokenGetter(getToken);
+
   useEffect(() => {
     // Consider auth ready when both clerk auth and user data are loaded
     if (isClerkLoaded && isUserLoaded) {
@@ -0,0 +1,133 @@
+"use client";
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from "react";
+import {
+  ApiError,
+  clientApi,
+  getActiveProfileId,
+  getPreferredLanguage,
+  setActiveProfileId,
+  setPreferredLanguage,
+} from "@/lib/api";
+import type { Profile } from "@/lib/types";
+import { useApiUrl } from "@/contexts/api-url-context";
+import { useAuthContext } from "@/contexts/auth-context";
+import { ProfilePicker } from "@/components/profile-picker";
+
+// Errors of requests sent for a profile that was deleted or locked since, or
+// whose unlock token expired
+const STALE_PROFILE_ERRORS = ["Unknown profile", "Profile locked"];
+
+type ProfileContextType = {
+  profiles: Profile[];
+  activeProfile: Profile | null;
+  // unlockToken of locked profiles, as their PIN was exchanged for
+  selectProfile: (profile: Profile, unlockToken?: string) => void;
+  switchProfile: () => void; // Back to "Who's watching?"
+  refreshProfiles: () => Promise<void>;
+};
+
+const ProfileContext = createContext<ProfileContextType | undefined>(undefined);
+
+/**
+ * Asks signed-in users who's watching before showing the app, and keeps the
+ * profile they pick for API requests
+ * Signed-out users, and users whose profiles can't be loaded, go straight in
+ */
+export function ProfileProvider({ children }: { children: React.ReactNode }) {
+  const { isAuthenticated, isLoading: isAuthLoading } = useAuthContext();
+  const { apiBaseUrl } = useApiUrl();
+  const [profiles, setProfiles] = useState<Profile[] | null>(null);
+  const [unavailable, setUnavailable] = useState(false);
+  const [activeProfileId, setActiveProfileIdState] = useState<string | null>(
+    getActiveProfileId()
+  );
+
+  const clearActiveProfile = useCallback(() => {
+    setActiveProfileId(null);
+    setActiveProfileIdState(null);
+  }, []);
+
+  const refreshProfiles = useCallback(async () => {
+    try {
+      setProfiles(await clientApi.profiles.getAll(apiBaseUrl));
+    } catch (error) {
+      // The profile picked earlier was deleted or locked on another device
+      if (
+        error instanceof ApiError &&
+        STALE_PROFILE_ERRORS.includes(error.response?.error)
+      ) {
+        clearActiveProfile();
+        setProfiles(await clientApi.profiles.getAll(apiBaseUrl));
+      } else {
+        throw error;
+      }
+    }
+  }, [apiBaseUrl, clearActiveProfile]);
+
+  useEffect(() => {
+    if (!isAuthenticated || !apiBaseUrl) {
+      setProfiles(null);
+      return;
+    }
+
+    refreshProfiles().catch((error) => {
+      // e.g. users the webhook hasn't created yet
+      console.error("Error loading profiles:", error);
+      setUnavailable(true);
+      setProfiles([]);
+    });
+  }, [isAuthenticated, apiBaseUrl, refreshProfiles]);
+
+  const selectProfile = useCallback(
+    (profile: Profile, unlockToken?: string) => {
+      setActiveProfileId(profile.id, unlockToken ?? null);
+      // Pages render after this, so they are fetched in the profile's language
+      if (profile.preferredLanguage !== getPreferredLanguage()) {
+        setPreferredLanguage(profile.preferredLanguage);
+      }
+      setActiveProfileIdState(profile.id);
+    },
+    []
+  );
+
+  const activeProfile =
+    profiles?.find((profile) => profile.id === activeProfileId) ?? null;
+
+  const value = {
+    profiles: profiles ?? [],
+    activeProfile,
+    selectProfile,
+    switchProfile: clearActiveProfile,
+    refreshProfiles,
+  };
+
+  let content = children;
+  if (isAuthLoading || (isAuthenticated && profiles === null)) {
+    content = (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  } else if (isAuthenticated && !unavailable && !activeProfile) {
+    content = <ProfilePicker />;
+  }
+
+  return (
+    <ProfileContext.Provider value={value}>{content}</ProfileContext.Provider>
+  );
+}
+
+export const useProfiles = () => {
+  const context = useContext(ProfileContext);
+  if (context === undefined) {
+    throw new Error("useProfiles must be used within a ProfileProvider");
+  }
+  return context;
+};
@@ -0,0 +1,43 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { clientApi } from "@/lib/api";
+import { useApiUrl } from "@/contexts/api-url-context";
+
+/**
+ * Custom hook to fetch the signed URL a movie or episode streams from
+ *
+ * @param {"movie"|"episode"} type - What is played
+ * @param {string|null} id - The ID of the movie or episode, or null while nothing plays
+ * @returns {string} The signed URL, or an empty string until it has loaded
+ */
+export function useStreamUrl(type: "movie" | "episode", id: string | null) {
+  const { apiBaseUrl } = useApiUrl();
+  const [url, setUrl] = useState("");
+
+  useEffect(() => {
+    setUrl("");
+    if (!apiBaseUrl || !id) return;
+
+    let cancelled = false;
+    const request =
+      type === "movie"
+        ? clientApi.stream.getMovieUrl(apiBaseUrl, id)
+        : clientApi.stream.getEpisodeUrl(apiBaseUrl, id);
+    request
+      .then((signedUrl) => {
+        if (!cancelled) setUrl(signedUrl);
+      })
+      .catch((error) => {
+        console.error("Error loading stream:", error);
+        if (!cancelled) toast.error("Failed to load video");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [apiBaseUrl, type, id]);
+
+  return url;
+}
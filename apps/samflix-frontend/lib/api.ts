@@ -2,12 +2,119 @@ import type {
   Movie,
   TvSeries,
   Episode,
+  Season,
   MediaFolder,
   ScanningConflict,
+  MatchCandidate,
+  ScanJob,
+  ScanJobStatus,
   PaginatedResponse,
+  UserPreferences,
+  Person,
+  PersonCredits,
+  CollectionSummary,
+  CollectionDetails,
+  CollectionContinuation,
+  EpisodeGuideStatus,
+  GuideEpisode,
+  GuideSeries,
+  ParentalControls,
+  ParentalControlsInput,
+  PlaybackState,
+  Profile,
+  ProfileInput,
 } from "./types";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL as string;
+const PREFERRED_LANGUAGE_KEY = "samflix-preferred-language";
+const ACTIVE_PROFILE_KEY = "samflix-active-profile";
+const ACTIVE_PROFILE_TOKEN_KEY = "samflix-active-profile-token";
+
+// Metadata language the user picked; the browser's Accept-Language applies otherwise
+let preferredLanguage: string | null =
+  typeof window !== "undefined"
+    ? window.localStorage.getItem(PREFERRED_LANGUAGE_KEY)
+    : null;
+
+// Sets the language API requests ask for, remembered across reloads
+export function setPreferredLanguage(language: string | null): void {
+  preferredLanguage = language;
+  if (language) {
+    window.localStorage.setItem(PREFERRED_LANGUAGE_KEY, language);
+  } else {
+    window.localStorage.removeItem(PREFERRED_LANGUAGE_KEY);
+  }
+}
+
+export function getPreferredLanguage(): string | null {
+  return preferredLanguage;
+}
+
+// Profile picked in "Who's watching?"; kept for the browser session only, so a
+// shared device asks again the next time the app is opened
+let activeProfileId: string | null =
+  typeof window !== "undefined"
+    ? window.sessionStorage.getItem(ACTIVE_PROFILE_KEY)
+    : null;
+// Token the PIN of the active profile was exchanged for when it is locked; sent
+// along with its ID, so the PIN itself is never kept
+let activeProfileToken: string | null =
+  typeof window !== "undefined"
+    ? window.sessionStorage.getItem(ACTIVE_PROFILE_TOKEN_KEY)
+    : null;
+
+// Sets the profile API requests act for, with its unlock token when it is locked
+export function setActiveProfileId(
+  profileId: string | null,
+  unlockToken: string | null = null
+): void {
+  activeProfileId = profileId;
+  activeProfileToken = profileId ? unlockToken : null;
+  if (profileId) {
+    window.sessionStorage.setItem(ACTIVE_PROFILE_KEY, profileId);
+  } else {
+    window.sessionStorage.removeItem(ACTIVE_PROFILE_KEY);
+  }
+  if (activeProfileToken) {
+    window.sessionStorage.setItem(
+      ACTIVE_PROFILE_TOKEN_KEY,
+      activeProfileToken
+    );
+  } else {
+    window.sessionStorage.removeItem(ACTIVE_PROFILE_TOKEN_KEY);
+  }
+}
+
+export function getActiveProfileId(): string | null {
+  return activeProfileId;
+}
+
+// Gets the session token of the signed-in user; requests go out signed out without one
+let authTokenGetter: (() => Promise<string | null>) | null = null;
+
+// Sets how API requests get the session token the backend authenticates them with
+export function setAuthTokenGetter(
+  getter: (() => Promise<string | null>) | null
+): void {
+  authTokenGetter = getter;
+}
+
+// Headers identifying the signed-in user, if any, and the profile they picked
+async function authHeaders(): Promise<Record<string, string>> {
+  const token = authTokenGetter ? await authTokenGetter() : null;
+  if (!token) return {};
+  return {
+    Authorization: `Bearer ${token}`,
+    ...(activeProfileId && { "X-Profile-Id": activeProfileId }),
+    ...(activeProfileId &&
+      activeProfileToken && { "X-Profile-Token": activeProfileToken }),
+  };
+}
+
+// Header with the account's parental PIN, for changes to parental controls
+function parentalPinHeaders(parentalPin?: string): Record<string, string> {
+  return parentalPin ? { "X-Parental-Pin": parentalPin } : {};
+}
 
 // API Error class
 export class ApiError extends Error {
@@ -27,12 +134,14 @@ async function apiRequest<T>(
   const url = new URL(endpoint, baseUrl);
 
   const config: RequestInit = {
+    cache,
+    ...options,
     headers: {
       "Content-Type": "application/json",
+      ...(preferredLanguage && { "Accept-Language": preferredLanguage }),
+      ...(await authHeaders()),
       ...options.headers,
     },
-    cache,
-    ...options,
   };
 
   try {
@@ -47,6 +156,11 @@ async function apiRequest<T>(
       );
     }
 
+    // Nothing to parse, e.g. after a deletion
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
     return await response.json();
   } catch (error) {
     if (error instanceof ApiError) {
@@ -56,6 +170,15 @@ async function apiRequest<T>(
   }
 }
 
+// Query string for the identify search of a movie or series
+function identifyQuery(search: { query?: string; year?: number }): string {
+  const searchParams = new URLSearchParams();
+  if (search.query) searchParams.append("query", search.query);
+  if (search.year) searchParams.append("year", search.year.toString());
+  const query = searchParams.toString();
+  return query ? `?${query}` : "";
+}
+
 // Server-side data fetching functions
 export const serverApi = {
   movies: {
@@ -209,6 +332,37 @@ export const clientApi = {
       return apiRequest<Movie>(`/api/movies/${id}`, {}, "no-store", baseUrl);
     },
 
+    // Search TMDB for the correct match of a movie in the library
+    searchMatches: async (
+      baseUrl: string,
+      id: string,
+      search: { query?: string; year?: number } = {}
+    ): Promise<MatchCandidate[]> => {
+      return apiRequest<MatchCandidate[]>(
+        `/api/movies/${id}/identify${identifyQuery(search)}`,
+        {},
+        "no-store",
+        baseUrl
+      );
+    },
+
+    // Re-bind a movie to another TMDB entry
+    identify: async (
+      baseUrl: string,
+      id: string,
+      tmdbId: number
+    ): Promise<Movie> => {
+      return apiRequest<Movie>(
+        `/api/movies/${id}/identify`,
+        {
+          method: "POST",
+          body: JSON.stringify({ tmdbId }),
+        },
+        "no-store",
+        baseUrl
+      );
+    },
+
     // Search movies
     search: async (query: string, baseUrl: string): Promise<Movie[]> => {
       return apiRequest<Movie[]>(
@@ -275,6 +429,80 @@ export const clientApi = {
       return apiRequest<TvSeries>(`/api/series/${id}`, {}, "no-store", baseUrl);
     },
 
+    // Get the episodes of a series that aren't in the library, aired and upcoming
+    getEpisodeGuide: async (
+      baseUrl: string,
+      id: string
+    ): Promise<EpisodeGuideStatus> => {
+      return apiRequest<EpisodeGuideStatus>(
+        `/api/series/${id}/episode-guide`,
+        {},
+        "no-store",
+        baseUrl
+      );
+    },
+
+    // Get the series with aired episodes that aren't in the library
+    getMissingEpisodes: async (
+      baseUrl: string
+    ): Promise<Array<{ series: GuideSeries; missing: GuideEpisode[] }>> => {
+      return apiRequest(
+        "/api/series/missing-episodes",
+        {},
+        "no-store",
+        baseUrl
+      );
+    },
+
+    // Get the episodes airing in the coming days across the library
+    getUpcomingEpisodes: async (
+      baseUrl: string,
+      days?: number
+    ): Promise<Array<{ series: GuideSeries; episode: GuideEpisode }>> => {
+      return apiRequest(
+        `/api/series/upcoming-episodes${days ? `?days=${days}` : ""}`,
+        {},
+        "no-store",
+        baseUrl
+      );
+    },
+
+    // Search TMDB for the correct match of a series in the library
+    searchMatches: async (
+      baseUrl: string,
+      id: string,
+      search: { query?: string; year?: number } = {}
+    ): Promise<MatchCandidate[]> => {
+      return apiRequest<MatchCandidate[]>(
+        `/api/series/${id}/identify${identifyQuery(search)}`,
+        {},
+        "no-store",
+        baseUrl
+      );
+    },
+
+    // Re-bind a series to another TMDB entry; its episodes are rebuilt
+    identify: async (
+      baseUrl: string,
+      id: string,
+      tmdbId: number
+    ): Promise<{
+      series: TvSeries;
+      files: number;
+      removedEpisodes: number;
+      errors: number;
+    }> => {
+      return apiRequest(
+        `/api/series/${id}/identify`,
+        {
+          method: "POST",
+          body: JSON.stringify({ tmdbId }),
+        },
+        "no-store",
+        baseUrl
+      );
+    },
+
     // Search series
     search: async (query: string, baseUrl: string): Promise<TvSeries[]> => {
       return apiRequest<TvSeries[]>(
@@ -285,13 +513,13 @@ export const clientApi = {
       );
     },
 
-    // Get episodes by season
+    // Get a season with its episodes
     getEpisodesBySeason: async (
       seriesId: string,
       seasonNumber: number,
       baseUrl: string
-    ): Promise<Episode[]> => {
-      return apiRequest<Episode[]>(
+    ): Promise<Season> => {
+      return apiRequest<Season>(
         `/api/series/${seriesId}/season/${seasonNumber}`,
         {},
         "no-store",
@@ -336,26 +564,82 @@ export const clientApi = {
   },
 
   scanner: {
-    // Start manual scan
+    // Start a scan job (409 if one is already running)
     startScan: async (
-      baseUrl: string
-    ): Promise<{ message: string; scanId?: string }> => {
-      return apiRequest<{ message: string; scanId?: string }>(
-        "/api/scanner/scan",
+      baseUrl: string,
+      options: { fullRescan?: boolean } = {}
+    ): Promise<ScanJob> => {
+      return apiRequest<ScanJob>(
+        "/api/scanner/jobs",
         {
           method: "POST",
+          body: JSON.stringify({ fullRescan: options.fullRescan ?? false }),
         },
         "no-store",
         baseUrl
       );
     },
 
+    // List scan jobs, most recent first
+    getScanJobs: async (
+      baseUrl: string,
+      params?: { status?: ScanJobStatus; limit?: number }
+    ): Promise<ScanJob[]> => {
+      const searchParams = new URLSearchParams();
+      if (params?.status) searchParams.append("status", params.status);
+      if (params?.limit) searchParams.append("limit", params.limit.toString());
+
+      const query = searchParams.toString();
+      return apiRequest<ScanJob[]>(
+        `/api/scanner/jobs${query ? `?${query}` : ""}`,
+        {},
+        "no-store",
+        baseUrl
+      );
+    },
+
+    // Get a single scan job
+    getScanJob: async (baseUrl: string, id: string): Promise<ScanJob> => {
+      return apiRequest<ScanJob>(
+        `/api/scanner/jobs/${id}`,
+        {},
+        "no-store",
+        baseUrl
+      );
+    },
+
+    // Cancel a running scan job
+    cancelScanJob: async (baseUrl: string, id: string): Promise<ScanJob> => {
+      return apiRequest<ScanJob>(
+        `/api/scanner/jobs/${id}/cancel`,
+        {
+          method: "POST",
+        },
+        "no-store",
+        baseUrl
+      );
+    },
+
+    // URL of a scan job's SSE stream (for EventSource, which can't send the
+    // session token as a header, so it goes in the query string)
+    getScanJobEventsUrl: async (
+      baseUrl: string,
+      id: string
+    ): Promise<string> => {
+      const url = new URL(`/api/scanner/jobs/${id}/events`, baseUrl);
+      const token = authTokenGetter ? await authTokenGetter() : null;
+      if (token) url.searchParams.append("token", token);
+      return url.toString();
+    },
+
     // Add media folder
     addFolder: async (
       baseUrl: string,
       folderData: {
         path: string;
         type: "movies" | "series";
+        watch?: boolean;
+        metadataProviders?: string[];
       }
     ): Promise<MediaFolder> => {
       return apiRequest<MediaFolder>(
@@ -775,19 +1059,46 @@ export const clientApi = {
     },
   },
 
+  // Signed URLs of transcoded videos, handed out to viewers allowed to watch them
+  stream: {
+    // Signed URL of a movie's HLS playlist
+    getMovieUrl: async (baseUrl: string, id: string): Promise<string> => {
+      const { url } = await apiRequest<{ url: string }>(
+        `/api/stream/movies/${id}`,
+        {},
+        "no-store",
+        baseUrl
+      );
+      // Relative to the API's origin
+      return new URL(url, baseUrl).toString();
+    },
+
+    // Signed URL of an episode's HLS playlist
+    getEpisodeUrl: async (baseUrl: string, id: string): Promise<string> => {
+      const { url } = await apiRequest<{ url: string }>(
+        `/api/stream/episodes/${id}`,
+        {},
+        "no-store",
+        baseUrl
+      );
+      return new URL(url, baseUrl).toString();
+    },
+  },
+
+  // Progress of the signed-in user, who the backend takes from the session token
   progress: {
-    // Save video progress
+    // Save video progress; the duration lets the backend tell when it was finished
     saveProgress: async (
       baseUrl: string,
-      clerkId: string,
       tmdbId: string,
-      currentTime: number
+      currentTime: number,
+      duration?: number
     ): Promise<boolean> => {
       return apiRequest<boolean>(
-        `/api/progress`,
+        `/api/me/progress`,
         {
           method: "POST",
-          body: JSON.stringify({ clerkId, tmdbId, currentTime }),
+          body: JSON.stringify({ tmdbId, currentTime, duration }),
         },
         "no-store",
         baseUrl
@@ -797,12 +1108,11 @@ export const clientApi = {
     // Get progress for specific video
     getProgress: async (
       baseUrl: string,
-      clerkId: string,
       tmdbId: string
-    ): Promise<{ currentTime: number; updatedAt: string } | null> => {
+    ): Promise<PlaybackState | null> => {
       try {
-        return await apiRequest<{ currentTime: number; updatedAt: string }>(
-          `/api/progress/${clerkId}/${tmdbId}`,
+        return await apiRequest<PlaybackState>(
+          `/api/me/progress/${tmdbId}`,
           {},
           "no-store",
           baseUrl
@@ -815,30 +1125,28 @@ export const clientApi = {
       }
     },
 
-    // Get all progress for a user
-    getAllProgress: async (
-      baseUrl: string,
-      clerkId: string
-    ): Promise<
-      Array<{ tmdbId: string; currentTime: number; updatedAt: string }>
-    > => {
-      return apiRequest<
-        Array<{ tmdbId: string; currentTime: number; updatedAt: string }>
-      >(`/api/progress/${clerkId}`, {}, "no-store", baseUrl);
+    // Get all progress of the signed-in user
+    getAllProgress: async (baseUrl: string): Promise<PlaybackState[]> => {
+      return apiRequest<PlaybackState[]>(
+        `/api/me/progress`,
+        {},
+        "no-store",
+        baseUrl
+      );
     },
 
     // Delete progress
     deleteProgress: async (
       baseUrl: string,
-      clerkId: string,
       tmdbId: string
     ): Promise<boolean> => {
-      const url = new URL(`/api/progress/${clerkId}/${tmdbId}`, baseUrl);
+      const url = new URL(`/api/me/progress/${tmdbId}`, baseUrl);
 
       const config: RequestInit = {
         method: "DELETE",
         headers: {
           "Content-Type": "application/json",
+          ...(await authHeaders()),
         },
         cache: "no-store",
       };
@@ -866,19 +1174,19 @@ export const clientApi = {
     },
 
     // Series Progress Functions
-    // Save series progress (invalidates previous)
+    // Save series progress, which becomes the series' current progress
     saveSeriesProgress: async (
       baseUrl: string,
-      clerkId: string,
       seriesId: string,
       tmdbId: string,
-      currentTime: number
+      currentTime: number,
+      duration?: number
     ): Promise<boolean> => {
       return apiRequest<boolean>(
-        `/api/progress/series`,
+        `/api/me/series-progress`,
         {
           method: "POST",
-          body: JSON.stringify({ clerkId, seriesId, tmdbId, currentTime }),
+          body: JSON.stringify({ seriesId, tmdbId, currentTime, duration }),
         },
         "no-store",
         baseUrl
@@ -888,26 +1196,11 @@ export const clientApi = {
     // Get current series progress (latest episode)
     getSeriesProgress: async (
       baseUrl: string,
-      clerkId: string,
       seriesId: string
-    ): Promise<{
-      tmdbId: string;
-      currentTime: number;
-      updatedAt: string;
-      episodeTitle?: string;
-      seasonNumber?: number;
-      episodeNumber?: number;
-    } | null> => {
+    ): Promise<PlaybackState | null> => {
       try {
-        return await apiRequest<{
-          tmdbId: string;
-          currentTime: number;
-          updatedAt: string;
-          episodeTitle?: string;
-          seasonNumber?: number;
-          episodeNumber?: number;
-        }>(
-          `/api/progress/series/${clerkId}/${seriesId}`,
+        return await apiRequest<PlaybackState>(
+          `/api/me/series-progress/${seriesId}`,
           {},
           "no-store",
           baseUrl
@@ -920,49 +1213,28 @@ export const clientApi = {
       }
     },
 
-    // Get all series progress for user
-    getAllSeriesProgress: async (
-      baseUrl: string,
-      clerkId: string
-    ): Promise<
-      Array<{
-        seriesId: string;
-        tmdbId: string;
-        currentTime: number;
-        updatedAt: string;
-        episodeTitle?: string;
-        seasonNumber?: number;
-        episodeNumber?: number;
-      }>
-    > => {
-      return apiRequest<
-        Array<{
-          seriesId: string;
-          tmdbId: string;
-          currentTime: number;
-          updatedAt: string;
-          episodeTitle?: string;
-          seasonNumber?: number;
-          episodeNumber?: number;
-        }>
-      >(`/api/progress/series/${clerkId}`, {}, "no-store", baseUrl);
+    // Get all series progress of the signed-in user
+    getAllSeriesProgress: async (baseUrl: string): Promise<PlaybackState[]> => {
+      return apiRequest<PlaybackState[]>(
+        `/api/me/series-progress`,
+        {},
+        "no-store",
+        baseUrl
+      );
     },
 
     // Delete all progress for a series
     deleteSeriesProgress: async (
       baseUrl: string,
-      clerkId: string,
       seriesId: string
     ): Promise<boolean> => {
-      const url = new URL(
-        `/api/progress/series/${clerkId}/${seriesId}`,
-        baseUrl
-      );
+      const url = new URL(`/api/me/series-progress/${seriesId}`, baseUrl);
 
       const config: RequestInit = {
         method: "DELETE",
         headers: {
           "Content-Type": "application/json",
+          ...(await authHeaders()),
         },
         cache: "no-store",
       };
@@ -990,6 +1262,207 @@ export const clientApi = {
     },
   },
 
+  preferences: {
+    // Languages metadata is available in, English first
+    getLanguages: async (baseUrl: string): Promise<string[]> => {
+      const response = await apiRequest<{ languages: string[] }>(
+        "/api/preferences/languages",
+        {},
+        "no-store",
+        baseUrl
+      );
+      return response.languages;
+    },
+
+    // Get the preferences of the active profile, or of the user without one
+    get: async (baseUrl: string): Promise<UserPreferences> => {
+      return apiRequest<UserPreferences>(
+        "/api/me/preferences",
+        {},
+        "no-store",
+        baseUrl
+      );
+    },
+
+    // Update the preferences of the active profile, or of the user without one
+    update: async (
+      baseUrl: string,
+      preferences: UserPreferences
+    ): Promise<UserPreferences> => {
+      return apiRequest<UserPreferences>(
+        "/api/me/preferences",
+        {
+          method: "PUT",
+          body: JSON.stringify(preferences),
+        },
+        "no-store",
+        baseUrl
+      );
+    },
+  },
+
+  // Profiles of the household sharing the signed-in account
+  profiles: {
+    // List the profiles, oldest first
+    getAll: async (baseUrl: string): Promise<Profile[]> => {
+      return apiRequest<Profile[]>("/api/me/profiles", {}, "no-store", baseUrl);
+    },
+
+    // Add a profile; the first one takes over progress saved without one
+    create: async (
+      baseUrl: string,
+      profile: ProfileInput,
+      parentalPin?: string
+    ): Promise<Profile> => {
+      return apiRequest<Profile>(
+        "/api/me/profiles",
+        {
+          method: "POST",
+          body: JSON.stringify(profile),
+          headers: parentalPinHeaders(parentalPin),
+        },
+        "no-store",
+        baseUrl
+      );
+    },
+
+    // Update a profile; its maturity limit and PIN take the parental PIN
+    update: async (
+      baseUrl: string,
+      id: string,
+      profile: Partial<ProfileInput>,
+      parentalPin?: string
+    ): Promise<Profile> => {
+      return apiRequest<Profile>(
+        `/api/me/profiles/${id}`,
+        {
+          method: "PATCH",
+          body: JSON.stringify(profile),
+          headers: parentalPinHeaders(parentalPin),
+        },
+        "no-store",
+        baseUrl
+      );
+    },
+
+    // Exchange the PIN of a locked profile for the token that unlocks it
+    unlock: async (
+      baseUrl: string,
+      id: string,
+      pin: string
+    ): Promise<string> => {
+      const { token } = await apiRequest<{ token: string; expiresAt: string }>(
+        `/api/me/profiles/${id}/unlock`,
+        {
+          method: "POST",
+          body: JSON.stringify({ pin }),
+        },
+        "no-store",
+        baseUrl
+      );
+      return token;
+    },
+
+    // Delete a profile along with its progress
+    delete: async (
+      baseUrl: string,
+      id: string,
+      parentalPin?: string
+    ): Promise<void> => {
+      await apiRequest<void>(
+        `/api/me/profiles/${id}`,
+        { method: "DELETE", headers: parentalPinHeaders(parentalPin) },
+        "no-store",
+        baseUrl
+      );
+    },
+  },
+
+  // Maturity limit applied without a profile, and the parental PIN
+  parentalControls: {
+    get: async (baseUrl: string): Promise<ParentalControls> => {
+      return apiRequest<ParentalControls>(
+        "/api/me/parental-controls",
+        {},
+        "no-store",
+        baseUrl
+      );
+    },
+
+    // Change them; takes the current parental PIN when one is set
+    update: async (
+      baseUrl: string,
+      controls: ParentalControlsInput,
+      parentalPin?: string
+    ): Promise<ParentalControls> => {
+      return apiRequest<ParentalControls>(
+        "/api/me/parental-controls",
+        {
+          method: "PUT",
+          body: JSON.stringify(controls),
+          headers: parentalPinHeaders(parentalPin),
+        },
+        "no-store",
+        baseUrl
+      );
+    },
+  },
+
+  people: {
+    // Get a person with their biography
+    get: async (baseUrl: string, id: string): Promise<Person> => {
+      return apiRequest<Person>(`/api/people/${id}`, {}, "no-store", baseUrl);
+    },
+
+    // Get a person's credits on movies and series in the library
+    getCredits: async (baseUrl: string, id: string): Promise<PersonCredits> => {
+      return apiRequest<PersonCredits>(
+        `/api/people/${id}/credits`,
+        {},
+        "no-store",
+        baseUrl
+      );
+    },
+  },
+
+  collections: {
+    // Get the collections with movies in the library
+    getAll: async (baseUrl: string): Promise<CollectionSummary[]> => {
+      return apiRequest<CollectionSummary[]>(
+        "/api/collections",
+        {},
+        "no-store",
+        baseUrl
+      );
+    },
+
+    // Get a collection with all of its parts, owned or not
+    getById: async (
+      baseUrl: string,
+      id: string
+    ): Promise<CollectionDetails> => {
+      return apiRequest<CollectionDetails>(
+        `/api/collections/${id}`,
+        {},
+        "no-store",
+        baseUrl
+      );
+    },
+
+    // Get the next movie of each collection the active profile has watched
+    // part of
+    getContinuations: async (
+      baseUrl: string
+    ): Promise<CollectionContinuation[]> => {
+      return apiRequest<CollectionContinuation[]>(
+        "/api/me/collections/continue",
+        {},
+        "no-store",
+        baseUrl
+      );
+    },
+  },
+
   storage: {
     // Get storage statistics
     getStats: async (): Promise<{
@@ -1051,13 +1524,16 @@ export const clientApi = {
   },
 
   utils: {
-    // Get TMDB image URL
-    getTmdbImageUrl: (
-      path: string,
-      size: "w300" | "w500" | "w780" | "original" = "w500"
-    ): string => {
+    // Get the URL of an image in the backend's image store, resized to the width
+    getImageUrl: (path: string, width?: number): string => {
       if (!path) return "/placeholder.svg?height=750&width=500";
-      return `https://image.tmdb.org/t/p/${size}${path}`;
+      // Local artwork (poster.jpg/fanart.jpg next to the media) is served by the backend
+      if (path.startsWith("/api/artwork/")) {
+        return new URL(path, API_BASE_URL).toString();
+      }
+      const url = new URL(`/api/images${path}`, API_BASE_URL);
+      if (width) url.searchParams.set("w", String(width));
+      return url.toString();
     },
 
     // Format file size
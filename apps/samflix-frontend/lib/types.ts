@@ -42,6 +42,10 @@ export interface Movie {
   rip?: string;
   sound?: string;
   provider?: string;
+  videoCodec?: string;
+  hdr: string[];
+  edition?: string;
+  part?: number;
   overview?: string;
   posterPath?: string;
   backdropPath?: string;
@@ -51,6 +55,10 @@ export interface Movie {
   releaseDate: string; // Maps to Prisma's releaseDate DateTime
   transcodeStatus: TranscodeStatus;
   playPath: string;
+  collectionId?: string | null; // The TMDB collection (franchise) the movie belongs to
+  certifications?: Certification[]; // Age ratings per country
+  cast?: CreditSummary[]; // Only on the detail response
+  crew?: CreditSummary[];
   createdAt: string;
   updatedAt: string;
 }
@@ -63,15 +71,27 @@ export interface TvSeries {
   posterPath?: string;
   backdropPath?: string;
   genres: string[];
+  rating?: number;
   firstAirDate?: string;
   lastAirDate?: string;
   status?: string;
   episodes: Episode[];
+  seasons?: Season[]; // Seasons with episodes in the library; on the list and detail responses
   transcodeStatus: TranscodeStatus;
+  certifications?: Certification[]; // Age ratings per country
+  cast?: CreditSummary[]; // Only on the detail response
+  crew?: CreditSummary[];
   createdAt: string;
   updatedAt: string;
 }
 
+// The age rating a movie or series has in a country
+export interface Certification {
+  country: string; // ISO 3166-1 code, e.g. "US"
+  rating: string; // e.g. "PG-13" or "TV-MA"
+  minimumAge: number | null; // null for ratings without a known age
+}
+
 export interface Episode {
   id: string;
   tmdbId: number;
@@ -86,6 +106,11 @@ export interface Episode {
   rip?: string;
   sound?: string;
   provider?: string;
+  videoCodec?: string;
+  hdr: string[];
+  edition?: string;
+  startOffset?: number | null; // Seconds into a multi-episode file where this episode starts
+  endOffset?: number | null;
   airDate?: string;
   seriesId: string;
   transcodeStatus: TranscodeStatus;
@@ -94,39 +119,274 @@ export interface Episode {
   updatedAt: string;
 }
 
+// A cast or crew member as listed on a movie or series
+export interface CreditSummary {
+  personId: string;
+  name: string;
+  profilePath: string | null;
+  character: string | null; // Set for cast
+  job: string | null; // Set for crew, e.g. "Director"
+  department: string | null;
+}
+
+export interface Person {
+  id: string;
+  tmdbId: number;
+  name: string;
+  profilePath: string | null;
+  knownForDepartment: string | null;
+  biography: string | null;
+  birthday: string | null;
+  deathday: string | null;
+  placeOfBirth: string | null;
+}
+
+// A person's credit on a movie or series in the library
+export interface PersonCredit {
+  character: string | null;
+  job: string | null;
+  department: string | null;
+  movie: Movie | null;
+  series: TvSeries | null;
+}
+
+export interface PersonCredits {
+  cast: PersonCredit[];
+  crew: PersonCredit[];
+}
+
+// A TMDB collection (franchise) with movies in the library
+export interface Collection {
+  id: string;
+  tmdbId: number;
+  name: string;
+  overview: string | null;
+  posterPath: string | null;
+  backdropPath: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CollectionSummary extends Collection {
+  ownedCount: number; // Parts in the library
+  partCount: number; // All parts TMDB lists
+}
+
+// A part of a collection; movie is null when it isn't in the library
+export interface CollectionPart {
+  tmdbId: number;
+  title: string;
+  overview: string | null;
+  posterPath: string | null;
+  releaseDate: string | null;
+  movie: Movie | null;
+}
+
+export interface CollectionDetails extends Collection {
+  parts: CollectionPart[]; // In release order
+}
+
+// The next movie of a collection the user has watched part of
+export interface CollectionContinuation {
+  collection: Collection;
+  movie: Movie;
+}
+
 export interface MediaFolder {
   id: string;
   path: string;
   type: string; // "movies" or "series" - matches Prisma String type
   active: boolean;
+  watch: boolean; // Ingest changes as they happen instead of waiting for scans
+  metadataProviders: string[]; // Providers asked in order, e.g. ["nfo", "tmdb"]; TMDB only when empty
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * How well a TMDB candidate on a scanning conflict fits the file
+ */
+export interface MatchScore {
+  score: number; // 0 to 1; candidates are stored best first
+  signals: {
+    title: number;
+    matchedTitle: string;
+    year: number | null;
+    runtime: number | null;
+    popularity: number;
+  };
+  reasons: string[];
+}
+
+/**
+ * A TMDB search result scored against a library file, as returned by the identify search
+ */
+export interface MatchCandidate extends MatchScore {
+  id: number;
+  title?: string; // Movies
+  name?: string; // Series
+  release_date?: string;
+  first_air_date?: string;
+  overview: string;
+  poster_path: string | null;
+  vote_average?: number;
+}
+
 export interface ScanningConflict {
   id: string;
   fileName: string;
   filePath: string;
   mediaType: string; // "movie" or "series" - matches Prisma String type
-  possibleMatches: any; // Maps to Prisma's Json type
+  possibleMatches: any; // Maps to Prisma's Json type; TMDB results with a MatchScore
   resolved: boolean;
   selectedId?: number;
   createdAt: string;
   updatedAt: string;
 }
 
+export enum ScanJobStatus {
+  QUEUED = "QUEUED",
+  RUNNING = "RUNNING",
+  COMPLETED = "COMPLETED",
+  FAILED = "FAILED",
+  CANCELLED = "CANCELLED",
+}
+
+export interface FolderScanProgress {
+  path: string;
+  type: "movies" | "series";
+  status: "pending" | "scanning" | "completed" | "failed";
+  filesTotal: number;
+  filesProcessed: number;
+  skipped: number;
+  added: number;
+  conflicts: number;
+  errors: number;
+}
+
+export interface ScanError {
+  path: string;
+  message: string;
+  at: string;
+}
+
+export interface ScanJob {
+  id: string;
+  status: ScanJobStatus;
+  trigger: "manual" | "scheduled";
+  fullRescan: boolean;
+  progress: number;
+  message?: string;
+  folders: FolderScanProgress[];
+  filesScanned: number;
+  filesSkipped: number;
+  moviesAdded: number;
+  episodesAdded: number;
+  conflicts: number;
+  removedMovies: number;
+  removedEpisodes: number;
+  removedSeries: number;
+  errors: ScanError[];
+  cancelRequested: boolean;
+  startedAt?: string;
+  finishedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Event sent on a scan job's SSE stream
+export interface ScanJobEvent {
+  jobId: string;
+  status: ScanJobStatus;
+  progress: number;
+  message: string | null;
+  details?: {
+    path?: string;
+    current?: number;
+    total?: number;
+    title?: string;
+    [key: string]: any;
+  };
+  summary?: Pick<
+    ScanJob,
+    | "folders"
+    | "filesScanned"
+    | "filesSkipped"
+    | "moviesAdded"
+    | "episodesAdded"
+    | "conflicts"
+    | "removedMovies"
+    | "removedEpisodes"
+    | "removedSeries"
+    | "errors"
+  >;
+  complete: boolean;
+}
+
 export interface User {
   id: string;
   clerkId: string;
   email: string;
   name?: string;
   imageUrl?: string;
+  preferredLanguage?: string | null;
   role: Role;
   createdAt: string;
   updatedAt: string;
   userStats?: UserStats;
 }
 
+// Where the viewer is in a movie or episode, from their watch history
+export interface PlaybackState {
+  tmdbId: string; // The movie's or episode's ID
+  seriesId?: string; // Set for episodes
+  currentTime: number;
+  duration: number | null;
+  completed: boolean; // Whether the latest play reached the end
+  completedAt: string | null;
+  playCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Settings a user can change themselves
+export interface UserPreferences {
+  preferredLanguage: string | null; // null asks in the browser's language
+}
+
+// A member of a household sharing an account, with their own progress
+export interface Profile {
+  id: string;
+  name: string;
+  avatar: string | null; // Key of one of PROFILE_AVATARS
+  maturityLimit: number | null; // Highest minimum age of content they may watch
+  preferredLanguage: string | null; // null asks in the browser's language
+  hasPin: boolean; // Locked profiles are picked with their PIN
+  userId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// The fields of a profile that can be changed
+export type ProfileInput = Pick<
+  Profile,
+  "name" | "avatar" | "maturityLimit" | "preferredLanguage"
+> & {
+  pin?: string | null; // null unlocks the profile; left as is when unset
+};
+
+// Parental controls of the signed-in account
+export interface ParentalControls {
+  maturityLimit: number | null; // Applies when no profile is picked
+  hasPin: boolean; // Changes to maturity limits and profiles take the PIN
+}
+
+export type ParentalControlsInput = Partial<
+  Pick<ParentalControls, "maturityLimit">
+> & {
+  pin?: string | null; // null removes the parental PIN
+};
+
 export interface UserStats {
   id: string;
   userId: string;
@@ -136,6 +396,32 @@ export interface UserStats {
 }
 
 export interface Season {
+  id?: string | null; // Season metadata is null until the series' seasons are synced
   seasonNumber: number;
+  name?: string | null;
+  overview?: string | null;
+  posterPath?: string | null;
+  airDate?: string | null;
   episodes: Episode[];
 }
+
+// An episode TMDB lists for a series that isn't in the library
+export interface GuideEpisode {
+  seasonNumber: number;
+  episodeNumber: number;
+  title: string | null;
+  airDate: string | null; // null until TMDB announces it
+}
+
+export interface EpisodeGuideStatus {
+  missing: GuideEpisode[]; // Aired, in season order
+  upcoming: GuideEpisode[]; // Soonest first; undated ones last
+}
+
+// A series as listed next to its missing or upcoming episodes
+export interface GuideSeries {
+  id: string;
+  title: string;
+  overview: string | null;
+  posterPath: string | null;
+}
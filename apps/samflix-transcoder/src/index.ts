@@ -106,6 +106,10 @@ async function main() {
 
         let seriesHasFailures = false;
 
+        // Multi-episode files have a row per episode; the file is transcoded once,
+        // with the first episode, and the rest share its output (null when it failed)
+        const transcodedFiles = new Map<string, string | null>();
+
         // Process each episode in the series
         for (const [episodeIndex, episode] of series.episodes.entries()) {
           console.log(
@@ -114,10 +118,30 @@ async function main() {
             )
           );
 
+          if (transcodedFiles.has(episode.filePath)) {
+            const sharedPlayPath = transcodedFiles.get(episode.filePath);
+            if (sharedPlayPath) {
+              console.log("Episode shares an already transcoded file.");
+              await dbOperations.updateEpisodeTranscodeStatus(
+                episode.id,
+                TranscodeStatus.COMPLETED
+              );
+              await dbOperations.updateEpisodePlayPath(episode.id, sharedPlayPath);
+            } else {
+              await dbOperations.updateEpisodeTranscodeStatus(
+                episode.id,
+                TranscodeStatus.FAILED
+              );
+              seriesHasFailures = true;
+            }
+            continue;
+          }
+
           const parsedPath = parseFilePath(toWindowsPath(episode.filePath));
           const exists = await fileExists(parsedPath);
           if (!exists) {
             console.log("Episode file does not exist.");
+            transcodedFiles.set(episode.filePath, null);
             await dbOperations.updateEpisodeTranscodeStatus(
               episode.id,
               TranscodeStatus.FAILED
@@ -162,6 +186,7 @@ async function main() {
                 TranscodeStatus.COMPLETED
               );
               await dbOperations.updateEpisodePlayPath(episode.id, playPath);
+              transcodedFiles.set(episode.filePath, playPath);
 
               // Invalidate cache for already transcoded episode
               await invalidateCache();
@@ -179,11 +204,13 @@ async function main() {
               TranscodeStatus.COMPLETED
             );
             await dbOperations.updateEpisodePlayPath(episode.id, playPath);
+            transcodedFiles.set(episode.filePath, playPath);
 
             // Invalidate cache after successful episode transcode
             await invalidateCache();
           } catch (error) {
             console.error("Error transcoding episode:", error);
+            transcodedFiles.set(episode.filePath, null);
             await dbOperations.updateEpisodeTranscodeStatus(
               episode.id,
               TranscodeStatus.FAILED
@@ -6,17 +6,25 @@ interface CacheInvalidationResponse {
 
 export async function invalidateCache(): Promise<void> {
   const baseUrl = process.env.BASE_URL;
+  // Shared with the backend, which only lets admins and services holding it clear its cache
+  const serviceToken = process.env.SERVICE_TOKEN;
   
   if (!baseUrl) {
     console.warn("BASE_URL not found in environment variables. Skipping cache invalidation.");
     return;
   }
 
+  if (!serviceToken) {
+    console.warn("SERVICE_TOKEN not found in environment variables. Skipping cache invalidation.");
+    return;
+  }
+
   try {
     const response = await fetch(`${baseUrl}/api/progress/invalidate-cache`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'X-Service-Token': serviceToken,
       },
     });
 